@@ -3,11 +3,14 @@ import { BottomTabBar } from "@react-navigation/bottom-tabs";
 import { Redirect, Tabs } from "expo-router";
 import FontAwesome from "@expo/vector-icons/FontAwesome";
 import type { BottomTabBarProps } from "@react-navigation/bottom-tabs";
+import { useEffect } from "react";
 
+import { InFlightTransfersIndicator } from "@/components/InFlightTransfers";
 import { useColorScheme } from "@/components/useColorScheme";
 import Colors from "@/constants/Colors";
 import { TickerProvider } from "@/hooks/useDeepBookMargin";
 import { NetworkProvider, useNetwork } from "@/lib/network";
+import { startTransferTracker } from "@/lib/transfer-tracker";
 
 function TabBarIcon(props: {
   name: React.ComponentProps<typeof FontAwesome>["name"];
@@ -70,10 +73,18 @@ function AppTabs() {
   const colorScheme = useColorScheme();
   const { currentNetwork } = useNetwork();
 
+  // Resume LI.FI status polling for transfers sent before the app was closed.
+  useEffect(() => startTransferTracker(), []);
+
   return (
     <Tabs
       key={currentNetwork.id}
-      tabBar={(props) => <FilteredTabBar {...props} />}
+      tabBar={(props) => (
+        <>
+          <InFlightTransfersIndicator />
+          <FilteredTabBar {...props} />
+        </>
+      )}
       screenOptions={{
         tabBarActiveTintColor: Colors[colorScheme ?? "light"].tint,
         headerShown: false,
@@ -25,6 +25,12 @@ import {
 } from "react-native";
 import QRCode from "react-native-qrcode-svg";
 
+import {
+  confirmQuoteAnalysis,
+  QuoteAnalysisNotice,
+} from "@/components/QuoteAnalysisNotice";
+import { SwapSlippageSelector } from "@/components/SwapSlippageSelector";
+import { useTxPreviewSheet } from "@/components/TxPreviewSheet";
 import { useColorScheme } from "@/components/useColorScheme";
 import Colors from "@/constants/Colors";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
@@ -39,8 +45,18 @@ import {
   type SubdomainStatus,
 } from "@/lib/ens-subdomain-base";
 import { getRecipientPreferredTokenAddressAndNetworkId } from "@/lib/preferred-chains-tokens";
-import { fetchLifiQuote, fetchLifiStatus, type LifiStatusResponse } from "@/lib/lifi-quote";
-import { isBaseMainnet, NETWORKS, useNetwork } from "@/lib/network";
+import { fetchLifiQuote } from "@/lib/lifi-quote";
+import { analyzeLifiQuote, type LifiQuoteAnalysis } from "@/lib/lifi-quote-analysis";
+import { errorMessageWithCode } from "@/lib/api-error";
+import {
+  getSuiNetwork,
+  isBaseMainnet,
+  NETWORKS,
+  useNetwork,
+} from "@/lib/network";
+import { isTxCancelled, TX_CANCELLED_MESSAGE } from "@/lib/simulate-via-backend";
+import { slippageBpsToFraction, useSwapSlippageBps } from "@/lib/swap-settings";
+import { trackTransfer, useTrackedTransfer } from "@/lib/transfer-tracker";
 import {
   fetchAllBaseBalances,
   type BaseNetworkId,
@@ -160,6 +176,11 @@ export default function HomeScreen() {
   const { createWallet: createPrivyWallet } = useCreateWallet();
 
   const { currentNetwork, setCurrentNetworkId } = useNetwork();
+  const suiNetwork = getSuiNetwork(currentNetwork);
+  const { confirmTx, sheet: txPreviewSheet } = useTxPreviewSheet(
+    process.env.EXPO_PUBLIC_API_URL ?? "http://localhost:3001",
+    suiNetwork
+  );
 
   // Ethereum wallet: re-add when needed — useEmbeddedEthereumWallet(), state: address, loading, createError, and a useEffect that creates/fetches wallet when wallets.length changes (see git history for full snippet).
 
@@ -225,7 +246,11 @@ export default function HomeScreen() {
   const [baseSendSuccess, setBaseSendSuccess] = useState<string | null>(null);
   const [baseSendTxHash, setBaseSendTxHash] = useState<string | null>(null);
   const [baseSendIsCrossChain, setBaseSendIsCrossChain] = useState(false);
-  const [baseSendLifiStatus, setBaseSendLifiStatus] = useState<LifiStatusResponse | null>(null);
+  const baseSendLifiStatus =
+    useTrackedTransfer(baseSendIsCrossChain ? baseSendTxHash : null)?.status ?? null;
+  /** Cost breakdown of the last LI.FI quote for a send to a Ghostwater name. */
+  const [baseSendQuoteAnalysis, setBaseSendQuoteAnalysis] = useState<LifiQuoteAnalysis | null>(null);
+  const { slippageBps: swapSlippageBps } = useSwapSlippageBps();
   const [baseTxHashCopied, setBaseTxHashCopied] = useState(false);
   const [baseQrVisible, setBaseQrVisible] = useState(false);
   const [baseSendTokenPickerVisible, setBaseSendTokenPickerVisible] = useState(false);
@@ -283,7 +308,7 @@ export default function HomeScreen() {
     if (!suiAddress) return;
     setBalanceError(null);
     setBalanceLoading(true);
-    fetchAllSuiBalances(suiAddress)
+    fetchAllSuiBalances(suiAddress, suiNetwork)
       .then(setAllBalances)
       .catch((err) => {
         setBalanceError(
@@ -292,7 +317,7 @@ export default function HomeScreen() {
         setAllBalances([]);
       })
       .finally(() => setBalanceLoading(false));
-  }, [suiAddress]);
+  }, [suiAddress, suiNetwork]);
 
   const refetchBaseBalances = useCallback(() => {
     const isBase =
@@ -500,52 +525,6 @@ export default function HomeScreen() {
     return () => clearInterval(id);
   }, [evmAddress, currentNetwork.id, refetchBaseBalances]);
 
-  // Poll LI.FI status for cross-chain sends until DONE/FAILED or timeout
-  const fromChainIdForStatus = currentNetwork.evmChainId
-    ? parseInt(currentNetwork.evmChainId, 16)
-    : undefined;
-  useEffect(() => {
-    if (!baseSendTxHash || !baseSendIsCrossChain) return;
-
-    let notFoundCount = 0;
-    const maxNotFound = 10;
-    const pollMs = 6000;
-    const maxPolls = 50;
-
-    const poll = async () => {
-      try {
-        const status = await fetchLifiStatus(baseSendTxHash!, fromChainIdForStatus);
-        setBaseSendLifiStatus(status);
-        if (status.status === "NOT_FOUND") {
-          notFoundCount += 1;
-          if (notFoundCount >= maxNotFound) return true;
-        } else {
-          notFoundCount = 0;
-          if (status.status === "DONE" || status.status === "FAILED") return true;
-        }
-      } catch {
-        // keep polling on network error
-      }
-      return false;
-    };
-
-    let pollCount = 0;
-    const id = setInterval(async () => {
-      pollCount += 1;
-      if (pollCount > maxPolls) {
-        clearInterval(id);
-        return;
-      }
-      const done = await poll();
-      if (done) clearInterval(id);
-    }, pollMs);
-
-    // initial fetch
-    poll();
-
-    return () => clearInterval(id);
-  }, [baseSendTxHash, baseSendIsCrossChain, fromChainIdForStatus]);
-
   // Refresh when screen gains focus (e.g. tab switch back to Home)
   useFocusEffect(
     useCallback(() => {
@@ -942,6 +921,7 @@ export default function HomeScreen() {
       setBaseSendError(null);
       setBaseSendSuccess(null);
       setBaseSendTxHash(null);
+      setBaseSendQuoteAnalysis(null);
       setBaseSendLoading(true);
       try {
         const provider = await (embeddedEthWallet as any).getProvider();
@@ -1099,7 +1079,6 @@ export default function HomeScreen() {
           );
           setBaseSendTxHash(hashStr);
           setBaseSendIsCrossChain(false);
-          setBaseSendLifiStatus(null);
           setBaseAmount("");
           setBaseDestinationInput("");
           setBaseDestinationAddress(null);
@@ -1117,7 +1096,7 @@ export default function HomeScreen() {
           fromAmount: amountRaw.toString(),
           fromAddress: evmAddress,
           toAddress: toAddressParam ?? recipient,
-          slippage: 0.005,
+          slippage: slippageBpsToFraction(swapSlippageBps),
         })) as {
           transactionRequest?: {
             to?: string;
@@ -1134,6 +1113,12 @@ export default function HomeScreen() {
 
         console.log("[Send Base] LI.FI quote result:", quoteResult);
 
+        const quoteAnalysis = analyzeLifiQuote(quoteResult);
+        setBaseSendQuoteAnalysis(quoteAnalysis);
+        if (!(await confirmQuoteAnalysis(quoteAnalysis, "Send"))) {
+          return;
+        }
+
         const txRequest = quoteResult?.transactionRequest;
         if (!txRequest?.to || !txRequest?.data) {
           setBaseSendError("No transaction returned from route. Try a different amount or token.");
@@ -1215,7 +1200,12 @@ export default function HomeScreen() {
         );
         setBaseSendTxHash(hashStr);
         setBaseSendIsCrossChain(true);
-        setBaseSendLifiStatus(null);
+        void trackTransfer({
+          txHash: hashStr,
+          fromChainId,
+          kind: "send",
+          label: `Send to ${rawInput}`,
+        });
         setBaseAmount("");
         setBaseDestinationInput("");
         setBaseDestinationAddress(null);
@@ -1317,7 +1307,6 @@ export default function HomeScreen() {
       );
       setBaseSendTxHash(hashStr);
       setBaseSendIsCrossChain(false);
-      setBaseSendLifiStatus(null);
       setBaseAmount("");
       setBaseDestinationInput("");
       setBaseDestinationAddress(null);
@@ -1343,6 +1332,7 @@ export default function HomeScreen() {
     selectedBaseToken,
     baseBalances,
     refetchBaseBalances,
+    swapSlippageBps,
   ]);
 
   const handleClaimSubdomain = useCallback(async () => {
@@ -1607,18 +1597,19 @@ export default function HomeScreen() {
           amountMist: String(amountRaw),
           signRawHash,
           publicKeyHex,
-          network: "mainnet",
+          confirmBeforeSign: confirmTx,
+          network: suiNetwork,
         });
         setSendSuccess(`Transaction sent. Txn hash: ${digest}`);
         setDestinationAddress("");
         setAmount("");
         setAmountExceedsBalance(false);
-        fetchAllSuiBalances(suiAddress)
+        fetchAllSuiBalances(suiAddress, suiNetwork)
           .then(setAllBalances)
           .catch(() => {});
       } else {
         const SuiTransfer = await import("../../lib/sui-transfer");
-        const client = SuiTransfer.getSuiClient("mainnet");
+        const client = SuiTransfer.getSuiClient(suiNetwork);
         const tx = await SuiTransfer.buildTransferAmountTx(
           client,
           suiAddress,
@@ -1627,6 +1618,9 @@ export default function HomeScreen() {
           amountRaw
         );
         const txBytes = await tx.build({ client });
+        if (!(await confirmTx(btoa(String.fromCharCode(...txBytes))))) {
+          throw new Error(TX_CANCELLED_MESSAGE);
+        }
         const publicKeyBytes =
           typeof publicKeyRaw === "string"
             ? SuiTransfer.decodePublicKeyToRawBytes(publicKeyRaw)
@@ -1648,12 +1642,13 @@ export default function HomeScreen() {
         setDestinationAddress("");
         setAmount("");
         setAmountExceedsBalance(false);
-        fetchAllSuiBalances(suiAddress)
+        fetchAllSuiBalances(suiAddress, suiNetwork)
           .then(setAllBalances)
           .catch(() => {});
       }
     } catch (err) {
-      const msg = err instanceof Error ? err.message : "Send failed";
+      if (isTxCancelled(err)) return;
+      const msg = errorMessageWithCode(err, "Send failed");
       // Only show "use web" when on web and the SDK crashed (prototype). On native, show the real error (e.g. backend unreachable).
       const useWebMessage =
         Platform.OS === "web" &&
@@ -1672,6 +1667,8 @@ export default function HomeScreen() {
     destinationAddress,
     suiWalletPublicKey,
     signRawHash,
+    confirmTx,
+    suiNetwork,
   ]);
 
   const insets = useSafeAreaInsets();
@@ -2641,7 +2638,7 @@ export default function HomeScreen() {
                 setBaseSendSuccess(null);
                 setBaseSendTxHash(null);
                 setBaseSendIsCrossChain(false);
-                setBaseSendLifiStatus(null);
+                setBaseSendQuoteAnalysis(null);
               }}
               autoCapitalize="none"
               autoCorrect={false}
@@ -2679,6 +2676,14 @@ export default function HomeScreen() {
                 </View>
               </View>
             )}
+            {isGhostwaterSubdomain(baseDestinationInput.trim().toLowerCase()) && (
+              <View style={{ marginTop: 8 }}>
+                <SwapSlippageSelector />
+                {baseSendQuoteAnalysis && (
+                  <QuoteAnalysisNotice analysis={baseSendQuoteAnalysis} />
+                )}
+              </View>
+            )}
             {baseSendError ? (
               <Text style={styles.error}>{baseSendError}</Text>
             ) : null}
@@ -3155,6 +3160,7 @@ export default function HomeScreen() {
         </>
       )}
 
+      {txPreviewSheet}
     </ScrollView>
   );
 }
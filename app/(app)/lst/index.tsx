@@ -4,7 +4,7 @@
  */
 
 import { useEmbeddedEthereumWallet } from "@privy-io/expo";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
@@ -17,6 +17,12 @@ import {
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
+import { LifiRoutePicker } from "@/components/LifiRoutePicker";
+import {
+  confirmQuoteAnalysis,
+  QuoteAnalysisNotice,
+} from "@/components/QuoteAnalysisNotice";
+import { SwapSlippageSelector } from "@/components/SwapSlippageSelector";
 import { Text } from "@/components/Themed";
 import { useColorScheme } from "@/components/useColorScheme";
 import Colors from "@/constants/Colors";
@@ -25,12 +31,19 @@ import {
   ETH_MAINNET_CHAIN_ID,
   LIDO_WSTETH_MAINNET,
 } from "@/constants/lido-mainnet";
+import { fetchLifiQuote } from "@/lib/lifi-quote";
+import { analyzeLifiQuote } from "@/lib/lifi-quote-analysis";
 import {
-  fetchLifiQuote,
-  fetchLifiStatus,
-  type LifiStatusResponse,
-} from "@/lib/lifi-quote";
+  fetchLifiRoutes,
+  fetchLifiStepTransaction,
+  rankLifiRoutes,
+  summarizeLifiRoute,
+  type LifiRoute,
+  type LifiRouteRanking,
+} from "@/lib/lifi-routes";
 import { useNetwork } from "@/lib/network";
+import { slippageBpsToFraction, useSwapSlippageBps } from "@/lib/swap-settings";
+import { trackTransfer, useTrackedTransfer } from "@/lib/transfer-tracker";
 import {
   fetchAllBaseBalances,
   type BaseBalanceItem,
@@ -48,13 +61,10 @@ function addressEq(a: string | null, b: string | null): boolean {
   return a.toLowerCase() === b.toLowerCase();
 }
 
-const LIFI_SLIPPAGE = 0.005;
+const WSTETH_DECIMALS = 18;
 
 /** Link color that reads as clickable in both light and dark mode. */
 const LINK_COLOR = "#58a6ff";
-const POLL_MS = 6000;
-const MAX_POLLS = 50;
-const MAX_NOT_FOUND = 10;
 
 type SourceToken = "ETH" | "USDC";
 
@@ -84,11 +94,23 @@ export default function LstScreen() {
   const [sourceToken, setSourceToken] = useState<SourceToken>("USDC");
   const [amount, setAmount] = useState("");
   const [amountExceedsBalance, setAmountExceedsBalance] = useState(false);
+  const { slippageBps } = useSwapSlippageBps();
+  const slippage = slippageBpsToFraction(slippageBps);
 
   const [submitLoading, setSubmitLoading] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [txHash, setTxHash] = useState<string | null>(null);
-  const [lifiStatus, setLifiStatus] = useState<LifiStatusResponse | null>(null);
+  /** Polled by the transfer tracker, so a stake sent before the app was closed keeps its status. */
+  const lifiStatus = useTrackedTransfer(txHash)?.status ?? null;
+
+  /** Route comparison; without a selected route, staking falls back to the single /v1/quote route. */
+  const [routes, setRoutes] = useState<LifiRoute[]>([]);
+  const [routesLoading, setRoutesLoading] = useState(false);
+  const [routesError, setRoutesError] = useState<string | null>(null);
+  const [routeRanking, setRouteRanking] = useState<LifiRouteRanking>("output");
+  const routeRankingRef = useRef<LifiRouteRanking>("output");
+  const [selectedRouteId, setSelectedRouteId] = useState<string | null>(null);
+  const routesRequestIdRef = useRef(0);
 
   const refetchBalances = useCallback(() => {
     if (!evmAddress || !isBaseMainnet) {
@@ -159,41 +181,67 @@ export default function LstScreen() {
     setAmountExceedsBalance(amountWei > balanceWei);
   }, [amount, sourceToken, baseBalances, evmAddress]);
 
-  // Poll LI.FI status
+  // Debounced route comparison: 1s after amount / token change, fetch LI.FI routes and preselect the top one.
   useEffect(() => {
-    if (!txHash || !isBaseMainnet) return;
-    let notFoundCount = 0;
-    let pollCount = 0;
+    const num = parseFloat(amount.trim());
+    setRoutes([]);
+    setSelectedRouteId(null);
+    setRoutesError(null);
+    if (!evmAddress || !isBaseMainnet || !Number.isFinite(num) || num <= 0) {
+      setRoutesLoading(false);
+      return;
+    }
+    const timeout = setTimeout(() => {
+      const requestId = ++routesRequestIdRef.current;
+      setRoutesLoading(true);
+      fetchLifiRoutes({
+        fromChainId: BASE_MAINNET_CHAIN_ID,
+        toChainId: ETH_MAINNET_CHAIN_ID,
+        fromTokenAddress: getTokenAddress(sourceToken),
+        toTokenAddress: LIDO_WSTETH_MAINNET,
+        fromAmount: BigInt(
+          Math.floor(num * Math.pow(10, getDecimals(sourceToken)))
+        ).toString(),
+        fromAddress: evmAddress,
+        toAddress: evmAddress,
+        slippage,
+      })
+        .then((list) => {
+          if (requestId !== routesRequestIdRef.current) return;
+          setRoutes(list);
+          const top = rankLifiRoutes(list.map(summarizeLifiRoute), routeRankingRef.current)[0];
+          setSelectedRouteId(top?.id ?? null);
+        })
+        .catch((err) => {
+          if (requestId !== routesRequestIdRef.current) return;
+          setRoutesError(err instanceof Error ? err.message : "Route comparison failed");
+        })
+        .finally(() => {
+          if (requestId === routesRequestIdRef.current) setRoutesLoading(false);
+        });
+    }, 1000);
+    return () => clearTimeout(timeout);
+  }, [amount, sourceToken, evmAddress, isBaseMainnet, slippage]);
 
-    const poll = async (): Promise<boolean> => {
-      try {
-        const status = await fetchLifiStatus(txHash!, BASE_MAINNET_CHAIN_ID);
-        setLifiStatus(status);
-        if (status.status === "NOT_FOUND") {
-          notFoundCount += 1;
-          if (notFoundCount >= MAX_NOT_FOUND) return true;
-        } else {
-          notFoundCount = 0;
-          if (status.status === "DONE" || status.status === "FAILED") return true;
-        }
-      } catch {
-        // keep polling on network error
-      }
-      return false;
-    };
+  const rankedRoutes = useMemo(
+    () => rankLifiRoutes(routes.map(summarizeLifiRoute), routeRanking),
+    [routes, routeRanking]
+  );
 
-    const id = setInterval(async () => {
-      pollCount += 1;
-      if (pollCount > MAX_POLLS) {
-        clearInterval(id);
-        return;
-      }
-      const done = await poll();
-      if (done) clearInterval(id);
-    }, POLL_MS);
-    poll();
-    return () => clearInterval(id);
-  }, [txHash, isBaseMainnet]);
+  const selectedRouteAnalysis = useMemo(() => {
+    const route = routes.find((r) => r.id === selectedRouteId);
+    return route ? analyzeLifiQuote(route.steps[0]) : null;
+  }, [routes, selectedRouteId]);
+
+  const changeRouteRanking = useCallback(
+    (ranking: LifiRouteRanking) => {
+      routeRankingRef.current = ranking;
+      setRouteRanking(ranking);
+      const top = rankLifiRoutes(routes.map(summarizeLifiRoute), ranking)[0];
+      if (top) setSelectedRouteId(top.id);
+    },
+    [routes]
+  );
 
   const handleStake = useCallback(async () => {
     if (!evmAddress?.trim()) {
@@ -248,16 +296,19 @@ export default function LstScreen() {
       const from = accounts?.[0];
       if (!from) throw new Error("No account found.");
 
-      const quoteResult = (await fetchLifiQuote({
-        fromChainId: BASE_MAINNET_CHAIN_ID,
-        toChainId: ETH_MAINNET_CHAIN_ID,
-        fromTokenAddress,
-        toTokenAddress: LIDO_WSTETH_MAINNET,
-        fromAmount: fromAmountWei,
-        fromAddress: from,
-        toAddress: from,
-        slippage: LIFI_SLIPPAGE,
-      })) as {
+      const selectedRoute = routes.find((r) => r.id === selectedRouteId);
+      const quoteResult = (await (selectedRoute
+        ? fetchLifiStepTransaction(selectedRoute.steps[0])
+        : fetchLifiQuote({
+            fromChainId: BASE_MAINNET_CHAIN_ID,
+            toChainId: ETH_MAINNET_CHAIN_ID,
+            fromTokenAddress,
+            toTokenAddress: LIDO_WSTETH_MAINNET,
+            fromAmount: fromAmountWei,
+            fromAddress: from,
+            toAddress: from,
+            slippage,
+          }))) as {
         transactionRequest?: {
           to?: string;
           data?: string;
@@ -271,6 +322,10 @@ export default function LstScreen() {
         estimate?: { approvalAddress?: string };
       };
 
+      if (!(await confirmQuoteAnalysis(analyzeLifiQuote(quoteResult), "Stake"))) {
+        return;
+      }
+
       const txRequest = quoteResult?.transactionRequest;
       if (!txRequest?.to || !txRequest?.data) {
         throw new Error(
@@ -325,7 +380,12 @@ export default function LstScreen() {
       });
       const hashStr = String(hash);
       setTxHash(hashStr);
-      setLifiStatus(null);
+      void trackTransfer({
+        txHash: hashStr,
+        fromChainId: BASE_MAINNET_CHAIN_ID,
+        kind: "lst",
+        label: "Stake to wstETH (Base → Ethereum)",
+      });
       setAmount("");
       refetchBalances();
     } catch (err) {
@@ -342,11 +402,13 @@ export default function LstScreen() {
     amount,
     amountExceedsBalance,
     refetchBalances,
+    routes,
+    selectedRouteId,
+    slippage,
   ]);
 
   const resetFlow = useCallback(() => {
     setTxHash(null);
-    setLifiStatus(null);
     setSubmitError(null);
   }, []);
 
@@ -468,6 +530,37 @@ export default function LstScreen() {
             </Text>
           </View>
 
+          {!txHash && (routesLoading || rankedRoutes.length > 0 || routesError) ? (
+            <View style={[styles.section, styles.card, { backgroundColor: colors.background, borderColor: colors.tabIconDefault + "40" }]}>
+              <Text style={[styles.label, { color: colors.text }]}>Route</Text>
+              {routesError ? (
+                <Text style={[styles.muted, { color: colors.tabIconDefault }]}>
+                  Route comparison unavailable; the default LI.FI route will be used.
+                </Text>
+              ) : (
+                <LifiRoutePicker
+                  routes={rankedRoutes}
+                  selectedRouteId={selectedRouteId}
+                  onSelect={setSelectedRouteId}
+                  ranking={routeRanking}
+                  onRankingChange={changeRouteRanking}
+                  toSymbol="wstETH"
+                  toDecimals={WSTETH_DECIMALS}
+                  loading={routesLoading}
+                />
+              )}
+              {selectedRouteAnalysis ? (
+                <QuoteAnalysisNotice analysis={selectedRouteAnalysis} />
+              ) : null}
+            </View>
+          ) : null}
+
+          {!txHash ? (
+            <View style={styles.section}>
+              <SwapSlippageSelector />
+            </View>
+          ) : null}
+
           {submitError ? (
             <View style={[styles.section, styles.errorBox]}>
               <Text style={styles.errorText}>{submitError}</Text>
@@ -10,7 +10,7 @@ import { useSignRawHash } from "@privy-io/expo/extended-chains";
 import { usePrivy } from "@privy-io/expo";
 import FontAwesome from "@expo/vector-icons/FontAwesome";
 import { useFocusEffect } from "expo-router";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
@@ -25,9 +25,17 @@ import {
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
+import { LifiRoutePicker } from "@/components/LifiRoutePicker";
+import {
+  confirmQuoteAnalysis,
+  QuoteAnalysisNotice,
+} from "@/components/QuoteAnalysisNotice";
+import { SwapSlippageSelector } from "@/components/SwapSlippageSelector";
 import { Text } from "@/components/Themed";
+import { useTxPreviewSheet } from "@/components/TxPreviewSheet";
 import { useColorScheme } from "@/components/useColorScheme";
 import Colors from "@/constants/Colors";
+import { useGasSponsorship } from "@/hooks/useDeepBookMargin";
 import {
   fetchLifiChains,
   fetchLifiToken,
@@ -44,11 +52,30 @@ import {
   fetchAllBaseBalances,
   type BaseBalanceItem,
 } from "@/lib/base-balance-fetch";
-import { fetchLifiQuote, fetchLifiStatus, type LifiStatusResponse } from "@/lib/lifi-quote";
-import { useNetwork } from "@/lib/network";
+import { apiErrorFromBody, errorMessageWithCode } from "@/lib/api-error";
+import {
+  deepbookSwapViaBackend,
+  fetchDeepbookSwapQuoteViaBackend,
+  type DeepbookSwapQuote,
+} from "@/lib/deepbook-swap-via-backend";
+import { fetchLifiQuote } from "@/lib/lifi-quote";
+import { analyzeLifiQuote } from "@/lib/lifi-quote-analysis";
+import {
+  fetchLifiRoutes,
+  fetchLifiStepTransaction,
+  formatLifiAmount,
+  rankLifiRoutes,
+  summarizeLifiRoute,
+  type LifiRoute,
+  type LifiRouteRanking,
+} from "@/lib/lifi-routes";
+import { getSuiNetwork, useNetwork } from "@/lib/network";
 import { getSuiAddressFromUser, getSuiWalletFromUser } from "@/lib/sui";
 import { fetchAllSuiBalances } from "@/lib/sui-balance-fetch";
+import { slippageBpsToFraction, useSwapSlippageBps } from "@/lib/swap-settings";
 import { publicKeyToHex } from "@/lib/sui-transfer-via-backend";
+import { isTxCancelled } from "@/lib/simulate-via-backend";
+import { trackTransfer, useTrackedTransfer } from "@/lib/transfer-tracker";
 
 /**
  * Base chain logo — must be PNG/JPG/WebP (React Native Image does not support SVG).
@@ -117,6 +144,9 @@ export default function SwapScreen() {
   const [toChain, setToChain] = useState<LifiChain | null>(null);
   const [toToken, setToToken] = useState<LifiToken | null>(null);
   const [amount, setAmount] = useState("");
+  /** Shared with LST and send-to-name (lib/swap-settings.ts); LI.FI takes a fraction, DeepBook bounds minOut. */
+  const { slippageBps } = useSwapSlippageBps();
+  const slippage = slippageBpsToFraction(slippageBps);
 
   const [toDrawerVisible, setToDrawerVisible] = useState(false);
   const [toDrawerStep, setToDrawerStep] = useState<"chain" | "token">("chain");
@@ -129,6 +159,15 @@ export default function SwapScreen() {
   const [quoteError, setQuoteError] = useState<string | null>(null);
   const quoteTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const quoteRequestIdRef = useRef(0);
+  /** Sui-to-Sui only: DeepBook direct quote, LI.FI output for comparison, and the route with more output. */
+  const [deepbookQuote, setDeepbookQuote] = useState<DeepbookSwapQuote | null>(null);
+  const [lifiQuoteOut, setLifiQuoteOut] = useState<number | null>(null);
+  const [swapVenue, setSwapVenue] = useState<"deepbook" | "lifi">("lifi");
+  /** LI.FI candidate routes for the current inputs; the selected one is sent on Swap. */
+  const [lifiRoutes, setLifiRoutes] = useState<LifiRoute[]>([]);
+  const [routeRanking, setRouteRanking] = useState<LifiRouteRanking>("output");
+  const routeRankingRef = useRef<LifiRouteRanking>("output");
+  const [selectedRouteId, setSelectedRouteId] = useState<string | null>(null);
 
   const [swapLoading, setSwapLoading] = useState(false);
   const [swapError, setSwapError] = useState<string | null>(null);
@@ -136,11 +175,13 @@ export default function SwapScreen() {
   const [swapSuccessTxHash, setSwapSuccessTxHash] = useState<string | null>(null);
   const [swapSuccessIsSui, setSwapSuccessIsSui] = useState(false);
   const [swapSuccessIsBridge, setSwapSuccessIsBridge] = useState(false);
-  const [swapLifiStatus, setSwapLifiStatus] = useState<LifiStatusResponse | null>(null);
 
   const apiUrl =
     (typeof process !== "undefined" && process.env?.EXPO_PUBLIC_API_URL) ||
     "http://localhost:3001";
+  const suiNetwork = getSuiNetwork(currentNetwork);
+  const { confirmTx, sheet: txPreviewSheet } = useTxPreviewSheet(apiUrl, suiNetwork);
+  const { sponsored: sponsorGas } = useGasSponsorship(isSui ? suiAddress : null, apiUrl, suiNetwork);
 
   const baseChain = chains.find((c) => c.id === LIFI_BASE_CHAIN_ID);
   const suiChain = chains.find((c) => c.id === LIFI_SUI_CHAIN_ID);
@@ -213,46 +254,14 @@ export default function SwapScreen() {
     }, [canSwap, evmAddress, isBase, isSui, suiAddress, refetchBalances])
   );
 
-  // Poll LI.FI status for cross-chain (bridge) swaps until DONE/FAILED
-  const swapFromChainId = swapSuccessIsSui ? LIFI_SUI_CHAIN_ID : LIFI_BASE_CHAIN_ID;
+  // LI.FI status for cross-chain (bridge) swaps comes from the transfer tracker; refresh balances once it lands
+  const swapLifiStatus =
+    useTrackedTransfer(swapSuccessIsBridge ? swapSuccessTxHash : null)?.status ?? null;
+  const swapBridgeFinished =
+    swapLifiStatus?.status === "DONE" || swapLifiStatus?.status === "FAILED";
   useEffect(() => {
-    if (!swapSuccessTxHash || !swapSuccessIsBridge) return;
-    let notFoundCount = 0;
-    const maxNotFound = 10;
-    const pollMs = 6000;
-    const maxPolls = 50;
-    const poll = async () => {
-      try {
-        const status = await fetchLifiStatus(swapSuccessTxHash!, swapFromChainId);
-        setSwapLifiStatus(status);
-        if (status.status === "NOT_FOUND") {
-          notFoundCount += 1;
-          if (notFoundCount >= maxNotFound) return true;
-        } else {
-          notFoundCount = 0;
-          if (status.status === "DONE" || status.status === "FAILED") {
-            refetchBalances();
-            return true;
-          }
-        }
-      } catch {
-        // keep polling on network error
-      }
-      return false;
-    };
-    let pollCount = 0;
-    const id = setInterval(async () => {
-      pollCount += 1;
-      if (pollCount > maxPolls) {
-        clearInterval(id);
-        return;
-      }
-      const done = await poll();
-      if (done) clearInterval(id);
-    }, pollMs);
-    poll();
-    return () => clearInterval(id);
-  }, [swapSuccessTxHash, swapSuccessIsBridge, swapFromChainId, refetchBalances]);
+    if (swapBridgeFinished) refetchBalances();
+  }, [swapBridgeFinished, refetchBalances]);
 
   useEffect(() => {
     if (!canSwap) return;
@@ -340,7 +349,8 @@ export default function SwapScreen() {
     };
   }, [fromToken, isBase]);
 
-  // Debounced LI.FI quote: wait 1s after amount/tokens change, then fetch quote and set To amount. Don't call when destination is required but empty.
+  // Debounced quote: wait 1s after amount/tokens change, then fetch quote and set To amount. Don't call when destination is required but empty.
+  // Sui-to-Sui to the own address also quotes DeepBook directly and keeps whichever route returns more.
   useEffect(() => {
     const fromAddress = isBase ? evmAddress : suiAddress;
     const needDest = (isBase && isToChainSuiOrSolana) || (isSui && toChain?.id !== LIFI_SUI_CHAIN_ID);
@@ -361,8 +371,15 @@ export default function SwapScreen() {
       setToAmountDisplay("");
       setQuoteError(null);
       setQuoteLoading(false);
+      setDeepbookQuote(null);
+      setLifiQuoteOut(null);
+      setSwapVenue("lifi");
+      setLifiRoutes([]);
+      setSelectedRouteId(null);
       return;
     }
+    setLifiRoutes([]);
+    setSelectedRouteId(null);
 
     quoteTimeoutRef.current = setTimeout(() => {
       quoteTimeoutRef.current = null;
@@ -387,10 +404,12 @@ export default function SwapScreen() {
           ? undefined
           : toAddress.trim();
 
+      const tryDeepbook = isSui && toChain!.id === LIFI_SUI_CHAIN_ID && !toAddressParam;
+
       setQuoteLoading(true);
       setQuoteError(null);
 
-      fetchLifiQuote({
+      const lifiRoutesRequest = fetchLifiRoutes({
         fromChainId,
         toChainId: toChain!.id,
         fromTokenAddress,
@@ -398,30 +417,62 @@ export default function SwapScreen() {
         fromAmount: fromAmountRaw,
         fromAddress: fromAddress!,
         ...(toAddressParam ? { toAddress: toAddressParam } : {}),
-        slippage: 0.01,
-      })
-        .then((res) => {
-          if (requestId !== quoteRequestIdRef.current) return;
-          const data = res as {
-            estimate?: { toAmount?: string; toAmountMin?: string };
-          };
-          const raw = data?.estimate?.toAmount ?? data?.estimate?.toAmountMin ?? "0";
-          const big = BigInt(raw);
-          const divisor = BigInt(10) ** BigInt(toDecimals);
-          const whole = big / divisor;
-          const frac = big % divisor;
-          const fracStr = frac.toString().padStart(toDecimals, "0").slice(0, toDecimals);
-          const display =
-            fracStr === "0".repeat(fracStr.length)
-              ? whole.toString()
-              : `${whole}.${fracStr.replace(/0+$/, "")}`;
-          setToAmountDisplay(display);
-          setQuoteError(null);
-        })
-        .catch((err) => {
+        slippage,
+      }).then((routes) => {
+        if (routes.length === 0) {
+          throw new Error("No route returned. Try a different amount or token.");
+        }
+        return routes;
+      });
+      const deepbookQuoteRequest = tryDeepbook
+        ? fetchDeepbookSwapQuoteViaBackend({
+            apiUrl,
+            fromCoinType: fromTokenAddress,
+            toCoinType: toToken!.address,
+            amount: amountNum,
+            network: suiNetwork,
+          })
+        : Promise.resolve(null);
+
+      Promise.allSettled([lifiRoutesRequest, deepbookQuoteRequest])
+        .then(([lifiResult, deepbookResult]) => {
           if (requestId !== quoteRequestIdRef.current) return;
-          setQuoteError(err instanceof Error ? err.message : "Quote failed");
-          setToAmountDisplay("—");
+          if (deepbookResult.status === "rejected" && __DEV__) {
+            console.warn("[Swap] DeepBook quote failed", deepbookResult.reason);
+          }
+          // Default to the top route for the current ranking; DeepBook competes with the best output.
+          const summaries =
+            lifiResult.status === "fulfilled" ? lifiResult.value.map(summarizeLifiRoute) : [];
+          const selected = rankLifiRoutes(summaries, routeRankingRef.current)[0] ?? null;
+          const bestOutput = rankLifiRoutes(summaries, "output")[0] ?? null;
+          setLifiRoutes(lifiResult.status === "fulfilled" ? lifiResult.value : []);
+          setSelectedRouteId(selected?.id ?? null);
+          const lifiDisplay = selected ? formatLifiAmount(selected.toAmount, toDecimals) : null;
+          const lifiOut = bestOutput
+            ? parseFloat(formatLifiAmount(bestOutput.toAmount, toDecimals))
+            : null;
+          const dbQuote =
+            deepbookResult.status === "fulfilled" &&
+            deepbookResult.value &&
+            deepbookResult.value.amountOut > 0
+              ? deepbookResult.value
+              : null;
+          setDeepbookQuote(dbQuote);
+          setLifiQuoteOut(lifiOut);
+          if (dbQuote && (lifiOut == null || dbQuote.amountOut > lifiOut)) {
+            setSwapVenue("deepbook");
+            setToAmountDisplay(dbQuote.amountOut.toFixed(toDecimals).replace(/\.?0+$/, ""));
+            setQuoteError(null);
+          } else if (lifiDisplay != null) {
+            setSwapVenue("lifi");
+            setToAmountDisplay(lifiDisplay);
+            setQuoteError(null);
+          } else {
+            const err = lifiResult.status === "rejected" ? lifiResult.reason : null;
+            setSwapVenue("lifi");
+            setQuoteError(err instanceof Error ? err.message : "Quote failed");
+            setToAmountDisplay("—");
+          }
         })
         .finally(() => {
           if (requestId === quoteRequestIdRef.current) setQuoteLoading(false);
@@ -446,6 +497,9 @@ export default function SwapScreen() {
     destinationSameAsSource,
     toAddress,
     isToChainSuiOrSolana,
+    apiUrl,
+    suiNetwork,
+    slippage,
   ]);
 
   const selectFromToken = useCallback((item: FromTokenOption) => {
@@ -472,6 +526,49 @@ export default function SwapScreen() {
     setTokenSearchQuery("");
   }, []);
 
+  const rankedRoutes = useMemo(
+    () => rankLifiRoutes(lifiRoutes.map(summarizeLifiRoute), routeRanking),
+    [lifiRoutes, routeRanking]
+  );
+
+  const selectedRouteAnalysis = useMemo(() => {
+    const route = lifiRoutes.find((r) => r.id === selectedRouteId);
+    return route ? analyzeLifiQuote(route.steps[0]) : null;
+  }, [lifiRoutes, selectedRouteId]);
+
+  const selectRoute = useCallback(
+    (routeId: string) => {
+      const route = lifiRoutes.find((r) => r.id === routeId);
+      if (!route || !toToken) return;
+      setSelectedRouteId(routeId);
+      setSwapVenue("lifi");
+      setToAmountDisplay(formatLifiAmount(route.toAmount, toToken.decimals ?? 18));
+    },
+    [lifiRoutes, toToken]
+  );
+
+  const selectDeepbook = useCallback(() => {
+    if (!deepbookQuote || !toToken) return;
+    setSwapVenue("deepbook");
+    setToAmountDisplay(
+      deepbookQuote.amountOut.toFixed(toToken.decimals ?? 18).replace(/\.?0+$/, "")
+    );
+  }, [deepbookQuote, toToken]);
+
+  const changeRouteRanking = useCallback(
+    (ranking: LifiRouteRanking) => {
+      routeRankingRef.current = ranking;
+      setRouteRanking(ranking);
+      const top = rankLifiRoutes(lifiRoutes.map(summarizeLifiRoute), ranking)[0];
+      if (!top) return;
+      setSelectedRouteId(top.id);
+      if (swapVenue === "lifi" && toToken) {
+        setToAmountDisplay(formatLifiAmount(top.toAmount, toToken.decimals ?? 18));
+      }
+    },
+    [lifiRoutes, swapVenue, toToken]
+  );
+
   const handleSwap = useCallback(async () => {
     const fromAddress = isBase ? evmAddress : suiAddress;
     const needDest = (isBase && isToChainSuiOrSolana) || (isSui && toChain?.id !== LIFI_SUI_CHAIN_ID);
@@ -496,7 +593,6 @@ export default function SwapScreen() {
     setSwapSuccess(null);
     setSwapSuccessTxHash(null);
     setSwapSuccessIsBridge(false);
-    setSwapLifiStatus(null);
     setSwapLoading(true);
 
     const fromDecimals = fromToken.decimals ?? 18;
@@ -516,16 +612,54 @@ export default function SwapScreen() {
           : toAddress.trim();
 
     try {
-      const quoteResult = (await fetchLifiQuote({
-        fromChainId,
-        toChainId: toChain.id,
-        fromTokenAddress,
-        toTokenAddress: toToken.address,
-        fromAmount: fromAmountRaw,
-        fromAddress: fromAddress,
-        ...(toAddressParam ? { toAddress: toAddressParam } : {}),
-        slippage: 0.01,
-      })) as {
+      if (
+        swapVenue === "deepbook" &&
+        deepbookQuote &&
+        deepbookQuote.amountIn === amountNum &&
+        isSui &&
+        toChain.id === LIFI_SUI_CHAIN_ID &&
+        !toAddressParam
+      ) {
+        if (!signRawHash || !suiWallet?.publicKey || !suiAddress) {
+          throw new Error("Sui wallet not ready");
+        }
+        const { digest } = await deepbookSwapViaBackend({
+          apiUrl,
+          sender: suiAddress,
+          fromCoinType: fromTokenAddress,
+          toCoinType: toToken.address,
+          amount: amountNum,
+          minOut: deepbookQuote.amountOut * (1 - slippage),
+          signRawHash,
+          publicKeyHex: publicKeyToHex(suiWallet.publicKey),
+          confirmBeforeSign: confirmTx,
+          sponsored: sponsorGas,
+          network: suiNetwork,
+        });
+        setSwapSuccess(`Transaction submitted. Tx: ${digest}`);
+        setSwapSuccessTxHash(digest);
+        setSwapSuccessIsSui(true);
+        setSwapSuccessIsBridge(false);
+        setAmount("");
+        setToAmountDisplay("");
+        refetchBalances();
+        setTimeout(() => refetchBalances(), 2500);
+        return;
+      }
+
+      const selectedRoute = lifiRoutes.find((r) => r.id === selectedRouteId);
+      const quoteResult = (await (selectedRoute
+        ? fetchLifiStepTransaction(selectedRoute.steps[0])
+        : fetchLifiQuote({
+            fromChainId,
+            toChainId: toChain.id,
+            fromTokenAddress,
+            toTokenAddress: toToken.address,
+            fromAmount: fromAmountRaw,
+            fromAddress: fromAddress,
+            ...(toAddressParam ? { toAddress: toAddressParam } : {}),
+            slippage,
+          }))) as {
         transactionRequest?: {
           to?: string;
           data?: string;
@@ -540,6 +674,11 @@ export default function SwapScreen() {
         action?: { fromChainId?: number };
       };
 
+      const isBridge = toChain.id !== fromChainId;
+      if (!(await confirmQuoteAnalysis(analyzeLifiQuote(quoteResult), isBridge ? "Bridge" : "Swap"))) {
+        return;
+      }
+
       const txRequest = quoteResult?.transactionRequest;
       const action = quoteResult?.action as { fromChainId?: number } | undefined;
       const quoteFromChainId = action?.fromChainId;
@@ -567,13 +706,13 @@ export default function SwapScreen() {
             } catch {
               // not JSON
             }
-            const serverMsg = (errJson.error as string) ?? (errText || "Prepare Sui tx failed");
+            const serverError = apiErrorFromBody(errJson, errText || "Prepare Sui tx failed");
             if (prepareRes.status === 404) {
               throw new Error(
                 "Backend prepare-external-sui-tx not available. Start the backend (cd backend && npm run dev) to complete Sui swaps."
               );
             }
-            throw new Error(serverMsg);
+            throw serverError;
           }
           const prepareJson = await prepareRes.json();
           const intentMessageHashHex =
@@ -599,7 +738,7 @@ export default function SwapScreen() {
           });
           const executeJson = await executeRes.json();
           if (!executeRes.ok) {
-            throw new Error((executeJson.error as string) ?? "Execute failed");
+            throw apiErrorFromBody(executeJson, "Execute failed");
           }
           const digest = executeJson.digest;
           if (digest) {
@@ -607,6 +746,14 @@ export default function SwapScreen() {
             setSwapSuccessTxHash(digest);
             setSwapSuccessIsSui(true);
             setSwapSuccessIsBridge(toChain != null && toChain.id !== LIFI_SUI_CHAIN_ID);
+            if (toChain != null && toChain.id !== LIFI_SUI_CHAIN_ID) {
+              void trackTransfer({
+                txHash: digest,
+                fromChainId: LIFI_SUI_CHAIN_ID,
+                kind: "swap",
+                label: `${fromToken.symbol} → ${toToken.symbol} on ${toChain.name}`,
+              });
+            }
             setAmount("");
             setToAmountDisplay("");
             refetchBalances();
@@ -669,6 +816,14 @@ export default function SwapScreen() {
             setSwapSuccessTxHash(hashStr);
             setSwapSuccessIsSui(false);
             setSwapSuccessIsBridge(toChain != null && toChain.id !== LIFI_BASE_CHAIN_ID);
+            if (toChain != null && toChain.id !== LIFI_BASE_CHAIN_ID) {
+              void trackTransfer({
+                txHash: hashStr,
+                fromChainId: LIFI_BASE_CHAIN_ID,
+                kind: "swap",
+                label: `${fromToken.symbol} → ${toToken.symbol} on ${toChain.name}`,
+              });
+            }
             setAmount("");
             setToAmountDisplay("");
             refetchBalances();
@@ -685,7 +840,8 @@ export default function SwapScreen() {
 
       throw new Error("This route requires signing. Use LI.FI Explorer to complete.");
     } catch (err) {
-      setSwapError(err instanceof Error ? err.message : "Swap failed");
+      if (isTxCancelled(err)) return;
+      setSwapError(errorMessageWithCode(err, "Swap failed"));
     } finally {
       setSwapLoading(false);
     }
@@ -702,11 +858,19 @@ export default function SwapScreen() {
     isSui,
     isToChainSuiOrSolana,
     isSameTokenSameNetwork,
+    swapVenue,
+    deepbookQuote,
+    lifiRoutes,
+    selectedRouteId,
+    slippage,
     signRawHash,
     suiWallet?.publicKey,
     embeddedEthWallet,
     currentNetwork.evmChainId,
     apiUrl,
+    confirmTx,
+    sponsorGas,
+    suiNetwork,
     refetchBalances,
   ]);
 
@@ -931,6 +1095,15 @@ export default function SwapScreen() {
                 {quoteError}
               </Text>
             ) : null}
+            {!quoteLoading && deepbookQuote ? (
+              <Pressable onPress={selectDeepbook} disabled={swapVenue === "deepbook"}>
+                <Text style={[styles.muted, { color: colors.tabIconDefault, marginTop: 4 }]} numberOfLines={2}>
+                  {swapVenue === "deepbook"
+                    ? `Route: DeepBook ${deepbookQuote.poolKey} (direct) · LI.FI ${lifiQuoteOut != null ? lifiQuoteOut : "unavailable"}`
+                    : `Route: LI.FI · DeepBook ${deepbookQuote.poolKey} ${deepbookQuote.amountOut} (tap to use)`}
+                </Text>
+              </Pressable>
+            ) : null}
             <View style={styles.tokenRowBlock}>
               {toChain ? (
                 <Pressable
@@ -972,6 +1145,31 @@ export default function SwapScreen() {
             </View>
           </View>
 
+          {/* LI.FI route picker: candidate routes for the current inputs, ranked by the chosen criterion */}
+          {rankedRoutes.length > 0 && toToken && !quoteLoading ? (
+            <View style={{ marginTop: 12 }}>
+              <Text style={[styles.blockLabel, { color: colors.tabIconDefault, marginBottom: 6 }]}>
+                {swapVenue === "deepbook" ? "LI.FI routes (DeepBook selected)" : "Route"}
+              </Text>
+              <LifiRoutePicker
+                routes={rankedRoutes}
+                selectedRouteId={swapVenue === "lifi" ? selectedRouteId : null}
+                onSelect={selectRoute}
+                ranking={routeRanking}
+                onRankingChange={changeRouteRanking}
+                toSymbol={toToken.symbol}
+                toDecimals={toToken.decimals ?? 18}
+              />
+              {swapVenue === "lifi" && selectedRouteAnalysis ? (
+                <QuoteAnalysisNotice analysis={selectedRouteAnalysis} />
+              ) : null}
+            </View>
+          ) : null}
+
+          <View style={{ marginTop: 12 }}>
+            <SwapSlippageSelector />
+          </View>
+
           {/* Destination: From Base → checkbox for EVM, always field for Sui/Solana. From Sui → checkbox only when To is Sui; else always field. */}
           {(
             isBase ? !isToChainSuiOrSolana : (toChain?.id === LIFI_SUI_CHAIN_ID)
@@ -1326,6 +1524,7 @@ export default function SwapScreen() {
           </Pressable>
         </Pressable>
       </Modal>
+      {txPreviewSheet}
     </ScrollView>
   );
 }
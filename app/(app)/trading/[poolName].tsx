@@ -10,8 +10,6 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
-  AppState,
-  AppStateStatus,
   Dimensions,
   Linking,
   Modal,
@@ -23,7 +21,17 @@ import {
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
+import { OpenOrdersTable } from "@/components/OpenOrdersTable";
+import { MarginRatesPanel } from "@/components/MarginRatesPanel";
+import { OrderPreviewPanel } from "@/components/OrderPreviewPanel";
+import {
+  OrderBook,
+  orderbookAggregationSteps,
+} from "@/components/OrderBook";
 import { PriceChart } from "@/components/PriceChart";
+import { SpotAccountPanel } from "@/components/SpotAccountPanel";
+import { TpslOrdersPanel } from "@/components/TpslOrdersPanel";
+import { useTxPreviewSheet } from "@/components/TxPreviewSheet";
 import {
   TradingViewChart,
   type ChartTypeOption,
@@ -33,25 +41,56 @@ import {
 import { useColorScheme } from "@/components/useColorScheme";
 import Colors from "@/constants/Colors";
 import {
-  COIN_TYPES_MAINNET,
-  getDecimalsForCoinType,
-  getMaxLeverageForPool,
-  MIN_MARGIN_DEPOSIT_WITHDRAW_AMOUNT,
-  MIN_ORDER_QUANTITY,
-} from "@/constants/deepbook-margin-mainnet";
+  getMarginConstants,
+  getMaxLeverageForPoolOnNetwork,
+} from "@/constants/deepbook-margin";
+import { MIN_MARGIN_DEPOSIT_WITHDRAW_AMOUNT } from "@/constants/deepbook-margin-mainnet";
 import {
   debtUsdFromState,
+  useBalanceManager,
+  useConditionalOrders,
+  useGasSponsorship,
   useMarginHistory,
   useMarginManagersInfo,
+  useMarginDebts,
   useMarginManagerState,
+  useMarginPoolRates,
+  useMarginRiskParams,
   useOhlcv,
   useOpenOrders,
+  useOrderbook,
   useOrderHistory,
+  useOrderPreview,
+  usePriceIntegrity,
   useOwnedMarginManagers,
+  usePools,
   useTicker,
   useTrades,
 } from "@/hooks/useDeepBookMargin";
 import { addTpslViaBackend } from "@/lib/add-tpsl-via-backend";
+import {
+  cancelSpotOrderViaBackend,
+  createBalanceManagerViaBackend,
+  depositToBalanceManagerViaBackend,
+  placeSpotOrderViaBackend,
+  withdrawFromBalanceManagerViaBackend,
+  type BalanceManagerAsset,
+} from "@/lib/balance-manager-via-backend";
+import { roundDownToStep, roundToStep } from "@/lib/pools-via-backend";
+import {
+  ApiError,
+  apiErrorFromBody,
+  errorMessageWithCode,
+} from "@/lib/api-error";
+import {
+  cancelAllOrdersViaBackend,
+  cancelOrderViaBackend,
+} from "@/lib/cancel-order-via-backend";
+import {
+  closePositionViaBackend,
+  type ClosePositionResult,
+} from "@/lib/close-position-via-backend";
+import { cancelConditionalOrdersViaBackend } from "@/lib/conditional-orders-via-backend";
 import { createMarginManagerViaBackend } from "@/lib/create-margin-manager-via-backend";
 import {
   debugFetchOhlcv,
@@ -64,15 +103,25 @@ import { fetchMarginBorrowedSharesViaBackend } from "@/lib/fetch-margin-borrowed
 import {
   depositMarginViaBackend,
   withdrawMarginViaBackend,
-  repayViaBackend,
 } from "@/lib/margin-deposit-withdraw-via-backend";
 import {
   getSelectedMarginManagerId,
   setSelectedMarginManagerId,
 } from "@/lib/margin-manager-storage";
-import { useNetwork } from "@/lib/network";
-import { placeOrderViaBackend } from "@/lib/place-order-via-backend";
+import { marginRiskSummary } from "@/lib/margin-math";
+import { modifyOrderViaBackend } from "@/lib/modify-order-via-backend";
+import { getSuiNetwork, useNetwork } from "@/lib/network";
+import {
+  placeOrderViaBackend,
+  type SelfMatching,
+  type TimeInForce,
+} from "@/lib/place-order-via-backend";
 import { getSuiAddressFromUser, getSuiWalletFromUser } from "@/lib/sui";
+import {
+  formatSlippageBps,
+  SLIPPAGE_PRESETS_BPS,
+  useMaxSlippageBps,
+} from "@/lib/trade-settings";
 import { fetchAllBaseBalances, type BaseBalanceItem } from "@/lib/base-balance-fetch";
 import {
   BASE_MAINNET_CHAIN_ID,
@@ -81,14 +130,30 @@ import {
   BRIDGE_TO_MARGIN_RECEIVE_TOKEN_SUI,
   SUI_CHAIN_ID,
 } from "@/lib/bridge-to-margin-constants";
-import { fetchLifiQuote, fetchLifiStatus, type LifiStatusResponse } from "@/lib/lifi-quote";
+import { fetchLifiQuote, type LifiStatusResponse } from "@/lib/lifi-quote";
+import { isTxCancelled } from "@/lib/simulate-via-backend";
 import { fetchAllSuiBalances, fetchSuiBalance } from "@/lib/sui-balance-fetch";
 import { publicKeyToHex } from "@/lib/sui-transfer-via-backend";
+import {
+  markTransferFollowUpDone,
+  registerTransferFollowUp,
+  isTransferInFlight,
+  trackTransfer,
+  transferNeedsFollowUp,
+  useTrackedTransfer,
+  useTrackedTransfers,
+  type DepositAndOpenIntent,
+} from "@/lib/transfer-tracker";
 import { useEmbeddedEthereumWallet } from "@privy-io/expo";
 import { usePrivy } from "@privy-io/expo";
 import { useSignRawHash } from "@privy-io/expo/extended-chains";
+import { normalizeStructTag } from "@mysten/sui/utils";
 
 const PRICE_POLL_MS = 5000;
+/** Leverage of the position opened by "deposit & open" (Base trade block). */
+const DEPOSIT_AND_OPEN_LEVERAGE = 2;
+/** Price levels per side in the order book ladder. */
+const ORDERBOOK_DEPTH = 10;
 
 const CHART_INTERVALS: OhlcvInterval[] = [
   "1m",
@@ -109,6 +174,30 @@ const TV_CHART_DISPLAY_LIMIT = 300;
 const TV_CHART_FETCH_LIMIT = 600;
 const TV_CHART_HEIGHT = Math.min(Dimensions.get("window").height * 0.4, 320);
 
+/** Limit order restrictions offered in the order form (DeepBook order types). */
+const TIME_IN_FORCE_OPTIONS: { key: TimeInForce; label: string; hint: string }[] = [
+  { key: "gtc", label: "GTC", hint: "Rests on the book until filled or cancelled." },
+  { key: "ioc", label: "IOC", hint: "Fills what it can now; the rest is cancelled." },
+  { key: "fok", label: "FOK", hint: "Fills completely now or not at all." },
+  {
+    key: "post_only",
+    label: "Post-only",
+    hint: "Maker only: rejected if it would trade against the book.",
+  },
+];
+/** Limit order expiry presets; null = no expiry. */
+const EXPIRY_OPTIONS: { label: string; ms: number | null }[] = [
+  { label: "Never", ms: null },
+  { label: "1h", ms: 60 * 60_000 },
+  { label: "1d", ms: 24 * 60 * 60_000 },
+  { label: "7d", ms: 7 * 24 * 60 * 60_000 },
+];
+const SELF_MATCHING_OPTIONS: { key: SelfMatching; label: string }[] = [
+  { key: "allow", label: "Allow" },
+  { key: "cancel_taker", label: "Cancel taker" },
+  { key: "cancel_maker", label: "Cancel maker" },
+];
+
 const INDICATOR_PRESETS: {
   key: string;
   label: string;
@@ -148,6 +237,51 @@ function formatAge(ms: number): string {
   return hh ? `${d}d ${hh}h` : `${d}d`;
 }
 
+/** Tells the user about quote the close left in the manager (below the withdraw minimum); null when it is dust. */
+function quoteLeftNote(amount: number, symbol: string): string | null {
+  if (!(amount >= 0.000001)) return null;
+  return `About ${amount.toFixed(6).replace(/\.?0+$/, "")} ${symbol} stays in your margin account. Withdraw it any time.`;
+}
+
+function sameCoinType(a: string, b: string): boolean {
+  try {
+    return normalizeStructTag(a) === normalizeStructTag(b);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Why a landed bridge cannot be deposited as this pool's quote, or null when it can. LI.FI reports
+ * PARTIAL when it delivered a different token and REFUNDED when the funds went back to the sender.
+ */
+function bridgedQuoteProblem(status: LifiStatusResponse, quoteCoinType: string): string | null {
+  if (status.substatus !== "COMPLETED") {
+    return `Bridge ended ${status.substatus ?? "without a substatus"}, not with the requested token. Check your Sui wallet.`;
+  }
+  const token = status.receiving?.token;
+  const chainId = status.receiving?.chainId ?? token?.chainId;
+  if (chainId !== SUI_CHAIN_ID || !token?.address || !sameCoinType(token.address, quoteCoinType)) {
+    return `Received ${token?.symbol ?? "an unknown token"}, which is not this pool's quote coin.`;
+  }
+  return null;
+}
+
+/** Ask before a landed bridge opens a position the user set up in an earlier session (e.g. before a restart). */
+function confirmDepositAndOpen(poolName: string, intent: DepositAndOpenIntent): Promise<boolean> {
+  return new Promise<boolean>((resolve) => {
+    Alert.alert(
+      "Bridge landed",
+      `Deposit it and open a ${intent.side} ${formatPairLabel(poolName)} position at ${intent.leverage}× (max slippage ${formatSlippageBps(intent.maxSlippageBps)})?`,
+      [
+        { text: "Not now", style: "cancel", onPress: () => resolve(false) },
+        { text: "Open position", onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+}
+
 function formatPairLabel(poolName: string): string {
   return poolName.replace("_", "/");
 }
@@ -163,9 +297,9 @@ function symbolFromAssetType(assetType: string): string {
   return part ?? "—";
 }
 
-/** Format collateral event amount (raw string) to human amount with symbol, e.g. "0.7 USDC". Uses canonical decimals from constants. */
-function formatCollateralAmount(amountRaw: string, assetType: string): string {
-  const decimals = getDecimalsForCoinType(assetType);
+/** Format collateral event amount (raw string) to human amount with symbol, e.g. "0.7 USDC". Decimals come from pool metadata; "—" until it loads. */
+function formatCollateralAmount(amountRaw: string, assetType: string, decimals: number | null): string {
+  if (decimals == null) return `— ${symbolFromAssetType(assetType)}`;
   const value = Number(amountRaw) / Math.pow(10, decimals);
   const formatted = value.toLocaleString(undefined, {
     minimumFractionDigits: 0,
@@ -174,6 +308,30 @@ function formatCollateralAmount(amountRaw: string, assetType: string): string {
   return `${formatted} ${symbolFromAssetType(assetType)}`;
 }
 
+/**
+ * Borrow (n-1)× margin so the account has enough for the order. Long = borrow quote; short = borrow base.
+ * Human units, rounded to 6 decimals.
+ */
+function borrowAmountsForOrder(
+  side: "buy" | "sell",
+  marginQty: number,
+  leverage: number,
+  livePrice: number | null | undefined
+): { borrowBaseAmount?: number; borrowQuoteAmount?: number } {
+  const borrowBaseAmount =
+    side === "sell" && leverage > 1
+      ? Math.round(marginQty * (leverage - 1) * 1e6) / 1e6
+      : undefined;
+  const borrowQuoteAmount =
+    side === "buy" &&
+    leverage > 1 &&
+    typeof livePrice === "number" &&
+    livePrice > 0
+      ? Math.round(marginQty * livePrice * (leverage - 1) * 1e6) / 1e6
+      : undefined;
+  return { borrowBaseAmount, borrowQuoteAmount };
+}
+
 let lastNetworkIdForPoolDetail: string | null = null;
 
 export default function PairDetailScreen() {
@@ -183,6 +341,8 @@ export default function PairDetailScreen() {
   const cameFromPools = from === "pools";
   const { currentNetwork, currentNetworkId } = useNetwork();
   const showPlaceOrderBlock = currentNetwork.capabilities.showMarginTab;
+  // Sui network for margin calls, indexer and constants (Base screens bridge into mainnet).
+  const suiNetwork = getSuiNetwork(currentNetwork);
 
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? "light"];
@@ -204,16 +364,20 @@ export default function PairDetailScreen() {
 
   // Base trading block: long/short, token from Base wallet, amount, send (bridge later).
   const [baseTradeSide, setBaseTradeSide] = useState<"long" | "short">("long");
+  // Market order slippage limit (persisted); also saved with a deposit & open bridge.
+  const { maxSlippageBps, setMaxSlippageBps } = useMaxSlippageBps();
   const [selectedBaseToken, setSelectedBaseToken] =
     useState<BaseBalanceItem | null>(null);
   const [baseTradeAmount, setBaseTradeAmount] = useState("");
   const [baseTradeTokenPickerOpen, setBaseTradeTokenPickerOpen] =
     useState(false);
 
-  // Bridge (Base → Sui USDC) for Trade block: track tx and LI.FI status until DONE
+  // Bridge (Base → Sui USDC) for Trade block: LI.FI status comes from the transfer tracker until DONE
   const [bridgeTxHash, setBridgeTxHash] = useState<string | null>(null);
-  const [bridgeLifiStatus, setBridgeLifiStatus] =
-    useState<LifiStatusResponse | null>(null);
+  const bridgeTransfer = useTrackedTransfer(bridgeTxHash);
+  const bridgeLifiStatus = bridgeTransfer?.status ?? null;
+  /** Bridges sent while this screen is open; their follow-up runs without asking again. */
+  const bridgesSentHereRef = useRef(new Set<string>());
   const [bridgeLoading, setBridgeLoading] = useState(false);
   const [bridgeError, setBridgeError] = useState<string | null>(null);
   const [depositAndOpenLoading, setDepositAndOpenLoading] = useState(false);
@@ -225,7 +389,7 @@ export default function PairDetailScreen() {
     toAddress: string | null;
   } | null>(null);
   const [withdrawBridgeTxHash, setWithdrawBridgeTxHash] = useState<string | null>(null);
-  const [withdrawBridgeStatus, setWithdrawBridgeStatus] = useState<LifiStatusResponse | null>(null);
+  const withdrawBridgeStatus = useTrackedTransfer(withdrawBridgeTxHash)?.status ?? null;
   const [withdrawBridgeLoading, setWithdrawBridgeLoading] = useState(false);
   const [withdrawBridgeError, setWithdrawBridgeError] = useState<string | null>(null);
   /** Which flow started the current bridge: only that flow's tracker is shown. */
@@ -301,140 +465,6 @@ export default function PairDetailScreen() {
     refetchSuiBalancesForBlock();
   }, [showPlaceOrderBlock, suiAddress, refetchSuiBalancesForBlock]);
 
-  // Poll LI.FI status for Trade-block bridge (Base→Sui) until DONE/FAILED or timeout
-  useEffect(() => {
-    if (!bridgeTxHash) return;
-
-    let notFoundCount = 0;
-    const maxNotFound = 10;
-    const pollMs = 6000;
-    const maxPolls = 100; // ~10 min; bridges can take a while
-    let pollCount = 0;
-    let intervalId: ReturnType<typeof setInterval> | null = null;
-
-    const poll = async (): Promise<boolean> => {
-      try {
-        const status = await fetchLifiStatus(
-          bridgeTxHash!,
-          BASE_MAINNET_CHAIN_ID
-        );
-        setBridgeLifiStatus(status);
-        if (status.status === "NOT_FOUND") {
-          notFoundCount += 1;
-          if (notFoundCount >= maxNotFound) return true;
-        } else {
-          notFoundCount = 0;
-          if (status.status === "DONE" || status.status === "FAILED")
-            return true;
-        }
-      } catch {
-        // keep polling on network error
-      }
-      return false;
-    };
-
-    const schedulePoll = () => {
-      intervalId = setInterval(async () => {
-        pollCount += 1;
-        if (pollCount > maxPolls && intervalId) {
-          clearInterval(intervalId);
-          intervalId = null;
-          return;
-        }
-        const done = await poll();
-        if (done && intervalId) {
-          clearInterval(intervalId);
-          intervalId = null;
-        }
-      }, pollMs);
-    };
-
-    // Run first poll immediately so we show DONE quickly if bridge already completed
-    poll().then((done) => {
-      if (!done) schedulePoll();
-    });
-
-    return () => {
-      if (intervalId) clearInterval(intervalId);
-    };
-  }, [bridgeTxHash]);
-
-  // Poll LI.FI status for Sui→Base bridge (withdraw/close-and-send) until DONE/FAILED
-  useEffect(() => {
-    if (!withdrawBridgeTxHash) return;
-    const pollMs = 6000;
-    const maxPolls = 100; // ~10 min; bridges can take a while
-    let pollCount = 0;
-    let intervalId: ReturnType<typeof setInterval> | null = null;
-
-    const doPoll = async (): Promise<boolean> => {
-      try {
-        const status = await fetchLifiStatus(withdrawBridgeTxHash!, SUI_CHAIN_ID);
-        setWithdrawBridgeStatus(status);
-        return status.status === "DONE" || status.status === "FAILED";
-      } catch {
-        return false;
-      }
-    };
-
-    const schedulePoll = () => {
-      intervalId = setInterval(async () => {
-        pollCount += 1;
-        if (pollCount > maxPolls && intervalId) {
-          clearInterval(intervalId);
-          intervalId = null;
-          return;
-        }
-        const done = await doPoll();
-        if (done && intervalId) {
-          clearInterval(intervalId);
-          intervalId = null;
-        }
-      }, pollMs);
-    };
-
-    // Run first poll immediately so we show DONE quickly if bridge already completed
-    doPoll().then((done) => {
-      if (!done) schedulePoll();
-    });
-
-    return () => {
-      if (intervalId) clearInterval(intervalId);
-    };
-  }, [withdrawBridgeTxHash]);
-
-  // When app comes to foreground, refresh bridge status once (bridge may have completed while away)
-  const bridgeTxHashRef = useRef(bridgeTxHash);
-  bridgeTxHashRef.current = bridgeTxHash;
-  const bridgeLifiStatusRef = useRef(bridgeLifiStatus);
-  bridgeLifiStatusRef.current = bridgeLifiStatus;
-  const withdrawBridgeTxHashRef = useRef(withdrawBridgeTxHash);
-  withdrawBridgeTxHashRef.current = withdrawBridgeTxHash;
-  const withdrawBridgeStatusRef = useRef(withdrawBridgeStatus);
-  withdrawBridgeStatusRef.current = withdrawBridgeStatus;
-  useEffect(() => {
-    const sub = AppState.addEventListener("change", (nextState: AppStateStatus) => {
-      if (nextState !== "active") return;
-      // Base→Sui (Trade block)
-      const baseSuiHash = bridgeTxHashRef.current;
-      const baseSuiStatus = bridgeLifiStatusRef.current;
-      if (baseSuiHash && (!baseSuiStatus || (baseSuiStatus.status !== "DONE" && baseSuiStatus.status !== "FAILED"))) {
-        fetchLifiStatus(baseSuiHash, BASE_MAINNET_CHAIN_ID)
-          .then((s) => setBridgeLifiStatus(s))
-          .catch(() => {});
-      }
-      // Sui→Base (withdraw)
-      const suiBaseHash = withdrawBridgeTxHashRef.current;
-      const suiBaseStatus = withdrawBridgeStatusRef.current;
-      if (suiBaseHash && (!suiBaseStatus || suiBaseStatus.status === "PENDING")) {
-        fetchLifiStatus(suiBaseHash, SUI_CHAIN_ID)
-          .then((s) => setWithdrawBridgeStatus(s))
-          .catch(() => {});
-      }
-    });
-    return () => sub.remove();
-  }, []);
-
   const handleSendBridge = useCallback(async () => {
     if (!evmAddress?.trim()) {
       setBridgeError("No Base wallet address");
@@ -473,7 +503,6 @@ export default function PairDetailScreen() {
 
     setBridgeError(null);
     setBridgeTxHash(null);
-    setBridgeLifiStatus(null);
     setBridgeLoading(true);
 
     try {
@@ -529,7 +558,7 @@ export default function PairDetailScreen() {
           maxPriorityFeePerGas?: string;
           chainId?: number;
         };
-        estimate?: { approvalAddress?: string };
+        estimate?: { approvalAddress?: string; toAmountMin?: string };
       };
 
       const txRequest = quoteResult?.transactionRequest;
@@ -606,6 +635,27 @@ export default function PairDetailScreen() {
       });
       const hashStr = String(txHash);
       setBridgeTxHash(hashStr);
+      bridgesSentHereRef.current.add(hashStr);
+      void trackTransfer({
+        txHash: hashStr,
+        fromChainId: BASE_MAINNET_CHAIN_ID,
+        kind: "bridge_to_margin",
+        label: `${selectedBaseToken.symbol} Base → Sui USDC`,
+        ...(decodedPoolName
+          ? {
+              followUp: {
+                type: "deposit_and_open" as const,
+                poolName: decodedPoolName,
+                intent: {
+                  side: baseTradeSide,
+                  leverage: DEPOSIT_AND_OPEN_LEVERAGE,
+                  maxSlippageBps,
+                  minReceivedRaw: quoteResult?.estimate?.toAmountMin ?? "0",
+                },
+              },
+            }
+          : {}),
+      });
       setBaseTradeAmount("");
     } catch (e) {
       const msg = e instanceof Error ? e.message : "Bridge send failed";
@@ -621,9 +671,12 @@ export default function PairDetailScreen() {
     baseTradeAmount,
     currentNetwork.evmChainId,
     currentNetwork.shortLabel,
+    decodedPoolName,
+    baseTradeSide,
+    maxSlippageBps,
   ]);
 
-  const { ticker } = useTicker(PRICE_POLL_MS);
+  const { ticker } = useTicker(PRICE_POLL_MS, suiNetwork);
   const livePrice = decodedPoolName
     ? ticker[decodedPoolName]?.last_price
     : undefined;
@@ -649,6 +702,30 @@ export default function PairDetailScreen() {
     return dir;
   }, [livePrice]);
 
+  const [orderbookStep, setOrderbookStep] = useState(0);
+  const livePriceMagnitude =
+    typeof livePrice === "number" && livePrice > 0
+      ? Math.floor(Math.log10(livePrice))
+      : null;
+  const orderbookSteps = useMemo(
+    () =>
+      orderbookAggregationSteps(
+        livePriceMagnitude != null ? 10 ** livePriceMagnitude : null
+      ),
+    [livePriceMagnitude]
+  );
+  const {
+    bids: orderbookBids,
+    asks: orderbookAsks,
+    loading: orderbookLoading,
+    error: orderbookError,
+    refetch: refreshOrderbook,
+  } = useOrderbook(decodedPoolName, {
+    depth: ORDERBOOK_DEPTH,
+    aggregation: orderbookStep,
+    network: suiNetwork,
+  });
+
   const [chartInterval, setChartInterval] = useState<OhlcvInterval>("1m");
   const [chartViewMode, setChartViewMode] = useState<"line" | "tradingview">(
     "line"
@@ -677,6 +754,7 @@ export default function PairDetailScreen() {
     displayLimit: CHART_DISPLAY_LIMIT,
     fetchLimit: CHART_FETCH_LIMIT,
     refreshIntervalMs: 10_000, // OHLC every 10s; price (ticker) stays 5s via TickerProvider
+    network: suiNetwork,
   });
 
   const {
@@ -690,15 +768,18 @@ export default function PairDetailScreen() {
     displayLimit: TV_CHART_DISPLAY_LIMIT,
     fetchLimit: TV_CHART_FETCH_LIMIT,
     refreshIntervalMs: 10_000,
+    network: suiNetwork,
   });
 
   useEffect(() => {
     if (__DEV__ && decodedPoolName) {
-      debugFetchOhlcv(decodedPoolName, { interval: "1m", limit: 10 }).catch(
-        (e) => console.warn("[OHLCV debug] dummy call failed", e)
-      );
+      debugFetchOhlcv(
+        decodedPoolName,
+        { interval: "1m", limit: 10 },
+        suiNetwork
+      ).catch((e) => console.warn("[OHLCV debug] dummy call failed", e));
     }
-  }, [decodedPoolName]);
+  }, [decodedPoolName, suiNetwork]);
 
   const toggleIndicatorTv = useCallback(
     (preset: (typeof INDICATOR_PRESETS)[0]) => {
@@ -737,11 +818,12 @@ export default function PairDetailScreen() {
     setPriceLinesTv((prev) => prev.filter((l) => l.id !== id));
   }, []);
 
-  const { pools } = useMarginManagersInfo();
+  const { pools } = useMarginManagersInfo(suiNetwork);
 
   // Unique pairs that support margin: /margin_managers_info returns one row per
   // margin manager; we dedupe by pool to get the set. Doc confirms mainnet has
-  // exactly DEEP_USDC, SUI_USDC, WAL_USDC (see constants/deepbook-margin-mainnet).
+  // exactly DEEP_USDC, SUI_USDC, WAL_USDC (see constants/deepbook-margin-mainnet;
+  // testnet pairs in constants/deepbook-margin-testnet).
   // @see https://docs.sui.io/standards/deepbook-margin-indexer (Get margin managers information)
   const uniquePairKeys = useMemo(() => {
     if (!pools?.length) return [];
@@ -776,11 +858,36 @@ export default function PairDetailScreen() {
   const apiUrl =
     (typeof process !== "undefined" && process.env?.EXPO_PUBLIC_API_URL) ||
     "http://localhost:3001";
+  const { confirmTx, sheet: txPreviewSheet } = useTxPreviewSheet(apiUrl, suiNetwork);
+  // Tick / lot / min size, coin decimals and max leverage from chain. Sizes stay null until loaded, and
+  // orders are neither rounded nor submitted before then.
+  const { byKey: chainPools } = usePools(apiUrl, suiNetwork);
+  const poolMeta = decodedPoolName ? chainPools.get(decodedPoolName) ?? null : null;
+  const minOrderQuantity = poolMeta?.minSize ?? null;
+  const lotSize = poolMeta?.lotSize ?? null;
+  const tickSize = poolMeta?.tickSize ?? null;
+  /** Decimals of this pool's base / quote coin (DEEP from any loaded pool); null until pools load. */
+  const decimalsForCoinType = useCallback(
+    (coinType: string): number | null => {
+      if (!poolMeta) return null;
+      for (const meta of [poolMeta, ...chainPools.values()]) {
+        if (sameCoinType(meta.base.type, coinType)) return meta.base.decimals;
+        if (sameCoinType(meta.quote.type, coinType)) return meta.quote.decimals;
+      }
+      return null;
+    },
+    [poolMeta, chainPools]
+  );
+  const { sponsored: sponsorGas } = useGasSponsorship(
+    suiAddress,
+    apiUrl,
+    suiNetwork
+  );
   const {
     managers: ownedManagers,
     loading: ownedLoading,
     refresh: refreshOwned,
-  } = useOwnedMarginManagers(suiAddress, apiUrl, "mainnet");
+  } = useOwnedMarginManagers(suiAddress, apiUrl, suiNetwork);
 
   const poolIdForMatch = poolInfoForPair?.deepbook_pool_id?.toLowerCase();
   /** User's chosen margin manager for this pool when they have multiple (e.g. created elsewhere). */
@@ -844,7 +951,25 @@ export default function PairDetailScreen() {
     refresh: refreshMarginState,
   } = useMarginManagerState(
     marginManagerId,
-    poolInfoForPair?.deepbook_pool_id ?? null
+    poolInfoForPair?.deepbook_pool_id ?? null,
+    suiNetwork
+  );
+  const { params: riskParams } = useMarginRiskParams(
+    decodedPoolName,
+    apiUrl,
+    suiNetwork
+  );
+  // Liquidation price, withdraw / borrow headroom from margin state + pool risk ratios.
+  const marginRisk = useMemo(
+    () => (state && riskParams ? marginRiskSummary(state, riskParams) : null),
+    [state, riskParams]
+  );
+  // Exact debt (shares × pool borrow index) with accrued interest, for the position panel.
+  const { debts: marginDebts, refresh: refreshMarginDebts } = useMarginDebts(
+    marginManagerId,
+    decodedPoolName,
+    apiUrl,
+    suiNetwork
   );
   const {
     collateral,
@@ -857,26 +982,38 @@ export default function PairDetailScreen() {
   } = useMarginHistory(
     marginManagerId,
     poolInfoForPair?.base_margin_pool_id ?? null,
-    poolInfoForPair?.quote_margin_pool_id ?? null
+    poolInfoForPair?.quote_margin_pool_id ?? null,
+    suiNetwork
   );
   const {
     orders: openOrders,
     loading: openOrdersLoading,
     error: openOrdersError,
     refresh: refreshOpenOrders,
-  } = useOpenOrders(marginManagerId, decodedPoolName);
+  } = useOpenOrders(marginManagerId, decodedPoolName, suiNetwork);
+  const {
+    orders: conditionalOrders,
+    loading: conditionalOrdersLoading,
+    error: conditionalOrdersError,
+    refresh: refreshConditionalOrders,
+  } = useConditionalOrders(
+    marginManagerId,
+    decodedPoolName,
+    apiUrl,
+    suiNetwork
+  );
   const {
     orders: orderHistory,
     loading: orderHistoryLoading,
     error: orderHistoryError,
     refresh: refreshOrderHistory,
-  } = useOrderHistory(marginManagerId, decodedPoolName);
+  } = useOrderHistory(marginManagerId, decodedPoolName, suiNetwork);
   const {
     trades: tradeHistory,
     loading: tradeHistoryLoading,
     error: tradeHistoryError,
     refresh: refreshTradeHistory,
-  } = useTrades(marginManagerId, decodedPoolName);
+  } = useTrades(marginManagerId, decodedPoolName, suiNetwork);
 
   useEffect(() => {
     if (marginManagerId && state) {
@@ -888,7 +1025,7 @@ export default function PairDetailScreen() {
         apiUrl,
         marginManagerId,
         poolKey: decodedPoolName,
-        network: "mainnet",
+        network: suiNetwork,
       })
         .then((chain) => {
           console.log(
@@ -935,7 +1072,7 @@ export default function PairDetailScreen() {
           }
         });
     }
-  }, [marginManagerId, state, apiUrl, decodedPoolName]);
+  }, [marginManagerId, state, apiUrl, decodedPoolName, suiNetwork]);
 
   // (Removed verbose state→live-position debug logging to keep console clean.)
 
@@ -958,14 +1095,20 @@ export default function PairDetailScreen() {
     useCallback(() => {
       if (!showPlaceOrderBlock) {
         setBridgeTxHash(null);
-        setBridgeLifiStatus(null);
         setBridgeError(null);
       }
     }, [showPlaceOrderBlock])
   );
 
   const [orderSide, setOrderSide] = useState<"buy" | "sell">("buy");
+  /** Margin trades through the margin manager (leverage, borrowing); spot through a plain balance manager. */
+  const [tradeMode, setTradeMode] = useState<"margin" | "spot">("margin");
   const [orderType, setOrderType] = useState<"limit" | "market">("limit");
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>("gtc");
+  /** Expiry duration from submit time (ms); null = good until cancelled. */
+  const [expiryMs, setExpiryMs] = useState<number | null>(null);
+  const [selfMatching, setSelfMatching] = useState<SelfMatching>("allow");
+  const [customSlippage, setCustomSlippage] = useState("");
   const [leverage, setLeverage] = useState(1);
   const [price, setPrice] = useState("");
   const [quantity, setQuantity] = useState("");
@@ -998,7 +1141,27 @@ export default function PairDetailScreen() {
     useState(false);
   const [orderLoading, setOrderLoading] = useState(false);
   const [closePositionLoading, setClosePositionLoading] = useState(false);
+  const [cancellingOrderIds, setCancellingOrderIds] = useState<string[]>([]);
+  const [cancelAllOrdersLoading, setCancelAllOrdersLoading] = useState(false);
+  const [cancellingTpslIds, setCancellingTpslIds] = useState<string[]>([]);
+  const [cancelAllTpslLoading, setCancelAllTpslLoading] = useState(false);
   const [closeAndWithdrawLoading, setCloseAndWithdrawLoading] = useState(false);
+  const [spotCreateLoading, setSpotCreateLoading] = useState(false);
+  const [spotTransferLoading, setSpotTransferLoading] = useState(false);
+  const [cancellingSpotOrderIds, setCancellingSpotOrderIds] = useState<string[]>([]);
+  const {
+    balanceManagerId: spotManagerId,
+    balances: spotBalances,
+    openOrders: spotOpenOrders,
+    loading: spotLoading,
+    error: spotError,
+    refresh: refreshSpot,
+  } = useBalanceManager(
+    tradeMode === "spot" ? suiAddress : null,
+    decodedPoolName,
+    apiUrl,
+    suiNetwork
+  );
   const [closeAndSendToBaseLoading, setCloseAndSendToBaseLoading] = useState(false);
   const [withdrawToBaseLoading, setWithdrawToBaseLoading] = useState(false);
   const [tpPrice, setTpPrice] = useState("");
@@ -1031,22 +1194,23 @@ export default function PairDetailScreen() {
 
   const getDepositCoinType = useCallback(
     (asset: "base" | "quote" | "deep"): string | null => {
-      if (asset === "deep") return COIN_TYPES_MAINNET.DEEP;
+      if (asset === "deep") return getMarginConstants(suiNetwork).coinTypes.DEEP;
       if (!poolInfoForPair) return null;
       return asset === "base"
         ? poolInfoForPair.base_asset_id
         : poolInfoForPair.quote_asset_id;
     },
-    [poolInfoForPair]
+    [poolInfoForPair, suiNetwork]
   );
 
   const getDecimalsForAsset = useCallback(
-    (asset: "base" | "quote" | "deep"): number => {
+    (asset: "base" | "quote" | "deep"): number | null => {
       const coinType = getDepositCoinType(asset);
-      return coinType ? getDecimalsForCoinType(coinType) : 9;
+      return coinType ? decimalsForCoinType(coinType) : null;
     },
-    [getDepositCoinType]
+    [getDepositCoinType, decimalsForCoinType]
   );
+  const depositAssetDecimals = getDecimalsForAsset(depositAsset);
 
   useEffect(() => {
     if (
@@ -1087,6 +1251,10 @@ export default function PairDetailScreen() {
       return;
     }
     const decimals = getDecimalsForAsset(depositAsset);
+    if (decimals == null) {
+      setDepositAmountExceedsBalance(false);
+      return;
+    }
     const amountRaw = BigInt(Math.round(amountNum * Math.pow(10, decimals)));
     setDepositAmountExceedsBalance(amountRaw > BigInt(raw));
   }, [
@@ -1099,12 +1267,13 @@ export default function PairDetailScreen() {
   // Derive available base/quote/deep by summing activity: +deposits -withdrawals per asset.
   // Matches what the user sees in the Activity list and updates as soon as new events load.
   const availableFromEventSum = useMemo(() => {
-    if (!collateral.length) return null;
+    if (!collateral.length || !poolMeta) return null;
     let base = 0;
     let quote = 0;
     let deep = 0;
     for (const e of collateral) {
-      const decimals = getDecimalsForCoinType(e.asset_type);
+      const decimals = decimalsForCoinType(e.asset_type);
+      if (decimals == null) continue;
       const humanAmount = Number(e.amount) / Math.pow(10, decimals);
       const delta =
         e.event_type?.toLowerCase() === "deposit" ? humanAmount : -humanAmount;
@@ -1116,7 +1285,7 @@ export default function PairDetailScreen() {
       else if (symbol === "DEEP") deep += delta;
     }
     return { base, quote, deep };
-  }, [collateral, poolInfoForPair]);
+  }, [collateral, poolInfoForPair, poolMeta, decimalsForCoinType]);
 
   // Available balance for withdraw. Prefer state when available so open positions are reflected.
   const withdrawAvailableHuman = useMemo(() => {
@@ -1141,9 +1310,27 @@ export default function PairDetailScreen() {
     return null;
   }, [withdrawAsset, availableFromEventSum, state]);
 
-  const maxLeverageForPool = decodedPoolName
-    ? getMaxLeverageForPool(decodedPoolName)
-    : 3;
+  const maxLeverageForPool =
+    poolMeta?.maxLeverage ??
+    (decodedPoolName ? getMaxLeverageForPoolOnNetwork(decodedPoolName, suiNetwork) : 3);
+  // Longs borrow the quote asset, shorts the base: show that margin pool's borrow cost by the leverage picker.
+  const borrowCoinKey = decodedPoolName
+    ? decodedPoolName.split("_")[orderSide === "buy" ? 1 : 0] ?? null
+    : null;
+  const {
+    rates: borrowRates,
+    loading: borrowRatesLoading,
+    error: borrowRatesError,
+  } = useMarginPoolRates(borrowCoinKey, apiUrl, suiNetwork);
+  const { integrity: priceIntegrity } = usePriceIntegrity(decodedPoolName, apiUrl, suiNetwork);
+  // The backend refuses opening market orders in this state; say so before the user signs anything.
+  const marketOrdersBlocked = priceIntegrity?.status === "block";
+  const priceIntegrityColor =
+    priceIntegrity?.status === "block"
+      ? "#ef4444"
+      : priceIntegrity?.status === "warn"
+        ? "#f59e0b"
+        : colors.text;
   const leverageOptions = useMemo(
     () =>
       Array.from({ length: maxLeverageForPool }, (_, i) => (i + 1) as number),
@@ -1179,6 +1366,29 @@ export default function PairDetailScreen() {
     }
   }, [maxMarginBase]);
 
+  // Spot max: what the spot account can pay for (quote ÷ price for buys, base for sells), on the lot grid.
+  const spotMaxQuantity = useMemo(() => {
+    if (!spotBalances || lotSize == null) return null;
+    if (orderSide === "sell") return roundDownToStep(spotBalances.base.available, lotSize);
+    const limitPrice = orderType === "limit" ? parseFloat(price.trim()) : NaN;
+    const px =
+      Number.isFinite(limitPrice) && limitPrice > 0
+        ? limitPrice
+        : typeof livePrice === "number" && livePrice > 0
+          ? livePrice
+          : null;
+    return px != null ? roundDownToStep(spotBalances.quote.available / px, lotSize) : null;
+  }, [spotBalances, orderSide, orderType, price, livePrice, lotSize]);
+  const maxOrderQuantity = tradeMode === "spot" ? spotMaxQuantity : maxMarginBase;
+
+  const setQuantityToMax = useCallback(() => {
+    if (tradeMode === "spot") {
+      if (spotMaxQuantity != null && spotMaxQuantity > 0) setQuantity(String(spotMaxQuantity));
+      return;
+    }
+    setMarginToMax();
+  }, [tradeMode, spotMaxQuantity, setMarginToMax]);
+
   const [paymentAsset, setPaymentAsset] = useState<"base" | "quote" | "deep">(
     "quote"
   );
@@ -1196,6 +1406,54 @@ export default function PairDetailScreen() {
     return null;
   }, [paymentAsset, availableFromEventSum, state]);
 
+  // Live preview of the order being typed (same sizing and borrows as onPlaceOrder; spot: no leverage).
+  const orderPreviewParams = useMemo(() => {
+    if (!showPlaceOrderBlock || !decodedPoolName) return null;
+    if (lotSize == null || minOrderQuantity == null || tickSize == null) return null;
+    const marginQty = parseFloat(quantity.trim());
+    if (!Number.isFinite(marginQty) || marginQty <= 0) return null;
+    const isSpot = tradeMode === "spot";
+    const orderQty = roundDownToStep(marginQty * (isSpot ? 1 : leverage), lotSize);
+    if (orderQty < minOrderQuantity) return null;
+    const rawPrice = orderType === "limit" ? parseFloat(price.trim()) : undefined;
+    const pr = rawPrice != null ? roundToStep(rawPrice, tickSize) : undefined;
+    if (orderType === "limit" && (pr == null || !Number.isFinite(pr) || pr <= 0)) {
+      return null;
+    }
+    return {
+      poolKey: decodedPoolName,
+      orderType,
+      isBid: orderSide === "buy",
+      quantity: orderQty,
+      price: pr,
+      timeInForce: orderType === "limit" ? timeInForce : undefined,
+      marginManagerId: isSpot ? undefined : marginManagerId ?? undefined,
+      payWithDeep: paymentAsset === "deep",
+      ...(isSpot ? {} : borrowAmountsForOrder(orderSide, marginQty, leverage, livePrice)),
+    };
+  }, [
+    showPlaceOrderBlock,
+    decodedPoolName,
+    quantity,
+    tradeMode,
+    leverage,
+    orderType,
+    timeInForce,
+    price,
+    orderSide,
+    marginManagerId,
+    paymentAsset,
+    livePrice,
+    lotSize,
+    tickSize,
+    minOrderQuantity,
+  ]);
+  const {
+    preview: orderPreview,
+    loading: orderPreviewLoading,
+    error: orderPreviewError,
+  } = useOrderPreview(orderPreviewParams, apiUrl, suiNetwork);
+
   // Margin account token balances for display (like home screen balances).
   // Prefer state when available so open positions are reflected (state includes trading;
   // event sum is only deposits - withdrawals). State = GET /margin_manager_states.
@@ -1451,7 +1709,9 @@ export default function PairDetailScreen() {
         amount,
         signRawHash,
         publicKeyHex: publicKeyToHex(suiWallet.publicKey),
-        network: "mainnet",
+        confirmBeforeSign: confirmTx,
+        sponsored: sponsorGas,
+        network: suiNetwork,
       });
       setDepositModalVisible(false);
       setDepositAmount("");
@@ -1485,9 +1745,10 @@ export default function PairDetailScreen() {
         'Deposit submitted. Balance may take 1–2 minutes to appear. Tap "Refresh balance" in the margin card if it hasn’t updated.'
       );
     } catch (err) {
+      if (isTxCancelled(err)) return;
       Alert.alert(
         "Deposit failed",
-        err instanceof Error ? err.message : "Unknown error"
+        errorMessageWithCode(err, "Unknown error")
       );
     } finally {
       setDepositLoading(false);
@@ -1503,12 +1764,15 @@ export default function PairDetailScreen() {
     signRawHash,
     suiWallet?.publicKey,
     apiUrl,
+    sponsorGas,
+    confirmTx,
     refreshOwned,
     refreshMarginState,
     refreshMarginHistory,
     refreshOpenOrders,
     refreshOrderHistory,
     refreshTradeHistory,
+    suiNetwork,
   ]);
 
   const onWithdrawSubmit = useCallback(async () => {
@@ -1550,7 +1814,9 @@ export default function PairDetailScreen() {
         amount,
         signRawHash,
         publicKeyHex: publicKeyToHex(suiWallet.publicKey),
-        network: "mainnet",
+        confirmBeforeSign: confirmTx,
+        sponsored: sponsorGas,
+        network: suiNetwork,
       });
       setWithdrawModalVisible(false);
       setWithdrawAmount("");
@@ -1584,9 +1850,10 @@ export default function PairDetailScreen() {
         'Withdrawal submitted. Balance may take 1–2 minutes to update. Tap "Refresh balance" in the margin card if it hasn’t updated.'
       );
     } catch (err) {
+      if (isTxCancelled(err)) return;
       Alert.alert(
         "Withdraw failed",
-        err instanceof Error ? err.message : "Unknown error"
+        errorMessageWithCode(err, "Unknown error")
       );
     } finally {
       setWithdrawLoading(false);
@@ -1602,12 +1869,15 @@ export default function PairDetailScreen() {
     signRawHash,
     suiWallet?.publicKey,
     apiUrl,
+    sponsorGas,
+    confirmTx,
     refreshOwned,
     refreshMarginState,
     refreshMarginHistory,
     refreshOpenOrders,
     refreshOrderHistory,
     refreshTradeHistory,
+    suiNetwork,
   ]);
 
   const assetLabel = (asset: "base" | "quote" | "deep") => {
@@ -1621,14 +1891,10 @@ export default function PairDetailScreen() {
   /** Format borrow/repay amount (raw from indexer) to human + symbol, e.g. "1 SUI". */
   const formatLoanAmount = useCallback(
     (amountRaw: number, marginPoolId: string): string => {
-      if (!poolInfoForPair) return String(amountRaw);
+      if (!poolInfoForPair || !poolMeta) return String(amountRaw);
       const isBase =
         marginPoolId === poolInfoForPair.base_margin_pool_id;
-      const decimals = getDecimalsForCoinType(
-        isBase
-          ? poolInfoForPair.base_asset_id
-          : poolInfoForPair.quote_asset_id
-      );
+      const decimals = isBase ? poolMeta.base.decimals : poolMeta.quote.decimals;
       const symbol = isBase
         ? poolInfoForPair.base_asset_symbol
         : poolInfoForPair.quote_asset_symbol;
@@ -1638,7 +1904,7 @@ export default function PairDetailScreen() {
         maximumFractionDigits: 6,
       })} ${symbol}`;
     },
-    [poolInfoForPair]
+    [poolInfoForPair, poolMeta]
   );
 
   const onCreateManager = useCallback(async () => {
@@ -1675,7 +1941,8 @@ export default function PairDetailScreen() {
         poolKey,
         signRawHash,
         publicKeyHex,
-        network: "mainnet",
+        sponsored: sponsorGas,
+        network: suiNetwork,
       });
       setJustCreatedManager({
         margin_manager_id: result.margin_manager_id,
@@ -1687,7 +1954,7 @@ export default function PairDetailScreen() {
         "Margin manager created. You can now deposit and trade."
       );
     } catch (err) {
-      const msg = err instanceof Error ? err.message : "Create failed";
+      const msg = errorMessageWithCode(err, "Create failed");
       Alert.alert("Create margin manager failed", msg);
     } finally {
       setCreateManagerLoading(false);
@@ -1699,7 +1966,9 @@ export default function PairDetailScreen() {
     signRawHash,
     suiWallet?.publicKey,
     apiUrl,
+    sponsorGas,
     refreshOwned,
+    suiNetwork,
   ]);
 
   const onPlaceOrder = useCallback(async () => {
@@ -1727,16 +1996,21 @@ export default function PairDetailScreen() {
       Alert.alert("Place order", "Enter a valid margin (your capital).");
       return;
     }
-    // Order size sent to protocol = your margin × leverage (protocol borrows the rest).
-    const orderQty = marginQty * leverage;
-    if (orderQty < MIN_ORDER_QUANTITY) {
+    if (lotSize == null || minOrderQuantity == null || tickSize == null) {
+      Alert.alert("Place order", "Pool details are still loading. Try again in a moment.");
+      return;
+    }
+    // Order size sent to protocol = your margin × leverage (protocol borrows the rest), on the pool's lot grid.
+    const orderQty = roundDownToStep(marginQty * leverage, lotSize);
+    if (orderQty < minOrderQuantity) {
       Alert.alert(
         "Place order",
-        `Position (margin × ${leverage}×) must be at least ${MIN_ORDER_QUANTITY}. Use margin ≥ ${(MIN_ORDER_QUANTITY / leverage).toFixed(2)}.`
+        `Position (margin × ${leverage}×) must be at least ${minOrderQuantity}. Use margin ≥ ${(minOrderQuantity / leverage).toFixed(2)}.`
       );
       return;
     }
-    const pr = orderType === "limit" ? parseFloat(price.trim()) : undefined;
+    const rawPrice = orderType === "limit" ? parseFloat(price.trim()) : undefined;
+    const pr = rawPrice != null ? roundToStep(rawPrice, tickSize) : undefined;
     if (
       orderType === "limit" &&
       (pr == null || !Number.isFinite(pr) || pr <= 0)
@@ -1766,18 +2040,12 @@ export default function PairDetailScreen() {
       );
       return;
     }
-    // Borrow (n-1)× margin so account has enough for the order. Long = borrow quote; short = borrow base.
-    const borrowBaseAmount =
-      orderSide === "sell" && leverage > 1
-        ? Math.round(marginQty * (leverage - 1) * 1e6) / 1e6
-        : undefined;
-    const borrowQuoteAmount =
-      orderSide === "buy" &&
-      leverage > 1 &&
-      typeof livePrice === "number" &&
-      livePrice > 0
-        ? Math.round(marginQty * livePrice * (leverage - 1) * 1e6) / 1e6
-        : undefined;
+    const { borrowBaseAmount, borrowQuoteAmount } = borrowAmountsForOrder(
+      orderSide,
+      marginQty,
+      leverage,
+      livePrice
+    );
 
     setOrderLoading(true);
     try {
@@ -1794,9 +2062,21 @@ export default function PairDetailScreen() {
         payWithDeep: paymentAsset === "deep",
         borrowBaseAmount,
         borrowQuoteAmount,
+        timeInForce: orderType === "limit" ? timeInForce : undefined,
+        maxSlippageBps: orderType === "market" ? maxSlippageBps : undefined,
+        // IOC / FOK never rest, so an expiry picked earlier is ignored for them.
+        expiration:
+          orderType === "limit" &&
+          expiryMs != null &&
+          (timeInForce === "gtc" || timeInForce === "post_only")
+            ? Date.now() + expiryMs
+            : undefined,
+        selfMatching,
         signRawHash,
         publicKeyHex,
-        network: "mainnet",
+        confirmBeforeSign: confirmTx,
+        sponsored: sponsorGas,
+        network: suiNetwork,
       });
       refreshMarginHistory?.();
       refreshOpenOrders?.();
@@ -1815,21 +2095,27 @@ export default function PairDetailScreen() {
       setPrice("");
       Alert.alert("Place order", "Order submitted.");
     } catch (err) {
+      if (isTxCancelled(err)) return;
       const raw = err instanceof Error ? err.message : "Place order failed";
       console.log("[Place order] Protocol/backend error:", raw);
       const isInsufficientMargin =
+        (err instanceof ApiError && err.code === "INSUFFICIENT_ACCOUNT_BALANCE") ||
         raw.includes("withdraw_with_proof") ||
         raw.includes("abort code: 3") ||
         raw.includes("could not automatically determine a budget");
       const msg = isInsufficientMargin
         ? "Insufficient margin for this order. Try reducing quantity or add more collateral."
-        : raw;
+        : errorMessageWithCode(err, "Place order failed");
       Alert.alert("Place order", msg);
     } finally {
       setOrderLoading(false);
     }
   }, [
     orderType,
+    timeInForce,
+    expiryMs,
+    selfMatching,
+    maxSlippageBps,
     price,
     quantity,
     orderSide,
@@ -1839,28 +2125,239 @@ export default function PairDetailScreen() {
     assetLabel,
     equityUsd,
     leverage,
+    lotSize,
+    tickSize,
+    minOrderQuantity,
     marginManagerId,
     decodedPoolName,
     suiAddress,
     signRawHash,
     suiWallet?.publicKey,
     apiUrl,
+    sponsorGas,
+    maxSlippageBps,
+    confirmTx,
     refreshMarginHistory,
     refreshOpenOrders,
     refreshOrderHistory,
     refreshTradeHistory,
     refreshMarginState,
+    suiNetwork,
   ]);
 
-  const handleDepositAndOpenPosition = useCallback(async () => {
-    const status = bridgeLifiStatus;
+  /** Spot mode: same form, but quantity is the order size in base and the order trades the spot account. */
+  const onPlaceSpotOrder = useCallback(async () => {
+    if (!quantity.trim() || (orderType === "limit" && !price.trim())) {
+      Alert.alert(
+        "Place order",
+        orderType === "limit" ? "Enter price and quantity for limit order." : "Enter quantity for market order."
+      );
+      return;
+    }
+    if (!spotManagerId || !decodedPoolName || !suiAddress) {
+      Alert.alert("Place order", "Create a spot account first.");
+      return;
+    }
+    if (!signRawHash || !suiWallet?.publicKey) {
+      Alert.alert("Place order", "Wallet signing not available.");
+      return;
+    }
+    if (lotSize == null || minOrderQuantity == null || tickSize == null) {
+      Alert.alert("Place order", "Pool details are still loading. Try again in a moment.");
+      return;
+    }
+    const orderQty = roundDownToStep(parseFloat(quantity.trim()), lotSize);
+    if (!Number.isFinite(orderQty) || orderQty < minOrderQuantity) {
+      Alert.alert("Place order", `Quantity must be at least ${minOrderQuantity}.`);
+      return;
+    }
+    const rawPrice = orderType === "limit" ? parseFloat(price.trim()) : undefined;
+    const pr = rawPrice != null ? roundToStep(rawPrice, tickSize) : undefined;
+    if (orderType === "limit" && (pr == null || !Number.isFinite(pr) || pr <= 0)) {
+      Alert.alert("Place order", "Enter a valid price.");
+      return;
+    }
+    if (spotMaxQuantity != null && orderQty > spotMaxQuantity) {
+      Alert.alert(
+        "Place order",
+        `Not enough ${orderSide === "buy" ? poolInfoForPair?.quote_asset_symbol ?? "quote" : poolInfoForPair?.base_asset_symbol ?? "base"} in your spot account (max ${spotMaxQuantity}). Deposit more first.`
+      );
+      return;
+    }
+
+    setOrderLoading(true);
+    try {
+      await placeSpotOrderViaBackend({
+        apiUrl,
+        sender: suiAddress,
+        balanceManagerId: spotManagerId,
+        poolKey: decodedPoolName,
+        orderType,
+        isBid: orderSide === "buy",
+        quantity: orderQty,
+        price: pr,
+        payWithDeep: paymentAsset === "deep",
+        timeInForce: orderType === "limit" ? timeInForce : undefined,
+        maxSlippageBps: orderType === "market" ? maxSlippageBps : undefined,
+        expiration:
+          orderType === "limit" &&
+          expiryMs != null &&
+          (timeInForce === "gtc" || timeInForce === "post_only")
+            ? Date.now() + expiryMs
+            : undefined,
+        selfMatching,
+        signRawHash,
+        publicKeyHex: publicKeyToHex(suiWallet.publicKey),
+        confirmBeforeSign: confirmTx,
+        sponsored: sponsorGas,
+        network: suiNetwork,
+      });
+      refreshSpot();
+      setPrice("");
+      Alert.alert("Place order", "Order submitted.");
+    } catch (err) {
+      if (isTxCancelled(err)) return;
+      Alert.alert("Place order", errorMessageWithCode(err, "Place order failed"));
+    } finally {
+      setOrderLoading(false);
+    }
+  }, [
+    orderType,
+    timeInForce,
+    expiryMs,
+    selfMatching,
+    maxSlippageBps,
+    price,
+    quantity,
+    orderSide,
+    paymentAsset,
+    lotSize,
+    tickSize,
+    minOrderQuantity,
+    spotMaxQuantity,
+    spotManagerId,
+    poolInfoForPair,
+    decodedPoolName,
+    suiAddress,
+    signRawHash,
+    suiWallet?.publicKey,
+    apiUrl,
+    sponsorGas,
+    confirmTx,
+    refreshSpot,
+    suiNetwork,
+  ]);
+
+  const onCreateSpotAccount = useCallback(async () => {
+    if (!suiAddress || !signRawHash || !suiWallet?.publicKey) {
+      Alert.alert("Spot account", "Connect a wallet first.");
+      return;
+    }
+    setSpotCreateLoading(true);
+    try {
+      const { balance_manager_id } = await createBalanceManagerViaBackend({
+        apiUrl,
+        sender: suiAddress,
+        signRawHash,
+        publicKeyHex: publicKeyToHex(suiWallet.publicKey),
+        confirmBeforeSign: confirmTx,
+        sponsored: sponsorGas,
+        network: suiNetwork,
+      });
+      refreshSpot(balance_manager_id);
+    } catch (err) {
+      if (isTxCancelled(err)) return;
+      Alert.alert("Spot account", errorMessageWithCode(err, "Create spot account failed"));
+    } finally {
+      setSpotCreateLoading(false);
+    }
+  }, [suiAddress, signRawHash, suiWallet?.publicKey, apiUrl, confirmTx, sponsorGas, suiNetwork, refreshSpot]);
+
+  const onSpotTransfer = useCallback(
+    async (direction: "deposit" | "withdraw", asset: BalanceManagerAsset, amount: number | undefined) => {
+      const title = direction === "deposit" ? "Deposit" : "Withdraw";
+      if (!spotManagerId || !decodedPoolName || !suiAddress || !signRawHash || !suiWallet?.publicKey) {
+        Alert.alert(title, "Create a spot account and ensure wallet is connected.");
+        return;
+      }
+      setSpotTransferLoading(true);
+      try {
+        const transfer =
+          direction === "deposit"
+            ? depositToBalanceManagerViaBackend
+            : withdrawFromBalanceManagerViaBackend;
+        await transfer({
+          apiUrl,
+          sender: suiAddress,
+          balanceManagerId: spotManagerId,
+          poolKey: decodedPoolName,
+          asset,
+          amount,
+          signRawHash,
+          publicKeyHex: publicKeyToHex(suiWallet.publicKey),
+          confirmBeforeSign: confirmTx,
+          sponsored: sponsorGas,
+          network: suiNetwork,
+        });
+        refreshSpot();
+      } catch (err) {
+        if (isTxCancelled(err)) return;
+        Alert.alert(title, errorMessageWithCode(err, `${title} failed`));
+      } finally {
+        setSpotTransferLoading(false);
+      }
+    },
+    [spotManagerId, decodedPoolName, suiAddress, signRawHash, suiWallet?.publicKey, apiUrl, confirmTx, sponsorGas, suiNetwork, refreshSpot]
+  );
+
+  const onCancelSpotOrder = useCallback(async (orderId: string) => {
+    if (!spotManagerId || !decodedPoolName || !suiAddress || !signRawHash || !suiWallet?.publicKey) {
+      Alert.alert("Cancel order", "Create a spot account and ensure wallet is connected.");
+      return;
+    }
+    setCancellingSpotOrderIds((prev) => [...prev, orderId]);
+    try {
+      await cancelSpotOrderViaBackend({
+        apiUrl,
+        sender: suiAddress,
+        balanceManagerId: spotManagerId,
+        poolKey: decodedPoolName,
+        orderIds: [orderId],
+        signRawHash,
+        publicKeyHex: publicKeyToHex(suiWallet.publicKey),
+        sponsored: sponsorGas,
+        network: suiNetwork,
+      });
+      refreshSpot();
+    } catch (err) {
+      Alert.alert("Cancel order", errorMessageWithCode(err, "Cancel order failed"));
+    } finally {
+      setCancellingSpotOrderIds((prev) => prev.filter((id) => id !== orderId));
+    }
+  }, [spotManagerId, decodedPoolName, suiAddress, signRawHash, suiWallet?.publicKey, apiUrl, sponsorGas, suiNetwork, refreshSpot]);
+
+  /**
+   * Deposit the bridged USDC and open the position saved with the bridge (side, leverage, slippage). Runs
+   * from the button, or from the transfer tracker when the bridge lands. Resolves true once the order is placed.
+   */
+  const runDepositAndOpen = useCallback(async (
+    status: LifiStatusResponse | null,
+    intent: DepositAndOpenIntent
+  ): Promise<boolean> => {
     if (status?.status !== "DONE" || !status.receiving?.amount) {
       Alert.alert("Deposit & open position", "Bridge not complete or amount unknown.");
-      return;
+      return false;
     }
     const rawAmount = status.receiving.amount;
     const decimals = status.receiving.token?.decimals ?? 6;
     const depositAmountHuman = Number(rawAmount) / Math.pow(10, decimals);
+    if (BigInt(rawAmount) < BigInt(intent.minReceivedRaw || "0")) {
+      Alert.alert(
+        "Deposit & open position",
+        `The bridge delivered ${depositAmountHuman}, less than the minimum of ${Number(intent.minReceivedRaw) / Math.pow(10, decimals)} you accepted. The funds are in your Sui wallet.`
+      );
+      return false;
+    }
     if (
       !Number.isFinite(depositAmountHuman) ||
       depositAmountHuman < MIN_MARGIN_DEPOSIT_WITHDRAW_AMOUNT
@@ -1869,24 +2366,40 @@ export default function PairDetailScreen() {
         "Deposit & open position",
         `Received amount is below minimum deposit (${MIN_MARGIN_DEPOSIT_WITHDRAW_AMOUNT}).`
       );
-      return;
+      return false;
     }
     if (typeof livePrice !== "number" || livePrice <= 0) {
       Alert.alert("Deposit & open position", "Price not available. Try again in a moment.");
-      return;
-    }
-    if (!suiAddress || !decodedPoolName || !poolInfoForPair) {
-      Alert.alert("Deposit & open position", "Missing wallet or pool.");
-      return;
+      return false;
     }
-    if (!signRawHash || !suiWallet?.publicKey) {
+    if (marketOrdersBlocked) {
       Alert.alert(
         "Deposit & open position",
-        "Signing not available. Link your Sui wallet on Home."
+        "Market orders are paused while the book is far from the oracle price. Try again shortly."
       );
-      return;
+      return false;
     }
-
+    if (!suiAddress || !decodedPoolName || !poolInfoForPair) {
+      Alert.alert("Deposit & open position", "Missing wallet or pool.");
+      return false;
+    }
+    if (!poolMeta || lotSize == null || minOrderQuantity == null) {
+      Alert.alert("Deposit & open position", "Pool details are still loading. Try again in a moment.");
+      return false;
+    }
+    const bridgeProblem = bridgedQuoteProblem(status, poolInfoForPair.quote_asset_id);
+    if (bridgeProblem) {
+      Alert.alert("Deposit & open position", bridgeProblem);
+      return false;
+    }
+    if (!signRawHash || !suiWallet?.publicKey) {
+      Alert.alert(
+        "Deposit & open position",
+        "Signing not available. Link your Sui wallet on Home."
+      );
+      return false;
+    }
+
     let effectiveManagerId = managerForThisPool?.margin_manager_id ?? null;
     setDepositAndOpenLoading(true);
     try {
@@ -1898,7 +2411,8 @@ export default function PairDetailScreen() {
           poolKey: decodedPoolName,
           signRawHash,
           publicKeyHex,
-          network: "mainnet",
+          sponsored: sponsorGas,
+          network: suiNetwork,
         });
         effectiveManagerId = result.margin_manager_id;
         setJustCreatedManager({
@@ -1919,7 +2433,9 @@ export default function PairDetailScreen() {
           amount: depositAmountHuman,
           signRawHash,
           publicKeyHex,
-          network: "mainnet",
+          confirmBeforeSign: confirmTx,
+          sponsored: sponsorGas,
+          network: suiNetwork,
         });
       try {
         await doDeposit();
@@ -1933,7 +2449,7 @@ export default function PairDetailScreen() {
           throw depositErr;
         }
       }
-      // --- Post-deposit: open position at 2× (same logic as main Sui Place order) ---
+      // --- Post-deposit: open the saved position (same logic as main Sui Place order) ---
       // Step 1: Wait for deposit to be visible on chain (so borrow + order tx sees updated balance).
       await new Promise((r) => setTimeout(r, 3500));
 
@@ -1942,7 +2458,7 @@ export default function PairDetailScreen() {
         apiUrl,
         marginManagerId: effectiveManagerId!,
         poolKey: decodedPoolName,
-        network: "mainnet",
+        network: suiNetwork,
       });
       const assets = chainState.calculateAssets;
       if (!assets || (Number(assets.quote_asset) <= 0 && Number(assets.base_asset) <= 0)) {
@@ -1950,42 +2466,34 @@ export default function PairDetailScreen() {
       }
 
       // Step 3: Convert raw chain amounts to human (chain returns u64 in token smallest units).
-      const quoteDecimals = poolInfoForPair?.quote_asset_id
-        ? getDecimalsForCoinType(poolInfoForPair.quote_asset_id)
-        : 6;
-      const baseDecimals = poolInfoForPair?.base_asset_id
-        ? getDecimalsForCoinType(poolInfoForPair.base_asset_id)
-        : 9;
+      const quoteDecimals = poolMeta.quote.decimals;
+      const baseDecimals = poolMeta.base.decimals;
       const collateralQuoteRaw = Number(assets.quote_asset);
       const collateralBaseRaw = Number(assets.base_asset);
       const collateralQuote = collateralQuoteRaw / Math.pow(10, quoteDecimals);
       const collateralBaseHuman = collateralBaseRaw / Math.pow(10, baseDecimals);
 
-      // Step 4: Borrow same amount as the asset we have. If both > 0, use the one with higher value (quote value vs base value in USD).
-      const quoteValue = collateralQuote;
-      const baseValue = collateralBaseHuman * livePrice;
-      const useQuote =
-        collateralQuote > 0 &&
-        (collateralBaseHuman <= 0 || quoteValue >= baseValue);
-
+      // Step 4: Size the position from the quote collateral: leverage × its value. A long borrows the rest
+      // in quote and buys; a short borrows the whole size in base and sells it.
+      if (collateralQuote <= 0) {
+        throw new Error("No quote collateral in the margin account to open the position with.");
+      }
+      const isBid = intent.side === "long";
+      const orderQty = (intent.leverage * collateralQuote) / livePrice;
       let borrowQuoteAmount: number | undefined;
       let borrowBaseAmount: number | undefined;
-      let orderQty: number;
-      const isBid = useQuote;
-
-      if (useQuote) {
-        borrowQuoteAmount = Math.round(collateralQuote * 1e6) / 1e6;
-        borrowBaseAmount = undefined;
-        orderQty = (2 * collateralQuote) / livePrice;
+      if (isBid) {
+        borrowQuoteAmount =
+          intent.leverage > 1
+            ? Math.round(collateralQuote * (intent.leverage - 1) * 1e6) / 1e6
+            : undefined;
       } else {
-        borrowQuoteAmount = undefined;
-        borrowBaseAmount = Math.round(collateralBaseHuman * 1e6) / 1e6;
-        orderQty = 2 * collateralBaseHuman;
+        borrowBaseAmount = Math.round(orderQty * 1e6) / 1e6;
       }
 
-      let orderQtyRounded = Math.floor(orderQty * 10) / 10;
-      if (orderQtyRounded < MIN_ORDER_QUANTITY) {
-        throw new Error(`Position size at 2× would be below minimum (${MIN_ORDER_QUANTITY}). Need more collateral.`);
+      let orderQtyRounded = roundDownToStep(orderQty, lotSize);
+      if (orderQtyRounded < minOrderQuantity) {
+        throw new Error(`Position size at ${intent.leverage}× would be below minimum (${minOrderQuantity}). Need more collateral.`);
       }
 
       const expectedQuoteAfterBorrow = collateralQuote + (borrowQuoteAmount ?? 0);
@@ -1997,16 +2505,16 @@ export default function PairDetailScreen() {
         const maxNotionalQuote = expectedQuoteAfterBorrow * RESERVE_FRACTION;
         const maxQtyFromQuote = maxNotionalQuote / livePrice;
         if (orderQtyRounded > maxQtyFromQuote) {
-          orderQtyRounded = Math.floor(maxQtyFromQuote * 10) / 10;
+          orderQtyRounded = roundDownToStep(maxQtyFromQuote, lotSize);
         }
       } else {
         const maxBase = expectedBaseAfterBorrow * RESERVE_FRACTION;
         if (orderQtyRounded > maxBase) {
-          orderQtyRounded = Math.floor(maxBase * 10) / 10;
+          orderQtyRounded = roundDownToStep(maxBase, lotSize);
         }
       }
-      if (orderQtyRounded < MIN_ORDER_QUANTITY) {
-        throw new Error(`Position size after reserve would be below minimum (${MIN_ORDER_QUANTITY}). Need more collateral.`);
+      if (orderQtyRounded < minOrderQuantity) {
+        throw new Error(`Position size after reserve would be below minimum (${minOrderQuantity}). Need more collateral.`);
       }
 
       const orderNotionalQuote = orderQtyRounded * livePrice;
@@ -2031,9 +2539,12 @@ export default function PairDetailScreen() {
         payWithDeep: false,
         borrowBaseAmount,
         borrowQuoteAmount,
+        maxSlippageBps: intent.maxSlippageBps,
         signRawHash,
         publicKeyHex,
-        network: "mainnet",
+        confirmBeforeSign: confirmTx,
+        sponsored: sponsorGas,
+        network: suiNetwork,
       });
       refreshMarginState?.();
       refreshMarginHistory?.();
@@ -2041,183 +2552,288 @@ export default function PairDetailScreen() {
       refreshOrderHistory?.();
       refreshTradeHistory?.();
       setBridgeTxHash(null);
-      setBridgeLifiStatus(null);
-      Alert.alert("Deposit & open position", "Position opened at 2× leverage.");
+      Alert.alert("Deposit & open position", `Opened a ${intent.side} at ${intent.leverage}× leverage.`);
+      return true;
     } catch (err) {
-      const msg = err instanceof Error ? err.message : "Something went wrong.";
+      if (isTxCancelled(err)) return false;
+      const msg = errorMessageWithCode(err, "Something went wrong.");
       Alert.alert("Deposit & open position", msg);
+      return false;
     } finally {
       setDepositAndOpenLoading(false);
     }
   }, [
-    bridgeLifiStatus,
     livePrice,
-    baseTradeSide,
+    marketOrdersBlocked,
     managerForThisPool,
     suiAddress,
     decodedPoolName,
     poolInfoForPair,
+    poolMeta,
+    lotSize,
+    minOrderQuantity,
     signRawHash,
     suiWallet?.publicKey,
     apiUrl,
+    sponsorGas,
+    confirmTx,
     refreshOwned,
     refreshMarginState,
     refreshMarginHistory,
     refreshOpenOrders,
     refreshOrderHistory,
     refreshTradeHistory,
+    suiNetwork,
   ]);
 
-  /** Close position (Sui): same logic as Base. Look at borrowed shares > 0.1 (human);
-   * sell the other token to get everything in the borrow token, then repay exact shares. */
-  const BORROW_THRESHOLD_HUMAN = 0.1;
-  const onClosePosition = useCallback(async (options?: { silent?: boolean }) => {
-    const silent = options?.silent === true;
-    if (!marginManagerId || !decodedPoolName || !suiAddress || !signRawHash || !suiWallet?.publicKey) {
-      if (!silent) Alert.alert("Close position", "Select a margin account and ensure wallet is connected.");
+  const handleDepositAndOpenPosition = useCallback(async () => {
+    const txHash = bridgeTxHash;
+    const intent = bridgeTransfer?.followUp?.intent;
+    if (!intent) {
+      Alert.alert("Deposit & open position", "The order saved with this bridge was not found.");
       return;
     }
+    if ((await runDepositAndOpen(bridgeLifiStatus, intent)) && txHash) markTransferFollowUpDone(txHash);
+  }, [bridgeTxHash, bridgeTransfer, bridgeLifiStatus, runDepositAndOpen]);
+
+  // Run deposit & open for each of this pool's tracked bridges as it lands, with the order saved at send
+  // time. Bridges not sent from this screen (e.g. before an app restart) ask first. Only registered once
+  // everything the order needs has loaded, so the handler does not fail early. A bridge that did not
+  // deliver the pool's quote coin fails the follow-up with the reason instead.
+  const runDepositAndOpenRef = useRef(runDepositAndOpen);
+  runDepositAndOpenRef.current = runDepositAndOpen;
+  const quoteCoinTypeRef = useRef(poolInfoForPair?.quote_asset_id ?? null);
+  quoteCoinTypeRef.current = poolInfoForPair?.quote_asset_id ?? null;
+  const depositAndOpenReady =
+    typeof livePrice === "number" &&
+    livePrice > 0 &&
+    !marketOrdersBlocked &&
+    !!suiAddress &&
+    !!poolInfoForPair &&
+    !!poolMeta &&
+    !!signRawHash &&
+    !!suiWallet?.publicKey;
+  const trackedTransfers = useTrackedTransfers();
+  const followUpHashes = trackedTransfers
+    .filter(
+      (t) =>
+        t.followUp?.type === "deposit_and_open" &&
+        t.followUp.poolName === decodedPoolName &&
+        (isTransferInFlight(t) || transferNeedsFollowUp(t))
+    )
+    .map((t) => t.txHash)
+    .join(",");
+  useEffect(() => {
+    if (!decodedPoolName || !depositAndOpenReady || !followUpHashes) return;
+    const unregister = followUpHashes.split(",").map((txHash) =>
+      registerTransferFollowUp(txHash, async (transfer) => {
+        // Stored before orders were saved with the bridge: nothing to open without asking for it again.
+        const intent = transfer.followUp?.intent;
+        if (!intent) throw new Error("No order was saved with this bridge. Deposit it from the Sui account.");
+        const problem =
+          transfer.status && quoteCoinTypeRef.current
+            ? bridgedQuoteProblem(transfer.status, quoteCoinTypeRef.current)
+            : null;
+        if (problem) throw new Error(problem);
+        if (
+          !bridgesSentHereRef.current.has(transfer.txHash) &&
+          !(await confirmDepositAndOpen(decodedPoolName, intent))
+        ) {
+          throw new Error("Not opened yet. Retry to open the position.");
+        }
+        return runDepositAndOpenRef.current(transfer.status, intent);
+      })
+    );
+    return () => unregister.forEach((fn) => fn());
+  }, [decodedPoolName, depositAndOpenReady, followUpHashes]);
 
-    if (!silent) setClosePositionLoading(true);
+  /** Cancel one resting order (swipe-to-cancel in Open orders). */
+  const onCancelOrder = useCallback(async (orderId: string) => {
+    if (!marginManagerId || !decodedPoolName || !suiAddress || !signRawHash || !suiWallet?.publicKey) {
+      Alert.alert("Cancel order", "Select a margin account and ensure wallet is connected.");
+      return;
+    }
+    setCancellingOrderIds((prev) => [...prev, orderId]);
     try {
-      const publicKeyHex = publicKeyToHex(suiWallet.publicKey);
-      const chain = await fetchMarginBorrowedSharesViaBackend({
+      await cancelOrderViaBackend({
         apiUrl,
+        sender: suiAddress,
         marginManagerId,
         poolKey: decodedPoolName,
-        network: "mainnet",
+        orderIds: orderId,
+        signRawHash,
+        publicKeyHex: publicKeyToHex(suiWallet.publicKey),
+        confirmBeforeSign: confirmTx,
+        sponsored: sponsorGas,
+        network: suiNetwork,
       });
-      const baseDecimals = poolInfoForPair?.base_asset_id
-        ? getDecimalsForCoinType(poolInfoForPair.base_asset_id)
-        : 9;
-      const quoteDecimals = poolInfoForPair?.quote_asset_id
-        ? getDecimalsForCoinType(poolInfoForPair.quote_asset_id)
-        : 6;
-      const baseBorrowedHuman =
-        Number(chain.borrowedBaseShares ?? 0) / Math.pow(10, baseDecimals);
-      const quoteBorrowedHuman =
-        Number(chain.borrowedQuoteShares ?? 0) / Math.pow(10, quoteDecimals);
-
-      // Which token has meaningful borrowed shares? We ignore very small values (< 0.1).
-      const closeQuotePath =
-        quoteBorrowedHuman >= BORROW_THRESHOLD_HUMAN &&
-        quoteBorrowedHuman >= baseBorrowedHuman;
-      const closeBasePath =
-        baseBorrowedHuman >= BORROW_THRESHOLD_HUMAN &&
-        baseBorrowedHuman > quoteBorrowedHuman;
-
-      if (!closeQuotePath && !closeBasePath) {
-        if (!silent) {
-          setClosePositionLoading(false);
-          Alert.alert(
-            "Close position",
-            "No borrowed amount above 0.1 to close. Nothing to do."
-          );
-        }
-        return;
-      }
+      refreshOpenOrders?.();
+      refreshOrderHistory?.();
+      refreshMarginState?.();
+    } catch (err) {
+      if (isTxCancelled(err)) return;
+      const msg = errorMessageWithCode(err, "Cancel order failed");
+      Alert.alert("Cancel order", msg);
+    } finally {
+      setCancellingOrderIds((prev) => prev.filter((id) => id !== orderId));
+    }
+  }, [
+    marginManagerId,
+    decodedPoolName,
+    suiAddress,
+    signRawHash,
+    suiWallet?.publicKey,
+    apiUrl,
+    sponsorGas,
+    confirmTx,
+    refreshOpenOrders,
+    refreshOrderHistory,
+    refreshMarginState,
+    suiNetwork,
+  ]);
 
-      const lotSize = 1;
-
-      if (closeQuotePath) {
-        // We borrowed quote (USDC). Sell all base to get quote, then repay exact quote.
-        const baseAssetHuman =
-          chain.calculateAssets?.base_asset != null
-            ? Number(chain.calculateAssets.base_asset) / Math.pow(10, baseDecimals)
-            : state != null
-              ? Number(state.base_asset)
-              : 0;
-        const sellQuantity = Math.floor(baseAssetHuman / lotSize) * lotSize;
-        if (sellQuantity < MIN_ORDER_QUANTITY) {
-          if (!silent) {
-            setClosePositionLoading(false);
-            Alert.alert(
-              "Close position",
-              `Not enough base to sell (${baseAssetHuman.toFixed(4)}). Min order: ${MIN_ORDER_QUANTITY}.`
-            );
-          }
-          return;
-        }
-        await placeOrderViaBackend({
-          apiUrl,
-          sender: suiAddress,
-          marginManagerId,
-          poolKey: decodedPoolName,
-          orderType: "market",
-          isBid: false,
-          quantity: sellQuantity,
-          payWithDeep: false,
-          reduceOnly: false,
-          signRawHash,
-          publicKeyHex,
-          network: "mainnet",
-        });
-      } else {
-        // We borrowed base. Buy base with quote to cover, then repay exact base.
-        const buyQuantity = Math.floor(baseBorrowedHuman / lotSize) * lotSize;
-        if (buyQuantity < MIN_ORDER_QUANTITY) {
-          if (!silent) {
-            setClosePositionLoading(false);
-            Alert.alert(
-              "Close position",
-              `Borrowed base (${baseBorrowedHuman.toFixed(4)}) rounds below min order ${MIN_ORDER_QUANTITY}.`
-            );
-          }
-          return;
-        }
-        await placeOrderViaBackend({
-          apiUrl,
-          sender: suiAddress,
-          marginManagerId,
-          poolKey: decodedPoolName,
-          orderType: "market",
-          isBid: true,
-          quantity: buyQuantity,
-          payWithDeep: false,
-          reduceOnly: false,
-          signRawHash,
-          publicKeyHex,
-          network: "mainnet",
-        });
-      }
+  /** Amend a resting limit order (Edit in Open orders). Errors propagate to the edit sheet. */
+  const onModifyOrder = useCallback(async (
+    orderId: string,
+    changes: { price?: number; quantity?: number }
+  ) => {
+    if (!marginManagerId || !decodedPoolName || !suiAddress || !signRawHash || !suiWallet?.publicKey) {
+      throw new Error("Select a margin account and ensure wallet is connected.");
+    }
+    await modifyOrderViaBackend({
+      apiUrl,
+      sender: suiAddress,
+      marginManagerId,
+      poolKey: decodedPoolName,
+      orderId,
+      price: changes.price,
+      quantity: changes.quantity,
+      signRawHash,
+      publicKeyHex: publicKeyToHex(suiWallet.publicKey),
+      confirmBeforeSign: confirmTx,
+      sponsored: sponsorGas,
+      network: suiNetwork,
+    });
+    refreshOpenOrders?.();
+    refreshOrderHistory?.();
+    refreshMarginState?.();
+  }, [
+    marginManagerId,
+    decodedPoolName,
+    suiAddress,
+    signRawHash,
+    suiWallet?.publicKey,
+    apiUrl,
+    sponsorGas,
+    confirmTx,
+    refreshOpenOrders,
+    refreshOrderHistory,
+    refreshMarginState,
+    suiNetwork,
+  ]);
 
-      await new Promise((r) => setTimeout(r, 5000));
+  const onCancelAllOrders = useCallback(async () => {
+    if (!marginManagerId || !decodedPoolName || !suiAddress || !signRawHash || !suiWallet?.publicKey) {
+      Alert.alert("Cancel all orders", "Select a margin account and ensure wallet is connected.");
+      return;
+    }
+    setCancelAllOrdersLoading(true);
+    try {
+      await cancelAllOrdersViaBackend({
+        apiUrl,
+        sender: suiAddress,
+        marginManagerId,
+        poolKey: decodedPoolName,
+        signRawHash,
+        publicKeyHex: publicKeyToHex(suiWallet.publicKey),
+        confirmBeforeSign: confirmTx,
+        sponsored: sponsorGas,
+        network: suiNetwork,
+      });
+      refreshOpenOrders?.();
+      refreshOrderHistory?.();
+      refreshMarginState?.();
+    } catch (err) {
+      if (isTxCancelled(err)) return;
+      const msg = errorMessageWithCode(err, "Cancel all orders failed");
+      Alert.alert("Cancel all orders", msg);
+    } finally {
+      setCancelAllOrdersLoading(false);
+    }
+  }, [
+    marginManagerId,
+    decodedPoolName,
+    suiAddress,
+    signRawHash,
+    suiWallet?.publicKey,
+    apiUrl,
+    sponsorGas,
+    confirmTx,
+    refreshOpenOrders,
+    refreshOrderHistory,
+    refreshMarginState,
+    suiNetwork,
+  ]);
 
-      // Repay exact amount of borrowed shares (in human units).
-      if (closeQuotePath && quoteBorrowedHuman > 0) {
-        await repayViaBackend({
-          apiUrl,
-          sender: suiAddress,
-          marginManagerId,
-          poolKey: decodedPoolName,
-          quoteAmount: quoteBorrowedHuman,
-          signRawHash,
-          publicKeyHex,
-          network: "mainnet",
-        });
-      } else if (closeBasePath && baseBorrowedHuman > 0) {
-        await repayViaBackend({
-          apiUrl,
-          sender: suiAddress,
-          marginManagerId,
-          poolKey: decodedPoolName,
-          baseAmount: baseBorrowedHuman,
-          signRawHash,
-          publicKeyHex,
-          network: "mainnet",
-        });
-      }
+  /** Close position (Sui): one transaction via prepare-close-position. Backend reads debt/assets,
+   * places a reduce-only market order for the borrowed side, repays all debt and (optionally)
+   * withdraws the remaining quote. Either everything lands or nothing does. */
+  const onClosePosition = useCallback(async (options?: {
+    silent?: boolean;
+    withdrawRemainder?: boolean;
+  }): Promise<ClosePositionResult | null> => {
+    const silent = options?.silent === true;
+    if (!marginManagerId || !decodedPoolName || !suiAddress || !signRawHash || !suiWallet?.publicKey) {
+      if (!silent) Alert.alert("Close position", "Select a margin account and ensure wallet is connected.");
+      return null;
+    }
+
+    if (!silent) setClosePositionLoading(true);
+    try {
+      const result = await closePositionViaBackend({
+        apiUrl,
+        sender: suiAddress,
+        marginManagerId,
+        poolKey: decodedPoolName,
+        withdrawRemainder: options?.withdrawRemainder === true,
+        maxSlippageBps,
+        signRawHash,
+        publicKeyHex: publicKeyToHex(suiWallet.publicKey),
+        confirmBeforeSign: confirmTx,
+        sponsored: sponsorGas,
+        network: suiNetwork,
+      });
 
       refreshMarginState?.();
+      refreshMarginDebts();
       refreshOpenOrders?.();
       refreshOrderHistory?.();
       refreshTradeHistory?.();
       if (!silent) {
         setClosePositionLoading(false);
-        Alert.alert("Close position", "Position closed and debt repaid.");
+        const repaidSymbol =
+          result.side === "short"
+            ? poolInfoForPair?.base_asset_symbol ?? "base"
+            : poolInfoForPair?.quote_asset_symbol ?? "quote";
+        const repaid = `${result.debtRepaid.toLocaleString(undefined, {
+          maximumFractionDigits: 6,
+        })} ${repaidSymbol}`;
+        Alert.alert(
+          "Close position",
+          result.interestRepaid != null
+            ? `Position closed. Repaid ${repaid} (incl. ${result.interestRepaid.toLocaleString(undefined, {
+                maximumFractionDigits: 6,
+              })} interest).`
+            : `Position closed. Repaid ${repaid}.`
+        );
       }
+      return result;
     } catch (err) {
-      const msg = err instanceof Error ? err.message : "Close position failed";
+      if (isTxCancelled(err)) {
+        if (!silent) setClosePositionLoading(false);
+        return null;
+      }
+      const msg = errorMessageWithCode(err, "Close position failed");
       console.log("[ClosePosition] error", { message: msg });
       if (!silent) {
         setClosePositionLoading(false);
@@ -2232,13 +2848,17 @@ export default function PairDetailScreen() {
     signRawHash,
     suiWallet?.publicKey,
     apiUrl,
-    state,
-    poolInfoForPair?.base_asset_id,
-    poolInfoForPair?.quote_asset_id,
+    sponsorGas,
+    maxSlippageBps,
+    confirmTx,
     refreshMarginState,
+    refreshMarginDebts,
     refreshOpenOrders,
     refreshOrderHistory,
     refreshTradeHistory,
+    poolInfoForPair?.base_asset_symbol,
+    poolInfoForPair?.quote_asset_symbol,
+    suiNetwork,
   ]);
 
   const onCloseAndWithdrawToSui = useCallback(async () => {
@@ -2252,59 +2872,49 @@ export default function PairDetailScreen() {
       !suiWallet?.publicKey
     )
       return;
+    const quoteDecimals = poolMeta?.quote.decimals;
+    if (quoteDecimals == null) {
+      Alert.alert("Close & withdraw", "Pool details are still loading. Try again in a moment.");
+      return;
+    }
     setCloseAndWithdrawLoading(true);
     try {
-      await onClosePosition({ silent: true });
-      await new Promise((r) => setTimeout(r, 3500));
-      const newState = await refreshMarginState?.() ?? null;
-      if (newState) {
-        const quoteAvail = Number(newState.quote_asset);
-        if (quoteAvail >= MIN_MARGIN_DEPOSIT_WITHDRAW_AMOUNT) {
-          const publicKeyHex = publicKeyToHex(suiWallet!.publicKey);
-          await withdrawMarginViaBackend({
-            apiUrl,
-            sender: suiAddress,
-            marginManagerId,
-            poolKey: decodedPoolName,
-            asset: "quote",
-            amount: quoteAvail,
-            signRawHash,
-            publicKeyHex,
-            network: "mainnet",
-          });
-          refreshMarginState?.();
-          refreshMarginHistory?.();
-          const bridgePayload = {
-            amountRaw: Math.round(quoteAvail * 1e6).toString(),
-            fromAddress: suiAddress,
-            toAddress: evmAddress?.trim() ?? null,
-          };
-          setWithdrawBridgeStartedBy('close-and-send');
-          setWithdrawBridgePending(bridgePayload);
-          if (bridgePayload.toAddress) {
-            await onBridgeToBaseRef.current(bridgePayload);
-          } else {
-            Alert.alert(
-              "Close & withdraw",
-              "USDC withdrawn to your Sui wallet. Enter Base address above and tap \"Bridge to Base\" to send."
-            );
-          }
+      const closed = await onClosePosition({ silent: true, withdrawRemainder: true });
+      if (!closed) return;
+      const quoteAvail = closed?.withdrawQuoteAmount ?? 0;
+      const leftNote = quoteLeftNote(
+        closed.quoteLeftInManager,
+        poolInfoForPair?.quote_asset_symbol ?? "USDC"
+      );
+      if (quoteAvail >= MIN_MARGIN_DEPOSIT_WITHDRAW_AMOUNT) {
+        const bridgePayload = {
+          amountRaw: Math.round(quoteAvail * 10 ** quoteDecimals).toString(),
+          fromAddress: suiAddress,
+          toAddress: evmAddress?.trim() ?? null,
+        };
+        setWithdrawBridgeStartedBy('close-and-send');
+        setWithdrawBridgePending(bridgePayload);
+        if (bridgePayload.toAddress) {
+          if (leftNote) Alert.alert("Close & withdraw", leftNote);
+          await onBridgeToBaseRef.current(bridgePayload);
         } else {
           Alert.alert(
             "Close & withdraw",
-            "Position closed. No USDC above minimum to withdraw."
+            "USDC withdrawn to your Sui wallet. Enter Base address above and tap \"Bridge to Base\" to send." +
+              (leftNote ? `\n\n${leftNote}` : "")
           );
         }
       } else {
         Alert.alert(
           "Close & withdraw",
-          "Position closed. Pull to refresh to see balance."
+          "Position closed. No USDC above minimum to withdraw." + (leftNote ? `\n\n${leftNote}` : "")
         );
       }
       refreshMarginState?.();
       refreshMarginHistory?.();
     } catch (err) {
-      const msg = err instanceof Error ? err.message : "Close & withdraw failed";
+      if (isTxCancelled(err)) return;
+      const msg = errorMessageWithCode(err, "Close & withdraw failed");
       Alert.alert("Close & withdraw", msg);
     } finally {
       setCloseAndWithdrawLoading(false);
@@ -2323,12 +2933,13 @@ export default function PairDetailScreen() {
     refreshMarginState,
     refreshMarginHistory,
     onClosePosition,
+    poolInfoForPair?.quote_asset_symbol,
+    poolMeta?.quote.decimals,
   ]);
 
   /**
-   * Full exit: sell ALL WAL for USDC (one market order), repay borrowed USDC (borrowedQuoteShares),
-   * then withdraw rest and open LI.FI to Base.
-   * Uses chain state: base_asset (raw) and borrowedQuoteShares (raw) for exact amounts.
+   * Full exit: close position (reduce-only sell, repay all debt) and withdraw the remaining USDC
+   * in one transaction via prepare-close-position, then open LI.FI to Base.
    */
   const onCloseAndSendToBase = useCallback(async () => {
     if (
@@ -2341,121 +2952,41 @@ export default function PairDetailScreen() {
       !suiWallet?.publicKey
     )
       return;
+    const quoteDecimals = poolMeta?.quote.decimals;
+    if (quoteDecimals == null) {
+      Alert.alert("Close & send to Base", "Pool details are still loading. Try again in a moment.");
+      return;
+    }
     setCloseAndSendToBaseLoading(true);
     try {
-      const publicKeyHex = publicKeyToHex(suiWallet!.publicKey);
-      const chain = await fetchMarginBorrowedSharesViaBackend({
-        apiUrl,
-        marginManagerId,
-        poolKey: decodedPoolName,
-        network: "mainnet",
-      });
-      const baseDecimals = poolInfoForPair?.base_asset_id
-        ? getDecimalsForCoinType(poolInfoForPair.base_asset_id)
-        : 9;
-      const quoteDecimals = poolInfoForPair?.quote_asset_id
-        ? getDecimalsForCoinType(poolInfoForPair.quote_asset_id)
-        : 6;
-      const baseAssetHuman =
-        chain.calculateAssets?.base_asset != null
-          ? Number(chain.calculateAssets.base_asset) / Math.pow(10, baseDecimals)
-          : state != null
-            ? Number(state.base_asset)
-            : 0;
-      const lotSize = 1;
-      const sellQuantity = Math.floor(baseAssetHuman / lotSize) * lotSize;
-      if (sellQuantity < MIN_ORDER_QUANTITY) {
-        Alert.alert(
-          "Close & send to Base",
-          `Not enough WAL to sell (${baseAssetHuman.toFixed(4)}). Min order: ${MIN_ORDER_QUANTITY}.`
-        );
-        setCloseAndSendToBaseLoading(false);
-        return;
-      }
-      await placeOrderViaBackend({
+      const { withdrawQuoteAmount: quoteAvail, quoteLeftInManager } = await closePositionViaBackend({
         apiUrl,
         sender: suiAddress,
         marginManagerId,
         poolKey: decodedPoolName,
-        orderType: "market",
-        isBid: false,
-        quantity: sellQuantity,
-        payWithDeep: false,
-        reduceOnly: false,
+        withdrawRemainder: true,
+        maxSlippageBps,
         signRawHash,
-        publicKeyHex,
-        network: "mainnet",
+        publicKeyHex: publicKeyToHex(suiWallet!.publicKey),
+        confirmBeforeSign: confirmTx,
+        sponsored: sponsorGas,
+        network: suiNetwork,
       });
-      await new Promise((r) => setTimeout(r, 5000));
-      const quoteDebtHuman =
-        chain.borrowedQuoteShares != null
-          ? Number(chain.borrowedQuoteShares) / Math.pow(10, quoteDecimals)
-          : state != null
-            ? Number(state.quote_debt)
-            : 0;
-      /** Ignore dust: only repay when borrowed quote (e.g. 17722 raw ≈ 0.018 USDC) is above this. */
-      const MIN_QUOTE_DEBT_TO_REPAY = 0.02;
-      if (quoteDebtHuman >= MIN_QUOTE_DEBT_TO_REPAY) {
-        await repayViaBackend({
-          apiUrl,
-          sender: suiAddress,
-          marginManagerId,
-          poolKey: decodedPoolName,
-          quoteAmount: quoteDebtHuman,
-          signRawHash,
-          publicKeyHex,
-          network: "mainnet",
-        });
-        await new Promise((r) => setTimeout(r, 3000));
-      }
-      // Use chain/SDK data (real-time) for post-repay balance; retry once if RPC is slow.
-      let chainAfter = await fetchMarginBorrowedSharesViaBackend({
-        apiUrl,
-        marginManagerId,
-        poolKey: decodedPoolName,
-        network: "mainnet",
-      });
-      let quoteAvail =
-        chainAfter.calculateAssets?.quote_asset != null
-          ? Number(chainAfter.calculateAssets.quote_asset) / Math.pow(10, quoteDecimals)
-          : 0;
-      if (quoteAvail < MIN_MARGIN_DEPOSIT_WITHDRAW_AMOUNT) {
-        await new Promise((r) => setTimeout(r, 2000));
-        chainAfter = await fetchMarginBorrowedSharesViaBackend({
-          apiUrl,
-          marginManagerId,
-          poolKey: decodedPoolName,
-          network: "mainnet",
-        });
-        quoteAvail =
-          chainAfter.calculateAssets?.quote_asset != null
-            ? Number(chainAfter.calculateAssets.quote_asset) / Math.pow(10, quoteDecimals)
-            : 0;
-      }
+      refreshMarginState?.();
+      refreshMarginHistory?.();
+      const leftNote = quoteLeftNote(
+        quoteLeftInManager,
+        poolInfoForPair?.quote_asset_symbol ?? "USDC"
+      );
       if (quoteAvail < MIN_MARGIN_DEPOSIT_WITHDRAW_AMOUNT) {
         Alert.alert(
           "Close & send to Base",
-          "Position closed. No USDC above minimum to withdraw."
+          "Position closed. No USDC above minimum to withdraw." + (leftNote ? `\n\n${leftNote}` : "")
         );
-        refreshMarginState?.();
-        refreshMarginHistory?.();
-        setCloseAndSendToBaseLoading(false);
         return;
       }
-      await withdrawMarginViaBackend({
-        apiUrl,
-        sender: suiAddress,
-        marginManagerId,
-        poolKey: decodedPoolName,
-        asset: "quote",
-        amount: quoteAvail,
-        signRawHash,
-        publicKeyHex,
-        network: "mainnet",
-      });
-      refreshMarginState?.();
-      refreshMarginHistory?.();
-      const amountRaw = Math.round(quoteAvail * 1e6).toString();
+      if (leftNote) Alert.alert("Close & send to Base", leftNote);
+      const amountRaw = Math.round(quoteAvail * 10 ** quoteDecimals).toString();
       const bridgePayload = {
         amountRaw,
         fromAddress: suiAddress,
@@ -2466,7 +2997,8 @@ export default function PairDetailScreen() {
       // Append bridge: start LiFi bridge immediately so user doesn't have to tap again.
       await onBridgeToBaseRef.current(bridgePayload);
     } catch (err) {
-      const msg = err instanceof Error ? err.message : "Close & send to Base failed";
+      if (isTxCancelled(err)) return;
+      const msg = errorMessageWithCode(err, "Close & send to Base failed");
       Alert.alert("Close & send to Base", msg);
     } finally {
       setCloseAndSendToBaseLoading(false);
@@ -2481,11 +3013,14 @@ export default function PairDetailScreen() {
     signRawHash,
     suiWallet?.publicKey,
     apiUrl,
-    state,
-    poolInfoForPair?.base_asset_id,
-    poolInfoForPair?.quote_asset_id,
+    sponsorGas,
+    maxSlippageBps,
+    confirmTx,
     refreshMarginState,
     refreshMarginHistory,
+    poolInfoForPair?.quote_asset_symbol,
+    poolMeta?.quote.decimals,
+    suiNetwork,
   ]);
 
   /** Send Sui wallet USDC to Base via LI.FI. Only checks Sui wallet balance (ignores margin). */
@@ -2538,7 +3073,6 @@ export default function PairDetailScreen() {
     if (!payload) return;
     setWithdrawBridgeError(null);
     setWithdrawBridgeTxHash(null);
-    setWithdrawBridgeStatus(null);
     setWithdrawBridgeLoading(true);
     try {
       const quoteResult = (await fetchLifiQuote({
@@ -2575,6 +3109,12 @@ export default function PairDetailScreen() {
           }],
         }) as string;
         setWithdrawBridgeTxHash(hash);
+        void trackTransfer({
+          txHash: hash,
+          fromChainId: BASE_MAINNET_CHAIN_ID,
+          kind: "withdraw_bridge",
+          label: "Sui USDC → Base",
+        });
         setWithdrawBridgeLoading(false);
         return;
       }
@@ -2596,7 +3136,7 @@ export default function PairDetailScreen() {
           } catch {
             // not JSON
           }
-          const serverMsg = (errJson.error as string) ?? (errText || "Prepare Sui tx failed");
+          const serverError = apiErrorFromBody(errJson, errText || "Prepare Sui tx failed");
           if (__DEV__) {
             console.error("[Bridge to Base] prepare-external-sui-tx failed:", prepareRes.status, errText);
           }
@@ -2605,7 +3145,7 @@ export default function PairDetailScreen() {
               "Backend does not have /api/prepare-external-sui-tx. Restart the backend (cd backend && npm run dev) or rebuild (npm run build && npm run start)."
             );
           }
-          throw new Error(serverMsg);
+          throw serverError;
         }
         const prepareJson = await prepareRes.json();
         const intentMessageHashHex =
@@ -2631,11 +3171,17 @@ export default function PairDetailScreen() {
         });
         const executeJson = await executeRes.json();
         if (!executeRes.ok) {
-          throw new Error((executeJson.error as string) ?? "Execute failed");
+          throw apiErrorFromBody(executeJson, "Execute failed");
         }
         const digest = executeJson.digest;
         if (digest) {
           setWithdrawBridgeTxHash(digest);
+          void trackTransfer({
+            txHash: digest,
+            fromChainId: SUI_CHAIN_ID,
+            kind: "withdraw_bridge",
+            label: "Sui USDC → Base",
+          });
           setWithdrawBridgeLoading(false);
           return;
         }
@@ -2643,7 +3189,7 @@ export default function PairDetailScreen() {
 
       setWithdrawBridgeError("This route requires signing on Sui. Use LI.FI Explorer to complete.");
     } catch (err) {
-      const msg = err instanceof Error ? err.message : "Bridge quote failed";
+      const msg = errorMessageWithCode(err, "Bridge quote failed");
       setWithdrawBridgeError(msg);
     } finally {
       setWithdrawBridgeLoading(false);
@@ -2703,14 +3249,18 @@ export default function PairDetailScreen() {
         payWithDeep: paymentAsset === "deep",
         signRawHash,
         publicKeyHex,
-        network: "mainnet",
+        confirmBeforeSign: confirmTx,
+        sponsored: sponsorGas,
+        network: suiNetwork,
       });
       refreshMarginHistory?.();
+      refreshConditionalOrders?.();
       setTpPrice("");
       setSlPrice("");
       Alert.alert("TP/SL", "Take profit and/or stop loss set.");
     } catch (err) {
-      const msg = err instanceof Error ? err.message : "Set TP/SL failed";
+      if (isTxCancelled(err)) return;
+      const msg = errorMessageWithCode(err, "Set TP/SL failed");
       Alert.alert("TP/SL", msg);
     } finally {
       setTpslLoading(false);
@@ -2727,7 +3277,56 @@ export default function PairDetailScreen() {
     signRawHash,
     suiWallet?.publicKey,
     apiUrl,
+    sponsorGas,
+    confirmTx,
     refreshMarginHistory,
+    refreshConditionalOrders,
+    suiNetwork,
+  ]);
+
+  /** Cancel specific TP/SL conditional orders, or all of them when ids is "all". */
+  const onCancelTpsl = useCallback(async (ids: string[] | "all") => {
+    if (!marginManagerId || !decodedPoolName || !suiAddress || !signRawHash || !suiWallet?.publicKey) {
+      Alert.alert("TP/SL", "Select margin account and wallet first.");
+      return;
+    }
+    const all = ids === "all";
+    if (all) setCancelAllTpslLoading(true);
+    else setCancellingTpslIds((prev) => [...prev, ...ids]);
+    try {
+      await cancelConditionalOrdersViaBackend({
+        apiUrl,
+        sender: suiAddress,
+        marginManagerId,
+        poolKey: decodedPoolName,
+        conditionalOrderIds: all ? [] : ids,
+        all,
+        signRawHash,
+        publicKeyHex: publicKeyToHex(suiWallet.publicKey),
+        confirmBeforeSign: confirmTx,
+        sponsored: sponsorGas,
+        network: suiNetwork,
+      });
+      refreshConditionalOrders?.();
+    } catch (err) {
+      if (isTxCancelled(err)) return;
+      const msg = errorMessageWithCode(err, "Cancel TP/SL failed");
+      Alert.alert("TP/SL", msg);
+    } finally {
+      if (all) setCancelAllTpslLoading(false);
+      else setCancellingTpslIds((prev) => prev.filter((id) => !ids.includes(id)));
+    }
+  }, [
+    marginManagerId,
+    decodedPoolName,
+    suiAddress,
+    signRawHash,
+    suiWallet?.publicKey,
+    apiUrl,
+    sponsorGas,
+    confirmTx,
+    refreshConditionalOrders,
+    suiNetwork,
   ]);
 
   const onSwitchMarginAccount = useCallback(() => {
@@ -2851,7 +3450,22 @@ export default function PairDetailScreen() {
 
         <View style={styles.card}>
           <View style={styles.chartHeaderRow}>
-            <Text style={styles.cardLabel}>Chart</Text>
+            <View>
+              <Text style={styles.cardLabel}>Chart</Text>
+              {priceIntegrity?.oraclePrice != null && (
+                <Text style={[styles.oraclePriceText, { color: priceIntegrityColor }]}>
+                  {`Oracle ${priceIntegrity.oraclePrice.toLocaleString(undefined, {
+                    minimumFractionDigits: 2,
+                    maximumFractionDigits: 6,
+                  })}`}
+                  {priceIntegrity.oracleStale
+                    ? " · stale"
+                    : priceIntegrity.bookDeviationBps != null
+                      ? ` · ${(priceIntegrity.bookDeviationBps / 100).toFixed(2)}% vs book`
+                      : ""}
+                </Text>
+              )}
+            </View>
             <View style={styles.chartSegmentRow}>
               <Pressable
                 onPress={() => setChartViewMode("line")}
@@ -3112,7 +3726,7 @@ export default function PairDetailScreen() {
                         apiUrl,
                         marginManagerId,
                         poolKey: decodedPoolName,
-                        network: "mainnet",
+                        network: suiNetwork,
                       })
                         .then((chain) => {
                           console.log(
@@ -3362,8 +3976,7 @@ export default function PairDetailScreen() {
                                 0,
                                 collateralUsdTotal - parseFloat(debtStr)
                               );
-                              const leverage =
-                                getMaxLeverageForPool(decodedPoolName);
+                              const leverage = maxLeverageForPool;
                               const maxPos = equity * leverage;
                               return maxPos.toLocaleString("en-US", {
                                 minimumFractionDigits: 2,
@@ -3371,7 +3984,7 @@ export default function PairDetailScreen() {
                               });
                             })()}{" "}
                             <Text style={styles.muted}>
-                              (up to {getMaxLeverageForPool(decodedPoolName)}×)
+                              (up to {maxLeverageForPool}×)
                             </Text>
                           </Text>
                         </View>
@@ -3493,7 +4106,7 @@ export default function PairDetailScreen() {
                       </Text>
                       <Text style={styles.orderDetail}>
                         {formatTs(e.checkpoint_timestamp_ms)} ·{" "}
-                        {formatCollateralAmount(e.amount, e.asset_type)}
+                        {formatCollateralAmount(e.amount, e.asset_type, decimalsForCoinType(e.asset_type))}
                       </Text>
                     </View>
                   ))}
@@ -4374,8 +4987,101 @@ export default function PairDetailScreen() {
               </>
             )}
 
+            <View
+              style={{
+                flexDirection: "row",
+                alignItems: "center",
+                justifyContent: "space-between",
+                marginBottom: 4,
+              }}
+            >
+              <Text style={styles.sectionTitle}>Order book</Text>
+              <Pressable
+                onPress={refreshOrderbook}
+                style={({ pressed }) => ({
+                  padding: 6,
+                  opacity: pressed ? 0.8 : 1,
+                })}
+                hitSlop={8}
+              >
+                <FontAwesome name="refresh" size={18} color={colors.tint} />
+              </Pressable>
+            </View>
+            <View style={styles.card}>
+              <OrderBook
+                bids={orderbookBids}
+                asks={orderbookAsks}
+                loading={orderbookLoading}
+                error={orderbookError}
+                baseSymbol={poolInfoForPair?.base_asset_symbol ?? "BASE"}
+                quoteSymbol={poolInfoForPair?.quote_asset_symbol ?? "USDC"}
+                aggregation={orderbookStep}
+                aggregationOptions={orderbookSteps}
+                onAggregationChange={setOrderbookStep}
+                onSelectPrice={
+                  showPlaceOrderBlock
+                    ? (levelPrice) => {
+                        setOrderType("limit");
+                        setPrice(String(levelPrice));
+                      }
+                    : undefined
+                }
+              />
+            </View>
+
             {showPlaceOrderBlock && (
               <>
+            <View style={styles.orderSideRow}>
+              {(["margin", "spot"] as const).map((mode) => (
+                <Pressable
+                  key={mode}
+                  onPress={() => setTradeMode(mode)}
+                  style={[
+                    styles.sideButton,
+                    tradeMode === mode && {
+                      backgroundColor: colors.tint,
+                      opacity: 1,
+                    },
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.sideButtonText,
+                      tradeMode === mode && {
+                        color: colors.background,
+                        opacity: 1,
+                        fontWeight: "600",
+                      },
+                    ]}
+                  >
+                    {mode === "margin" ? "Margin" : "Spot"}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            {tradeMode === "spot" && (
+              <>
+                <Text style={styles.sectionTitle}>Spot account</Text>
+                <View style={styles.card}>
+                  <SpotAccountPanel
+                    balanceManagerId={spotManagerId}
+                    balances={spotBalances}
+                    openOrders={spotOpenOrders}
+                    loading={spotLoading}
+                    error={spotError}
+                    baseSymbol={poolInfoForPair?.base_asset_symbol ?? "BASE"}
+                    quoteSymbol={poolInfoForPair?.quote_asset_symbol ?? "USDC"}
+                    createLoading={spotCreateLoading}
+                    onCreate={onCreateSpotAccount}
+                    transferLoading={spotTransferLoading}
+                    onDeposit={(asset, amount) => onSpotTransfer("deposit", asset, amount)}
+                    onWithdraw={(asset, amount) => onSpotTransfer("withdraw", asset, amount)}
+                    cancellingIds={cancellingSpotOrderIds}
+                    onCancelOrder={onCancelSpotOrder}
+                  />
+                </View>
+              </>
+            )}
             <Text style={styles.sectionTitle}>Place order</Text>
             <View style={styles.card}>
               <View style={styles.orderSideRow}>
@@ -4484,10 +5190,180 @@ export default function PairDetailScreen() {
                     onChangeText={setPrice}
                     keyboardType="decimal-pad"
                   />
+                  <Text style={styles.inputLabel}>Time in force</Text>
+                  <View style={styles.payWithRow}>
+                    {TIME_IN_FORCE_OPTIONS.map((o) => (
+                      <Pressable
+                        key={o.key}
+                        onPress={() => setTimeInForce(o.key)}
+                        style={[
+                          styles.optionChip,
+                          {
+                            borderColor: colors.tabIconDefault,
+                            backgroundColor: timeInForce === o.key ? colors.tint : "transparent",
+                          },
+                        ]}
+                      >
+                        <Text
+                          style={[
+                            styles.optionChipText,
+                            {
+                              color: timeInForce === o.key ? colors.background : colors.text,
+                              opacity: timeInForce === o.key ? 1 : 0.8,
+                            },
+                          ]}
+                        >
+                          {o.label}
+                        </Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                  <Text style={styles.optionsHint}>
+                    {TIME_IN_FORCE_OPTIONS.find((o) => o.key === timeInForce)?.hint}
+                  </Text>
+                  {(timeInForce === "gtc" || timeInForce === "post_only") && (
+                    <>
+                      <Text style={styles.inputLabel}>Expires</Text>
+                      <View style={styles.payWithRow}>
+                        {EXPIRY_OPTIONS.map((o) => (
+                          <Pressable
+                            key={o.label}
+                            onPress={() => setExpiryMs(o.ms)}
+                            style={[
+                              styles.optionChip,
+                              {
+                                borderColor: colors.tabIconDefault,
+                                backgroundColor: expiryMs === o.ms ? colors.tint : "transparent",
+                              },
+                            ]}
+                          >
+                            <Text
+                              style={[
+                                styles.optionChipText,
+                                {
+                                  color: expiryMs === o.ms ? colors.background : colors.text,
+                                  opacity: expiryMs === o.ms ? 1 : 0.8,
+                                },
+                              ]}
+                            >
+                              {o.label}
+                            </Text>
+                          </Pressable>
+                        ))}
+                      </View>
+                      <Text style={styles.optionsHint}>
+                        {expiryMs == null
+                          ? "Order stays open until filled or cancelled."
+                          : "Counted from when you place the order; unfilled quantity is cancelled on chain after that."}
+                      </Text>
+                    </>
+                  )}
+                </>
+              )}
+              {orderType === "market" && (
+                <>
+                  <Text style={styles.inputLabel}>Max slippage</Text>
+                  <View style={styles.payWithRow}>
+                    {SLIPPAGE_PRESETS_BPS.map((bps) => (
+                      <Pressable
+                        key={bps}
+                        onPress={() => {
+                          setCustomSlippage("");
+                          setMaxSlippageBps(bps);
+                        }}
+                        style={[
+                          styles.optionChip,
+                          {
+                            borderColor: colors.tabIconDefault,
+                            backgroundColor: maxSlippageBps === bps ? colors.tint : "transparent",
+                          },
+                        ]}
+                      >
+                        <Text
+                          style={[
+                            styles.optionChipText,
+                            {
+                              color: maxSlippageBps === bps ? colors.background : colors.text,
+                              opacity: maxSlippageBps === bps ? 1 : 0.8,
+                            },
+                          ]}
+                        >
+                          {formatSlippageBps(bps)}
+                        </Text>
+                      </Pressable>
+                    ))}
+                    <TextInput
+                      style={[
+                        styles.optionChip,
+                        styles.optionChipText,
+                        {
+                          minWidth: 72,
+                          color: colors.text,
+                          borderColor: SLIPPAGE_PRESETS_BPS.includes(maxSlippageBps)
+                            ? colors.tabIconDefault
+                            : colors.tint,
+                        },
+                      ]}
+                      placeholder={
+                        SLIPPAGE_PRESETS_BPS.includes(maxSlippageBps)
+                          ? "Custom %"
+                          : formatSlippageBps(maxSlippageBps)
+                      }
+                      placeholderTextColor={colors.tabIconDefault}
+                      value={customSlippage}
+                      onChangeText={setCustomSlippage}
+                      onEndEditing={() => {
+                        const pct = parseFloat(customSlippage.trim());
+                        if (!Number.isFinite(pct)) return;
+                        setMaxSlippageBps(Math.round(pct * 100)).catch((err) =>
+                          Alert.alert(
+                            "Max slippage",
+                            err instanceof Error ? err.message : "Invalid slippage"
+                          )
+                        );
+                      }}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                  <Text style={styles.optionsHint}>
+                    {`Fills worse than ${formatSlippageBps(maxSlippageBps)} from the book price are cancelled. Also applies to closing and deposit & open.`}
+                  </Text>
                 </>
               )}
+              <Text style={styles.inputLabel}>Self-trade</Text>
+              <View style={styles.payWithRow}>
+                {SELF_MATCHING_OPTIONS.map((o) => (
+                  <Pressable
+                    key={o.key}
+                    onPress={() => setSelfMatching(o.key)}
+                    style={[
+                      styles.optionChip,
+                      {
+                        borderColor: colors.tabIconDefault,
+                        backgroundColor: selfMatching === o.key ? colors.tint : "transparent",
+                      },
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.optionChipText,
+                        {
+                          color: selfMatching === o.key ? colors.background : colors.text,
+                          opacity: selfMatching === o.key ? 1 : 0.8,
+                        },
+                      ]}
+                    >
+                      {o.label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+              <Text style={styles.optionsHint}>
+                When this order would match one of your own resting orders.
+              </Text>
               <Text style={styles.inputLabel}>
-                Your margin ({poolInfoForPair?.base_asset_symbol ?? "base"})
+                {tradeMode === "spot" ? "Quantity" : "Your margin"} (
+                {poolInfoForPair?.base_asset_symbol ?? "base"})
               </Text>
               <View style={styles.quantityRow}>
                 <TextInput
@@ -4503,18 +5379,18 @@ export default function PairDetailScreen() {
                   keyboardType="decimal-pad"
                 />
                 <Pressable
-                  onPress={setMarginToMax}
-                  disabled={maxMarginBase == null || maxMarginBase <= 0}
+                  onPress={setQuantityToMax}
+                  disabled={maxOrderQuantity == null || maxOrderQuantity <= 0}
                   style={[
                     styles.optionChip,
                     {
                       borderColor: colors.tabIconDefault,
                       backgroundColor:
-                        maxMarginBase != null && maxMarginBase > 0
+                        maxOrderQuantity != null && maxOrderQuantity > 0
                           ? colors.tint
                           : "transparent",
                       opacity:
-                        maxMarginBase != null && maxMarginBase > 0 ? 1 : 0.5,
+                        maxOrderQuantity != null && maxOrderQuantity > 0 ? 1 : 0.5,
                     },
                   ]}
                 >
@@ -4523,7 +5399,7 @@ export default function PairDetailScreen() {
                       styles.optionChipText,
                       {
                         color:
-                          maxMarginBase != null && maxMarginBase > 0
+                          maxOrderQuantity != null && maxOrderQuantity > 0
                             ? colors.background
                             : colors.text,
                       },
@@ -4533,9 +5409,16 @@ export default function PairDetailScreen() {
                   </Text>
                 </Pressable>
               </View>
+              {tradeMode === "spot" ? (
+                <Text style={styles.optionsHint}>
+                  Trades your spot account balance, no borrowing. Min quantity:{" "}
+                  {minOrderQuantity ?? "…"}. Max = what the account can pay for.
+                </Text>
+              ) : (
+              <>
               <Text style={styles.optionsHint}>
                 Position = margin × {leverage}× (you put in margin, protocol
-                borrows the rest). Min position: {MIN_ORDER_QUANTITY}. Max =
+                borrows the rest). Min position: {minOrderQuantity ?? "…"}. Max =
                 use full equity.
               </Text>
               <Text style={styles.inputLabel}>Leverage</Text>
@@ -4572,6 +5455,33 @@ export default function PairDetailScreen() {
                 Leverage sets max quantity (equity × leverage ÷ price). Protocol
                 borrows as needed when you place the order.
               </Text>
+              <MarginRatesPanel
+                rates={borrowRates}
+                loading={borrowRatesLoading}
+                error={borrowRatesError}
+                leverage={leverage}
+                maxLeverage={maxLeverageForPool}
+              />
+              {marginRisk && (
+                <Text style={styles.optionsHint}>
+                  {orderSide === "buy"
+                    ? `Can borrow up to ${marginRisk.maxBorrow.quote.toLocaleString(undefined, {
+                        maximumFractionDigits: 2,
+                      })} ${poolInfoForPair?.quote_asset_symbol ?? "quote"}`
+                    : `Can borrow up to ${marginRisk.maxBorrow.base.toLocaleString(undefined, {
+                        maximumFractionDigits: 4,
+                      })} ${poolInfoForPair?.base_asset_symbol ?? "base"}`}
+                  {marginRisk.liquidation
+                    ? ` · Liquidation at ${marginRisk.liquidation.price.toLocaleString(undefined, {
+                        maximumFractionDigits: 6,
+                      })} (${marginRisk.liquidation.percent.toFixed(1)}% ${
+                        marginRisk.liquidation.direction === "down" ? "below" : "above"
+                      } oracle)`
+                    : ""}
+                </Text>
+              )}
+              </>
+              )}
               <Text style={styles.inputLabel}>Pay with</Text>
               <View style={styles.payWithRow}>
                 {(["base", "quote", "deep"] as const).map((a) => {
@@ -4608,13 +5518,22 @@ export default function PairDetailScreen() {
                 })}
               </View>
               <Text style={styles.optionsHint}>
-                {paymentAssetBalance != null
-                  ? `Max ${paymentAssetBalance.toLocaleString(undefined, {
-                      minimumFractionDigits: 0,
-                      maximumFractionDigits: 6,
-                    })} ${assetLabel(paymentAsset)}`
-                  : `Pay with ${assetLabel(paymentAsset)}`}
+                {tradeMode === "spot"
+                  ? spotBalances
+                    ? `Spot account: ${spotBalances[paymentAsset].available.toLocaleString(undefined, {
+                        minimumFractionDigits: 0,
+                        maximumFractionDigits: 6,
+                      })} ${assetLabel(paymentAsset)}`
+                    : `Pay with ${assetLabel(paymentAsset)}`
+                  : paymentAssetBalance != null
+                    ? `Max ${paymentAssetBalance.toLocaleString(undefined, {
+                        minimumFractionDigits: 0,
+                        maximumFractionDigits: 6,
+                      })} ${assetLabel(paymentAsset)}`
+                    : `Pay with ${assetLabel(paymentAsset)}`}
               </Text>
+              {tradeMode === "margin" && (
+              <>
               <Text style={styles.optionsLabel}>Take profit · Stop loss</Text>
               <View style={styles.tpslRow}>
                 <View style={styles.tpslInputWrap}>
@@ -4679,14 +5598,38 @@ export default function PairDetailScreen() {
                   )}
                 </Pressable>
               </View>
+              </>
+              )}
+              {orderPreviewParams && (
+                <OrderPreviewPanel
+                  preview={orderPreview}
+                  loading={orderPreviewLoading}
+                  error={orderPreviewError}
+                />
+              )}
+              {orderType === "market" &&
+                (priceIntegrity?.status === "block" || priceIntegrity?.status === "warn") && (
+                  <Text style={[styles.optionsHint, { color: priceIntegrityColor, opacity: 1 }]}>
+                    {marketOrdersBlocked
+                      ? `Market orders are paused: the book is ${((priceIntegrity.bookDeviationBps ?? 0) / 100).toFixed(2)}% from the oracle price. Use a limit order.`
+                      : `${priceIntegrity.warning ?? "Book and oracle prices disagree."} A market order may fill far from fair value.`}
+                  </Text>
+                )}
               <Pressable
-                onPress={onPlaceOrder}
-                disabled={orderLoading}
+                onPress={tradeMode === "spot" ? onPlaceSpotOrder : onPlaceOrder}
+                disabled={
+                  orderLoading || !poolMeta || (orderType === "market" && marketOrdersBlocked)
+                }
                 style={({ pressed }) => [
                   styles.primaryButton,
                   {
                     backgroundColor: colors.tint,
-                    opacity: orderLoading ? 0.7 : pressed ? 0.8 : 1,
+                    opacity:
+                      orderLoading || !poolMeta || (orderType === "market" && marketOrdersBlocked)
+                        ? 0.7
+                        : pressed
+                          ? 0.8
+                          : 1,
                   },
                 ]}
               >
@@ -4710,6 +5653,80 @@ export default function PairDetailScreen() {
           </>
         )}
 
+            {showPlaceOrderBlock && tradeMode === "margin" && marginManagerId && (
+              <>
+                <View
+                  style={{
+                    flexDirection: "row",
+                    alignItems: "center",
+                    justifyContent: "space-between",
+                    marginBottom: 4,
+                  }}
+                >
+                  <Text style={styles.sectionTitle}>Open orders</Text>
+                  <Pressable
+                    onPress={refreshOpenOrders}
+                    disabled={openOrdersLoading}
+                    style={({ pressed }) => ({
+                      padding: 6,
+                      opacity: openOrdersLoading ? 0.6 : pressed ? 0.8 : 1,
+                    })}
+                    hitSlop={8}
+                  >
+                    <FontAwesome name="refresh" size={18} color={colors.tint} />
+                  </Pressable>
+                </View>
+                <View style={styles.card}>
+                  <OpenOrdersTable
+                    orders={openOrders}
+                    loading={openOrdersLoading}
+                    error={openOrdersError}
+                    baseSymbol={poolInfoForPair?.base_asset_symbol ?? "BASE"}
+                    quoteSymbol={poolInfoForPair?.quote_asset_symbol ?? "USDC"}
+                    cancellingIds={cancellingOrderIds}
+                    cancelAllLoading={cancelAllOrdersLoading}
+                    onCancel={onCancelOrder}
+                    onCancelAll={onCancelAllOrders}
+                    onEdit={onModifyOrder}
+                  />
+                </View>
+                <View
+                  style={{
+                    flexDirection: "row",
+                    alignItems: "center",
+                    justifyContent: "space-between",
+                    marginBottom: 4,
+                  }}
+                >
+                  <Text style={styles.sectionTitle}>TP / SL orders</Text>
+                  <Pressable
+                    onPress={refreshConditionalOrders}
+                    disabled={conditionalOrdersLoading}
+                    style={({ pressed }) => ({
+                      padding: 6,
+                      opacity: conditionalOrdersLoading ? 0.6 : pressed ? 0.8 : 1,
+                    })}
+                    hitSlop={8}
+                  >
+                    <FontAwesome name="refresh" size={18} color={colors.tint} />
+                  </Pressable>
+                </View>
+                <View style={styles.card}>
+                  <TpslOrdersPanel
+                    orders={conditionalOrders}
+                    loading={conditionalOrdersLoading}
+                    error={conditionalOrdersError}
+                    baseSymbol={poolInfoForPair?.base_asset_symbol ?? "BASE"}
+                    quoteSymbol={poolInfoForPair?.quote_asset_symbol ?? "USDC"}
+                    cancellingIds={cancellingTpslIds}
+                    cancelAllLoading={cancelAllTpslLoading}
+                    onCancel={(id) => onCancelTpsl([id])}
+                    onCancelAll={() => onCancelTpsl("all")}
+                  />
+                </View>
+              </>
+            )}
+
             {/* Position block: only when there is open debt and at least one borrowed (human) >= 0.09. */}
             {showPositionBlock && (
               <>
@@ -4741,6 +5758,9 @@ export default function PairDetailScreen() {
                         <View style={[styles.positionTableCell, styles.positionTableHeader]}>
                           <Text style={[styles.positionTableHeaderText, { color: colors.text }]}>Mark</Text>
                         </View>
+                        <View style={[styles.positionTableCell, styles.positionTableHeader]}>
+                          <Text style={[styles.positionTableHeaderText, { color: colors.text }]}>Liq. price</Text>
+                        </View>
                         <View style={[styles.positionTableCell, styles.positionTableHeader]}>
                           <Text style={[styles.positionTableHeaderText, { color: colors.text }]}>Δ%</Text>
                         </View>
@@ -4805,6 +5825,25 @@ export default function PairDetailScreen() {
                               : "—"}
                           </Text>
                         </View>
+                        <View style={[styles.positionTableCell, { borderTopWidth: StyleSheet.hairlineWidth, borderTopColor: colors.tabIconDefault }]}>
+                          {marginRisk?.liquidation ? (
+                            <>
+                              <Text style={[styles.positionTableCellText, { color: colors.text }]}>
+                                {`${marginRisk.liquidation.price.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 6 })} ${livePnl.quoteSymbol}`}
+                              </Text>
+                              <Text
+                                style={[
+                                  styles.positionTableCellText,
+                                  marginRisk.liquidation.percent < 10 ? styles.riskWarning : styles.muted,
+                                ]}
+                              >
+                                {`${marginRisk.liquidation.direction === "down" ? "−" : "+"}${marginRisk.liquidation.percent.toFixed(1)}%`}
+                              </Text>
+                            </>
+                          ) : (
+                            <Text style={[styles.positionTableCellText, styles.muted]}>—</Text>
+                          )}
+                        </View>
                         <View style={[styles.positionTableCell, { borderTopWidth: StyleSheet.hairlineWidth, borderTopColor: colors.tabIconDefault }]}>
                           {(() => {
                             const latestTrade = tradeHistory[0];
@@ -4879,47 +5918,62 @@ export default function PairDetailScreen() {
                       </ScrollView>
                     </View>
                   </ScrollView>
-                  <Pressable
-                    onPress={onCloseAndSendToBase}
-                    disabled={
-                      closePositionLoading ||
-                      closeAndWithdrawLoading ||
-                      closeAndSendToBaseLoading
-                    }
-                    style={({ pressed }) => [
-                      styles.primaryButton,
-                      {
-                        marginTop: 12,
-                        backgroundColor: colors.tint,
-                        opacity:
-                          closePositionLoading ||
-                          closeAndWithdrawLoading ||
-                          closeAndSendToBaseLoading
-                            ? 0.6
-                            : pressed
-                              ? 0.8
-                              : 1,
-                      },
-                    ]}
-                    accessibilityRole="button"
-                    accessibilityLabel="Close and send to Base"
-                  >
-                    {closeAndSendToBaseLoading ? (
-                      <ActivityIndicator
-                        size="small"
-                        color={colors.background}
-                      />
-                    ) : (
-                      <Text
-                        style={[
-                          styles.primaryButtonText,
-                          { color: colors.background },
-                        ]}
-                      >
-                        Close & send to Base
-                      </Text>
+                  {marginDebts &&
+                    [marginDebts.base, marginDebts.quote].map((d) =>
+                      d && d.amount > 0 ? (
+                        <Text key={d.coinKey} style={[styles.optionsHint, { marginTop: 8, marginBottom: 0 }]}>
+                          {`Debt ${d.amount.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${d.coinKey}`}
+                          {d.accruedInterest != null
+                            ? ` (incl. ${d.accruedInterest.toLocaleString(undefined, { maximumFractionDigits: 6 })} interest)`
+                            : ""}
+                          {` · ${(d.borrowApr * 100).toFixed(2)}% borrow APR`}
+                        </Text>
+                      ) : null
                     )}
-                  </Pressable>
+                  {/* LI.FI bridges mainnet USDC only */}
+                  {suiNetwork === "mainnet" && (
+                    <Pressable
+                      onPress={onCloseAndSendToBase}
+                      disabled={
+                        closePositionLoading ||
+                        closeAndWithdrawLoading ||
+                        closeAndSendToBaseLoading
+                      }
+                      style={({ pressed }) => [
+                        styles.primaryButton,
+                        {
+                          marginTop: 12,
+                          backgroundColor: colors.tint,
+                          opacity:
+                            closePositionLoading ||
+                            closeAndWithdrawLoading ||
+                            closeAndSendToBaseLoading
+                              ? 0.6
+                              : pressed
+                                ? 0.8
+                                : 1,
+                        },
+                      ]}
+                      accessibilityRole="button"
+                      accessibilityLabel="Close and send to Base"
+                    >
+                      {closeAndSendToBaseLoading ? (
+                        <ActivityIndicator
+                          size="small"
+                          color={colors.background}
+                        />
+                      ) : (
+                        <Text
+                          style={[
+                            styles.primaryButtonText,
+                            { color: colors.background },
+                          ]}
+                        >
+                          Close & send to Base
+                        </Text>
+                      )}
+                    </Pressable>
+                  )}
                   <Text style={[styles.muted, { fontSize: 12, marginTop: 8 }]}>
                     Closes position, repays loan, withdraws USDC to Sui wallet,
                     then starts bridge to Base (sign when prompted).
@@ -5523,10 +6577,10 @@ export default function PairDetailScreen() {
               <Text style={[styles.muted, { marginBottom: 8 }]}>
                 Loading balance…
               </Text>
-            ) : depositWalletBalanceRaw != null ? (
+            ) : depositWalletBalanceRaw != null && depositAssetDecimals != null ? (
               <Text style={[styles.muted, { marginBottom: 8 }]}>{`Available: ${(
                 Number(depositWalletBalanceRaw) /
-                Math.pow(10, getDecimalsForAsset(depositAsset))
+                Math.pow(10, depositAssetDecimals)
               ).toLocaleString(undefined, {
                 minimumFractionDigits: 0,
                 maximumFractionDigits: 6,
@@ -5687,6 +6741,17 @@ export default function PairDetailScreen() {
                 maximumFractionDigits: 6,
               })} ${assetLabel(withdrawAsset)}`}</Text>
             ) : null}
+            {withdrawAsset !== "deep" &&
+            marginRisk &&
+            riskParams &&
+            marginRisk.riskRatio != null ? (
+              <Text style={[styles.muted, { marginBottom: 8 }]}>
+                {`Withdrawable with debt open: ${marginRisk.maxWithdraw[withdrawAsset].toLocaleString(undefined, {
+                  minimumFractionDigits: 0,
+                  maximumFractionDigits: 6,
+                })} ${assetLabel(withdrawAsset)} (keeps risk ratio ≥ ${riskParams.minWithdrawRiskRatio}×)`}
+              </Text>
+            ) : null}
             <Text style={[styles.inputLabel, { color: colors.text }]}>
               Amount
             </Text>
@@ -5770,6 +6835,7 @@ export default function PairDetailScreen() {
           </Pressable>
         </Pressable>
       </View>
+      {txPreviewSheet}
     </View>
   );
 }
@@ -5856,6 +6922,7 @@ const styles = StyleSheet.create({
     marginBottom: 10,
     textTransform: "uppercase",
   },
+  oraclePriceText: { fontSize: 12, fontWeight: "500", opacity: 0.8, marginTop: -6 },
   chartHeaderRow: {
     flexDirection: "row",
     justifyContent: "space-between",
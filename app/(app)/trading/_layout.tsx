@@ -10,6 +10,7 @@ export default function TradingLayout() {
     >
       <Stack.Screen name="index" options={{ title: 'Margin', headerTitle: 'Pairs' }} />
       <Stack.Screen name="[poolName]" options={{ title: 'Pair', headerTitle: '' }} />
+      <Stack.Screen name="lend" options={{ title: 'Lend', headerTitle: '' }} />
     </Stack>
   );
 }
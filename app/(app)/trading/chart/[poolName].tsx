@@ -9,6 +9,7 @@ import { useColorScheme } from "@/components/useColorScheme";
 import Colors from "@/constants/Colors";
 import { useOhlcv, useTicker } from "@/hooks/useDeepBookMargin";
 import type { OhlcvInterval } from "@/lib/deepbook-indexer";
+import { getSuiNetwork, useNetwork } from "@/lib/network";
 import { useLocalSearchParams, useNavigation } from "expo-router";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import {
@@ -74,7 +75,9 @@ export default function FullScreenChartScreen() {
   const colors = Colors[colorScheme ?? "light"];
   const insets = useSafeAreaInsets();
 
-  const { ticker } = useTicker(PRICE_POLL_MS);
+  const { currentNetwork } = useNetwork();
+  const suiNetwork = getSuiNetwork(currentNetwork);
+  const { ticker } = useTicker(PRICE_POLL_MS, suiNetwork);
   const livePrice = decodedPoolName
     ? ticker[decodedPoolName]?.last_price
     : undefined;
@@ -88,6 +91,7 @@ export default function FullScreenChartScreen() {
     interval: chartInterval,
     displayLimit: FULL_CHART_DISPLAY_LIMIT,
     fetchLimit: FULL_CHART_FETCH_LIMIT,
+    network: suiNetwork,
   });
 
   const displayPoolLabel = decodedPoolName
@@ -0,0 +1,409 @@
+/**
+ * Lend — supply SUI / USDC / DEEP / WAL to the DeepBook margin pools and earn interest paid by margin
+ * borrowers. Shows each pool's utilization against MAX_UTILIZATION_RATIO, the borrow and supply APR,
+ * and the user's supplied amount and earned interest. Supply / withdraw go through the backend
+ * (prepare -> sign -> execute) with the usual dry-run confirm sheet.
+ */
+
+import FontAwesome from "@expo/vector-icons/FontAwesome";
+import { usePrivy } from "@privy-io/expo";
+import { useSignRawHash } from "@privy-io/expo/extended-chains";
+import { useRouter } from "expo-router";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { Text } from "@/components/Themed";
+import { useTxPreviewSheet } from "@/components/TxPreviewSheet";
+import { useColorScheme } from "@/components/useColorScheme";
+import Colors from "@/constants/Colors";
+import {
+  getDecimalsForCoinType,
+  MAX_UTILIZATION_RATIO,
+  MIN_MARGIN_DEPOSIT_WITHDRAW_AMOUNT,
+} from "@/constants/deepbook-margin-mainnet";
+import {
+  useGasSponsorship,
+  useMarginPoolLending,
+} from "@/hooks/useDeepBookMargin";
+import { errorMessageWithCode } from "@/lib/api-error";
+import {
+  supplyToMarginPoolViaBackend,
+  withdrawFromMarginPoolViaBackend,
+  type MarginPoolLendingEntry,
+} from "@/lib/margin-pool-lending-via-backend";
+import { getSuiNetwork, useNetwork } from "@/lib/network";
+import { isTxCancelled } from "@/lib/simulate-via-backend";
+import { getSuiAddressFromUser, getSuiWalletFromUser } from "@/lib/sui";
+import { fetchSuiBalance } from "@/lib/sui-balance-fetch";
+import { publicKeyToHex } from "@/lib/sui-transfer-via-backend";
+
+const UTILIZATION_OK_COLOR = "#22c55e";
+const UTILIZATION_HIGH_COLOR = "#f59e0b";
+
+function formatPct(fraction: number, digits = 2): string {
+  return `${(fraction * 100).toFixed(digits)}%`;
+}
+
+function formatAmount(value: number, maxDigits = 4): string {
+  return value.toLocaleString(undefined, {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: value >= 1000 ? 2 : maxDigits,
+  });
+}
+
+export default function LendScreen() {
+  const colors = Colors[useColorScheme() ?? "light"];
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { currentNetwork } = useNetwork();
+  const suiNetwork = getSuiNetwork(currentNetwork);
+  const { user } = usePrivy();
+  const suiAddress = getSuiAddressFromUser(user);
+  const suiWallet = getSuiWalletFromUser(user);
+  const { signRawHash } = useSignRawHash();
+
+  const apiUrl =
+    (typeof process !== "undefined" && process.env?.EXPO_PUBLIC_API_URL) ||
+    "http://localhost:3001";
+  const { confirmTx, sheet: txPreviewSheet } = useTxPreviewSheet(apiUrl, suiNetwork);
+  const { sponsored: sponsorGas } = useGasSponsorship(suiAddress, apiUrl, suiNetwork);
+  const { pools, loading, error, refresh } = useMarginPoolLending(
+    suiAddress,
+    apiUrl,
+    suiNetwork
+  );
+
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [amount, setAmount] = useState("");
+  const [walletBalance, setWalletBalance] = useState<number | null>(null);
+  const [actionLoading, setActionLoading] = useState<"supply" | "withdraw" | null>(null);
+
+  const selected = useMemo<MarginPoolLendingEntry | null>(
+    () => pools.find((p) => p.coinKey === selectedKey) ?? pools[0] ?? null,
+    [pools, selectedKey]
+  );
+
+  const selectedCoinType = selected?.coinType ?? null;
+  useEffect(() => {
+    if (!suiAddress || !selectedCoinType) {
+      setWalletBalance(null);
+      return;
+    }
+    let cancelled = false;
+    fetchSuiBalance(suiAddress, selectedCoinType, suiNetwork)
+      .then(({ totalBalance }) => {
+        if (cancelled) return;
+        setWalletBalance(
+          Number(totalBalance) / 10 ** getDecimalsForCoinType(selectedCoinType)
+        );
+      })
+      .catch(() => {
+        if (!cancelled) setWalletBalance(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [suiAddress, selectedCoinType, suiNetwork, actionLoading]);
+
+  const runAction = useCallback(
+    async (kind: "supply" | "withdraw", withdrawAll = false) => {
+      if (!selected) return;
+      const title = kind === "supply" ? "Supply" : "Withdraw";
+      if (!suiAddress || !signRawHash || !suiWallet?.publicKey) {
+        Alert.alert(title, "Wallet signing not available.");
+        return;
+      }
+      const value = parseFloat(amount.trim());
+      if (!withdrawAll && (!Number.isFinite(value) || value < MIN_MARGIN_DEPOSIT_WITHDRAW_AMOUNT)) {
+        Alert.alert(title, `Enter at least ${MIN_MARGIN_DEPOSIT_WITHDRAW_AMOUNT} ${selected.coinKey}.`);
+        return;
+      }
+      setActionLoading(kind);
+      try {
+        const action =
+          kind === "supply" ? supplyToMarginPoolViaBackend : withdrawFromMarginPoolViaBackend;
+        await action({
+          apiUrl,
+          sender: suiAddress,
+          coinKey: selected.coinKey,
+          amount: withdrawAll ? undefined : value,
+          signRawHash,
+          publicKeyHex: publicKeyToHex(suiWallet.publicKey),
+          confirmBeforeSign: confirmTx,
+          sponsored: sponsorGas,
+          network: suiNetwork,
+        });
+        setAmount("");
+        refresh();
+        Alert.alert(
+          title,
+          kind === "supply"
+            ? `Supplied to the ${selected.coinKey} margin pool.`
+            : `Withdrawn from the ${selected.coinKey} margin pool.`
+        );
+      } catch (err) {
+        if (isTxCancelled(err)) return;
+        Alert.alert(title, errorMessageWithCode(err, `${title} failed`));
+      } finally {
+        setActionLoading(null);
+      }
+    },
+    [
+      selected,
+      suiAddress,
+      signRawHash,
+      suiWallet?.publicKey,
+      amount,
+      apiUrl,
+      confirmTx,
+      sponsorGas,
+      suiNetwork,
+      refresh,
+    ]
+  );
+
+  const position = selected?.position ?? null;
+  const hasPosition = position != null && position.amount > 0;
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <ScrollView
+        contentContainerStyle={[
+          styles.content,
+          { paddingTop: insets.top + 16, paddingBottom: insets.bottom + 32 },
+        ]}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={<RefreshControl refreshing={loading && pools.length > 0} onRefresh={refresh} />}
+      >
+        <Pressable onPress={() => router.back()} style={styles.backRow} hitSlop={8}>
+          <FontAwesome name="chevron-left" size={14} color={colors.text} />
+          <Text style={styles.backText}>Pools</Text>
+        </Pressable>
+        <Text style={styles.title}>Lend</Text>
+        <Text style={[styles.muted, { marginBottom: 16 }]}>
+          Supply to a margin pool to earn the interest margin traders pay. Borrowing
+          stops at {formatPct(MAX_UTILIZATION_RATIO, 0)} utilization, so part of every
+          pool stays available for withdrawals.
+        </Text>
+
+        {loading && pools.length === 0 ? (
+          <ActivityIndicator size="large" color={colors.tint} style={{ marginTop: 24 }} />
+        ) : error && pools.length === 0 ? (
+          <Text style={styles.errorText}>{error}</Text>
+        ) : (
+          pools.map((pool) => {
+            const isSelected = pool.coinKey === selected?.coinKey;
+            const maxUtilization = pool.maxUtilizationRate || MAX_UTILIZATION_RATIO;
+            const nearCap = pool.utilization >= maxUtilization * 0.9;
+            return (
+              <Pressable
+                key={pool.coinKey}
+                onPress={() => setSelectedKey(pool.coinKey)}
+                style={[
+                  styles.card,
+                  {
+                    borderColor: isSelected ? colors.tint : colors.tabIconDefault + "40",
+                  },
+                ]}
+              >
+                <View style={styles.cardHeader}>
+                  <Text style={styles.coin}>{pool.coinKey}</Text>
+                  <Text style={[styles.apr, { color: UTILIZATION_OK_COLOR }]}>
+                    {formatPct(pool.supplyApr)} APR
+                  </Text>
+                </View>
+                <View style={styles.statRow}>
+                  <Text style={styles.muted}>Supplied</Text>
+                  <Text style={styles.statValue}>{formatAmount(pool.totalSupply, 2)}</Text>
+                </View>
+                <View style={styles.statRow}>
+                  <Text style={styles.muted}>Borrowed</Text>
+                  <Text style={styles.statValue}>{formatAmount(pool.totalBorrow, 2)}</Text>
+                </View>
+                <View style={styles.statRow}>
+                  <Text style={styles.muted}>Borrow APR</Text>
+                  <Text style={styles.statValue}>{formatPct(pool.borrowApr)}</Text>
+                </View>
+                <View style={styles.statRow}>
+                  <Text style={styles.muted}>Utilization</Text>
+                  <Text style={styles.statValue}>
+                    {formatPct(pool.utilization, 1)} / {formatPct(maxUtilization, 0)} max
+                  </Text>
+                </View>
+                <View style={[styles.utilTrack, { backgroundColor: colors.tabIconDefault + "30" }]}>
+                  <View
+                    style={[
+                      styles.utilFill,
+                      {
+                        width: `${Math.min(100, pool.utilization * 100)}%`,
+                        backgroundColor: nearCap ? UTILIZATION_HIGH_COLOR : UTILIZATION_OK_COLOR,
+                      },
+                    ]}
+                  />
+                  <View
+                    style={[
+                      styles.utilCap,
+                      { left: `${maxUtilization * 100}%`, backgroundColor: colors.text },
+                    ]}
+                  />
+                </View>
+                {pool.position && pool.position.amount > 0 && (
+                  <View style={[styles.statRow, { marginTop: 8 }]}>
+                    <Text style={styles.muted}>Your supply</Text>
+                    <Text style={styles.statValue}>
+                      {formatAmount(pool.position.amount)} {pool.coinKey}
+                      {pool.position.interestEarned != null
+                        ? ` (+${formatAmount(pool.position.interestEarned, 6)} earned)`
+                        : ""}
+                    </Text>
+                  </View>
+                )}
+              </Pressable>
+            );
+          })
+        )}
+
+        {selected && (
+          <View style={[styles.card, { borderColor: colors.tabIconDefault + "40" }]}>
+            <Text style={styles.sectionTitle}>{selected.coinKey} pool</Text>
+            {!suiAddress ? (
+              <Text style={styles.muted}>Sign in with a Sui wallet to lend.</Text>
+            ) : (
+              <>
+                <Text style={[styles.muted, { marginBottom: 6 }]}>
+                  Wallet:{" "}
+                  {walletBalance != null
+                    ? `${formatAmount(walletBalance, 6)} ${selected.coinKey}`
+                    : "—"}
+                  {hasPosition
+                    ? ` · Supplied: ${formatAmount(position!.amount, 6)} ${selected.coinKey}`
+                    : ""}
+                </Text>
+                {hasPosition && position!.principal != null && (
+                  <Text style={[styles.muted, { marginBottom: 6 }]}>
+                    Principal {formatAmount(position!.principal, 6)} · Interest earned{" "}
+                    {formatAmount(position!.interestEarned ?? 0, 6)} {selected.coinKey}
+                  </Text>
+                )}
+                <TextInput
+                  style={[styles.input, { color: colors.text, borderColor: colors.tabIconDefault }]}
+                  placeholder={`Amount (${selected.coinKey})`}
+                  placeholderTextColor={colors.tabIconDefault}
+                  value={amount}
+                  onChangeText={setAmount}
+                  keyboardType="decimal-pad"
+                />
+                <View style={styles.actionRow}>
+                  <Pressable
+                    onPress={() => runAction("supply")}
+                    disabled={actionLoading != null}
+                    style={[
+                      styles.actionButton,
+                      { backgroundColor: colors.tint, opacity: actionLoading ? 0.6 : 1 },
+                    ]}
+                  >
+                    {actionLoading === "supply" ? (
+                      <ActivityIndicator size="small" color={colors.background} />
+                    ) : (
+                      <Text style={[styles.actionText, { color: colors.background }]}>Supply</Text>
+                    )}
+                  </Pressable>
+                  <Pressable
+                    onPress={() => runAction("withdraw")}
+                    disabled={actionLoading != null || !hasPosition}
+                    style={[
+                      styles.actionButton,
+                      styles.outlineButton,
+                      {
+                        borderColor: colors.tint,
+                        opacity: actionLoading || !hasPosition ? 0.5 : 1,
+                      },
+                    ]}
+                  >
+                    {actionLoading === "withdraw" ? (
+                      <ActivityIndicator size="small" color={colors.tint} />
+                    ) : (
+                      <Text style={[styles.actionText, { color: colors.tint }]}>Withdraw</Text>
+                    )}
+                  </Pressable>
+                </View>
+                {hasPosition && (
+                  <Pressable
+                    onPress={() => runAction("withdraw", true)}
+                    disabled={actionLoading != null}
+                    style={styles.withdrawAll}
+                  >
+                    <Text style={[styles.muted, { color: colors.tint }]}>
+                      Withdraw all (principal + interest)
+                    </Text>
+                  </Pressable>
+                )}
+              </>
+            )}
+          </View>
+        )}
+      </ScrollView>
+      {txPreviewSheet}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  content: { paddingHorizontal: 20 },
+  backRow: { flexDirection: "row", alignItems: "center", gap: 6, marginBottom: 12 },
+  backText: { fontSize: 15 },
+  title: { fontSize: 24, fontWeight: "700", marginBottom: 6 },
+  sectionTitle: { fontSize: 16, fontWeight: "600", marginBottom: 8 },
+  muted: { fontSize: 13, opacity: 0.7 },
+  card: { padding: 16, borderRadius: 12, borderWidth: 1, marginBottom: 12 },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  coin: { fontSize: 18, fontWeight: "700" },
+  apr: { fontSize: 16, fontWeight: "700" },
+  statRow: { flexDirection: "row", justifyContent: "space-between", marginBottom: 4 },
+  statValue: { fontSize: 13, fontWeight: "500" },
+  utilTrack: {
+    height: 6,
+    borderRadius: 3,
+    marginTop: 6,
+    overflow: "hidden",
+    position: "relative",
+  },
+  utilFill: { position: "absolute", left: 0, top: 0, bottom: 0, borderRadius: 3 },
+  utilCap: { position: "absolute", top: 0, bottom: 0, width: 2 },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 18,
+    marginBottom: 12,
+  },
+  actionRow: { flexDirection: "row", gap: 10 },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  outlineButton: { borderWidth: 1, backgroundColor: "transparent" },
+  actionText: { fontSize: 16, fontWeight: "600" },
+  withdrawAll: { alignItems: "center", marginTop: 12 },
+  errorText: { color: "#ef4444", fontSize: 14 },
+});
@@ -2,18 +2,76 @@ import { Buffer } from "buffer";
 import cors from "cors";
 import "dotenv/config";
 import express from "express";
+import { executeCreateBalanceManager } from "./sui/execute-create-balance-manager.js";
 import { executeCreateMarginManager } from "./sui/execute-create-margin-manager.js";
 import { executeTransfer } from "./sui/execute-transfer.js";
+import { fetchBalanceManager } from "./sui/fetch-balance-manager.js";
+import { fetchConditionalOrders } from "./sui/fetch-conditional-orders.js";
+import { fetchMarginRiskParams } from "./sui/fetch-margin-risk-params.js";
 import { fetchMarginBorrowedShares } from "./sui/fetch-margin-borrowed-shares.js";
+import { fetchMarginPoolLending } from "./sui/fetch-margin-pool-lending.js";
+import { getSponsorStatus } from "./sui/gas-sponsor.js";
+import {
+  attachStreamClient,
+  getStreamStatus,
+  MAX_TOPICS_PER_CLIENT,
+  parseTopic,
+} from "./sui/market-stream.js";
 import { getOwnedMarginManagers } from "./sui/owned-margin-managers.js";
 import { prepareAddTpsl } from "./sui/prepare-add-tpsl.js";
+import { prepareBalanceManagerDeposit } from "./sui/prepare-balance-manager-deposit.js";
+import { prepareBalanceManagerWithdraw } from "./sui/prepare-balance-manager-withdraw.js";
+import { prepareCancelAllOrders } from "./sui/prepare-cancel-all-orders.js";
+import { prepareCancelConditionalOrders } from "./sui/prepare-cancel-conditional-orders.js";
+import { prepareCancelOrder } from "./sui/prepare-cancel-order.js";
+import { prepareClosePosition } from "./sui/prepare-close-position.js";
+import { prepareCreateBalanceManager } from "./sui/prepare-create-balance-manager.js";
 import { prepareCreateMarginManager } from "./sui/prepare-create-margin-manager.js";
+import { prepareDeepbookSwap, quoteDeepbookSwap } from "./sui/prepare-deepbook-swap.js";
 import { prepareMarginDeposit } from "./sui/prepare-margin-deposit.js";
+import { prepareMarginPoolSupply } from "./sui/prepare-margin-pool-supply.js";
+import { prepareMarginPoolWithdraw } from "./sui/prepare-margin-pool-withdraw.js";
 import { prepareMarginWithdraw } from "./sui/prepare-margin-withdraw.js";
-import { preparePlaceOrder } from "./sui/prepare-place-order.js";
+import {
+  MODIFY_TIME_IN_FORCE_VALUES,
+  prepareModifyOrder,
+  type ModifyTimeInForce,
+} from "./sui/prepare-modify-order.js";
+import {
+  fetchMarginPoolRates,
+  resolveMarginPoolCoinKey,
+} from "./sui/fetch-margin-pool-rates.js";
+import {
+  getMarginRateHistory,
+  isRateHistoryAvailable,
+  startMarginRateSnapshots,
+} from "./sui/margin-rates-history.js";
+import { fetchPools } from "./sui/fetch-pools.js";
+import { logSqliteSupport } from "./sui/sqlite-store.js";
+import {
+  preparePlaceOrder,
+  SELF_MATCHING_VALUES,
+  TIME_IN_FORCE_VALUES,
+  type SelfMatching,
+  type TimeInForce,
+} from "./sui/prepare-place-order.js";
+import { previewOrder } from "./sui/preview-order.js";
+import { getPriceDeviationEvents } from "./sui/price-deviation-events.js";
+import { checkPriceIntegrity } from "./sui/price-integrity.js";
+import { MAX_SLIPPAGE_BPS } from "./sui/slippage-limit.js";
 import { prepareRepay } from "./sui/prepare-repay.js";
+import { prepareSpotCancelOrder } from "./sui/prepare-spot-cancel-order.js";
+import { prepareSpotOrder } from "./sui/prepare-spot-order.js";
 import { prepareExternalSuiTx } from "./sui/prepare-external-sui-tx.js";
 import { prepareTransfer } from "./sui/prepare-transfer.js";
+import {
+  getRpcStatus,
+  servedRpcEndpoints,
+  startRpcHealthChecks,
+  trackRpcEndpoints,
+} from "./sui/rpc-provider.js";
+import { simulateTransaction } from "./sui/simulate-transaction.js";
+import { apiError, invalidRequest, translateError } from "./sui/translate-error.js";
 if (typeof globalThis.Buffer === "undefined") {
   (globalThis as unknown as { Buffer: typeof Buffer }).Buffer = Buffer;
 }
@@ -29,6 +87,25 @@ app.use((req, _res, next) => {
   next();
 });
 
+// X-Sui-Rpc-Endpoint: host(s) of the Sui RPC endpoint(s) that served this request (see sui/rpc-provider.ts).
+app.use((_req, res, next) => {
+  trackRpcEndpoints(() => {
+    const json = res.json.bind(res);
+    res.json = (body) => {
+      const served = servedRpcEndpoints();
+      if (served.length > 0 && !res.headersSent) {
+        res.setHeader("X-Sui-Rpc-Endpoint", served.join(", "));
+      }
+      return json(body);
+    };
+    next();
+  });
+});
+
+// Error responses: { error: { code, message, details } } (see sui/translate-error.ts).
+// Sui prepare-* routes accept `sponsored: true` to build with the server gas sponsor as gas owner
+// (see sui/gas-sponsor.ts and GET /api/sponsor-status); execute routes then co-sign as sponsor.
+
 /**
  * POST /api/prepare-transfer
  * Body: { sender, recipient, coinType, amountMist, network? }
@@ -39,8 +116,9 @@ app.post("/api/prepare-transfer", async (req, res) => {
     const { sender, recipient, coinType, amountMist, network } = req.body;
     if (!sender || !recipient || !coinType || amountMist == null) {
       res.status(400).json({
-        error:
-          "Missing required fields: sender, recipient, coinType, amountMist",
+        error: invalidRequest(
+          "Missing required fields: sender, recipient, coinType, amountMist"
+        ),
       });
       return;
     }
@@ -53,8 +131,7 @@ app.post("/api/prepare-transfer", async (req, res) => {
     });
     res.json(result);
   } catch (err) {
-    const message = err instanceof Error ? err.message : "Prepare failed";
-    res.status(400).json({ error: message });
+    res.status(400).json({ error: translateError(err, "Prepare failed") });
   }
 });
 
@@ -67,16 +144,111 @@ app.post("/api/prepare-external-sui-tx", async (req, res) => {
   try {
     const { txBytesBase64 } = req.body;
     if (!txBytesBase64) {
-      res.status(400).json({ error: "Missing required field: txBytesBase64" });
+      res.status(400).json({
+        error: invalidRequest("Missing required field: txBytesBase64"),
+      });
       return;
     }
     const result = await prepareExternalSuiTx({ txBytesBase64 });
     res.json(result);
   } catch (err) {
     console.error("[prepare-external-sui-tx] error:", err);
-    const message =
-      err instanceof Error ? err.message : "Prepare external Sui tx failed";
-    res.status(400).json({ error: message });
+    res.status(400).json({
+      error: translateError(err, "Prepare external Sui tx failed"),
+    });
+  }
+});
+
+/**
+ * GET /api/deepbook-swap-quote
+ * Query: fromCoinType, toCoinType, amount (human, in fromCoinType), network? (mainnet | testnet)
+ * Returns: { quote: { poolKey, direction, fromCoinKey, toCoinKey, amountIn, amountOut, amountUnfilled } | null }.
+ * quote is null when no DeepBook pool trades the pair directly. Fees are paid in the input coin.
+ */
+app.get("/api/deepbook-swap-quote", async (req, res) => {
+  try {
+    const fromCoinType = (req.query.fromCoinType as string)?.trim();
+    const toCoinType = (req.query.toCoinType as string)?.trim();
+    const amount = Number(req.query.amount);
+    const network = ((req.query.network as string) || "mainnet") as "mainnet" | "testnet";
+    if (!fromCoinType || !toCoinType || req.query.amount == null) {
+      res.status(400).json({
+        error: invalidRequest(
+          "Missing required query params: fromCoinType, toCoinType, amount"
+        ),
+      });
+      return;
+    }
+    if (!(amount > 0)) {
+      res.status(400).json({ error: invalidRequest("amount must be positive") });
+      return;
+    }
+    const quote = await quoteDeepbookSwap({ fromCoinType, toCoinType, amount, network });
+    res.json({ quote });
+  } catch (err) {
+    res.status(400).json({
+      error: translateError(err, "Failed to quote DeepBook swap"),
+    });
+  }
+});
+
+/**
+ * POST /api/prepare-deepbook-swap
+ * Body: { sender, fromCoinType, toCoinType, amount, minOut, sponsored?, network? } — amounts in human units.
+ * Swaps directly on the pool that trades the pair; aborts on chain when the output is below minOut.
+ * Returns: { intentMessageHashHex, txBytesBase64, poolKey }. Execute via POST /api/execute-transfer.
+ */
+app.post("/api/prepare-deepbook-swap", async (req, res) => {
+  try {
+    const { sender, fromCoinType, toCoinType, amount, minOut, network } = req.body;
+    if (!sender || !fromCoinType || !toCoinType || amount == null || minOut == null) {
+      res.status(400).json({
+        error: invalidRequest(
+          "Missing required fields: sender, fromCoinType, toCoinType, amount, minOut"
+        ),
+      });
+      return;
+    }
+    const result = await prepareDeepbookSwap({
+      sender,
+      fromCoinType,
+      toCoinType,
+      amount: Number(amount),
+      minOut: Number(minOut),
+      sponsored: req.body.sponsored === true,
+      network: network ?? "mainnet",
+    });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({
+      error: translateError(err, "Prepare DeepBook swap failed"),
+    });
+  }
+});
+
+/**
+ * POST /api/simulate
+ * Body: { txBytesBase64, network? } — bytes returned by any prepare-* route.
+ * Dry-runs the transaction and returns { status, error, abort, gas, balanceChanges, created, deleted }
+ * so the client can show a preview before signing.
+ */
+app.post("/api/simulate", async (req, res) => {
+  try {
+    const { txBytesBase64, network } = req.body;
+    if (!txBytesBase64) {
+      res.status(400).json({
+        error: invalidRequest("Missing required field: txBytesBase64"),
+      });
+      return;
+    }
+    const result = await simulateTransaction({
+      txBytesBase64,
+      network: network ?? "mainnet",
+    });
+    res.json(result);
+  } catch (err) {
+    console.error("[simulate] error:", err);
+    res.status(400).json({ error: translateError(err, "Simulate failed") });
   }
 });
 
@@ -90,8 +262,9 @@ app.post("/api/execute-transfer", async (req, res) => {
     const { txBytesBase64, signatureHex, publicKeyHex, network } = req.body;
     if (!txBytesBase64 || !signatureHex || !publicKeyHex) {
       res.status(400).json({
-        error:
-          "Missing required fields: txBytesBase64, signatureHex, publicKeyHex",
+        error: invalidRequest(
+          "Missing required fields: txBytesBase64, signatureHex, publicKeyHex"
+        ),
       });
       return;
     }
@@ -103,9 +276,95 @@ app.post("/api/execute-transfer", async (req, res) => {
     });
     res.json(result);
   } catch (err) {
-    const message = err instanceof Error ? err.message : "Execute failed";
-    res.status(400).json({ error: message });
+    res.status(400).json({ error: translateError(err, "Execute failed") });
+  }
+});
+
+/**
+ * GET /api/sponsor-status?address=0x...
+ * Returns { enabled, sponsorAddress, dailyBudgetMist, spentTodayMist, remainingMist } for the address.
+ */
+app.get("/api/sponsor-status", (req, res) => {
+  try {
+    const address = (req.query.address as string)?.trim() ?? "";
+    res.json(getSponsorStatus(address));
+  } catch (err) {
+    res.status(500).json({
+      error: translateError(err, "Failed to read sponsor status"),
+    });
+  }
+});
+
+/**
+ * GET /api/rpc-status?network=mainnet|testnet
+ * Returns { network, lastServedBy, endpoints: [{ endpoint, healthy, cooldownUntil, lastError, ... }] }.
+ */
+app.get("/api/rpc-status", (req, res) => {
+  const network = req.query.network === "testnet" ? "testnet" : "mainnet";
+  res.json(getRpcStatus(network));
+});
+
+/**
+ * GET /api/stream?network=mainnet&topics=ticker,orderbook:SUI_USDC:40,candles:SUI_USDC:1m,trades:SUI_USDC
+ * Server-Sent Events: one indexer poll per topic shared by all clients (see sui/market-stream.ts).
+ * Each event's data is { topic, type: "snapshot" | "update", data }.
+ */
+app.get("/api/stream", (req, res) => {
+  const network = req.query.network === "testnet" ? "testnet" : "mainnet";
+  const names = [
+    ...new Set(
+      String(req.query.topics ?? "")
+        .split(",")
+        .map((t) => t.trim())
+        .filter(Boolean)
+    ),
+  ];
+  if (names.length === 0 || names.length > MAX_TOPICS_PER_CLIENT) {
+    res.status(400).json({
+      error: invalidRequest(
+        `Query topics must list 1-${MAX_TOPICS_PER_CLIENT} topics`
+      ),
+    });
+    return;
   }
+  const requested = [];
+  for (const name of names) {
+    const spec = parseTopic(name);
+    if (!spec) {
+      res.status(400).json({
+        error: invalidRequest(`Unknown stream topic: ${name}`),
+      });
+      return;
+    }
+    requested.push({ name, spec });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write(": connected\n\n");
+  const detach = attachStreamClient(
+    { send: (message) => res.write(`data: ${JSON.stringify(message)}\n\n`) },
+    network,
+    requested
+  );
+  // Comment lines keep proxies from closing an idle stream.
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), 15_000);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    detach();
+  });
+});
+
+/**
+ * GET /api/stream-status
+ * Returns { clients, topics: [{ network, topic, subscribers, polls, lastPolledAt, lastError }] }.
+ */
+app.get("/api/stream-status", (_req, res) => {
+  res.json(getStreamStatus());
 });
 
 /**
@@ -117,7 +376,7 @@ app.get("/api/owned-margin-managers", async (req, res) => {
     const owner = req.query.owner as string;
     const network = (req.query.network as "mainnet" | "testnet") ?? "mainnet";
     if (!owner) {
-      res.status(400).json({ error: "Missing query: owner" });
+      res.status(400).json({ error: invalidRequest("Missing query: owner") });
       return;
     }
     console.log("[api/owned-margin-managers] request", {
@@ -132,8 +391,7 @@ app.get("/api/owned-margin-managers", async (req, res) => {
     res.json(result);
   } catch (err) {
     console.error("[api/owned-margin-managers] error", err);
-    const message = err instanceof Error ? err.message : "Failed to fetch";
-    res.status(400).json({ error: message });
+    res.status(400).json({ error: translateError(err, "Failed to fetch") });
   }
 });
 
@@ -148,14 +406,19 @@ app.get("/api/base-token-prices", async (req, res) => {
     const raw = (req.query.contract_addresses as string)?.trim();
     if (!raw) {
       res.status(400).json({
-        error: "Missing query: contract_addresses (comma-separated Base token addresses)",
+        error: invalidRequest(
+          "Missing query: contract_addresses (comma-separated Base token addresses)"
+        ),
       });
       return;
     }
     const apiKey = process.env.COINGECKO_API_KEY?.trim();
     if (!apiKey) {
       res.status(503).json({
-        error: "CoinGecko API key not configured (COINGECKO_API_KEY)",
+        error: apiError(
+          "PRICE_API_NOT_CONFIGURED",
+          "CoinGecko API key not configured (COINGECKO_API_KEY)"
+        ),
       });
       return;
     }
@@ -178,7 +441,9 @@ app.get("/api/base-token-prices", async (req, res) => {
       const text = await resp.text();
       console.error("[api/base-token-prices] CoinGecko error", resp.status, text);
       res.status(502).json({
-        error: `CoinGecko error (${resp.status})`,
+        error: apiError("UPSTREAM_ERROR", `CoinGecko error (${resp.status})`, {
+          status: resp.status,
+        }),
       });
       return;
     }
@@ -186,8 +451,9 @@ app.get("/api/base-token-prices", async (req, res) => {
     res.json(data);
   } catch (err) {
     console.error("[api/base-token-prices] error", err);
-    const message = err instanceof Error ? err.message : "Token price check failed";
-    res.status(500).json({ error: message });
+    res.status(500).json({
+      error: translateError(err, "Token price check failed"),
+    });
   }
 });
 
@@ -215,7 +481,9 @@ app.get("/api/margin-borrowed-shares", marginManagerStateHandler);
  *   GET http://localhost:3001/api/margin-manager-state?marginManagerId=0x...&poolKey=SUI_USDC
  *
  * Response: single JSON object with borrowedShares, borrowedBaseShares, borrowedQuoteShares,
- *   hasBaseDebt, balanceManager, calculateAssets, calculateDebts, source, and optionally _debug.
+ *   hasBaseDebt, balanceManager, calculateAssets, calculateDebts, debts, source, and optionally _debug.
+ *   debts.base / debts.quote: { coinKey, marginPoolId, shares, borrowIndex, amountRaw, amount,
+ *   principal, accruedInterest, borrowApr } — exact debt from the margin pool's borrow index.
  */
 app.get("/api/margin-manager-state", marginManagerStateHandler);
 
@@ -233,7 +501,7 @@ async function marginManagerStateHandler(
       req.query.debug === "yes";
     if (!marginManagerId) {
       res.status(400).json({
-        error: "Missing required query param: marginManagerId",
+        error: invalidRequest("Missing required query param: marginManagerId"),
         params: {
           marginManagerId: "required — margin manager object ID (0x...)",
           poolKey: "required — e.g. SUI_USDC",
@@ -245,7 +513,9 @@ async function marginManagerStateHandler(
     }
     if (!poolKey) {
       res.status(400).json({
-        error: "Missing required query param: poolKey (e.g. SUI_USDC)",
+        error: invalidRequest(
+          "Missing required query param: poolKey (e.g. SUI_USDC)"
+        ),
         params: {
           marginManagerId: "required — margin manager object ID (0x...)",
           poolKey: "required — e.g. SUI_USDC",
@@ -263,12 +533,230 @@ async function marginManagerStateHandler(
     });
     res.json(result);
   } catch (err) {
-    const message =
-      err instanceof Error ? err.message : "Failed to fetch margin manager state";
-    res.status(400).json({ error: message });
+    res.status(400).json({
+      error: translateError(err, "Failed to fetch margin manager state"),
+    });
   }
 }
 
+/**
+ * GET /api/margin-pool-lending
+ * Query: owner? (Sui address), network? (mainnet | testnet)
+ * Returns: { supplierCapId, supplierCapIds, pools: [{ coinKey, totalSupply, totalBorrow, utilization, maxUtilizationRate, borrowApr, supplyApr, position }] }.
+ */
+app.get("/api/margin-pool-lending", async (req, res) => {
+  try {
+    const owner = (req.query.owner as string)?.trim() || undefined;
+    const network = ((req.query.network as string) || "mainnet") as "mainnet" | "testnet";
+    const result = await fetchMarginPoolLending({ owner, network });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({
+      error: translateError(err, "Failed to fetch margin pool lending"),
+    });
+  }
+});
+
+/**
+ * GET /api/margin-risk-params
+ * Query: poolKey (required), network? (mainnet | testnet)
+ * Returns: { pool_key, liquidationRiskRatio, minWithdrawRiskRatio, minBorrowRiskRatio, targetLiquidationRiskRatio, userLiquidationReward, poolLiquidationReward, source }.
+ */
+app.get("/api/margin-risk-params", async (req, res) => {
+  try {
+    const poolKey = (req.query.poolKey as string)?.trim();
+    const network = ((req.query.network as string) || "mainnet") as "mainnet" | "testnet";
+    if (!poolKey) {
+      res.status(400).json({
+        error: invalidRequest("Missing required query param: poolKey"),
+      });
+      return;
+    }
+    const result = await fetchMarginRiskParams({ poolKey, network });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({
+      error: translateError(err, "Failed to fetch margin risk params"),
+    });
+  }
+});
+
+/**
+ * GET /api/pools
+ * Query: network? (mainnet | testnet)
+ * Returns: { network, pools: [{ poolKey, poolId, base, quote, tickSize, lotSize, minSize, baseMarginPoolId, quoteMarginPoolId, maxLeverage, liquidationRiskRatio, minWithdrawRiskRatio, minBorrowRiskRatio }], updatedAt, source }.
+ * base / quote: { key, type, symbol, name, decimals, iconUrl }. Margin-enabled pools only, read from chain (cached 10 min).
+ */
+app.get("/api/pools", async (req, res) => {
+  try {
+    const network = ((req.query.network as string) || "mainnet") as "mainnet" | "testnet";
+    res.json(await fetchPools(network));
+  } catch (err) {
+    res.status(500).json({
+      error: translateError(err, "Failed to fetch pools"),
+    });
+  }
+});
+
+/** Default history window for GET /api/margin-pools/:id/rates and GET /api/price-deviations. */
+const DEFAULT_RATES_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * GET /api/margin-pools/:id/rates
+ * Params: id — margin pool coin key (e.g. USDC) or margin pool object id.
+ * Query: from? / to? (ms timestamps; default last 7 days), network? (mainnet | testnet)
+ * Returns: { coinKey, marginPoolId, current: { coinKey, marginPoolId, utilization, borrowApr, supplyApr, protocolSpread, totalSupply, totalBorrow, model, timestamp }, history: [{ timestamp, utilization, borrowApr, supplyApr }], historyAvailable }.
+ * History comes from the backend's periodic SQLite snapshots (see sui/margin-rates-history.ts).
+ */
+app.get("/api/margin-pools/:id/rates", async (req, res) => {
+  try {
+    const network = ((req.query.network as string) || "mainnet") as "mainnet" | "testnet";
+    const coinKey = resolveMarginPoolCoinKey(req.params.id.trim(), network);
+    if (!coinKey) {
+      res.status(400).json({
+        error: invalidRequest(`Unknown margin pool: ${req.params.id}`),
+      });
+      return;
+    }
+    const to = Number(req.query.to) || Date.now();
+    const from = Number(req.query.from) || to - DEFAULT_RATES_RANGE_MS;
+    if (from > to) {
+      res.status(400).json({ error: invalidRequest("from must be before to") });
+      return;
+    }
+    const current = await fetchMarginPoolRates(coinKey, network);
+    const [history, historyAvailable] = await Promise.all([
+      getMarginRateHistory({ network, marginPoolId: current.marginPoolId, from, to }),
+      isRateHistoryAvailable(),
+    ]);
+    res.json({
+      coinKey,
+      marginPoolId: current.marginPoolId,
+      current,
+      history,
+      historyAvailable,
+    });
+  } catch (err) {
+    res.status(400).json({
+      error: translateError(err, "Failed to fetch margin pool rates"),
+    });
+  }
+});
+
+/**
+ * GET /api/price-integrity
+ * Query: poolKey (required), network? (mainnet | testnet)
+ * Returns: { poolKey, oraclePrice, oraclePublishTime, oracleStale, bookMid, lastTradePrice, lastTradeTime, bookDeviationBps, lastTradeDeviationBps, thresholds: { warnBps, blockBps }, status, warning, checkedAt }.
+ * status: ok | warn | block, with the reason in warning. "warn" also covers checks that could not run (stale oracle).
+ * Market orders are refused by prepare-place-order only while status is block (best-effort guard).
+ */
+app.get("/api/price-integrity", async (req, res) => {
+  try {
+    const poolKey = (req.query.poolKey as string)?.trim();
+    const network = ((req.query.network as string) || "mainnet") as "mainnet" | "testnet";
+    if (!poolKey) {
+      res.status(400).json({
+        error: invalidRequest("Missing required query: poolKey"),
+      });
+      return;
+    }
+    res.json(await checkPriceIntegrity({ poolKey, network }));
+  } catch (err) {
+    res.status(400).json({
+      error: translateError(err, "Failed to check price integrity"),
+    });
+  }
+});
+
+/**
+ * GET /api/price-deviations
+ * Query: poolKey? (all pools when omitted), from? / to? (ms timestamps; default last 7 days), network? (mainnet | testnet)
+ * Returns: { events: [{ network, poolKey, timestamp, status, action, oraclePrice, bookMid, lastTradePrice, bookDeviationBps, lastTradeDeviationBps }] }, newest first.
+ * Recorded warn / block checks and refused market orders (see sui/price-deviation-events.ts).
+ */
+app.get("/api/price-deviations", async (req, res) => {
+  try {
+    const poolKey = (req.query.poolKey as string)?.trim() || undefined;
+    const network = ((req.query.network as string) || "mainnet") as "mainnet" | "testnet";
+    const to = Number(req.query.to) || Date.now();
+    const from = Number(req.query.from) || to - DEFAULT_RATES_RANGE_MS;
+    if (from > to) {
+      res.status(400).json({ error: invalidRequest("from must be before to") });
+      return;
+    }
+    res.json({ events: await getPriceDeviationEvents({ network, poolKey, from, to }) });
+  } catch (err) {
+    res.status(500).json({
+      error: translateError(err, "Failed to fetch price deviations"),
+    });
+  }
+});
+
+/**
+ * GET /api/conditional-orders
+ * Query: marginManagerId (required), poolKey (required), network? (mainnet | testnet)
+ * Returns: { margin_manager_id, pool_key, orders: [{ conditional_order_id, kind, direction, trigger_price, order }], source }.
+ */
+app.get("/api/conditional-orders", async (req, res) => {
+  try {
+    const marginManagerId = (req.query.marginManagerId as string)?.trim();
+    const poolKey = (req.query.poolKey as string)?.trim();
+    const network = ((req.query.network as string) || "mainnet") as "mainnet" | "testnet";
+    if (!marginManagerId || !poolKey) {
+      res.status(400).json({
+        error: invalidRequest(
+          "Missing required query params: marginManagerId, poolKey"
+        ),
+      });
+      return;
+    }
+    const result = await fetchConditionalOrders({
+      marginManagerId,
+      poolKey,
+      network,
+    });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({
+      error: translateError(err, "Failed to fetch conditional orders"),
+    });
+  }
+});
+
+/**
+ * GET /api/balance-manager
+ * Query: poolKey (required), balanceManagerId? | owner? (registry lookup when the id is unknown), network? (mainnet | testnet)
+ * Returns: { balanceManagerId, poolKey, balances: { base, quote, deep: { coinKey, available, locked, settled } } | null, openOrders: [{ orderId, clientOrderId, isBid, price, quantity, filledQuantity, expireTimestamp }] }.
+ * Spot account state; balanceManagerId is null when the owner has no balance manager yet.
+ */
+app.get("/api/balance-manager", async (req, res) => {
+  try {
+    const poolKey = (req.query.poolKey as string)?.trim();
+    const balanceManagerId = (req.query.balanceManagerId as string)?.trim() || undefined;
+    const owner = (req.query.owner as string)?.trim() || undefined;
+    const network = ((req.query.network as string) || "mainnet") as "mainnet" | "testnet";
+    if (!poolKey || (!balanceManagerId && !owner)) {
+      res.status(400).json({
+        error: invalidRequest(
+          "Missing required query params: poolKey and balanceManagerId or owner"
+        ),
+      });
+      return;
+    }
+    const result = await fetchBalanceManager({
+      poolKey,
+      balanceManagerId,
+      owner,
+      network,
+    });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({
+      error: translateError(err, "Failed to fetch balance manager"),
+    });
+  }
+});
+
 /**
  * POST /api/prepare-create-margin-manager
  * Body: { sender, poolKey, network? }
@@ -279,19 +767,19 @@ app.post("/api/prepare-create-margin-manager", async (req, res) => {
     const { sender, poolKey, network } = req.body;
     if (!sender || !poolKey) {
       res.status(400).json({
-        error: "Missing required fields: sender, poolKey",
+        error: invalidRequest("Missing required fields: sender, poolKey"),
       });
       return;
     }
     const result = await prepareCreateMarginManager({
       sender,
       poolKey,
+      sponsored: req.body.sponsored === true,
       network: network ?? "mainnet",
     });
     res.json(result);
   } catch (err) {
-    const message = err instanceof Error ? err.message : "Prepare failed";
-    res.status(400).json({ error: message });
+    res.status(400).json({ error: translateError(err, "Prepare failed") });
   }
 });
 
@@ -312,8 +800,9 @@ app.post("/api/prepare-margin-deposit", async (req, res) => {
       amount == null
     ) {
       res.status(400).json({
-        error:
-          "Missing required fields: sender, marginManagerId, poolKey, asset, amount",
+        error: invalidRequest(
+          "Missing required fields: sender, marginManagerId, poolKey, asset, amount"
+        ),
       });
       return;
     }
@@ -323,12 +812,12 @@ app.post("/api/prepare-margin-deposit", async (req, res) => {
       poolKey,
       asset,
       amount: Number(amount),
+      sponsored: req.body.sponsored === true,
       network: network ?? "mainnet",
     });
     res.json(result);
   } catch (err) {
-    const message = err instanceof Error ? err.message : "Prepare failed";
-    res.status(400).json({ error: message });
+    res.status(400).json({ error: translateError(err, "Prepare failed") });
   }
 });
 
@@ -349,8 +838,9 @@ app.post("/api/prepare-margin-withdraw", async (req, res) => {
       amount == null
     ) {
       res.status(400).json({
-        error:
-          "Missing required fields: sender, marginManagerId, poolKey, asset, amount",
+        error: invalidRequest(
+          "Missing required fields: sender, marginManagerId, poolKey, asset, amount"
+        ),
       });
       return;
     }
@@ -360,108 +850,394 @@ app.post("/api/prepare-margin-withdraw", async (req, res) => {
       poolKey,
       asset,
       amount: Number(amount),
+      sponsored: req.body.sponsored === true,
       network: network ?? "mainnet",
     });
     res.json(result);
   } catch (err) {
-    const message = err instanceof Error ? err.message : "Prepare failed";
-    res.status(400).json({ error: message });
+    res.status(400).json({ error: translateError(err, "Prepare failed") });
   }
 });
 
 /**
- * POST /api/prepare-repay
- * Body: { sender, marginManagerId, poolKey, baseAmount?, quoteAmount?, network? }
- * Returns: { intentMessageHashHex, txBytesBase64 }. Execute via POST /api/execute-transfer.
+ * POST /api/prepare-create-balance-manager
+ * Body: { sender, network? }
+ * Returns: { intentMessageHashHex, txBytesBase64 }. Execute via POST /api/execute-create-balance-manager.
  */
-app.post("/api/prepare-repay", async (req, res) => {
+app.post("/api/prepare-create-balance-manager", async (req, res) => {
   try {
-    const { sender, marginManagerId, poolKey, baseAmount, quoteAmount, network } =
-      req.body;
-    if (!sender || !marginManagerId || !poolKey) {
+    const { sender, network } = req.body;
+    if (!sender) {
       res.status(400).json({
-        error: "Missing required fields: sender, marginManagerId, poolKey",
+        error: invalidRequest("Missing required field: sender"),
       });
       return;
     }
-    const base = baseAmount != null ? Number(baseAmount) : 0;
-    const quote = quoteAmount != null ? Number(quoteAmount) : 0;
-    if (base <= 0 && quote <= 0) {
-      res.status(400).json({
-        error: "At least one of baseAmount or quoteAmount must be positive",
-      });
-      return;
-    }
-    const result = await prepareRepay({
+    const result = await prepareCreateBalanceManager({
       sender,
-      marginManagerId,
-      poolKey,
-      baseAmount: base > 0 ? base : undefined,
-      quoteAmount: quote > 0 ? quote : undefined,
+      sponsored: req.body.sponsored === true,
       network: network ?? "mainnet",
     });
     res.json(result);
   } catch (err) {
-    const message = err instanceof Error ? err.message : "Prepare repay failed";
-    res.status(400).json({ error: message });
+    res.status(400).json({ error: translateError(err, "Prepare failed") });
   }
 });
 
 /**
- * POST /api/prepare-place-order
- * Body: { sender, marginManagerId, poolKey, orderType, isBid, quantity, price?, clientOrderId, payWithDeep?, network?, borrowBaseAmount?, borrowQuoteAmount? }
+ * POST /api/prepare-balance-manager-deposit
+ * Body: { sender, balanceManagerId, poolKey, asset: 'base'|'quote'|'deep', amount, network? }
  * Returns: { intentMessageHashHex, txBytesBase64 }. Execute via POST /api/execute-transfer.
  */
-app.post("/api/prepare-place-order", async (req, res) => {
+app.post("/api/prepare-balance-manager-deposit", async (req, res) => {
   try {
-    const {
-      sender,
-      marginManagerId,
-      poolKey,
-      orderType,
-      isBid,
-      quantity,
-      price,
-      clientOrderId,
-      payWithDeep,
-      network,
-      reduceOnly,
-      borrowBaseAmount,
-      borrowQuoteAmount,
-    } = req.body;
+    const { sender, balanceManagerId, poolKey, asset, amount, network } =
+      req.body;
     if (
       !sender ||
-      !marginManagerId ||
+      !balanceManagerId ||
       !poolKey ||
-      orderType == null ||
-      isBid == null ||
-      quantity == null ||
-      clientOrderId == null
+      asset == null ||
+      amount == null
     ) {
       res.status(400).json({
-        error:
-          "Missing required fields: sender, marginManagerId, poolKey, orderType, isBid, quantity, clientOrderId",
+        error: invalidRequest(
+          "Missing required fields: sender, balanceManagerId, poolKey, asset, amount"
+        ),
       });
       return;
     }
-    if (orderType !== "limit" && orderType !== "market") {
-      res.status(400).json({ error: "orderType must be 'limit' or 'market'" });
+    if (asset !== "base" && asset !== "quote" && asset !== "deep") {
+      res.status(400).json({
+        error: invalidRequest("asset must be 'base', 'quote' or 'deep'"),
+      });
       return;
     }
-    // Only treat explicit boolean false as false; otherwise default true (avoids string "false" → true).
-    const payWithDeepFlag =
-      typeof payWithDeep === "boolean" ? payWithDeep : true;
-
-    const result = await preparePlaceOrder({
+    const result = await prepareBalanceManagerDeposit({
       sender,
-      marginManagerId,
+      balanceManagerId,
       poolKey,
-      orderType,
-      isBid: Boolean(isBid),
+      asset,
+      amount: Number(amount),
+      sponsored: req.body.sponsored === true,
+      network: network ?? "mainnet",
+    });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({ error: translateError(err, "Prepare failed") });
+  }
+});
+
+/**
+ * POST /api/prepare-balance-manager-withdraw
+ * Body: { sender, balanceManagerId, poolKey, asset: 'base'|'quote'|'deep', amount?, network? }
+ * Omit amount to withdraw the whole balance (settled maker fills included).
+ * Returns: { intentMessageHashHex, txBytesBase64 }. Execute via POST /api/execute-transfer.
+ */
+app.post("/api/prepare-balance-manager-withdraw", async (req, res) => {
+  try {
+    const { sender, balanceManagerId, poolKey, asset, amount, network } =
+      req.body;
+    if (!sender || !balanceManagerId || !poolKey || asset == null) {
+      res.status(400).json({
+        error: invalidRequest(
+          "Missing required fields: sender, balanceManagerId, poolKey, asset"
+        ),
+      });
+      return;
+    }
+    if (asset !== "base" && asset !== "quote" && asset !== "deep") {
+      res.status(400).json({
+        error: invalidRequest("asset must be 'base', 'quote' or 'deep'"),
+      });
+      return;
+    }
+    const result = await prepareBalanceManagerWithdraw({
+      sender,
+      balanceManagerId,
+      poolKey,
+      asset,
+      amount: amount != null ? Number(amount) : undefined,
+      sponsored: req.body.sponsored === true,
+      network: network ?? "mainnet",
+    });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({ error: translateError(err, "Prepare failed") });
+  }
+});
+
+/**
+ * POST /api/prepare-margin-pool-supply
+ * Body: { sender, coinKey, amount, sponsored?, network? }
+ * Returns: { intentMessageHashHex, txBytesBase64, supplierCapId }. Mints a SupplierCap when the sender has none.
+ * Execute via POST /api/execute-transfer.
+ */
+app.post("/api/prepare-margin-pool-supply", async (req, res) => {
+  try {
+    const { sender, coinKey, amount, network } = req.body;
+    if (!sender || !coinKey || amount == null) {
+      res.status(400).json({
+        error: invalidRequest("Missing required fields: sender, coinKey, amount"),
+      });
+      return;
+    }
+    const result = await prepareMarginPoolSupply({
+      sender,
+      coinKey,
+      amount: Number(amount),
+      sponsored: req.body.sponsored === true,
+      network: network ?? "mainnet",
+    });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({ error: translateError(err, "Prepare failed") });
+  }
+});
+
+/**
+ * POST /api/prepare-margin-pool-withdraw
+ * Body: { sender, coinKey, amount? (omit = withdraw all), sponsored?, network? }
+ * Returns: { intentMessageHashHex, txBytesBase64 }. Execute via POST /api/execute-transfer.
+ */
+app.post("/api/prepare-margin-pool-withdraw", async (req, res) => {
+  try {
+    const { sender, coinKey, amount, network } = req.body;
+    if (!sender || !coinKey) {
+      res.status(400).json({
+        error: invalidRequest("Missing required fields: sender, coinKey"),
+      });
+      return;
+    }
+    const result = await prepareMarginPoolWithdraw({
+      sender,
+      coinKey,
+      amount: amount != null ? Number(amount) : undefined,
+      sponsored: req.body.sponsored === true,
+      network: network ?? "mainnet",
+    });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({ error: translateError(err, "Prepare failed") });
+  }
+});
+
+/**
+ * POST /api/prepare-repay
+ * Body: { sender, marginManagerId, poolKey, baseAmount?, quoteAmount?, network? }
+ * Returns: { intentMessageHashHex, txBytesBase64 }. Execute via POST /api/execute-transfer.
+ */
+app.post("/api/prepare-repay", async (req, res) => {
+  try {
+    const { sender, marginManagerId, poolKey, baseAmount, quoteAmount, network } =
+      req.body;
+    if (!sender || !marginManagerId || !poolKey) {
+      res.status(400).json({
+        error: invalidRequest(
+          "Missing required fields: sender, marginManagerId, poolKey"
+        ),
+      });
+      return;
+    }
+    const base = baseAmount != null ? Number(baseAmount) : 0;
+    const quote = quoteAmount != null ? Number(quoteAmount) : 0;
+    if (base <= 0 && quote <= 0) {
+      res.status(400).json({
+        error: invalidRequest(
+          "At least one of baseAmount or quoteAmount must be positive"
+        ),
+      });
+      return;
+    }
+    const result = await prepareRepay({
+      sender,
+      marginManagerId,
+      poolKey,
+      baseAmount: base > 0 ? base : undefined,
+      quoteAmount: quote > 0 ? quote : undefined,
+      sponsored: req.body.sponsored === true,
+      network: network ?? "mainnet",
+    });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({
+      error: translateError(err, "Prepare repay failed"),
+    });
+  }
+});
+
+/** Slippage tolerance in basis points, as accepted by the order and close routes. */
+function isValidSlippageBps(value: unknown): boolean {
+  const bps = Number(value);
+  return Number.isInteger(bps) && bps >= 1 && bps <= MAX_SLIPPAGE_BPS;
+}
+
+/**
+ * Order type, time in force, self-matching, expiration and slippage checks shared by
+ * prepare-place-order and prepare-spot-order. Returns the first problem, or null.
+ */
+function orderOptionsError(body: {
+  orderType?: unknown;
+  timeInForce?: unknown;
+  selfMatching?: unknown;
+  expiration?: unknown;
+  maxSlippageBps?: unknown;
+}): string | null {
+  const { orderType, timeInForce, selfMatching, expiration, maxSlippageBps } = body;
+  if (orderType !== "limit" && orderType !== "market") {
+    return "orderType must be 'limit' or 'market'";
+  }
+  if (timeInForce != null && !TIME_IN_FORCE_VALUES.includes(timeInForce as TimeInForce)) {
+    return `timeInForce must be one of: ${TIME_IN_FORCE_VALUES.join(", ")}`;
+  }
+  if (selfMatching != null && !SELF_MATCHING_VALUES.includes(selfMatching as SelfMatching)) {
+    return `selfMatching must be one of: ${SELF_MATCHING_VALUES.join(", ")}`;
+  }
+  if (
+    orderType === "market" &&
+    ((timeInForce != null && timeInForce !== "gtc") || expiration != null)
+  ) {
+    return "timeInForce and expiration apply to limit orders only";
+  }
+  if (maxSlippageBps != null) {
+    if (orderType !== "market") {
+      return "maxSlippageBps applies to market orders only";
+    }
+    if (!isValidSlippageBps(maxSlippageBps)) {
+      return `maxSlippageBps must be an integer between 1 and ${MAX_SLIPPAGE_BPS}`;
+    }
+  }
+  const expirationMs = expiration != null ? Number(expiration) : undefined;
+  if (
+    expirationMs != null &&
+    (!Number.isInteger(expirationMs) || expirationMs <= Date.now())
+  ) {
+    return "expiration must be a future timestamp in milliseconds";
+  }
+  return null;
+}
+
+/**
+ * POST /api/prepare-close-position
+ * Body: { sender, marginManagerId, poolKey, withdrawRemainder?, clientOrderId?, payWithDeep?, maxSlippageBps?, network? }
+ * Returns: { intentMessageHashHex, txBytesBase64, side, swapQuantity, withdrawQuoteAmount, quoteLeftInManager, debtRepaid, interestRepaid, slippageLimitPrice }.
+ * One PTB: reduce-only market order + repay all debt (+ optional quote withdraw). With maxSlippageBps the
+ * swap is a reduce-only IOC limit at the slippage bound. Execute via POST /api/execute-transfer.
+ */
+app.post("/api/prepare-close-position", async (req, res) => {
+  try {
+    const {
+      sender,
+      marginManagerId,
+      poolKey,
+      withdrawRemainder,
+      clientOrderId,
+      payWithDeep,
+      maxSlippageBps,
+      network,
+    } = req.body;
+    if (!sender || !marginManagerId || !poolKey) {
+      res.status(400).json({
+        error: invalidRequest(
+          "Missing required fields: sender, marginManagerId, poolKey"
+        ),
+      });
+      return;
+    }
+    if (maxSlippageBps != null && !isValidSlippageBps(maxSlippageBps)) {
+      res.status(400).json({
+        error: invalidRequest(
+          `maxSlippageBps must be an integer between 1 and ${MAX_SLIPPAGE_BPS}`
+        ),
+      });
+      return;
+    }
+    const result = await prepareClosePosition({
+      sender,
+      marginManagerId,
+      poolKey,
+      withdrawRemainder: withdrawRemainder === true,
+      clientOrderId: clientOrderId != null ? Number(clientOrderId) : undefined,
+      payWithDeep: payWithDeep === true,
+      maxSlippageBps: maxSlippageBps != null ? Number(maxSlippageBps) : undefined,
+      sponsored: req.body.sponsored === true,
+      network: network ?? "mainnet",
+    });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({
+      error: translateError(err, "Prepare close position failed"),
+    });
+  }
+});
+
+/**
+ * POST /api/prepare-place-order
+ * Body: { sender, marginManagerId, poolKey, orderType, isBid, quantity, price?, clientOrderId, payWithDeep?, network?, borrowBaseAmount?, borrowQuoteAmount?, timeInForce?, selfMatching?, expiration? }
+ * - timeInForce: "gtc" (default) | "ioc" | "fok" | "post_only"; limit orders only.
+ * - selfMatching: "allow" (default) | "cancel_taker" | "cancel_maker".
+ * - expiration: ms timestamp in the future; limit orders only. Omit for no expiry.
+ * - maxSlippageBps: market orders only; places an IOC limit order at the book (or oracle) price ± bps instead.
+ * Returns: { intentMessageHashHex, txBytesBase64, slippageLimitPrice? }. Execute via POST /api/execute-transfer.
+ */
+app.post("/api/prepare-place-order", async (req, res) => {
+  try {
+    const {
+      sender,
+      marginManagerId,
+      poolKey,
+      orderType,
+      isBid,
+      quantity,
+      price,
+      clientOrderId,
+      payWithDeep,
+      network,
+      reduceOnly,
+      borrowBaseAmount,
+      borrowQuoteAmount,
+      timeInForce,
+      selfMatching,
+      expiration,
+      maxSlippageBps,
+    } = req.body;
+    if (
+      !sender ||
+      !marginManagerId ||
+      !poolKey ||
+      orderType == null ||
+      isBid == null ||
+      quantity == null ||
+      clientOrderId == null
+    ) {
+      res.status(400).json({
+        error: invalidRequest(
+          "Missing required fields: sender, marginManagerId, poolKey, orderType, isBid, quantity, clientOrderId"
+        ),
+      });
+      return;
+    }
+    const optionsError = orderOptionsError(req.body);
+    if (optionsError) {
+      res.status(400).json({ error: invalidRequest(optionsError) });
+      return;
+    }
+    const expirationMs = expiration != null ? Number(expiration) : undefined;
+    // Only treat explicit boolean false as false; otherwise default true (avoids string "false" → true).
+    const payWithDeepFlag =
+      typeof payWithDeep === "boolean" ? payWithDeep : true;
+
+    const result = await preparePlaceOrder({
+      sender,
+      marginManagerId,
+      poolKey,
+      orderType,
+      isBid: Boolean(isBid),
       quantity: Number(quantity),
       price: price != null ? Number(price) : undefined,
       clientOrderId: Number(clientOrderId),
       payWithDeep: payWithDeepFlag,
+      sponsored: req.body.sponsored === true,
       network: network ?? "mainnet",
       reduceOnly: Boolean(reduceOnly),
       borrowBaseAmount:
@@ -472,12 +1248,336 @@ app.post("/api/prepare-place-order", async (req, res) => {
         borrowQuoteAmount != null && Number(borrowQuoteAmount) > 0
           ? Number(borrowQuoteAmount)
           : undefined,
+      timeInForce: timeInForce ?? undefined,
+      selfMatching: selfMatching ?? undefined,
+      expiration: expirationMs,
+      maxSlippageBps: maxSlippageBps != null ? Number(maxSlippageBps) : undefined,
+    });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({
+      error: translateError(err, "Prepare place order failed"),
+    });
+  }
+});
+
+/**
+ * POST /api/preview-order
+ * Body: { poolKey, orderType, isBid, quantity, price?, timeInForce?, marginManagerId?, payWithDeep?, borrowBaseAmount?, borrowQuoteAmount?, network? }
+ * Read-only estimate before prepare-place-order: { midPrice, fill, fees (DEEP vs input token), risk (current / projected), warnings }.
+ */
+app.post("/api/preview-order", async (req, res) => {
+  try {
+    const {
+      marginManagerId,
+      poolKey,
+      orderType,
+      isBid,
+      quantity,
+      price,
+      timeInForce,
+      payWithDeep,
+      borrowBaseAmount,
+      borrowQuoteAmount,
+      network,
+    } = req.body;
+    if (!poolKey || orderType == null || isBid == null || quantity == null) {
+      res.status(400).json({
+        error: invalidRequest(
+          "Missing required fields: poolKey, orderType, isBid, quantity"
+        ),
+      });
+      return;
+    }
+    if (orderType !== "limit" && orderType !== "market") {
+      res.status(400).json({
+        error: invalidRequest("orderType must be 'limit' or 'market'"),
+      });
+      return;
+    }
+    if (timeInForce != null && !TIME_IN_FORCE_VALUES.includes(timeInForce)) {
+      res.status(400).json({
+        error: invalidRequest(
+          `timeInForce must be one of: ${TIME_IN_FORCE_VALUES.join(", ")}`
+        ),
+      });
+      return;
+    }
+    const result = await previewOrder({
+      marginManagerId: marginManagerId || undefined,
+      poolKey,
+      orderType,
+      isBid: Boolean(isBid),
+      quantity: Number(quantity),
+      price: price != null ? Number(price) : undefined,
+      timeInForce: orderType === "limit" ? timeInForce ?? undefined : undefined,
+      payWithDeep: typeof payWithDeep === "boolean" ? payWithDeep : true,
+      borrowBaseAmount:
+        borrowBaseAmount != null && Number(borrowBaseAmount) > 0
+          ? Number(borrowBaseAmount)
+          : undefined,
+      borrowQuoteAmount:
+        borrowQuoteAmount != null && Number(borrowQuoteAmount) > 0
+          ? Number(borrowQuoteAmount)
+          : undefined,
+      network: network ?? "mainnet",
+    });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({
+      error: translateError(err, "Order preview failed"),
+    });
+  }
+});
+
+/**
+ * POST /api/prepare-modify-order
+ * Body: { sender, marginManagerId, poolKey, orderId, quantity?, price?, payWithDeep?, timeInForce?, selfMatching?, network? }
+ * Same price + smaller quantity amends in place; new price (or larger size) cancels and re-places
+ * in one PTB with the original clientOrderId and fee mode, post-only unless timeInForce is "gtc".
+ * Returns: { intentMessageHashHex, txBytesBase64, mode, clientOrderId }. Execute via POST /api/execute-transfer.
+ */
+app.post("/api/prepare-modify-order", async (req, res) => {
+  try {
+    const {
+      sender,
+      marginManagerId,
+      poolKey,
+      orderId,
+      quantity,
+      price,
+      payWithDeep,
+      timeInForce,
+      selfMatching,
+      network,
+    } = req.body;
+    if (!sender || !marginManagerId || !poolKey || orderId == null) {
+      res.status(400).json({
+        error: invalidRequest(
+          "Missing required fields: sender, marginManagerId, poolKey, orderId"
+        ),
+      });
+      return;
+    }
+    if (quantity == null && price == null) {
+      res.status(400).json({
+        error: invalidRequest("At least one of quantity or price is required"),
+      });
+      return;
+    }
+    if (
+      timeInForce != null &&
+      !MODIFY_TIME_IN_FORCE_VALUES.includes(timeInForce as ModifyTimeInForce)
+    ) {
+      res.status(400).json({
+        error: invalidRequest(
+          `timeInForce must be one of: ${MODIFY_TIME_IN_FORCE_VALUES.join(", ")}`
+        ),
+      });
+      return;
+    }
+    if (selfMatching != null && !SELF_MATCHING_VALUES.includes(selfMatching as SelfMatching)) {
+      res.status(400).json({
+        error: invalidRequest(`selfMatching must be one of: ${SELF_MATCHING_VALUES.join(", ")}`),
+      });
+      return;
+    }
+    const result = await prepareModifyOrder({
+      sender,
+      marginManagerId,
+      poolKey,
+      orderId: String(orderId),
+      quantity: quantity != null ? Number(quantity) : undefined,
+      price: price != null ? Number(price) : undefined,
+      payWithDeep: typeof payWithDeep === "boolean" ? payWithDeep : undefined,
+      timeInForce: timeInForce ?? undefined,
+      selfMatching: selfMatching ?? undefined,
+      sponsored: req.body.sponsored === true,
+      network: network ?? "mainnet",
+    });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({
+      error: translateError(err, "Prepare modify order failed"),
+    });
+  }
+});
+
+/**
+ * POST /api/prepare-cancel-order
+ * Body: { sender, marginManagerId, poolKey, orderId? | orderIds?, network? }
+ * orderId cancels one order; orderIds (array) cancels several in one moveCall.
+ * Returns: { intentMessageHashHex, txBytesBase64 }. Execute via POST /api/execute-transfer.
+ */
+app.post("/api/prepare-cancel-order", async (req, res) => {
+  try {
+    const { sender, marginManagerId, poolKey, orderId, orderIds, network } =
+      req.body;
+    const ids: string[] = Array.isArray(orderIds)
+      ? orderIds.map(String)
+      : orderId != null
+        ? [String(orderId)]
+        : [];
+    if (!sender || !marginManagerId || !poolKey || ids.length === 0) {
+      res.status(400).json({
+        error: invalidRequest(
+          "Missing required fields: sender, marginManagerId, poolKey, orderId or orderIds"
+        ),
+      });
+      return;
+    }
+    const result = await prepareCancelOrder({
+      sender,
+      marginManagerId,
+      poolKey,
+      orderIds: ids,
+      sponsored: req.body.sponsored === true,
+      network: network ?? "mainnet",
+    });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({
+      error: translateError(err, "Prepare cancel order failed"),
+    });
+  }
+});
+
+/**
+ * POST /api/prepare-cancel-all-orders
+ * Body: { sender, marginManagerId, poolKey, network? }
+ * Returns: { intentMessageHashHex, txBytesBase64 }. Execute via POST /api/execute-transfer.
+ */
+app.post("/api/prepare-cancel-all-orders", async (req, res) => {
+  try {
+    const { sender, marginManagerId, poolKey, network } = req.body;
+    if (!sender || !marginManagerId || !poolKey) {
+      res.status(400).json({
+        error: invalidRequest(
+          "Missing required fields: sender, marginManagerId, poolKey"
+        ),
+      });
+      return;
+    }
+    const result = await prepareCancelAllOrders({
+      sender,
+      marginManagerId,
+      poolKey,
+      sponsored: req.body.sponsored === true,
+      network: network ?? "mainnet",
+    });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({
+      error: translateError(err, "Prepare cancel all orders failed"),
+    });
+  }
+});
+
+/**
+ * POST /api/prepare-spot-order
+ * Body: { sender, balanceManagerId, poolKey, orderType, isBid, quantity, price?, clientOrderId, payWithDeep?, timeInForce?, selfMatching?, expiration?, maxSlippageBps?, network? }
+ * Spot order from a balance manager (no borrowing); options as in /api/prepare-place-order.
+ * Returns: { intentMessageHashHex, txBytesBase64, slippageLimitPrice? }. Execute via POST /api/execute-transfer.
+ */
+app.post("/api/prepare-spot-order", async (req, res) => {
+  try {
+    const {
+      sender,
+      balanceManagerId,
+      poolKey,
+      orderType,
+      isBid,
+      quantity,
+      price,
+      clientOrderId,
+      payWithDeep,
+      network,
+      timeInForce,
+      selfMatching,
+      expiration,
+      maxSlippageBps,
+    } = req.body;
+    if (
+      !sender ||
+      !balanceManagerId ||
+      !poolKey ||
+      orderType == null ||
+      isBid == null ||
+      quantity == null ||
+      clientOrderId == null
+    ) {
+      res.status(400).json({
+        error: invalidRequest(
+          "Missing required fields: sender, balanceManagerId, poolKey, orderType, isBid, quantity, clientOrderId"
+        ),
+      });
+      return;
+    }
+    const optionsError = orderOptionsError(req.body);
+    if (optionsError) {
+      res.status(400).json({ error: invalidRequest(optionsError) });
+      return;
+    }
+    const result = await prepareSpotOrder({
+      sender,
+      balanceManagerId,
+      poolKey,
+      orderType,
+      isBid: Boolean(isBid),
+      quantity: Number(quantity),
+      price: price != null ? Number(price) : undefined,
+      clientOrderId: Number(clientOrderId),
+      payWithDeep: typeof payWithDeep === "boolean" ? payWithDeep : true,
+      sponsored: req.body.sponsored === true,
+      network: network ?? "mainnet",
+      timeInForce: timeInForce ?? undefined,
+      selfMatching: selfMatching ?? undefined,
+      expiration: expiration != null ? Number(expiration) : undefined,
+      maxSlippageBps: maxSlippageBps != null ? Number(maxSlippageBps) : undefined,
+    });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({
+      error: translateError(err, "Prepare spot order failed"),
+    });
+  }
+});
+
+/**
+ * POST /api/prepare-spot-cancel-order
+ * Body: { sender, balanceManagerId, poolKey, orderId? | orderIds?, network? }
+ * Returns: { intentMessageHashHex, txBytesBase64 }. Execute via POST /api/execute-transfer.
+ */
+app.post("/api/prepare-spot-cancel-order", async (req, res) => {
+  try {
+    const { sender, balanceManagerId, poolKey, orderId, orderIds, network } =
+      req.body;
+    const ids: string[] = Array.isArray(orderIds)
+      ? orderIds.map(String)
+      : orderId != null
+        ? [String(orderId)]
+        : [];
+    if (!sender || !balanceManagerId || !poolKey || ids.length === 0) {
+      res.status(400).json({
+        error: invalidRequest(
+          "Missing required fields: sender, balanceManagerId, poolKey, orderId or orderIds"
+        ),
+      });
+      return;
+    }
+    const result = await prepareSpotCancelOrder({
+      sender,
+      balanceManagerId,
+      poolKey,
+      orderIds: ids,
+      sponsored: req.body.sponsored === true,
+      network: network ?? "mainnet",
     });
     res.json(result);
   } catch (err) {
-    const message =
-      err instanceof Error ? err.message : "Prepare place order failed";
-    res.status(400).json({ error: message });
+    res.status(400).json({
+      error: translateError(err, "Prepare cancel order failed"),
+    });
   }
 });
 
@@ -507,14 +1607,15 @@ app.post("/api/prepare-add-tpsl", async (req, res) => {
       quantity == null
     ) {
       res.status(400).json({
-        error:
-          "Missing required fields: sender, marginManagerId, poolKey, isLong, quantity",
+        error: invalidRequest(
+          "Missing required fields: sender, marginManagerId, poolKey, isLong, quantity"
+        ),
       });
       return;
     }
     if (tpPrice == null && slPrice == null) {
       res.status(400).json({
-        error: "At least one of tpPrice or slPrice is required",
+        error: invalidRequest("At least one of tpPrice or slPrice is required"),
       });
       return;
     }
@@ -527,13 +1628,51 @@ app.post("/api/prepare-add-tpsl", async (req, res) => {
       tpPrice: tpPrice != null ? Number(tpPrice) : undefined,
       slPrice: slPrice != null ? Number(slPrice) : undefined,
       payWithDeep: payWithDeep != null ? Boolean(payWithDeep) : true,
+      sponsored: req.body.sponsored === true,
       network: network ?? "mainnet",
     });
     res.json(result);
   } catch (err) {
-    const message =
-      err instanceof Error ? err.message : "Prepare add TP/SL failed";
-    res.status(400).json({ error: message });
+    res.status(400).json({
+      error: translateError(err, "Prepare add TP/SL failed"),
+    });
+  }
+});
+
+/**
+ * POST /api/prepare-cancel-conditional-orders
+ * Body: { sender, marginManagerId, poolKey, conditionalOrderIds? | all?, network? }
+ * Returns: { intentMessageHashHex, txBytesBase64 }. Execute via POST /api/execute-transfer.
+ */
+app.post("/api/prepare-cancel-conditional-orders", async (req, res) => {
+  try {
+    const { sender, marginManagerId, poolKey, conditionalOrderIds, all, network } =
+      req.body;
+    const ids: string[] = Array.isArray(conditionalOrderIds)
+      ? conditionalOrderIds.map(String)
+      : [];
+    if (!sender || !marginManagerId || !poolKey || (all !== true && ids.length === 0)) {
+      res.status(400).json({
+        error: invalidRequest(
+          "Missing required fields: sender, marginManagerId, poolKey, conditionalOrderIds or all"
+        ),
+      });
+      return;
+    }
+    const result = await prepareCancelConditionalOrders({
+      sender,
+      marginManagerId,
+      poolKey,
+      conditionalOrderIds: ids,
+      all: all === true,
+      sponsored: req.body.sponsored === true,
+      network: network ?? "mainnet",
+    });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({
+      error: translateError(err, "Prepare cancel conditional orders failed"),
+    });
   }
 });
 
@@ -547,8 +1686,9 @@ app.post("/api/execute-create-margin-manager", async (req, res) => {
     const { txBytesBase64, signatureHex, publicKeyHex, network } = req.body;
     if (!txBytesBase64 || !signatureHex || !publicKeyHex) {
       res.status(400).json({
-        error:
-          "Missing required fields: txBytesBase64, signatureHex, publicKeyHex",
+        error: invalidRequest(
+          "Missing required fields: txBytesBase64, signatureHex, publicKeyHex"
+        ),
       });
       return;
     }
@@ -560,11 +1700,41 @@ app.post("/api/execute-create-margin-manager", async (req, res) => {
     });
     res.json(result);
   } catch (err) {
-    const message = err instanceof Error ? err.message : "Execute failed";
-    res.status(400).json({ error: message });
+    res.status(400).json({ error: translateError(err, "Execute failed") });
+  }
+});
+
+/**
+ * POST /api/execute-create-balance-manager
+ * Body: { txBytesBase64, signatureHex, publicKeyHex, network? }
+ * Returns: { digest, balance_manager_id }
+ */
+app.post("/api/execute-create-balance-manager", async (req, res) => {
+  try {
+    const { txBytesBase64, signatureHex, publicKeyHex, network } = req.body;
+    if (!txBytesBase64 || !signatureHex || !publicKeyHex) {
+      res.status(400).json({
+        error: invalidRequest(
+          "Missing required fields: txBytesBase64, signatureHex, publicKeyHex"
+        ),
+      });
+      return;
+    }
+    const result = await executeCreateBalanceManager({
+      txBytesBase64,
+      signatureHex,
+      publicKeyHex,
+      network: network ?? "mainnet",
+    });
+    res.json(result);
+  } catch (err) {
+    res.status(400).json({ error: translateError(err, "Execute failed") });
   }
 });
 
 app.listen(PORT, () => {
   console.log(`Backend running at http://localhost:${PORT}`);
+  startRpcHealthChecks();
+  void logSqliteSupport();
+  startMarginRateSnapshots();
 });
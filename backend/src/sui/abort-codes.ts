@@ -0,0 +1,105 @@
+/**
+ * Abort code tables for DeepBook v3 and deepbook_margin Move modules, keyed by module name then code.
+ * Mirrors the `const E...: u64 = N` constants in the packages' sources; unknown codes fall back to a
+ * generic "aborted in module::function" message in move-abort.ts.
+ * @see https://github.com/MystenLabs/deepbookv3/tree/main/packages
+ */
+
+export type AbortCodeEntry = {
+  /** Stable error code returned to clients (safe to show to support). */
+  code: string;
+  /** Readable reason for the user. */
+  message: string;
+};
+
+export const ABORT_CODES: Record<string, Record<number, AbortCodeEntry>> = {
+  // deepbook::balance_manager
+  balance_manager: {
+    0: { code: "BALANCE_MANAGER_INVALID_OWNER", message: "You are not the owner of this account" },
+    1: { code: "BALANCE_MANAGER_INVALID_TRADER", message: "Trader is not authorized on this account" },
+    2: { code: "BALANCE_MANAGER_INVALID_PROOF", message: "Invalid trade proof for this account" },
+    3: { code: "INSUFFICIENT_ACCOUNT_BALANCE", message: "Insufficient balance in the account for this order" },
+    4: { code: "BALANCE_MANAGER_MAX_TRADE_CAPS", message: "Maximum number of trade caps reached" },
+    5: { code: "BALANCE_MANAGER_TRADE_CAP_NOT_FOUND", message: "Trade cap is not registered on this account" },
+  },
+  // deepbook::order_info
+  order_info: {
+    0: { code: "ORDER_INVALID_PRICE", message: "Price is out of range or not a multiple of the tick size" },
+    1: { code: "ORDER_BELOW_MIN_SIZE", message: "Order is below the pool's minimum size" },
+    2: { code: "ORDER_INVALID_LOT_SIZE", message: "Quantity must be a multiple of the pool's lot size" },
+    3: { code: "ORDER_INVALID_EXPIRATION", message: "Order expiration is in the past" },
+    4: { code: "ORDER_INVALID_TYPE", message: "Invalid order type" },
+    5: { code: "ORDER_POST_ONLY_CROSSES", message: "Post-only order would cross the book" },
+    6: { code: "ORDER_FOK_NOT_FILLED", message: "Fill-or-kill order could not be fully filled" },
+    7: { code: "ORDER_MARKET_POST_ONLY", message: "Market orders cannot be post-only" },
+    8: { code: "ORDER_SELF_MATCH", message: "Order would match against your own resting order" },
+  },
+  // deepbook::book
+  book: {
+    1: { code: "BOOK_INVALID_AMOUNT_IN", message: "Invalid input amount for this swap" },
+    2: { code: "BOOK_EMPTY", message: "Order book is empty" },
+    3: { code: "BOOK_INVALID_PRICE_RANGE", message: "Invalid price range" },
+    4: { code: "BOOK_INVALID_TICKS", message: "Invalid number of ticks" },
+    5: { code: "ORDER_BELOW_MIN_SIZE", message: "Order is below the pool's minimum size" },
+    6: { code: "ORDER_INVALID_LOT_SIZE", message: "Quantity must be a multiple of the pool's lot size" },
+    7: { code: "ORDER_MODIFY_NOT_SMALLER", message: "New quantity must be smaller than the current quantity" },
+  },
+  // deepbook::order
+  order: {
+    0: { code: "ORDER_INVALID_NEW_QUANTITY", message: "New quantity must be above the filled amount and below the current size" },
+    1: { code: "ORDER_EXPIRED", message: "Order has expired" },
+  },
+  // deepbook::state
+  state: {
+    1: { code: "MAX_OPEN_ORDERS", message: "Too many open orders on this account" },
+  },
+  // deepbook::pool
+  pool: {
+    6: { code: "POOL_INVALID_QUANTITY_IN", message: "Invalid input quantity" },
+    9: { code: "POOL_ORDER_NOT_OWNED", message: "Order does not belong to this account" },
+    11: { code: "POOL_VERSION_DISABLED", message: "Pool package version is disabled; try again later" },
+    12: { code: "SLIPPAGE_EXCEEDED", message: "Output below the minimum amount (slippage)" },
+  },
+  // deepbook_margin::margin_manager
+  margin_manager: {
+    1: { code: "MARGIN_INVALID_OWNER", message: "You are not the owner of this margin account" },
+    2: { code: "MARGIN_LOAN_IN_OTHER_POOL", message: "Margin account already has a loan in the other asset; repay it first" },
+    3: { code: "MARGIN_WRONG_DEEPBOOK_POOL", message: "Margin account belongs to a different pool" },
+    4: { code: "MARGIN_POOL_NOT_ALLOWED", message: "This pool is not enabled for margin loans" },
+    5: { code: "MARGIN_INVALID_MANAGER", message: "Invalid margin account" },
+    6: { code: "MARGIN_BORROW_RISK_RATIO", message: "Borrow would breach the minimum risk ratio; add collateral or borrow less" },
+    7: { code: "MARGIN_WITHDRAW_RISK_RATIO", message: "Withdraw would breach the risk ratio; repay debt or withdraw less" },
+    8: { code: "MARGIN_INVALID_DEBT_ASSET", message: "Invalid debt asset for this margin account" },
+    9: { code: "MARGIN_CANNOT_LIQUIDATE", message: "Margin account is not eligible for liquidation" },
+    10: { code: "MARGIN_WRONG_MARGIN_POOL", message: "Wrong margin pool for this account's debt" },
+    12: { code: "MARGIN_INVALID_DEPOSIT", message: "Invalid deposit asset for this margin account" },
+    13: { code: "MARGIN_REPAY_TOO_LOW", message: "Repay amount is too low" },
+  },
+  // deepbook_margin::margin_pool
+  margin_pool: {
+    1: { code: "MARGIN_POOL_INSUFFICIENT_LIQUIDITY", message: "Not enough liquidity in the lending pool" },
+    2: { code: "MARGIN_POOL_INVALID_LOAN", message: "Invalid loan quantity" },
+    4: { code: "MARGIN_POOL_NOT_ALLOWED", message: "Lending pool does not lend to this trading pool" },
+    6: { code: "MARGIN_POOL_SUPPLY_CAP", message: "Lending pool supply cap reached" },
+    7: { code: "MARGIN_POOL_UTILIZATION_CAP", message: "Pool utilization cap hit; borrow less or try later" },
+    8: { code: "MARGIN_POOL_BORROW_TOO_SMALL", message: "Borrow amount is below the pool minimum" },
+  },
+  // deepbook_margin::pool_proxy
+  pool_proxy: {
+    1: { code: "MARGIN_WRONG_DEEPBOOK_POOL", message: "Margin account belongs to a different pool" },
+    2: { code: "MARGIN_TRADING_DISABLED", message: "Margin trading is not enabled for this pool" },
+    3: { code: "MARGIN_REDUCE_ONLY", message: "Pool only accepts reduce-only orders right now" },
+  },
+  // deepbook_margin::oracle
+  oracle: {
+    3: { code: "ORACLE_FEED_MISMATCH", message: "Oracle price feed does not match this asset" },
+    5: { code: "ORACLE_INVALID_PRICE", message: "Oracle price is invalid" },
+    6: { code: "ORACLE_PRICE_STALE", message: "Oracle price is stale; try again shortly" },
+  },
+  // deepbook_margin::tpsl
+  tpsl: {
+    1: { code: "TPSL_INVALID_CONDITION", message: "Trigger price is on the wrong side of the current price" },
+    2: { code: "TPSL_NOT_FOUND", message: "Take profit / stop loss order not found" },
+    3: { code: "TPSL_MAX_ORDERS", message: "Maximum number of take profit / stop loss orders reached" },
+  },
+};
@@ -0,0 +1,32 @@
+/**
+ * Minimal DeepBookV3 indexer client for the backend (same base URLs as the app's lib/deepbook-indexer.ts).
+ * @see https://docs.sui.io/standards/deepbookv3-indexer
+ */
+
+import type { SuiNetwork } from "./rpc-provider.js";
+
+const INDEXER_BASE_URLS: Record<SuiNetwork, string> = {
+  mainnet: "https://deepbook-indexer.mainnet.mystenlabs.com",
+  testnet: "https://deepbook-indexer.testnet.mystenlabs.com",
+};
+const INDEXER_TIMEOUT_MS = 25_000;
+
+export type IndexerQuery = Record<string, string | number | boolean | undefined>;
+
+export async function fetchIndexer<T>(
+  network: SuiNetwork,
+  path: string,
+  params?: IndexerQuery
+): Promise<T> {
+  const url = new URL(path, INDEXER_BASE_URLS[network]);
+  for (const [k, v] of Object.entries(params ?? {})) {
+    if (v !== undefined && v !== "") url.searchParams.set(k, String(v));
+  }
+  const res = await fetch(url, {
+    signal: AbortSignal.timeout(INDEXER_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    throw new Error(`Indexer ${res.status}: ${res.statusText} (${url.pathname})`);
+  }
+  return (await res.json()) as T;
+}
@@ -0,0 +1,25 @@
+/**
+ * Execute a signed "create balance manager" transaction and return the new BalanceManager ID
+ * (same execute flow as execute-create-margin-manager.ts).
+ */
+
+import {
+  executeAndFindCreated,
+  type ExecuteCreateMarginManagerParams,
+} from "./execute-create-margin-manager.js";
+
+export type ExecuteCreateBalanceManagerResult = {
+  digest: string;
+  balance_manager_id: string;
+};
+
+export async function executeCreateBalanceManager(
+  params: ExecuteCreateMarginManagerParams
+): Promise<ExecuteCreateBalanceManagerResult> {
+  const { digest, objectId } = await executeAndFindCreated(
+    params,
+    (type) => type.endsWith("::balance_manager::BalanceManager"),
+    "BalanceManager"
+  );
+  return { digest, balance_manager_id: objectId };
+}
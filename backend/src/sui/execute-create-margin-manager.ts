@@ -1,13 +1,21 @@
 /**
  * Execute a signed "create margin manager" transaction and return the new manager ID.
  * Reuses the same signing/execute flow as transfer; parses result for created MarginManager.
+ * executeAndFindCreated is shared with execute-create-balance-manager.ts.
  */
 
 import type { SuiClientTypes } from "@mysten/sui/client";
 import { toSerializedSignature } from "@mysten/sui/cryptography";
-import { getJsonRpcFullnodeUrl, SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
 import { publicKeyFromRawBytes } from "@mysten/sui/verify";
 import { Buffer } from "buffer";
+import {
+  cosignSponsoredTransaction,
+  isSponsoredTransaction,
+  settleSponsoredGas,
+  type SponsorReservation,
+  type SponsoredGasUsed,
+} from "./gas-sponsor.js";
+import { getSuiClient } from "./rpc-provider.js";
 
 export type ExecuteCreateMarginManagerParams = {
   txBytesBase64: string;
@@ -31,9 +39,12 @@ function hexToBytes(hex: string): Uint8Array {
   return out;
 }
 
-export async function executeCreateMarginManager(
-  params: ExecuteCreateMarginManagerParams
-): Promise<ExecuteCreateMarginManagerResult> {
+/** Execute a signed transaction and return its digest and the id of the created object whose type matches. */
+export async function executeAndFindCreated(
+  params: ExecuteCreateMarginManagerParams,
+  matchesType: (objectType: string) => boolean,
+  typeLabel: string
+): Promise<{ digest: string; objectId: string }> {
   const {
     txBytesBase64,
     signatureHex,
@@ -58,49 +69,77 @@ export async function executeCreateMarginManager(
     publicKey,
   });
 
-  const url = getJsonRpcFullnodeUrl(network);
-  const client = new SuiJsonRpcClient({ url, network });
+  // Sponsored tx (gas owner = server sponsor): co-sign after re-checking allowlist and daily budget.
+  const signatures = [serializedSig];
+  let reservation: SponsorReservation | null = null;
+  if (isSponsoredTransaction(txBytes)) {
+    const cosigned = await cosignSponsoredTransaction(txBytes, network);
+    reservation = cosigned.reservation;
+    signatures.push(cosigned.signature);
+  }
+
+  // Charge the gas actually used (also for a failed tx), or release the reservation if nothing ran.
+  let gasUsed: SponsoredGasUsed | undefined;
+  try {
+    const client = getSuiClient(network);
 
-  const result = await client.core.executeTransaction({
-    transaction: txBytes,
-    signatures: [serializedSig],
-    include: { effects: true, objectTypes: true },
-  });
+    const result = await client.core.executeTransaction({
+      transaction: txBytes,
+      signatures,
+      include: { effects: true, objectTypes: true },
+    });
 
-  if (result.$kind === "FailedTransaction") {
-    const status = result.FailedTransaction.effects?.status;
-    const err =
-      status && typeof status === "object" && "error" in status
-        ? String(
-            (status as { error?: { message?: string } }).error?.message ??
-              "Transaction failed"
-          )
-        : "Transaction failed";
-    throw new Error(err);
-  }
+    const executedEffects =
+      result.$kind === "FailedTransaction"
+        ? result.FailedTransaction.effects
+        : result.Transaction.effects;
+    gasUsed = executedEffects?.gasUsed ?? undefined;
 
-  const tx = result.Transaction as SuiClientTypes.Transaction<{
-    effects: true;
-    objectTypes: true;
-  }>;
-  const effects = tx.effects;
-  const objectTypes = tx.objectTypes ?? {};
-  const changedObjects = effects?.changedObjects ?? [];
-
-  const created = changedObjects.find(
-    (obj) =>
-      obj.idOperation === "Created" &&
-      objectTypes[obj.objectId]?.includes("MarginManager")
-  );
+    if (result.$kind === "FailedTransaction") {
+      const status = result.FailedTransaction.effects?.status;
+      const err =
+        status && typeof status === "object" && "error" in status
+          ? String(
+              (status as { error?: { message?: string } }).error?.message ??
+                "Transaction failed"
+            )
+          : "Transaction failed";
+      throw new Error(err);
+    }
 
-  if (!created?.objectId) {
-    throw new Error(
-      "Could not find created MarginManager in transaction result"
+    const tx = result.Transaction as SuiClientTypes.Transaction<{
+      effects: true;
+      objectTypes: true;
+    }>;
+    const effects = tx.effects;
+    const objectTypes = tx.objectTypes ?? {};
+    const changedObjects = effects?.changedObjects ?? [];
+
+    const created = changedObjects.find(
+      (obj) =>
+        obj.idOperation === "Created" &&
+        matchesType(objectTypes[obj.objectId] ?? "")
     );
+
+    if (!created?.objectId) {
+      throw new Error(
+        `Could not find created ${typeLabel} in transaction result`
+      );
+    }
+
+    return { digest: tx.digest, objectId: created.objectId };
+  } finally {
+    if (reservation) settleSponsoredGas(reservation, gasUsed);
   }
+}
 
-  return {
-    digest: tx.digest,
-    margin_manager_id: created.objectId,
-  };
+export async function executeCreateMarginManager(
+  params: ExecuteCreateMarginManagerParams
+): Promise<ExecuteCreateMarginManagerResult> {
+  const { digest, objectId } = await executeAndFindCreated(
+    params,
+    (type) => type.includes("MarginManager"),
+    "MarginManager"
+  );
+  return { digest, margin_manager_id: objectId };
 }
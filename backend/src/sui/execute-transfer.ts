@@ -4,9 +4,16 @@
  */
 
 import { toSerializedSignature } from "@mysten/sui/cryptography";
-import { getJsonRpcFullnodeUrl, SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
 import { publicKeyFromRawBytes } from "@mysten/sui/verify";
 import { Buffer } from "buffer";
+import {
+  cosignSponsoredTransaction,
+  isSponsoredTransaction,
+  settleSponsoredGas,
+  type SponsorReservation,
+  type SponsoredGasUsed,
+} from "./gas-sponsor.js";
+import { getSuiClient } from "./rpc-provider.js";
 
 export type ExecuteTransferParams = {
   txBytesBase64: string;
@@ -57,26 +64,46 @@ export async function executeTransfer(
     publicKey,
   });
 
-  const url = getJsonRpcFullnodeUrl(network);
-  const client = new SuiJsonRpcClient({ url, network });
+  // Sponsored tx (gas owner = server sponsor): co-sign after re-checking allowlist and daily budget.
+  const signatures = [serializedSig];
+  let reservation: SponsorReservation | null = null;
+  if (isSponsoredTransaction(txBytes)) {
+    const cosigned = await cosignSponsoredTransaction(txBytes, network);
+    reservation = cosigned.reservation;
+    signatures.push(cosigned.signature);
+  }
 
-  const result = await client.core.executeTransaction({
-    transaction: txBytes,
-    signatures: [serializedSig],
-    include: { effects: true },
-  });
+  // Charge the gas actually used (also for a failed tx), or release the reservation if nothing ran.
+  let gasUsed: SponsoredGasUsed | undefined;
+  try {
+    const client = getSuiClient(network);
 
-  if (result.$kind === "FailedTransaction") {
-    const status = result.FailedTransaction.effects?.status;
-    const err =
-      status && typeof status === "object" && "error" in status
-        ? String(
-            (status as { error?: { message?: string } }).error?.message ??
-              "Transaction failed"
-          )
-        : "Transaction failed";
-    throw new Error(err);
-  }
+    const result = await client.core.executeTransaction({
+      transaction: txBytes,
+      signatures,
+      include: { effects: true },
+    });
 
-  return { digest: result.Transaction.digest };
+    const executedEffects =
+      result.$kind === "FailedTransaction"
+        ? result.FailedTransaction.effects
+        : result.Transaction.effects;
+    gasUsed = executedEffects?.gasUsed ?? undefined;
+
+    if (result.$kind === "FailedTransaction") {
+      const status = result.FailedTransaction.effects?.status;
+      const err =
+        status && typeof status === "object" && "error" in status
+          ? String(
+              (status as { error?: { message?: string } }).error?.message ??
+                "Transaction failed"
+            )
+          : "Transaction failed";
+      throw new Error(err);
+    }
+
+    return { digest: result.Transaction.digest };
+  } finally {
+    if (reservation) settleSponsoredGas(reservation, gasUsed);
+  }
 }
@@ -0,0 +1,143 @@
+/**
+ * Spot account (DeepBook balance manager) state for one pool: free balances of the pool's base, quote and
+ * DEEP, what is locked in open orders or settled but not yet claimed, and the open orders themselves.
+ * - Read-only SDK calls (checkManagerBalance, lockedBalance, account, accountOpenOrders,
+ *   getOrderNormalized), all simulated; no indexer, so a just-placed order shows up immediately.
+ * - Without balanceManagerId, the owner's first manager in the DeepBook registry (getBalanceManagerIds)
+ *   is used; balanceManagerId is null when the owner has none.
+ * @see https://docs.sui.io/standards/deepbookv3-sdk/balance-manager
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetPools,
+  testnetCoins,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import {
+  balanceManagerCoinKey,
+  type BalanceManagerAsset,
+} from "./prepare-balance-manager-deposit.js";
+import { getSuiClient } from "./rpc-provider.js";
+
+const MANAGER_KEY = "BALANCE_MANAGER_1";
+
+export type BalanceManagerParams = {
+  poolKey: string;
+  balanceManagerId?: string;
+  /** Used to look the manager up in the registry when balanceManagerId is omitted. */
+  owner?: string;
+  network?: "mainnet" | "testnet";
+};
+
+export type BalanceManagerBalance = {
+  coinKey: string;
+  /** Free in the manager (withdrawable, usable for new orders). Human units. */
+  available: number;
+  /** Locked in this pool's open orders. */
+  locked: number;
+  /** Filled as maker, claimable on the next order or withdraw. */
+  settled: number;
+};
+
+export type BalanceManagerOpenOrder = {
+  orderId: string;
+  clientOrderId: string;
+  isBid: boolean;
+  price: number;
+  quantity: number;
+  filledQuantity: number;
+  /** ms; very large for orders without expiry. */
+  expireTimestamp: number;
+};
+
+export type BalanceManagerResult = {
+  balanceManagerId: string | null;
+  poolKey: string;
+  balances: Record<BalanceManagerAsset, BalanceManagerBalance> | null;
+  openOrders: BalanceManagerOpenOrder[];
+};
+
+export async function fetchBalanceManager(
+  params: BalanceManagerParams
+): Promise<BalanceManagerResult> {
+  const { poolKey, owner, network = "mainnet" } = params;
+  const client = getSuiClient(network);
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+
+  if (!(poolKey in pools)) {
+    throw new Error(`Unknown pool key: ${poolKey}`);
+  }
+  const pool = pools[poolKey as keyof typeof pools];
+  const address = owner ?? normalizeSuiAddress("0x0");
+
+  let balanceManagerId = params.balanceManagerId ?? null;
+  if (!balanceManagerId && owner) {
+    const lookup = client.$extend(deepbook({ address, pools, coins })).deepbook;
+    const ids = await lookup.getBalanceManagerIds(owner);
+    balanceManagerId = ids[0] ?? null;
+  }
+  if (!balanceManagerId) {
+    return { balanceManagerId: null, poolKey, balances: null, openOrders: [] };
+  }
+
+  const db = client.$extend(
+    deepbook({
+      address,
+      pools,
+      coins,
+      balanceManagers: { [MANAGER_KEY]: { address: balanceManagerId } },
+    })
+  ).deepbook;
+
+  const assets: BalanceManagerAsset[] = ["base", "quote", "deep"];
+  const [free, hasAccount] = await Promise.all([
+    Promise.all(
+      assets.map((asset) =>
+        db.checkManagerBalance(MANAGER_KEY, balanceManagerCoinKey(pool, asset))
+      )
+    ),
+    db.accountExists(poolKey, MANAGER_KEY),
+  ]);
+
+  // No account in the pool yet (never traded there): nothing locked, settled or open.
+  const [locked, account, orderIds] = hasAccount
+    ? await Promise.all([
+        db.lockedBalance(poolKey, MANAGER_KEY),
+        db.account(poolKey, MANAGER_KEY),
+        db.accountOpenOrders(poolKey, MANAGER_KEY),
+      ])
+    : [null, null, [] as string[]];
+
+  const balances = Object.fromEntries(
+    assets.map((asset, i) => [
+      asset,
+      {
+        coinKey: balanceManagerCoinKey(pool, asset),
+        available: free[i].balance,
+        locked: locked?.[asset] ?? 0,
+        settled: Number(account?.settled_balances[asset] ?? 0),
+      },
+    ])
+  ) as Record<BalanceManagerAsset, BalanceManagerBalance>;
+
+  const orders = await Promise.all(
+    orderIds.map((id) => db.getOrderNormalized(poolKey, id))
+  );
+  const openOrders = orders
+    .filter((o): o is NonNullable<typeof o> => o != null)
+    .map((o) => ({
+      orderId: o.order_id,
+      clientOrderId: o.client_order_id,
+      isBid: o.isBid,
+      price: Number(o.normalized_price),
+      quantity: Number(o.quantity),
+      filledQuantity: Number(o.filled_quantity),
+      expireTimestamp: Number(o.expire_timestamp),
+    }));
+
+  return { balanceManagerId, poolKey, balances, openOrders };
+}
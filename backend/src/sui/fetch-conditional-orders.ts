@@ -0,0 +1,169 @@
+/**
+ * Read TP/SL conditional orders on a margin manager using @mysten/deepbook-v3 marginTPSL read-only calls.
+ * devInspect conditionalOrderIds, then one conditionalOrder call per id; decodes the BCS structs.
+ * Prices and quantities are converted to human units with the pool's coin scalars.
+ * @see https://docs.sui.io/standards/deepbook-margin-sdk/tpsl
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetPools,
+  testnetCoins,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import { bcs } from "@mysten/sui/bcs";
+import { Transaction } from "@mysten/sui/transactions";
+import { getSuiClient } from "./rpc-provider.js";
+
+const MANAGER_KEY = "MARGIN_MANAGER_1";
+
+/** DeepBook internal price scale (price_raw = price * FLOAT_SCALAR * quote_scalar / base_scalar). */
+const FLOAT_SCALAR = 1_000_000_000;
+
+/** Mirrors deepbook_margin::tpsl::ConditionalOrder (Condition + PendingOrder). */
+const ConditionalOrderBcs = bcs.struct("ConditionalOrder", {
+  conditional_order_id: bcs.u64(),
+  condition: bcs.struct("Condition", {
+    trigger_below_price: bcs.bool(),
+    trigger_price: bcs.u64(),
+  }),
+  pending_order: bcs.struct("PendingOrder", {
+    is_limit_order: bcs.bool(),
+    client_order_id: bcs.u64(),
+    order_type: bcs.option(bcs.u8()),
+    self_matching_option: bcs.u8(),
+    price: bcs.option(bcs.u64()),
+    quantity: bcs.u64(),
+    is_bid: bcs.bool(),
+    pay_with_deep: bcs.bool(),
+    expire_timestamp: bcs.option(bcs.u64()),
+  }),
+});
+
+export type ConditionalOrdersParams = {
+  marginManagerId: string;
+  poolKey: string;
+  network?: "mainnet" | "testnet";
+};
+
+export type ConditionalOrderInfo = {
+  conditional_order_id: string;
+  /** "take_profit" / "stop_loss", derived from trigger direction vs. closing side. */
+  kind: "take_profit" | "stop_loss";
+  /** "below" = fires when price drops to trigger_price; "above" = when it rises to it. */
+  direction: "below" | "above";
+  trigger_price: number;
+  /** Pending order placed when triggered. */
+  order: {
+    client_order_id: string;
+    is_limit_order: boolean;
+    is_bid: boolean;
+    /** Base quantity (human units). */
+    quantity: number;
+    /** Limit price (human units); null for market orders. */
+    price: number | null;
+    pay_with_deep: boolean;
+  };
+};
+
+export type ConditionalOrdersResult = {
+  margin_manager_id: string;
+  pool_key: string;
+  orders: ConditionalOrderInfo[];
+  source: "chain";
+};
+
+export async function fetchConditionalOrders(
+  params: ConditionalOrdersParams
+): Promise<ConditionalOrdersResult> {
+  const { marginManagerId, poolKey, network = "mainnet" } = params;
+
+  const client = getSuiClient(network);
+
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+
+  if (!(poolKey in pools)) {
+    throw new Error(
+      `Unknown poolKey: ${poolKey}. Valid keys: ${Object.keys(pools).slice(0, 10).join(", ")}`
+    );
+  }
+
+  const extended = client.$extend(
+    deepbook({
+      address: marginManagerId,
+      pools,
+      coins,
+      marginManagers: {
+        [MANAGER_KEY]: { address: marginManagerId, poolKey },
+      },
+    })
+  );
+  const tpsl = extended.deepbook.marginTPSL;
+  const pool = pools[poolKey as keyof typeof pools];
+  const baseScalar = coins[pool.baseCoin as keyof typeof coins].scalar;
+  const quoteScalar = coins[pool.quoteCoin as keyof typeof coins].scalar;
+  const toHumanPrice = (raw: string) =>
+    (Number(raw) * baseScalar) / quoteScalar / FLOAT_SCALAR;
+  const toHumanQuantity = (raw: string) => Number(raw) / baseScalar;
+
+  const txIds = new Transaction();
+  txIds.setSender(marginManagerId);
+  tpsl.conditionalOrderIds(poolKey, marginManagerId)(txIds);
+  const inspectIds = await client.devInspectTransactionBlock({
+    sender: marginManagerId,
+    transactionBlock: txIds,
+  });
+  if (inspectIds.error) {
+    throw new Error(`devInspect failed: ${inspectIds.error}`);
+  }
+  const idBytes = inspectIds.results?.[0]?.returnValues?.[0]?.[0];
+  const ids = Array.isArray(idBytes)
+    ? bcs.vector(bcs.u64()).parse(new Uint8Array(idBytes))
+    : [];
+
+  if (ids.length === 0) {
+    return { margin_manager_id: marginManagerId, pool_key: poolKey, orders: [], source: "chain" };
+  }
+
+  // One moveCall per id; results[] follows the same order as ids.
+  const tx = new Transaction();
+  tx.setSender(marginManagerId);
+  for (const id of ids) {
+    tpsl.conditionalOrder(poolKey, marginManagerId, String(id))(tx);
+  }
+  const inspect = await client.devInspectTransactionBlock({
+    sender: marginManagerId,
+    transactionBlock: tx,
+  });
+  if (inspect.error) {
+    throw new Error(`devInspect failed: ${inspect.error}`);
+  }
+
+  const orders: ConditionalOrderInfo[] = [];
+  (inspect.results ?? []).forEach((result) => {
+    const bytes = result.returnValues?.[0]?.[0];
+    if (!Array.isArray(bytes)) return;
+    const decoded = ConditionalOrderBcs.parse(new Uint8Array(bytes));
+    const { condition, pending_order: pending } = decoded;
+    // Closing a long sells (is_bid=false): TP fires above, SL below. Closing a short buys: TP below, SL above.
+    const isTakeProfit = pending.is_bid === condition.trigger_below_price;
+    orders.push({
+      conditional_order_id: String(decoded.conditional_order_id),
+      kind: isTakeProfit ? "take_profit" : "stop_loss",
+      direction: condition.trigger_below_price ? "below" : "above",
+      trigger_price: toHumanPrice(String(condition.trigger_price)),
+      order: {
+        client_order_id: String(pending.client_order_id),
+        is_limit_order: pending.is_limit_order,
+        is_bid: pending.is_bid,
+        quantity: toHumanQuantity(String(pending.quantity)),
+        price: pending.price != null ? toHumanPrice(String(pending.price)) : null,
+        pay_with_deep: pending.pay_with_deep,
+      },
+    });
+  });
+
+  return { margin_manager_id: marginManagerId, pool_key: poolKey, orders, source: "chain" };
+}
@@ -4,20 +4,33 @@
  * @see https://docs.sui.io/standards/deepbook-margin-sdk/margin-manager#owner-deepbookpool-marginpoolid
  * @see https://docs.sui.io/standards/deepbook-margin-sdk/margin-manager#borrowedshares-borrowedbaseshares-borrowedquoteshares-hasbasedebt
  * @see https://docs.sui.io/standards/deepbook-margin-sdk/margin-manager#balancemanager-calculateassets-calculatedebts
+ * Exact debt per side: borrowed shares × the margin pool's borrow index (total_borrow / borrow_shares,
+ * with interest projected from last_update_timestamp at the pool's current rate). Principal comes from
+ * the indexer's loan_borrowed / loan_repaid events; accrued interest = debt − principal.
+ * @see https://docs.sui.io/standards/deepbook-margin-sdk/margin-pool
  */
 
 import {
   deepbook,
   mainnetCoins,
+  mainnetMarginPools,
   mainnetPools,
   testnetCoins,
+  testnetMarginPools,
   testnetPools,
 } from "@mysten/deepbook-v3";
-import { getJsonRpcFullnodeUrl, SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
 import { Transaction } from "@mysten/sui/transactions";
+import { fetchIndexer } from "./deepbook-indexer.js";
+import { getSuiClient, type SuiNetwork } from "./rpc-provider.js";
 
 const MANAGER_KEY = "MARGIN_MANAGER_1";
 
+/** Interest rates on chain are u64 scaled by 1e9. */
+const FLOAT_SCALAR = 1e9;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+/** Loan events read from the indexer per side; older history leaves principal null. */
+const MAX_LOAN_EVENTS = 500;
+
 export type MarginBorrowedSharesParams = {
   marginManagerId: string;
   /** Pool key (e.g. SUI_USDC). Required for SDK type args and pool/margin pool resolution. */
@@ -27,6 +40,26 @@ export type MarginBorrowedSharesParams = {
   debug?: boolean;
 };
 
+/** Debt on one side (base or quote) of a margin manager. Human amounts unless suffixed Raw. */
+export type MarginDebt = {
+  /** Margin pool coin key (e.g. USDC). */
+  coinKey: string;
+  marginPoolId: string;
+  /** Borrowed shares (raw u64). */
+  shares: string;
+  /** Debt per borrowed share, interest projected to now. */
+  borrowIndex: number;
+  /** Exact debt in smallest units: calculateDebts when readable, else shares × borrowIndex. */
+  amountRaw: string;
+  amount: number;
+  /** Borrowed − repaid principal (from loan events); null when the event history is incomplete. */
+  principal: number | null;
+  /** Interest accrued since borrow (amount − principal); null when principal is unknown. */
+  accruedInterest: number | null;
+  /** Current annual borrow rate of the margin pool (0.05 = 5%). */
+  borrowApr: number;
+};
+
 export type MarginBorrowedSharesResult = {
   margin_manager_id: string;
   owner: string | null;
@@ -39,6 +72,8 @@ export type MarginBorrowedSharesResult = {
   balanceManager: { id: string } | null;
   calculateAssets: { base_asset: string; quote_asset: string } | null;
   calculateDebts: { base_debt: string; quote_debt: string } | null;
+  /** Per-side debt from the margin pools' borrow index; null when the pools could not be read. */
+  debts: { base: MarginDebt | null; quote: MarginDebt | null } | null;
   source: "chain";
   _debug?: {
     resultCount: number;
@@ -97,13 +132,63 @@ function decodeBool(data: number[]): boolean {
   return data.length > 0 && data[0] !== 0;
 }
 
+type LoanEvent = {
+  checkpoint_timestamp_ms: number;
+  loan_amount?: number;
+  loan_shares?: number;
+  repay_amount?: number;
+  repay_shares?: number;
+};
+
+/**
+ * Net principal (raw) for a manager in one margin pool. Each repay retires principal in proportion to
+ * the shares it burns, so interest paid does not count as principal returned. Null when the indexer
+ * fails, history is capped, or the replayed shares don't match the chain (e.g. after a liquidation).
+ */
+async function loanPrincipalRaw(
+  network: SuiNetwork,
+  marginManagerId: string,
+  marginPoolId: string,
+  chainShares: bigint
+): Promise<number | null> {
+  const query = {
+    margin_manager_id: marginManagerId,
+    margin_pool_id: marginPoolId,
+    limit: MAX_LOAN_EVENTS,
+  };
+  const [borrowed, repaid] = await Promise.all([
+    fetchIndexer<LoanEvent[]>(network, "/loan_borrowed", query),
+    fetchIndexer<LoanEvent[]>(network, "/loan_repaid", query),
+  ]);
+  if (!Array.isArray(borrowed) || !Array.isArray(repaid)) return null;
+  if (borrowed.length >= MAX_LOAN_EVENTS || repaid.length >= MAX_LOAN_EVENTS) return null;
+
+  const events = [...borrowed, ...repaid].sort(
+    (a, b) => (a.checkpoint_timestamp_ms ?? 0) - (b.checkpoint_timestamp_ms ?? 0)
+  );
+  let principal = 0;
+  let shares = 0;
+  for (const e of events) {
+    if (e.loan_shares != null) {
+      principal += Number(e.loan_amount ?? 0);
+      shares += Number(e.loan_shares);
+    } else if (e.repay_shares != null && shares > 0) {
+      const burned = Math.min(Number(e.repay_shares), shares);
+      principal -= (principal * burned) / shares;
+      shares -= burned;
+    }
+  }
+  const expected = Number(chainShares);
+  if (Math.abs(shares - expected) > Math.max(1, expected * 1e-6)) return null;
+  return expected === 0 ? 0 : principal;
+}
+
 export async function fetchMarginBorrowedShares(
   params: MarginBorrowedSharesParams
 ): Promise<MarginBorrowedSharesResult> {
   const { marginManagerId, poolKey, network = "mainnet", debug: debugParam = false } = params;
 
-  const url = getJsonRpcFullnodeUrl(network);
-  const client = new SuiJsonRpcClient({ url, network });
+  const client = getSuiClient(network);
 
   const pools = network === "mainnet" ? mainnetPools : testnetPools;
   const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
@@ -249,6 +334,95 @@ export async function fetchMarginBorrowedShares(
     // We treat that as "no readable on-chain debt" and keep calculateDebts = null.
   }
 
+  // Borrow index per margin pool: total_borrow / borrow_shares as of the pool's last update, grown by
+  // the current rate for the time since (the pool accrues the same way on its next update).
+  let debts: MarginBorrowedSharesResult["debts"] = null;
+  try {
+    const marginPools = network === "mainnet" ? mainnetMarginPools : testnetMarginPools;
+    const sides = [
+      { side: "base" as const, coinKey: pool.baseCoin, shares: BigInt(borrowedBaseShares) },
+      { side: "quote" as const, coinKey: pool.quoteCoin, shares: BigInt(borrowedQuoteShares) },
+    ].filter((s) => s.coinKey in marginPools);
+    const marginPool = extended.deepbook.marginPool;
+
+    const txPools = new Transaction();
+    txPools.setSender(marginManagerId);
+    for (const { coinKey } of sides) {
+      marginPool.totalBorrow(coinKey)(txPools);
+      marginPool.borrowShares(coinKey)(txPools);
+      marginPool.lastUpdateTimestamp(coinKey)(txPools);
+      marginPool.interestRate(coinKey)(txPools);
+    }
+    const inspectPools = await client.devInspectTransactionBlock({
+      sender: marginManagerId,
+      transactionBlock: txPools,
+    });
+    if (inspectPools.error) {
+      throw new Error(`devInspect failed: ${inspectPools.error}`);
+    }
+    const poolResults = inspectPools.results ?? [];
+    const poolU64 = (idx: number): bigint => {
+      const [bytes] = (poolResults[idx]?.returnValues?.[0] ?? [[]]) as [number[], string];
+      return Array.isArray(bytes) && bytes.length >= 8 ? u64LE(bytes.slice(0, 8)) : 0n;
+    };
+
+    const now = Date.now();
+    const sideDebts: { base: MarginDebt | null; quote: MarginDebt | null } = {
+      base: null,
+      quote: null,
+    };
+    await Promise.all(
+      sides.map(async ({ side, coinKey, shares }, i) => {
+        const totalBorrow = poolU64(i * 4);
+        const totalShares = poolU64(i * 4 + 1);
+        const lastUpdateMs = Number(poolU64(i * 4 + 2));
+        const borrowApr = Number(poolU64(i * 4 + 3)) / FLOAT_SCALAR;
+        const elapsedMs = Math.max(0, now - lastUpdateMs);
+        const borrowIndex =
+          totalShares > 0n
+            ? (Number(totalBorrow) / Number(totalShares)) * (1 + (borrowApr * elapsedMs) / YEAR_MS)
+            : 1;
+
+        const onChain = side === "base" ? calculateDebts?.base_debt : calculateDebts?.quote_debt;
+        const amountRaw =
+          onChain != null && onChain !== "0"
+            ? BigInt(onChain)
+            : BigInt(Math.ceil(Number(shares) * borrowIndex));
+        const scalar = coins[coinKey as keyof typeof coins].scalar;
+        const marginPoolId = marginPools[coinKey as keyof typeof marginPools].address;
+
+        let principal: number | null = null;
+        if (shares === 0n) {
+          principal = 0;
+        } else {
+          const raw = await loanPrincipalRaw(network, marginManagerId, marginPoolId, shares).catch(
+            (err) => {
+              console.warn("[margin-manager-state] loan events failed", err);
+              return null;
+            }
+          );
+          principal = raw != null ? raw / scalar : null;
+        }
+        const amount = Number(amountRaw) / scalar;
+
+        sideDebts[side] = {
+          coinKey,
+          marginPoolId,
+          shares: String(shares),
+          borrowIndex,
+          amountRaw: String(amountRaw),
+          amount,
+          principal,
+          accruedInterest: principal != null ? Math.max(0, amount - principal) : null,
+          borrowApr,
+        };
+      })
+    );
+    debts = sideDebts;
+  } catch (err) {
+    console.warn("[margin-manager-state] borrow index read failed", err);
+  }
+
   // One-off debt verification: read margin manager object directly (getObject) when debug=true
   let debtVerify: { fromObject: Record<string, unknown>; note: string } | undefined;
   if (debugParam) {
@@ -290,6 +464,7 @@ export async function fetchMarginBorrowedShares(
     balanceManager: balanceManagerId ? { id: balanceManagerId } : null,
     calculateAssets,
     calculateDebts,
+    debts,
     source: "chain",
     ...(debugParam && {
       _debug: {
@@ -405,6 +580,7 @@ export async function fetchMarginBorrowedShares(
         balanceManager: out.balanceManager,
         calculateAssets: out.calculateAssets,
         calculateDebts: out.calculateDebts,
+        debts: out.debts,
       },
       null,
       2
@@ -0,0 +1,279 @@
+/**
+ * Margin pool lending state: per-pool supply, borrow, utilization and rates, plus the caller's supplier
+ * position (shares, current amount, net principal and accrued interest).
+ * - Pool figures come from @mysten/deepbook-v3 read-only calls (getMarginPoolTotalSupply, …).
+ * - SupplierCaps (owned objects, valid for every pool) identify the position; found via getOwnedObjects
+ *   with a StructType filter. A user normally holds one, but positions are summed over every cap they own.
+ * - Net principal = sum of AssetSupplied − AssetWithdrawn events emitted by the transactions that used
+ *   each cap (queryTransactionBlocks with an InputObject filter, so only the user's own history is read);
+ *   accrued interest = current amount − net principal. Null when that history is longer than the scan cap.
+ * Supply APR = borrow rate × utilization × (1 − protocol spread).
+ * @see https://docs.sui.io/standards/deepbook-margin-sdk/margin-pool
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetMarginPools,
+  mainnetPackageIds,
+  mainnetPools,
+  testnetCoins,
+  testnetMarginPools,
+  testnetPackageIds,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import type { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { getSuiClient } from "./rpc-provider.js";
+
+/** Mainnet pools offered for lending (the margin trading assets). Testnet lists every margin pool. */
+const MAINNET_LENDING_COIN_KEYS = ["SUI", "USDC", "DEEP", "WAL"];
+
+/** Cap on transactions scanned per SupplierCap for principal; longer history leaves principal null. */
+const MAX_CAP_TRANSACTIONS = 500;
+
+export type MarginPoolLendingParams = {
+  /** Omit for pool figures only. */
+  owner?: string;
+  network?: "mainnet" | "testnet";
+};
+
+export type MarginPoolLendingEntry = {
+  coinKey: string;
+  marginPoolId: string;
+  coinType: string;
+  totalSupply: number;
+  totalBorrow: number;
+  supplyCap: number;
+  /** totalBorrow / totalSupply (0–1). */
+  utilization: number;
+  /** Protocol cap on utilization (0–1); borrows beyond it fail. */
+  maxUtilizationRate: number;
+  /** Annual borrow rate (0.05 = 5%). */
+  borrowApr: number;
+  protocolSpread: number;
+  /** Annual rate earned by suppliers. */
+  supplyApr: number;
+  position: {
+    shares: number;
+    amount: number;
+    /** Supplied − withdrawn; null when not derivable from events. */
+    principal: number | null;
+    interestEarned: number | null;
+  } | null;
+};
+
+export type MarginPoolLendingResult = {
+  /** Cap new supplies go to (the first owned); null when the user has none. */
+  supplierCapId: string | null;
+  /** Every SupplierCap the user owns; positions are summed over all of them. */
+  supplierCapIds: string[];
+  pools: MarginPoolLendingEntry[];
+};
+
+export function getLendingCoinKeys(network: "mainnet" | "testnet"): string[] {
+  return network === "mainnet"
+    ? MAINNET_LENDING_COIN_KEYS.filter((k) => k in mainnetMarginPools)
+    : Object.keys(testnetMarginPools);
+}
+
+/**
+ * Package that defined the margin types. Struct and event types keep the original package id across
+ * upgrades, so filters use MARGIN_V1 rather than the latest MARGIN_PACKAGE_ID.
+ */
+function getMarginTypesPackageId(network: "mainnet" | "testnet"): string {
+  return network === "mainnet" ? mainnetPackageIds.MARGIN_V1 : testnetPackageIds.MARGIN_V1;
+}
+
+/** Every SupplierCap owned by the address, in getOwnedObjects order. */
+export async function findSupplierCapIds(
+  owner: string,
+  network: "mainnet" | "testnet" = "mainnet"
+): Promise<string[]> {
+  const client = getSuiClient(network);
+  const ids: string[] = [];
+  let cursor: string | null | undefined = null;
+  do {
+    const { data, nextCursor, hasNextPage } = await client.getOwnedObjects({
+      owner,
+      filter: {
+        StructType: `${getMarginTypesPackageId(network)}::margin_pool::SupplierCap`,
+      },
+      options: { showType: true },
+      cursor,
+    });
+    for (const o of data ?? []) {
+      if (o.data?.objectId) ids.push(o.data.objectId);
+    }
+    cursor = hasNextPage ? nextCursor : null;
+  } while (cursor);
+  return ids;
+}
+
+/**
+ * First SupplierCap owned by the address, or null. New supplies reuse this one cap rather than minting
+ * more; reads and withdrawals go over every cap (findSupplierCapIds).
+ */
+export async function findSupplierCapId(
+  owner: string,
+  network: "mainnet" | "testnet" = "mainnet"
+): Promise<string | null> {
+  return (await findSupplierCapIds(owner, network))[0] ?? null;
+}
+
+type SupplyTotals = { supplied: bigint; withdrawn: bigint };
+
+type CapSupplyHistory = { totals: Map<string, SupplyTotals>; complete: boolean };
+
+/**
+ * Sum AssetSupplied / AssetWithdrawn raw amounts per margin pool for one supplier cap, reading only the
+ * transactions that took the cap as input. complete is false when MAX_CAP_TRANSACTIONS was reached.
+ */
+async function supplyTotalsForCap(
+  client: SuiJsonRpcClient,
+  network: "mainnet" | "testnet",
+  supplierCapId: string
+): Promise<CapSupplyHistory> {
+  const eventPrefix = `${getMarginTypesPackageId(network)}::margin_pool::`;
+  const totals = new Map<string, SupplyTotals>();
+  let cursor: string | null | undefined = null;
+  let scanned = 0;
+  do {
+    const { data, nextCursor, hasNextPage } = await client.queryTransactionBlocks({
+      filter: { InputObject: supplierCapId },
+      options: { showEvents: true },
+      limit: 50,
+      cursor,
+    });
+    for (const txb of data ?? []) {
+      for (const e of txb.events ?? []) {
+        const supplied = e.type === `${eventPrefix}AssetSupplied`;
+        if (!supplied && e.type !== `${eventPrefix}AssetWithdrawn`) continue;
+        const p = e.parsedJson as Record<string, unknown> | undefined;
+        if (!p || String(p.supplier) !== supplierCapId) continue;
+        const poolId = String(p.margin_pool_id);
+        const amount = BigInt(
+          String((supplied ? p.supply_amount : p.withdraw_amount) ?? p.amount ?? 0)
+        );
+        const t = totals.get(poolId) ?? { supplied: 0n, withdrawn: 0n };
+        if (supplied) t.supplied += amount;
+        else t.withdrawn += amount;
+        totals.set(poolId, t);
+      }
+    }
+    scanned += data?.length ?? 0;
+    cursor = hasNextPage ? nextCursor : null;
+  } while (cursor && scanned < MAX_CAP_TRANSACTIONS);
+  return { totals, complete: cursor == null };
+}
+
+/** Per-pool totals summed over all of the user's caps; complete only when every cap's history was read. */
+async function supplyTotalsByPool(
+  client: SuiJsonRpcClient,
+  network: "mainnet" | "testnet",
+  supplierCapIds: string[]
+): Promise<CapSupplyHistory> {
+  const perCap = await Promise.all(
+    supplierCapIds.map((id) => supplyTotalsForCap(client, network, id))
+  );
+  const totals = new Map<string, SupplyTotals>();
+  for (const history of perCap) {
+    for (const [poolId, t] of history.totals) {
+      const sum = totals.get(poolId) ?? { supplied: 0n, withdrawn: 0n };
+      sum.supplied += t.supplied;
+      sum.withdrawn += t.withdrawn;
+      totals.set(poolId, sum);
+    }
+  }
+  return { totals, complete: perCap.every((h) => h.complete) };
+}
+
+export async function fetchMarginPoolLending(
+  params: MarginPoolLendingParams
+): Promise<MarginPoolLendingResult> {
+  const { owner, network = "mainnet" } = params;
+  const client = getSuiClient(network);
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+  const marginPools = network === "mainnet" ? mainnetMarginPools : testnetMarginPools;
+
+  const extended = client.$extend(
+    deepbook({ address: owner ?? normalizeSuiAddress("0x0"), pools, coins })
+  );
+  const db = extended.deepbook;
+
+  const supplierCapIds = owner ? await findSupplierCapIds(owner, network) : [];
+  const history =
+    supplierCapIds.length > 0
+      ? await supplyTotalsByPool(client, network, supplierCapIds).catch((err) => {
+          console.warn("[margin-pool-lending] supply history failed", err);
+          return null;
+        })
+      : null;
+
+  const entries = await Promise.all(
+    getLendingCoinKeys(network).map(async (coinKey): Promise<MarginPoolLendingEntry> => {
+      const marginPool = marginPools[coinKey as keyof typeof marginPools];
+      const [
+        totalSupply,
+        totalBorrow,
+        supplyCap,
+        maxUtilizationRate,
+        borrowApr,
+        protocolSpread,
+      ] = await Promise.all([
+        db.getMarginPoolTotalSupply(coinKey),
+        db.getMarginPoolTotalBorrow(coinKey),
+        db.getMarginPoolSupplyCap(coinKey),
+        db.getMarginPoolMaxUtilizationRate(coinKey),
+        db.getMarginPoolInterestRate(coinKey),
+        db.getMarginPoolProtocolSpread(coinKey),
+      ]);
+      const supply = Number(totalSupply);
+      const borrow = Number(totalBorrow);
+      const utilization = supply > 0 ? borrow / supply : 0;
+
+      let position: MarginPoolLendingEntry["position"] = null;
+      if (supplierCapIds.length > 0) {
+        const perCap = await Promise.all(
+          supplierCapIds.map((capId) =>
+            Promise.all([
+              db.getUserSupplyShares(coinKey, capId),
+              db.getUserSupplyAmount(coinKey, capId),
+            ])
+          )
+        );
+        const shares = perCap.reduce((sum, [s]) => sum + Number(s), 0);
+        const amount = perCap.reduce((sum, [, a]) => sum + Number(a), 0);
+        const scalar = coins[coinKey as keyof typeof coins]?.scalar ?? 1;
+        const t = history?.totals.get(marginPool.address) ?? { supplied: 0n, withdrawn: 0n };
+        const principal =
+          history?.complete ? Number(t.supplied - t.withdrawn) / scalar : null;
+        position = {
+          shares,
+          amount,
+          principal,
+          interestEarned:
+            principal != null ? Math.max(0, amount - principal) : null,
+        };
+      }
+
+      return {
+        coinKey,
+        marginPoolId: marginPool.address,
+        coinType: marginPool.type,
+        totalSupply: supply,
+        totalBorrow: borrow,
+        supplyCap: Number(supplyCap),
+        utilization,
+        maxUtilizationRate,
+        borrowApr,
+        protocolSpread,
+        supplyApr: borrowApr * utilization * (1 - protocolSpread),
+        position,
+      };
+    })
+  );
+
+  return { supplierCapId: supplierCapIds[0] ?? null, supplierCapIds, pools: entries };
+}
@@ -0,0 +1,167 @@
+/**
+ * Current borrow / supply rates of DeepBook margin pools, computed from each pool's interest-rate model
+ * and utilization:
+ *   borrow APR = base_rate + base_slope × min(u, optimal) + excess_slope × max(0, u − optimal)
+ *   supply APR = borrow APR × u × (1 − protocol spread)
+ * The model (interest_config) is read from the MarginPool object; when it can't be decoded we fall back to
+ * the pool's on-chain interest_rate so callers always get a rate.
+ * @see https://docs.sui.io/standards/deepbook-margin-sdk/margin-pool
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetMarginPools,
+  mainnetPools,
+  testnetCoins,
+  testnetMarginPools,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { getLendingCoinKeys } from "./fetch-margin-pool-lending.js";
+import { getSuiClient, type SuiNetwork } from "./rpc-provider.js";
+
+/** Rates and ratios on chain are u64 scaled by 1e9. */
+const FLOAT_SCALAR = 1e9;
+
+export type InterestRateModel = {
+  baseRate: number;
+  baseSlope: number;
+  optimalUtilization: number;
+  excessSlope: number;
+};
+
+export type MarginPoolRates = {
+  coinKey: string;
+  marginPoolId: string;
+  /** totalBorrow / totalSupply (0–1). */
+  utilization: number;
+  /** Annual rates as fractions (0.05 = 5%). */
+  borrowApr: number;
+  supplyApr: number;
+  protocolSpread: number;
+  totalSupply: number;
+  totalBorrow: number;
+  /** Null when the pool object's interest_config could not be decoded (borrowApr is the on-chain rate). */
+  model: InterestRateModel | null;
+  timestamp: number;
+};
+
+export function borrowRateAt(model: InterestRateModel, utilization: number): number {
+  const u = Math.max(0, Math.min(1, utilization));
+  const optimal = model.optimalUtilization;
+  return (
+    model.baseRate +
+    model.baseSlope * Math.min(u, optimal) +
+    model.excessSlope * Math.max(0, u - optimal)
+  );
+}
+
+/** Depth-first search for a struct field by name in getObject content (fields may be nested under .fields). */
+function findField(value: unknown, name: string, depth = 0): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || depth > 6) return null;
+  const obj = value as Record<string, unknown>;
+  const fields = (obj.fields as Record<string, unknown> | undefined) ?? obj;
+  if (name in fields) {
+    const hit = fields[name] as Record<string, unknown> | undefined;
+    return (hit?.fields as Record<string, unknown> | undefined) ?? hit ?? null;
+  }
+  for (const child of Object.values(fields)) {
+    const found = findField(child, name, depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+async function readInterestRateModel(
+  network: SuiNetwork,
+  marginPoolId: string
+): Promise<InterestRateModel | null> {
+  const obj = await getSuiClient(network).getObject({
+    id: marginPoolId,
+    options: { showContent: true },
+  });
+  const config = findField(obj.data?.content, "interest_config");
+  if (!config) return null;
+  const read = (key: string): number | null => {
+    const n = Number(config[key]);
+    return Number.isFinite(n) ? n / FLOAT_SCALAR : null;
+  };
+  const baseRate = read("base_rate");
+  const baseSlope = read("base_slope");
+  const optimalUtilization = read("optimal_utilization");
+  const excessSlope = read("excess_slope");
+  if (baseRate == null || baseSlope == null || optimalUtilization == null || excessSlope == null) {
+    return null;
+  }
+  return { baseRate, baseSlope, optimalUtilization, excessSlope };
+}
+
+export async function fetchMarginPoolRates(
+  coinKey: string,
+  network: SuiNetwork = "mainnet"
+): Promise<MarginPoolRates> {
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+  const marginPools = network === "mainnet" ? mainnetMarginPools : testnetMarginPools;
+  const marginPool = marginPools[coinKey as keyof typeof marginPools];
+  if (!marginPool) {
+    throw new Error(
+      `Unknown margin pool: ${coinKey}. Valid keys: ${Object.keys(marginPools).join(", ")}`
+    );
+  }
+
+  const db = getSuiClient(network).$extend(
+    deepbook({ address: normalizeSuiAddress("0x0"), pools, coins })
+  ).deepbook;
+  const [totalSupply, totalBorrow, protocolSpread, chainRate, model] = await Promise.all([
+    db.getMarginPoolTotalSupply(coinKey),
+    db.getMarginPoolTotalBorrow(coinKey),
+    db.getMarginPoolProtocolSpread(coinKey),
+    db.getMarginPoolInterestRate(coinKey),
+    readInterestRateModel(network, marginPool.address).catch((err) => {
+      console.warn(`[margin-pool-rates] interest_config read failed (${coinKey})`, err);
+      return null;
+    }),
+  ]);
+  const supply = Number(totalSupply);
+  const borrow = Number(totalBorrow);
+  const utilization = supply > 0 ? Math.min(1, borrow / supply) : 0;
+  const borrowApr = model ? borrowRateAt(model, utilization) : chainRate;
+
+  return {
+    coinKey,
+    marginPoolId: marginPool.address,
+    utilization,
+    borrowApr,
+    supplyApr: borrowApr * utilization * (1 - protocolSpread),
+    protocolSpread,
+    totalSupply: supply,
+    totalBorrow: borrow,
+    model,
+    timestamp: Date.now(),
+  };
+}
+
+/** Rates for every lending pool on the network; pools that fail to load are skipped. */
+export async function fetchAllMarginPoolRates(
+  network: SuiNetwork = "mainnet"
+): Promise<MarginPoolRates[]> {
+  const results = await Promise.allSettled(
+    getLendingCoinKeys(network).map((coinKey) => fetchMarginPoolRates(coinKey, network))
+  );
+  return results.flatMap((r) => (r.status === "fulfilled" ? [r.value] : []));
+}
+
+/** Resolve a margin pool coin key from a coin key (e.g. USDC) or a margin pool object id. */
+export function resolveMarginPoolCoinKey(idOrKey: string, network: SuiNetwork): string | null {
+  const marginPools = network === "mainnet" ? mainnetMarginPools : testnetMarginPools;
+  const upper = idOrKey.toUpperCase();
+  if (upper in marginPools) return upper;
+  const normalized = idOrKey.startsWith("0x") ? normalizeSuiAddress(idOrKey) : null;
+  if (!normalized) return null;
+  for (const [key, pool] of Object.entries(marginPools)) {
+    if (normalizeSuiAddress(pool.address) === normalized) return key;
+  }
+  return null;
+}
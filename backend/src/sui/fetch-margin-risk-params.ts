@@ -0,0 +1,93 @@
+/**
+ * Read a margin pool's risk parameters from the MarginRegistry via @mysten/deepbook-v3 read-only calls:
+ * liquidation, min-withdraw, min-borrow and target-liquidation risk ratios plus liquidation rewards.
+ * These change only by governance, so results are cached per network + pool for RISK_PARAMS_TTL_MS.
+ * @see https://docs.sui.io/standards/deepbook-margin-sdk/margin-manager
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetPools,
+  testnetCoins,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { getSuiClient } from "./rpc-provider.js";
+
+const RISK_PARAMS_TTL_MS = 5 * 60_000;
+
+export type MarginRiskParamsParams = {
+  poolKey: string;
+  network?: "mainnet" | "testnet";
+};
+
+export type MarginRiskParams = {
+  pool_key: string;
+  /** Below this risk ratio the manager can be liquidated. */
+  liquidationRiskRatio: number;
+  /** Withdrawals must leave the risk ratio at or above this. */
+  minWithdrawRiskRatio: number;
+  /** Borrows must leave the risk ratio at or above this. */
+  minBorrowRiskRatio: number;
+  /** Liquidations repay debt until the risk ratio reaches this. */
+  targetLiquidationRiskRatio: number;
+  userLiquidationReward: number;
+  poolLiquidationReward: number;
+  source: "chain";
+};
+
+const cache = new Map<string, { value: MarginRiskParams; expiresAt: number }>();
+
+export async function fetchMarginRiskParams(
+  params: MarginRiskParamsParams
+): Promise<MarginRiskParams> {
+  const { poolKey, network = "mainnet" } = params;
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+
+  if (!(poolKey in pools)) {
+    throw new Error(
+      `Unknown pool key: ${poolKey}. Valid keys include: ${Object.keys(pools)
+        .slice(0, 10)
+        .join(", ")}`
+    );
+  }
+
+  const key = `${network}|${poolKey}`;
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+  const extended = getSuiClient(network).$extend(
+    deepbook({ address: normalizeSuiAddress("0x0"), pools, coins })
+  );
+  const db = extended.deepbook;
+  const [
+    liquidationRiskRatio,
+    minWithdrawRiskRatio,
+    minBorrowRiskRatio,
+    targetLiquidationRiskRatio,
+    userLiquidationReward,
+    poolLiquidationReward,
+  ] = await Promise.all([
+    db.getLiquidationRiskRatio(poolKey),
+    db.getMinWithdrawRiskRatio(poolKey),
+    db.getMinBorrowRiskRatio(poolKey),
+    db.getTargetLiquidationRiskRatio(poolKey),
+    db.getUserLiquidationReward(poolKey),
+    db.getPoolLiquidationReward(poolKey),
+  ]);
+
+  const value: MarginRiskParams = {
+    pool_key: poolKey,
+    liquidationRiskRatio,
+    minWithdrawRiskRatio,
+    minBorrowRiskRatio,
+    targetLiquidationRiskRatio,
+    userLiquidationReward,
+    poolLiquidationReward,
+    source: "chain",
+  };
+  cache.set(key, { value, expiresAt: Date.now() + RISK_PARAMS_TTL_MS });
+  return value;
+}
@@ -0,0 +1,175 @@
+/**
+ * Margin-enabled DeepBook pools with their trading parameters, all read from chain so new pairs show up
+ * without an app release:
+ * - Candidates: SDK pools whose base and quote both have a margin pool; kept when the MarginRegistry
+ *   reports the pool enabled for margin (isPoolEnabledForMargin).
+ * - Book params (tick size, lot size, min size) from poolBookParams.
+ * - Coin metadata (symbol, decimals, name, icon) from getCoinMetadata, falling back to the SDK coin scalar.
+ * - Max leverage from the registry's min-borrow risk ratio R: a position can be levered until
+ *   assets / debt = R, i.e. leverage = R / (R − 1).
+ * Results are cached per network for POOLS_TTL_MS.
+ * @see https://docs.sui.io/standards/deepbook-margin-sdk/margin-manager
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetMarginPools,
+  mainnetPools,
+  testnetCoins,
+  testnetMarginPools,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { fetchMarginRiskParams } from "./fetch-margin-risk-params.js";
+import { getSuiClient, type SuiNetwork } from "./rpc-provider.js";
+
+const POOLS_TTL_MS = 10 * 60_000;
+
+export type PoolCoinMetadata = {
+  /** SDK coin key (e.g. USDC). */
+  key: string;
+  type: string;
+  symbol: string;
+  name: string | null;
+  decimals: number;
+  iconUrl: string | null;
+};
+
+export type PoolMetadata = {
+  /** Pool key (e.g. SUI_USDC). */
+  poolKey: string;
+  poolId: string;
+  base: PoolCoinMetadata;
+  quote: PoolCoinMetadata;
+  /** Human units: price step in quote, quantity step and minimum order in base. */
+  tickSize: number;
+  lotSize: number;
+  minSize: number;
+  baseMarginPoolId: string;
+  quoteMarginPoolId: string;
+  /** Whole-number leverage allowed by the registry's min-borrow risk ratio. */
+  maxLeverage: number;
+  liquidationRiskRatio: number;
+  minWithdrawRiskRatio: number;
+  minBorrowRiskRatio: number;
+};
+
+export type PoolsResult = {
+  network: SuiNetwork;
+  pools: PoolMetadata[];
+  updatedAt: number;
+  source: "chain";
+};
+
+const cache = new Map<SuiNetwork, { value: PoolsResult; expiresAt: number }>();
+/** In-flight loads so concurrent requests share one set of chain reads. */
+const inflight = new Map<SuiNetwork, Promise<PoolsResult>>();
+
+/** leverage = R / (R − 1), floored with a little float tolerance (1.25 → 5×, 1.5 → 3×). */
+export function maxLeverageFromRiskRatio(minBorrowRiskRatio: number): number {
+  if (!(minBorrowRiskRatio > 1)) return 1;
+  return Math.max(1, Math.floor(minBorrowRiskRatio / (minBorrowRiskRatio - 1) + 1e-9));
+}
+
+async function loadPools(network: SuiNetwork): Promise<PoolsResult> {
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+  const marginPools = network === "mainnet" ? mainnetMarginPools : testnetMarginPools;
+  const client = getSuiClient(network);
+  const db = client.$extend(
+    deepbook({ address: normalizeSuiAddress("0x0"), pools, coins })
+  ).deepbook;
+
+  const coinMetadata = new Map<string, Promise<PoolCoinMetadata>>();
+  const readCoin = (key: string): Promise<PoolCoinMetadata> => {
+    let pending = coinMetadata.get(key);
+    if (!pending) {
+      const coin = coins[key as keyof typeof coins];
+      const fallbackDecimals = Math.round(Math.log10(coin.scalar));
+      pending = client
+        .getCoinMetadata({ coinType: coin.type })
+        .then((meta) => ({
+          key,
+          type: coin.type,
+          symbol: meta?.symbol ?? key,
+          name: meta?.name ?? null,
+          decimals: meta?.decimals ?? fallbackDecimals,
+          iconUrl: meta?.iconUrl ?? null,
+        }))
+        .catch((err) => {
+          console.warn(`[pools] coin metadata failed (${key})`, err);
+          return {
+            key,
+            type: coin.type,
+            symbol: key,
+            name: null,
+            decimals: fallbackDecimals,
+            iconUrl: null,
+          };
+        });
+      coinMetadata.set(key, pending);
+    }
+    return pending;
+  };
+
+  const candidates = Object.entries(pools).filter(
+    ([, p]) => p.baseCoin in marginPools && p.quoteCoin in marginPools
+  );
+  const results = await Promise.allSettled(
+    candidates.map(async ([poolKey, pool]): Promise<PoolMetadata | null> => {
+      if (!(await db.isPoolEnabledForMargin(poolKey))) return null;
+      const [book, risk, base, quote] = await Promise.all([
+        db.poolBookParams(poolKey),
+        fetchMarginRiskParams({ poolKey, network }),
+        readCoin(pool.baseCoin),
+        readCoin(pool.quoteCoin),
+      ]);
+      return {
+        poolKey,
+        poolId: pool.address,
+        base,
+        quote,
+        tickSize: book.tickSize,
+        lotSize: book.lotSize,
+        minSize: book.minSize,
+        baseMarginPoolId: marginPools[pool.baseCoin as keyof typeof marginPools].address,
+        quoteMarginPoolId: marginPools[pool.quoteCoin as keyof typeof marginPools].address,
+        maxLeverage: maxLeverageFromRiskRatio(risk.minBorrowRiskRatio),
+        liquidationRiskRatio: risk.liquidationRiskRatio,
+        minWithdrawRiskRatio: risk.minWithdrawRiskRatio,
+        minBorrowRiskRatio: risk.minBorrowRiskRatio,
+      };
+    })
+  );
+
+  const loaded: PoolMetadata[] = [];
+  for (const [i, r] of results.entries()) {
+    if (r.status === "fulfilled") {
+      if (r.value) loaded.push(r.value);
+    } else {
+      console.warn(`[pools] ${candidates[i][0]} failed`, r.reason);
+    }
+  }
+  if (loaded.length === 0 && results.some((r) => r.status === "rejected")) {
+    throw new Error("Could not read any margin pool from chain");
+  }
+  loaded.sort((a, b) => a.poolKey.localeCompare(b.poolKey));
+  return { network, pools: loaded, updatedAt: Date.now(), source: "chain" };
+}
+
+export async function fetchPools(network: SuiNetwork = "mainnet"): Promise<PoolsResult> {
+  const cached = cache.get(network);
+  if (cached && cached.expiresAt > Date.now()) return cached.value;
+  let pending = inflight.get(network);
+  if (!pending) {
+    pending = loadPools(network)
+      .then((value) => {
+        cache.set(network, { value, expiresAt: Date.now() + POOLS_TTL_MS });
+        return value;
+      })
+      .finally(() => inflight.delete(network));
+    inflight.set(network, pending);
+  }
+  return pending;
+}
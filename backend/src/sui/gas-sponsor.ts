@@ -0,0 +1,285 @@
+/**
+ * Optional gas sponsorship (gas station) for users who hold no SUI, e.g. right after bridging USDC from Base.
+ * - Sponsor key: SPONSOR_PRIVATE_KEY (suiprivkey1... bech32). Unset = sponsorship disabled.
+ * - prepare-* routes with `sponsored: true` build with the sponsor as gas owner (buildSponsoredTransaction);
+ *   execute-* routes re-validate the bytes, co-sign as sponsor and submit both signatures.
+ * - Guards: the tx must call the DeepBook or margin package at least once, every MoveCall must hit an
+ *   allowlisted target (those packages, the few 0x2 functions the SDK emits, extend with
+ *   SPONSOR_ALLOWED_TARGETS), the sponsor's gas coin may not be used as a PTB argument, and each sender has a
+ *   daily budget (SPONSOR_DAILY_BUDGET_MIST). Co-signing reserves the tx's full gas budget against it, so
+ *   parallel submissions cannot overspend; settleSponsoredGas swaps the reservation for the gas actually used.
+ *   Usage is kept in memory and resets at UTC midnight or restart.
+ * @see https://docs.sui.io/concepts/transactions/sponsored-transactions
+ */
+
+import {
+  mainnetPackageIds,
+  testnetPackageIds,
+} from "@mysten/deepbook-v3";
+import type { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { decodeSuiPrivateKey } from "@mysten/sui/cryptography";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+/** 0.05 SUI per sender per UTC day unless SPONSOR_DAILY_BUDGET_MIST is set. */
+const DEFAULT_DAILY_BUDGET_MIST = 50_000_000n;
+
+/**
+ * Framework functions the DeepBook SDK emits: coinWithBalance resolution (zero coins, address-balance
+ * redeems, returning leftovers to the sender) and sharing a new BalanceManager.
+ */
+const FRAMEWORK_TARGETS = [
+  "0x2::coin::zero",
+  "0x2::coin::redeem_funds",
+  "0x2::coin::into_balance",
+  "0x2::coin::send_funds",
+  "0x2::coin::destroy_zero",
+  "0x2::balance::zero",
+  "0x2::balance::redeem_funds",
+  "0x2::transfer::public_share_object",
+];
+
+export type SponsorStatus = {
+  enabled: boolean;
+  sponsorAddress: string | null;
+  dailyBudgetMist: string;
+  spentTodayMist: string;
+  remainingMist: string;
+};
+
+type UsageEntry = { day: string; spentMist: bigint };
+
+/** Gas budget held against a sender's daily budget between co-signing and execution. */
+export type SponsorReservation = { sender: string; day: string; mist: bigint };
+
+export type SponsoredGasUsed = {
+  computationCost: string;
+  storageCost: string;
+  storageRebate: string;
+};
+
+const usageBySender = new Map<string, UsageEntry>();
+let cachedKeypair: Ed25519Keypair | null | undefined;
+
+function getSponsorKeypair(): Ed25519Keypair | null {
+  if (cachedKeypair !== undefined) return cachedKeypair;
+  const raw = process.env.SPONSOR_PRIVATE_KEY?.trim();
+  if (!raw) {
+    cachedKeypair = null;
+    return null;
+  }
+  const { scheme, secretKey } = decodeSuiPrivateKey(raw);
+  if (scheme !== "ED25519") {
+    throw new Error(`SPONSOR_PRIVATE_KEY must be an ED25519 key (got ${scheme})`);
+  }
+  cachedKeypair = Ed25519Keypair.fromSecretKey(secretKey);
+  return cachedKeypair;
+}
+
+function requireSponsorKeypair(): Ed25519Keypair {
+  const keypair = getSponsorKeypair();
+  if (!keypair) {
+    throw new Error("Gas sponsorship is not enabled on this server");
+  }
+  return keypair;
+}
+
+function dailyBudgetMist(): bigint {
+  const raw = process.env.SPONSOR_DAILY_BUDGET_MIST?.trim();
+  return raw ? BigInt(raw) : DEFAULT_DAILY_BUDGET_MIST;
+}
+
+function utcDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function spentToday(sender: string): bigint {
+  const entry = usageBySender.get(normalizeSuiAddress(sender));
+  return entry && entry.day === utcDay() ? entry.spentMist : 0n;
+}
+
+function adjustSpentToday(sender: string, deltaMist: bigint): void {
+  const spent = spentToday(sender) + deltaMist;
+  usageBySender.set(normalizeSuiAddress(sender), {
+    day: utcDay(),
+    spentMist: spent > 0n ? spent : 0n,
+  });
+}
+
+function normalizeTarget(target: string): string {
+  const [pkg, ...rest] = target.split("::");
+  return [normalizeSuiAddress(pkg), ...rest].join("::");
+}
+
+/** DeepBook and margin packages; a sponsored tx must call one of them at least once. */
+function deepbookPackages(network: "mainnet" | "testnet"): string[] {
+  const ids = network === "mainnet" ? mainnetPackageIds : testnetPackageIds;
+  return [ids.DEEPBOOK_PACKAGE_ID, ids.MARGIN_PACKAGE_ID, ids.MARGIN_V1].map(normalizeTarget);
+}
+
+/** Allowed MoveCall targets as "package", "package::module" or "package::module::function". */
+function allowedTargets(network: "mainnet" | "testnet"): string[] {
+  const extra = (process.env.SPONSOR_ALLOWED_TARGETS ?? "")
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+  return [
+    ...deepbookPackages(network),
+    ...[...FRAMEWORK_TARGETS, ...extra].map(normalizeTarget),
+  ];
+}
+
+function isTargetAllowed(
+  target: { package: string; module: string; function: string },
+  allowlist: string[]
+): boolean {
+  const pkg = normalizeSuiAddress(target.package);
+  return allowlist.some((entry) => {
+    const [allowedPkg, allowedModule, allowedFn] = entry.split("::");
+    if (allowedPkg !== pkg) return false;
+    if (allowedModule && allowedModule !== target.module) return false;
+    if (allowedFn && allowedFn !== target.function) return false;
+    return true;
+  });
+}
+
+/** True if any PTB argument references the gas coin (which belongs to the sponsor). */
+function usesGasCoin(value: unknown): boolean {
+  if (Array.isArray(value)) return value.some(usesGasCoin);
+  if (value && typeof value === "object") {
+    if ((value as { $kind?: string }).$kind === "GasCoin") return true;
+    return Object.values(value).some(usesGasCoin);
+  }
+  return false;
+}
+
+export function getSponsorStatus(sender: string): SponsorStatus {
+  const keypair = getSponsorKeypair();
+  const budget = dailyBudgetMist();
+  const spent = sender ? spentToday(sender) : 0n;
+  const remaining = budget > spent ? budget - spent : 0n;
+  return {
+    enabled: keypair != null,
+    sponsorAddress: keypair?.toSuiAddress() ?? null,
+    dailyBudgetMist: budget.toString(),
+    spentTodayMist: spent.toString(),
+    remainingMist: remaining.toString(),
+  };
+}
+
+/** True when the tx bytes name a gas owner other than the sender. */
+export function isSponsoredTransaction(txBytes: Uint8Array): boolean {
+  const { sender, gasData } = Transaction.from(txBytes).getData();
+  return (
+    gasData.owner != null &&
+    sender != null &&
+    normalizeSuiAddress(gasData.owner) !== normalizeSuiAddress(sender)
+  );
+}
+
+/**
+ * Check built tx bytes against the sponsor's rules: sponsor is gas owner, at least one DeepBook / margin
+ * MoveCall, only allowlisted Move targets, no gas coin arguments, and the gas budget fits in the sender's
+ * remaining daily budget.
+ */
+export function validateSponsoredTransaction(
+  txBytes: Uint8Array,
+  network: "mainnet" | "testnet"
+): { sender: string; gasBudgetMist: bigint } {
+  const keypair = requireSponsorKeypair();
+  const data = Transaction.from(txBytes).getData();
+  const sponsorAddress = keypair.toSuiAddress();
+
+  if (!data.sender) throw new Error("Sponsored transaction has no sender");
+  if (
+    !data.gasData.owner ||
+    normalizeSuiAddress(data.gasData.owner) !== normalizeSuiAddress(sponsorAddress)
+  ) {
+    throw new Error("Transaction gas owner is not this server's sponsor");
+  }
+
+  const allowlist = allowedTargets(network);
+  const packages = deepbookPackages(network);
+  let callsDeepbook = false;
+  for (const command of data.commands) {
+    if (command.$kind === "MoveCall" && command.MoveCall) {
+      const target = command.MoveCall;
+      if (packages.includes(normalizeSuiAddress(target.package))) callsDeepbook = true;
+      if (!isTargetAllowed(target, allowlist)) {
+        throw new Error(
+          `Move target not eligible for gas sponsorship: ${target.package}::${target.module}::${target.function}`
+        );
+      }
+    } else if (command.$kind === "Publish" || command.$kind === "Upgrade") {
+      throw new Error("Publish / upgrade transactions are not eligible for gas sponsorship");
+    }
+  }
+  if (!callsDeepbook) {
+    throw new Error("Only DeepBook and margin transactions are eligible for gas sponsorship");
+  }
+  if (usesGasCoin(data.commands)) {
+    throw new Error("Sponsored transactions cannot spend the gas coin; pay with a non-gas coin");
+  }
+
+  const gasBudgetMist = BigInt(data.gasData.budget ?? 0);
+  const remaining = dailyBudgetMist() - spentToday(data.sender);
+  if (gasBudgetMist > remaining) {
+    throw new Error(
+      `Daily gas sponsorship budget exceeded for ${data.sender} (remaining ${remaining > 0n ? remaining : 0n} MIST, needs ${gasBudgetMist})`
+    );
+  }
+  return { sender: data.sender, gasBudgetMist };
+}
+
+/** Build `tx` with the sponsor as gas owner and validate the result. Use instead of tx.build in prepare-*. */
+export async function buildSponsoredTransaction(
+  tx: Transaction,
+  client: SuiJsonRpcClient,
+  network: "mainnet" | "testnet"
+): Promise<Uint8Array> {
+  const keypair = requireSponsorKeypair();
+  tx.setGasOwner(keypair.toSuiAddress());
+  const txBytes = await tx.build({ client });
+  validateSponsoredTransaction(txBytes, network);
+  return txBytes;
+}
+
+/**
+ * Re-validate, reserve the tx's gas budget against the sender's daily budget (before any await, so
+ * concurrent calls see each other's reservations) and sign as sponsor. Returns the serialized sponsor
+ * signature to submit alongside the sender's; pass the reservation to settleSponsoredGas afterwards.
+ */
+export async function cosignSponsoredTransaction(
+  txBytes: Uint8Array,
+  network: "mainnet" | "testnet"
+): Promise<{ sender: string; signature: string; reservation: SponsorReservation }> {
+  const { sender, gasBudgetMist } = validateSponsoredTransaction(txBytes, network);
+  const reservation: SponsorReservation = { sender, day: utcDay(), mist: gasBudgetMist };
+  adjustSpentToday(sender, gasBudgetMist);
+  try {
+    const { signature } = await requireSponsorKeypair().signTransaction(txBytes);
+    return { sender, signature, reservation };
+  } catch (err) {
+    settleSponsoredGas(reservation);
+    throw err;
+  }
+}
+
+/**
+ * Replace a reservation with the gas actually used (computation + storage - rebate). Without gasUsed
+ * (submission failed before producing effects) the reservation is released. A reservation from a previous
+ * UTC day was already reset with that day's usage, so only the actual gas is charged then.
+ */
+export function settleSponsoredGas(
+  reservation: SponsorReservation,
+  gasUsed?: SponsoredGasUsed
+): void {
+  const held = reservation.day === utcDay() ? reservation.mist : 0n;
+  const net = gasUsed
+    ? BigInt(gasUsed.computationCost) +
+      BigInt(gasUsed.storageCost) -
+      BigInt(gasUsed.storageRebate)
+    : 0n;
+  adjustSpentToday(reservation.sender, (net > 0n ? net : 0n) - held);
+}
@@ -0,0 +1,113 @@
+/**
+ * Periodic snapshots of margin pool rates (utilization, borrow / supply APR) in a local SQLite file, so the
+ * app can chart what leverage has cost over time.
+ * - Storage is a sqlite-store.ts file (Node's built-in node:sqlite, Node >= 22.13). On older runtimes
+ *   history is disabled (logged at startup) and current rates keep working.
+ * - startMarginRateSnapshots records every lending pool on the given networks every
+ *   MARGIN_RATES_INTERVAL_MS (default 15 min); MARGIN_RATES_DB_PATH sets the file
+ *   (default data/margin-rates.db under the backend working directory).
+ */
+
+import { fetchAllMarginPoolRates, type MarginPoolRates } from "./fetch-margin-pool-rates.js";
+import type { SuiNetwork } from "./rpc-provider.js";
+import { sqliteStore } from "./sqlite-store.js";
+
+const DEFAULT_DB_PATH = "data/margin-rates.db";
+const DEFAULT_INTERVAL_MS = 15 * 60_000;
+/** Max points returned per history query; longer ranges are thinned evenly. */
+const MAX_HISTORY_POINTS = 2_000;
+
+export type MarginRateSnapshot = {
+  timestamp: number;
+  utilization: number;
+  borrowApr: number;
+  supplyApr: number;
+};
+
+const openDb = sqliteStore({
+  label: "margin-rates",
+  pathEnv: "MARGIN_RATES_DB_PATH",
+  defaultPath: DEFAULT_DB_PATH,
+  schema: `
+    CREATE TABLE IF NOT EXISTS margin_pool_rates (
+      network TEXT NOT NULL,
+      margin_pool_id TEXT NOT NULL,
+      coin_key TEXT NOT NULL,
+      timestamp INTEGER NOT NULL,
+      utilization REAL NOT NULL,
+      borrow_apr REAL NOT NULL,
+      supply_apr REAL NOT NULL,
+      PRIMARY KEY (network, margin_pool_id, timestamp)
+    );
+  `,
+});
+
+export async function isRateHistoryAvailable(): Promise<boolean> {
+  return (await openDb()) != null;
+}
+
+export async function recordMarginRates(
+  network: SuiNetwork,
+  rates: MarginPoolRates[]
+): Promise<void> {
+  const db = await openDb();
+  if (!db || rates.length === 0) return;
+  const insert = db.prepare(
+    `INSERT OR REPLACE INTO margin_pool_rates
+       (network, margin_pool_id, coin_key, timestamp, utilization, borrow_apr, supply_apr)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  for (const r of rates) {
+    insert.run(network, r.marginPoolId, r.coinKey, r.timestamp, r.utilization, r.borrowApr, r.supplyApr);
+  }
+}
+
+/** Snapshots for one margin pool in [from, to] (ms), oldest first. */
+export async function getMarginRateHistory(params: {
+  network: SuiNetwork;
+  marginPoolId: string;
+  from: number;
+  to: number;
+}): Promise<MarginRateSnapshot[]> {
+  const db = await openDb();
+  if (!db) return [];
+  const rows = db
+    .prepare(
+      `SELECT timestamp, utilization, borrow_apr, supply_apr FROM margin_pool_rates
+       WHERE network = ? AND margin_pool_id = ? AND timestamp BETWEEN ? AND ?
+       ORDER BY timestamp ASC`
+    )
+    .all(params.network, params.marginPoolId, params.from, params.to) as Array<{
+    timestamp: number;
+    utilization: number;
+    borrow_apr: number;
+    supply_apr: number;
+  }>;
+  const step = Math.max(1, Math.ceil(rows.length / MAX_HISTORY_POINTS));
+  return rows
+    .filter((_, i) => i % step === 0 || i === rows.length - 1)
+    .map((r) => ({
+      timestamp: Number(r.timestamp),
+      utilization: r.utilization,
+      borrowApr: r.borrow_apr,
+      supplyApr: r.supply_apr,
+    }));
+}
+
+/** Snapshot every lending pool now and on an interval. */
+export function startMarginRateSnapshots(networks: SuiNetwork[] = ["mainnet"]): void {
+  const raw = Number(process.env.MARGIN_RATES_INTERVAL_MS);
+  const intervalMs = Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_INTERVAL_MS;
+  const run = async () => {
+    if (!(await isRateHistoryAvailable())) return;
+    for (const network of networks) {
+      try {
+        await recordMarginRates(network, await fetchAllMarginPoolRates(network));
+      } catch (err) {
+        console.error(`Margin rate snapshot (${network}) failed:`, err);
+      }
+    }
+  };
+  run();
+  setInterval(run, intervalMs);
+}
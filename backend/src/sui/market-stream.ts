@@ -0,0 +1,318 @@
+/**
+ * Market data stream: polls the DeepBook indexer once per topic and fans changes out to every
+ * subscribed client over Server-Sent Events (GET /api/stream), instead of each app screen polling.
+ * - Topics: "ticker", "trades:<pool>", "candles:<pool>:<interval>", "orderbook:<pool>:<depth>",
+ *   scoped to the connection's network.
+ * - Messages are { topic, type: "snapshot" | "update", data }. A new subscriber gets the latest snapshot
+ *   right away; updates carry only what changed: ticker pairs whose entry changed, new trades, the latest
+ *   candles when they changed, and order book level deltas ([price, quantity]; quantity "0" = level removed).
+ * - A topic polls only while it has subscribers; after the last one leaves it keeps its state for
+ *   TOPIC_IDLE_TTL_MS so a client re-subscribing (e.g. after changing its topic set) skips a cold start.
+ */
+
+import { fetchIndexer } from "./deepbook-indexer.js";
+import type { SuiNetwork } from "./rpc-provider.js";
+
+const POLL_INTERVAL_MS = {
+  ticker: 5_000,
+  trades: 3_000,
+  candles: 10_000,
+  orderbook: 2_000,
+} as const;
+const TOPIC_IDLE_TTL_MS = 30_000;
+const TRADES_LIMIT = 50;
+const MAX_ORDERBOOK_DEPTH = 200;
+const CANDLE_INTERVALS = new Set(["1m", "5m", "15m", "30m", "1h", "4h", "1d", "1w"]);
+/** Topics per connection; keeps one client from fanning out unbounded indexer polling. */
+export const MAX_TOPICS_PER_CLIENT = 20;
+
+type TopicSpec =
+  | { channel: "ticker" }
+  | { channel: "trades"; pool: string }
+  | { channel: "candles"; pool: string; interval: string }
+  | { channel: "orderbook"; pool: string; depth: number };
+
+export type StreamMessage = {
+  topic: string;
+  type: "snapshot" | "update";
+  data: unknown;
+};
+
+export type StreamClient = {
+  send: (message: StreamMessage) => void;
+};
+
+type TickerEntry = Record<string, unknown>;
+type Trade = { trade_id: string; timestamp: number } & Record<string, unknown>;
+type Candle = [number, number, number, number, number, number];
+type BookLevel = [string, string];
+type Book = { timestamp: string; bids: BookLevel[]; asks: BookLevel[] };
+
+type Topic = {
+  key: string;
+  network: SuiNetwork;
+  spec: TopicSpec;
+  subscribers: Set<StreamClient>;
+  /** Channel-specific latest state (what a new subscriber receives as snapshot). */
+  state: unknown;
+  pollTimer: ReturnType<typeof setTimeout> | null;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+  polling: boolean;
+  polls: number;
+  lastPolledAt: number | null;
+  lastError: string | null;
+};
+
+const topics = new Map<string, Topic>();
+let connectedClients = 0;
+
+function isPoolName(value: string | undefined): value is string {
+  return value != null && /^[A-Za-z0-9]+_[A-Za-z0-9]+$/.test(value);
+}
+
+/** Parse a topic string; null when malformed. */
+export function parseTopic(raw: string): TopicSpec | null {
+  const [channel, pool, arg] = raw.split(":");
+  switch (channel) {
+    case "ticker":
+      return pool == null ? { channel } : null;
+    case "trades":
+      return isPoolName(pool) && arg == null ? { channel, pool } : null;
+    case "candles":
+      return isPoolName(pool) && arg != null && CANDLE_INTERVALS.has(arg)
+        ? { channel, pool, interval: arg }
+        : null;
+    case "orderbook": {
+      const depth = Number(arg);
+      return isPoolName(pool) &&
+        Number.isInteger(depth) &&
+        depth > 0 &&
+        depth <= MAX_ORDERBOOK_DEPTH
+        ? { channel, pool, depth }
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function topicKey(network: SuiNetwork, topic: string): string {
+  return `${network}|${topic}`;
+}
+
+function topicName(key: string): string {
+  return key.slice(key.indexOf("|") + 1);
+}
+
+function broadcast(topic: Topic, type: StreamMessage["type"], data: unknown): void {
+  const message = { topic: topicName(topic.key), type, data };
+  for (const client of topic.subscribers) client.send(message);
+}
+
+function bookLevelDeltas(prev: BookLevel[], next: BookLevel[]): BookLevel[] {
+  const before = new Map(prev);
+  const after = new Map(next);
+  const deltas: BookLevel[] = [];
+  for (const [price, quantity] of after) {
+    if (before.get(price) !== quantity) deltas.push([price, quantity]);
+  }
+  for (const price of before.keys()) {
+    if (!after.has(price)) deltas.push([price, "0"]);
+  }
+  return deltas;
+}
+
+function asLevels(raw: unknown): BookLevel[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((l): l is unknown[] => Array.isArray(l) && l.length >= 2)
+    .map((l) => [String(l[0]), String(l[1])]);
+}
+
+/** Fetch the topic's data and return the update to broadcast (null when nothing changed). */
+async function pollTopic(topic: Topic): Promise<unknown | null> {
+  const { network, spec } = topic;
+  switch (spec.channel) {
+    case "ticker": {
+      const next = await fetchIndexer<Record<string, TickerEntry>>(network, "/ticker");
+      const prev = (topic.state as Record<string, TickerEntry> | null) ?? {};
+      topic.state = next;
+      const changed: Record<string, TickerEntry> = {};
+      for (const [pair, entry] of Object.entries(next ?? {})) {
+        if (JSON.stringify(prev[pair]) !== JSON.stringify(entry)) changed[pair] = entry;
+      }
+      return Object.keys(changed).length > 0 ? changed : null;
+    }
+    case "trades": {
+      const raw = await fetchIndexer<Trade[]>(
+        network,
+        `/trades/${encodeURIComponent(spec.pool)}`,
+        { limit: TRADES_LIMIT }
+      );
+      const next = Array.isArray(raw) ? raw : [];
+      const prev = (topic.state as Trade[] | null) ?? null;
+      topic.state = next;
+      if (prev == null) return null;
+      const seen = new Set(prev.map((t) => t.trade_id));
+      const fresh = next.filter((t) => !seen.has(t.trade_id));
+      return fresh.length > 0 ? fresh : null;
+    }
+    case "candles": {
+      const raw = await fetchIndexer<{ candles?: Candle[] }>(
+        network,
+        `/ohclv/${encodeURIComponent(spec.pool)}`,
+        { interval: spec.interval, limit: 2 }
+      );
+      const next = Array.isArray(raw?.candles) ? raw.candles : [];
+      const changed = JSON.stringify(next) !== JSON.stringify(topic.state);
+      topic.state = next;
+      return changed && next.length > 0 ? next : null;
+    }
+    case "orderbook": {
+      const raw = await fetchIndexer<{
+        timestamp?: string | number;
+        bids?: unknown;
+        asks?: unknown;
+      }>(network, `/orderbook/${encodeURIComponent(spec.pool)}`, {
+        level: 2,
+        depth: spec.depth,
+      });
+      const next: Book = {
+        timestamp: String(raw?.timestamp ?? ""),
+        bids: asLevels(raw?.bids),
+        asks: asLevels(raw?.asks),
+      };
+      const prev = topic.state as Book | null;
+      topic.state = next;
+      if (prev == null) return null;
+      const bids = bookLevelDeltas(prev.bids, next.bids);
+      const asks = bookLevelDeltas(prev.asks, next.asks);
+      return bids.length > 0 || asks.length > 0
+        ? { timestamp: next.timestamp, bids, asks }
+        : null;
+    }
+  }
+}
+
+function schedulePoll(topic: Topic, delayMs: number): void {
+  topic.pollTimer = setTimeout(() => runPoll(topic), delayMs);
+}
+
+async function runPoll(topic: Topic): Promise<void> {
+  topic.pollTimer = null;
+  if (topic.subscribers.size === 0 || topic.polling) return;
+  topic.polling = true;
+  const hadState = topic.state != null;
+  try {
+    const update = await pollTopic(topic);
+    topic.lastError = null;
+    if (!hadState && topic.state != null) {
+      broadcast(topic, "snapshot", topic.state);
+    } else if (update != null) {
+      broadcast(topic, "update", update);
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (topic.lastError !== message) {
+      console.error(`[market-stream] ${topic.key} poll failed:`, message);
+    }
+    topic.lastError = message;
+  } finally {
+    topic.polling = false;
+    topic.polls += 1;
+    topic.lastPolledAt = Date.now();
+    if (topic.subscribers.size > 0) {
+      schedulePoll(topic, POLL_INTERVAL_MS[topic.spec.channel]);
+    }
+  }
+}
+
+function subscribe(
+  client: StreamClient,
+  network: SuiNetwork,
+  name: string,
+  spec: TopicSpec
+): void {
+  const key = topicKey(network, name);
+  let topic = topics.get(key);
+  if (!topic) {
+    topic = {
+      key,
+      network,
+      spec,
+      subscribers: new Set(),
+      state: null,
+      pollTimer: null,
+      idleTimer: null,
+      polling: false,
+      polls: 0,
+      lastPolledAt: null,
+      lastError: null,
+    };
+    topics.set(key, topic);
+  }
+  if (topic.idleTimer) {
+    clearTimeout(topic.idleTimer);
+    topic.idleTimer = null;
+  }
+  topic.subscribers.add(client);
+  if (topic.state != null) {
+    client.send({ topic: name, type: "snapshot", data: topic.state });
+  }
+  if (!topic.pollTimer && !topic.polling) schedulePoll(topic, 0);
+}
+
+function unsubscribe(client: StreamClient, key: string): void {
+  const topic = topics.get(key);
+  if (!topic) return;
+  topic.subscribers.delete(client);
+  if (topic.subscribers.size > 0) return;
+  if (topic.pollTimer) {
+    clearTimeout(topic.pollTimer);
+    topic.pollTimer = null;
+  }
+  topic.idleTimer = setTimeout(() => {
+    if (topic.subscribers.size === 0) topics.delete(key);
+  }, TOPIC_IDLE_TTL_MS);
+}
+
+/** Subscribe a client to topics (already validated with parseTopic). Returns the function to detach it. */
+export function attachStreamClient(
+  client: StreamClient,
+  network: SuiNetwork,
+  requested: { name: string; spec: TopicSpec }[]
+): () => void {
+  connectedClients += 1;
+  const keys = requested.map(({ name, spec }) => {
+    subscribe(client, network, name, spec);
+    return topicKey(network, name);
+  });
+  return () => {
+    connectedClients -= 1;
+    for (const key of keys) unsubscribe(client, key);
+  };
+}
+
+export function getStreamStatus(): {
+  clients: number;
+  topics: {
+    network: SuiNetwork;
+    topic: string;
+    subscribers: number;
+    polls: number;
+    lastPolledAt: number | null;
+    lastError: string | null;
+  }[];
+} {
+  return {
+    clients: connectedClients,
+    topics: [...topics.values()].map((t) => ({
+      network: t.network,
+      topic: topicName(t.key),
+      subscribers: t.subscribers.size,
+      polls: t.polls,
+      lastPolledAt: t.lastPolledAt,
+      lastError: t.lastError,
+    })),
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Parse Sui execution error strings (MoveAbort(...)) into module / function / abort code.
+ * Used by dry-run previews and error responses so the app can show where a transaction aborted.
+ * Known DeepBook / margin codes are mapped to readable reasons via abort-codes.ts.
+ */
+
+import { ABORT_CODES, type AbortCodeEntry } from "./abort-codes.js";
+
+export type MoveAbortInfo = {
+  /** Package address of the aborting module (0x...). */
+  packageId: string | null;
+  module: string;
+  functionName: string | null;
+  code: number;
+  /** PTB command index the abort happened in, when reported. */
+  command: number | null;
+};
+
+/**
+ * Extract the abort location and code from an error such as:
+ * MoveAbort(MoveLocation { module: ModuleId { address: 0x.., name: Identifier("margin_manager") },
+ *   function: 12, instruction: 45, function_name: Some("withdraw") }, 7) in command 2
+ */
+export function parseMoveAbort(message: string): MoveAbortInfo | null {
+  if (!message.includes("MoveAbort")) return null;
+  const moduleMatch = message.match(/name:\s*Identifier\("(\w+)"\)/);
+  const codeMatch = message.match(/\}\s*,\s*(\d+)\s*\)/);
+  if (!moduleMatch || !codeMatch) return null;
+  const addressMatch = message.match(/address:\s*(0x)?([0-9a-fA-F]+)/);
+  const fnMatch = message.match(/function_name:\s*Some\("(\w+)"\)/);
+  const commandMatch = message.match(/in command (\d+)/);
+  return {
+    packageId: addressMatch ? "0x" + addressMatch[2] : null,
+    module: moduleMatch[1],
+    functionName: fnMatch ? fnMatch[1] : null,
+    code: Number(codeMatch[1]),
+    command: commandMatch ? Number(commandMatch[1]) : null,
+  };
+}
+
+/** Table entry for a known DeepBook / margin abort, or null. */
+export function lookupMoveAbort(info: MoveAbortInfo): AbortCodeEntry | null {
+  return ABORT_CODES[info.module]?.[info.code] ?? null;
+}
+
+/** Readable reason for an abort: table message when known, else module::function and code. */
+export function describeMoveAbort(info: MoveAbortInfo): string {
+  const known = lookupMoveAbort(info);
+  if (known) return known.message;
+  const where = info.functionName
+    ? `${info.module}::${info.functionName}`
+    : info.module;
+  return `Transaction would abort in ${where} (code ${info.code})`;
+}
@@ -4,7 +4,8 @@
  */
 
 import { mainnetPackageIds, testnetPackageIds } from "@mysten/deepbook-v3";
-import { getJsonRpcFullnodeUrl, SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import type { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { getSuiClient } from "./rpc-provider.js";
 
 export type OwnedMarginManagersParams = {
   owner: string;
@@ -161,8 +162,7 @@ export async function getOwnedMarginManagers(
 ): Promise<OwnedMarginManagersResult> {
   const { owner, network = "mainnet" } = params;
   const packageId = getMarginPackageId(network);
-  const url = getJsonRpcFullnodeUrl(network);
-  const client = new SuiJsonRpcClient({ url, network });
+  const client = getSuiClient(network);
 
   // Helper: paginate getOwnedObjects up to a reasonable cap so wallets with many
   // margin managers are fully captured.
@@ -12,10 +12,11 @@ import {
   testnetPools,
 } from "@mysten/deepbook-v3";
 import { messageWithIntent } from "@mysten/sui/cryptography";
-import { getJsonRpcFullnodeUrl, SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
 import { Transaction } from "@mysten/sui/transactions";
 import { blake2b } from "@noble/hashes/blake2.js";
 import { Buffer } from "buffer";
+import { buildSponsoredTransaction } from "./gas-sponsor.js";
+import { getSuiClient } from "./rpc-provider.js";
 
 const MANAGER_KEY = "MARGIN_MANAGER_1";
 
@@ -32,6 +33,8 @@ export type PrepareAddTpslParams = {
   /** Stop loss trigger price (optional). */
   slPrice?: number;
   payWithDeep?: boolean;
+  /** Build with the server gas sponsor as gas owner (user needs no SUI); see gas-sponsor.ts. */
+  sponsored?: boolean;
   network?: "mainnet" | "testnet";
 };
 
@@ -70,6 +73,7 @@ export async function prepareAddTpsl(
     tpPrice,
     slPrice,
     payWithDeep = true,
+    sponsored = false,
     network = "mainnet",
   } = params;
 
@@ -80,8 +84,7 @@ export async function prepareAddTpsl(
     throw new Error("Quantity must be positive");
   }
 
-  const url = getJsonRpcFullnodeUrl(network);
-  const client = new SuiJsonRpcClient({ url, network });
+  const client = getSuiClient(network);
   const pools = network === "mainnet" ? mainnetPools : testnetPools;
   const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
 
@@ -142,7 +145,9 @@ export async function prepareAddTpsl(
     })(tx);
   }
 
-  const txBytes = await tx.build({ client });
+  const txBytes = sponsored
+    ? await buildSponsoredTransaction(tx, client, network)
+    : await tx.build({ client });
   const intentMessage = messageWithIntent("TransactionData", txBytes);
   const intentHash = blake2b(intentMessage, { dkLen: 32 });
   const intentMessageHashHex = "0x" + Buffer.from(intentHash).toString("hex");
@@ -0,0 +1,112 @@
+/**
+ * Build a Sui transaction to deposit a pool's base, quote, or DEEP into a balance manager (spot account).
+ * Uses balanceManager.depositIntoManager; the coin is resolved at build({ client }) so sender must have balance.
+ * @see https://docs.sui.io/standards/deepbookv3-sdk/balance-manager
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetPools,
+  testnetCoins,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import { messageWithIntent } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { blake2b } from "@noble/hashes/blake2.js";
+import { Buffer } from "buffer";
+import { buildSponsoredTransaction } from "./gas-sponsor.js";
+import { MIN_DEPOSIT_AMOUNT } from "./prepare-margin-deposit.js";
+import { getSuiClient } from "./rpc-provider.js";
+
+const MANAGER_KEY = "BALANCE_MANAGER_1";
+
+export type BalanceManagerAsset = "base" | "quote" | "deep";
+
+export type PrepareBalanceManagerDepositParams = {
+  sender: string;
+  balanceManagerId: string;
+  /** Pool whose base / quote coin is meant by asset. */
+  poolKey: string;
+  asset: BalanceManagerAsset;
+  amount: number; // human amount (e.g. 10 for 10 USDC)
+  /** Build with the server gas sponsor as gas owner (user needs no SUI); see gas-sponsor.ts. */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+};
+
+export type PrepareBalanceManagerDepositResult = {
+  intentMessageHashHex: string;
+  txBytesBase64: string;
+};
+
+/** SDK coin key for a pool's base / quote, or DEEP. */
+export function balanceManagerCoinKey(
+  pool: { baseCoin: string; quoteCoin: string },
+  asset: BalanceManagerAsset
+): string {
+  return asset === "base" ? pool.baseCoin : asset === "quote" ? pool.quoteCoin : "DEEP";
+}
+
+export async function prepareBalanceManagerDeposit(
+  params: PrepareBalanceManagerDepositParams
+): Promise<PrepareBalanceManagerDepositResult> {
+  const {
+    sender,
+    balanceManagerId,
+    poolKey,
+    asset,
+    amount,
+    sponsored = false,
+    network = "mainnet",
+  } = params;
+
+  if (amount < MIN_DEPOSIT_AMOUNT) {
+    throw new Error(
+      `Amount must be at least ${MIN_DEPOSIT_AMOUNT} (got ${amount})`
+    );
+  }
+
+  const client = getSuiClient(network);
+
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+
+  if (!(poolKey in pools)) {
+    throw new Error(
+      `Unknown pool key: ${poolKey}. Valid keys include: ${Object.keys(pools)
+        .slice(0, 10)
+        .join(", ")}`
+    );
+  }
+  const pool = pools[poolKey as keyof typeof pools];
+
+  const extended = client.$extend(
+    deepbook({
+      address: sender,
+      pools,
+      coins,
+      balanceManagers: {
+        [MANAGER_KEY]: { address: balanceManagerId },
+      },
+    })
+  );
+
+  const tx = new Transaction();
+  tx.setSender(sender);
+  extended.deepbook.balanceManager.depositIntoManager(
+    MANAGER_KEY,
+    balanceManagerCoinKey(pool, asset),
+    amount
+  )(tx);
+
+  const txBytes = sponsored
+    ? await buildSponsoredTransaction(tx, client, network)
+    : await tx.build({ client });
+  const intentMessage = messageWithIntent("TransactionData", txBytes);
+  const intentHash = blake2b(intentMessage, { dkLen: 32 });
+  const intentMessageHashHex = "0x" + Buffer.from(intentHash).toString("hex");
+  const txBytesBase64 = Buffer.from(txBytes).toString("base64");
+
+  return { intentMessageHashHex, txBytesBase64 };
+}
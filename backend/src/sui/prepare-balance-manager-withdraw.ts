@@ -0,0 +1,112 @@
+/**
+ * Build a Sui transaction to withdraw a pool's base, quote, or DEEP from a balance manager (spot account)
+ * to the sender. Settled maker fills are moved into the manager first (withdrawSettledAmounts). Without
+ * amount the whole balance is withdrawn (withdrawAllFromManager). Funds locked in open orders are not in
+ * the manager balance; cancel first to free them.
+ * @see https://docs.sui.io/standards/deepbookv3-sdk/balance-manager
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetPools,
+  testnetCoins,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import { messageWithIntent } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { blake2b } from "@noble/hashes/blake2.js";
+import { Buffer } from "buffer";
+import { buildSponsoredTransaction } from "./gas-sponsor.js";
+import {
+  balanceManagerCoinKey,
+  type BalanceManagerAsset,
+} from "./prepare-balance-manager-deposit.js";
+import { MIN_WITHDRAW_AMOUNT } from "./prepare-margin-withdraw.js";
+import { getSuiClient } from "./rpc-provider.js";
+
+const MANAGER_KEY = "BALANCE_MANAGER_1";
+
+export type PrepareBalanceManagerWithdrawParams = {
+  sender: string;
+  balanceManagerId: string;
+  poolKey: string;
+  asset: BalanceManagerAsset;
+  /** Human amount; omit to withdraw everything. */
+  amount?: number;
+  /** Build with the server gas sponsor as gas owner (user needs no SUI); see gas-sponsor.ts. */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+};
+
+export type PrepareBalanceManagerWithdrawResult = {
+  intentMessageHashHex: string;
+  txBytesBase64: string;
+};
+
+export async function prepareBalanceManagerWithdraw(
+  params: PrepareBalanceManagerWithdrawParams
+): Promise<PrepareBalanceManagerWithdrawResult> {
+  const {
+    sender,
+    balanceManagerId,
+    poolKey,
+    asset,
+    amount,
+    sponsored = false,
+    network = "mainnet",
+  } = params;
+
+  if (amount != null && amount < MIN_WITHDRAW_AMOUNT) {
+    throw new Error(
+      `Amount must be at least ${MIN_WITHDRAW_AMOUNT} (got ${amount})`
+    );
+  }
+
+  const client = getSuiClient(network);
+
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+
+  if (!(poolKey in pools)) {
+    throw new Error(
+      `Unknown pool key: ${poolKey}. Valid keys include: ${Object.keys(pools)
+        .slice(0, 10)
+        .join(", ")}`
+    );
+  }
+  const pool = pools[poolKey as keyof typeof pools];
+
+  const extended = client.$extend(
+    deepbook({
+      address: sender,
+      pools,
+      coins,
+      balanceManagers: {
+        [MANAGER_KEY]: { address: balanceManagerId },
+      },
+    })
+  );
+
+  const tx = new Transaction();
+  tx.setSender(sender);
+  const { balanceManager, deepBook } = extended.deepbook;
+  // Maker fills stay in the pool until settled; move them into the manager so they can be withdrawn.
+  deepBook.withdrawSettledAmounts(poolKey, MANAGER_KEY)(tx);
+  const coinKey = balanceManagerCoinKey(pool, asset);
+  if (amount == null) {
+    balanceManager.withdrawAllFromManager(MANAGER_KEY, coinKey, sender)(tx);
+  } else {
+    balanceManager.withdrawFromManager(MANAGER_KEY, coinKey, amount, sender)(tx);
+  }
+
+  const txBytes = sponsored
+    ? await buildSponsoredTransaction(tx, client, network)
+    : await tx.build({ client });
+  const intentMessage = messageWithIntent("TransactionData", txBytes);
+  const intentHash = blake2b(intentMessage, { dkLen: 32 });
+  const intentMessageHashHex = "0x" + Buffer.from(intentHash).toString("hex");
+  const txBytesBase64 = Buffer.from(txBytes).toString("base64");
+
+  return { intentMessageHashHex, txBytesBase64 };
+}
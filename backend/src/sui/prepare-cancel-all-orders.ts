@@ -0,0 +1,86 @@
+/**
+ * Build a Sui transaction to cancel every resting order of a margin manager in its pool.
+ * Uses poolProxy.cancelAllOrders.
+ * @see https://docs.sui.io/standards/deepbook-margin-sdk/orders
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetPools,
+  testnetCoins,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import { messageWithIntent } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { blake2b } from "@noble/hashes/blake2.js";
+import { Buffer } from "buffer";
+import { buildSponsoredTransaction } from "./gas-sponsor.js";
+import { getSuiClient } from "./rpc-provider.js";
+
+const MANAGER_KEY = "MARGIN_MANAGER_1";
+
+export type PrepareCancelAllOrdersParams = {
+  sender: string;
+  marginManagerId: string;
+  poolKey: string;
+  /** Build with the server gas sponsor as gas owner (user needs no SUI); see gas-sponsor.ts. */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+};
+
+export type PrepareCancelAllOrdersResult = {
+  intentMessageHashHex: string;
+  txBytesBase64: string;
+};
+
+export async function prepareCancelAllOrders(
+  params: PrepareCancelAllOrdersParams
+): Promise<PrepareCancelAllOrdersResult> {
+  const {
+    sender,
+    marginManagerId,
+    poolKey,
+    sponsored = false,
+    network = "mainnet",
+  } = params;
+
+  const client = getSuiClient(network);
+
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+
+  if (!(poolKey in pools)) {
+    throw new Error(
+      `Unknown pool key: ${poolKey}. Valid keys include: ${Object.keys(pools)
+        .slice(0, 10)
+        .join(", ")}`
+    );
+  }
+
+  const extended = client.$extend(
+    deepbook({
+      address: sender,
+      pools,
+      coins,
+      marginManagers: {
+        [MANAGER_KEY]: { address: marginManagerId, poolKey },
+      },
+    })
+  );
+
+  const tx = new Transaction();
+  tx.setSender(sender);
+
+  extended.deepbook.poolProxy.cancelAllOrders(MANAGER_KEY)(tx);
+
+  const txBytes = sponsored
+    ? await buildSponsoredTransaction(tx, client, network)
+    : await tx.build({ client });
+  const intentMessage = messageWithIntent("TransactionData", txBytes);
+  const intentHash = blake2b(intentMessage, { dkLen: 32 });
+  const intentMessageHashHex = "0x" + Buffer.from(intentHash).toString("hex");
+  const txBytesBase64 = Buffer.from(txBytes).toString("base64");
+
+  return { intentMessageHashHex, txBytesBase64 };
+}
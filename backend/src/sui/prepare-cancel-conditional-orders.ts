@@ -0,0 +1,106 @@
+/**
+ * Build a Sui transaction to cancel TP/SL conditional orders on a margin manager.
+ * Specific ids use marginTPSL.cancelConditionalOrder (one moveCall each); all=true uses cancelAllConditionalOrders.
+ * @see https://docs.sui.io/standards/deepbook-margin-sdk/tpsl
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetPools,
+  testnetCoins,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import { messageWithIntent } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { blake2b } from "@noble/hashes/blake2.js";
+import { Buffer } from "buffer";
+import { buildSponsoredTransaction } from "./gas-sponsor.js";
+import { getSuiClient } from "./rpc-provider.js";
+
+const MANAGER_KEY = "MARGIN_MANAGER_1";
+
+export type PrepareCancelConditionalOrdersParams = {
+  sender: string;
+  marginManagerId: string;
+  poolKey: string;
+  /** Conditional order ids to cancel. Ignored when all is true. */
+  conditionalOrderIds?: string[];
+  /** Cancel every conditional order on the manager. */
+  all?: boolean;
+  /** Build with the server gas sponsor as gas owner (user needs no SUI); see gas-sponsor.ts. */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+};
+
+export type PrepareCancelConditionalOrdersResult = {
+  intentMessageHashHex: string;
+  txBytesBase64: string;
+};
+
+export async function prepareCancelConditionalOrders(
+  params: PrepareCancelConditionalOrdersParams
+): Promise<PrepareCancelConditionalOrdersResult> {
+  const {
+    sender,
+    marginManagerId,
+    poolKey,
+    conditionalOrderIds = [],
+    all = false,
+    sponsored = false,
+    network = "mainnet",
+  } = params;
+
+  const ids = conditionalOrderIds
+    .map((id) => String(id).trim())
+    .filter((id) => id !== "");
+  if (!all && ids.length === 0) {
+    throw new Error("Provide conditionalOrderIds or set all to true");
+  }
+
+  const client = getSuiClient(network);
+
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+
+  if (!(poolKey in pools)) {
+    throw new Error(
+      `Unknown pool key: ${poolKey}. Valid keys include: ${Object.keys(pools)
+        .slice(0, 10)
+        .join(", ")}`
+    );
+  }
+
+  const extended = client.$extend(
+    deepbook({
+      address: sender,
+      pools,
+      coins,
+      marginManagers: {
+        [MANAGER_KEY]: { address: marginManagerId, poolKey },
+      },
+    })
+  );
+
+  const tx = new Transaction();
+  tx.setSender(sender);
+
+  const marginTPSL = extended.deepbook.marginTPSL;
+  if (all) {
+    marginTPSL.cancelAllConditionalOrders(MANAGER_KEY)(tx);
+  } else {
+    for (const id of ids) {
+      marginTPSL.cancelConditionalOrder(MANAGER_KEY, id)(tx);
+    }
+  }
+
+  const txBytes = sponsored
+    ? await buildSponsoredTransaction(tx, client, network)
+    : await tx.build({ client });
+  const intentMessage = messageWithIntent("TransactionData", txBytes);
+  const intentHash = blake2b(intentMessage, { dkLen: 32 });
+  const intentMessageHashHex = "0x" + Buffer.from(intentHash).toString("hex");
+  const txBytesBase64 = Buffer.from(txBytes).toString("base64");
+
+  return { intentMessageHashHex, txBytesBase64 };
+}
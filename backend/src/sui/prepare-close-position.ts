@@ -0,0 +1,280 @@
+/**
+ * Build a single Sui transaction that fully closes a margin position:
+ * reduce-only market order to get the borrowed asset back, repay all debt,
+ * and optionally withdraw the remaining quote to the sender. The withdraw amount is the manager's
+ * quote_balance read inside the same PTB after repay, so exactly what is left goes to the sender.
+ * Everything runs in one PTB, so the close either fully succeeds or fully reverts.
+ * Reads borrowed shares / assets / debts via fetchMarginBorrowedShares before building.
+ * With maxSlippageBps the swap is a reduce-only IOC limit order at the slippage bound; if the book cannot
+ * fill it within the bound, the repay aborts and the whole close reverts.
+ * @see https://docs.sui.io/standards/deepbook-margin-sdk/orders
+ * @see https://docs.sui.io/standards/deepbook-margin-sdk/margin-manager#repaybase-repayquote
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetMarginPools,
+  mainnetPackageIds,
+  mainnetPools,
+  OrderType,
+  testnetCoins,
+  testnetMarginPools,
+  testnetPackageIds,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import { messageWithIntent } from "@mysten/sui/cryptography";
+import {
+  Transaction,
+  type TransactionObjectArgument,
+} from "@mysten/sui/transactions";
+import { blake2b } from "@noble/hashes/blake2.js";
+import { Buffer } from "buffer";
+import { buildSponsoredTransaction } from "./gas-sponsor.js";
+import { fetchMarginBorrowedShares } from "./fetch-margin-borrowed-shares.js";
+import { MIN_WITHDRAW_AMOUNT } from "./prepare-margin-withdraw.js";
+import { getSuiClient } from "./rpc-provider.js";
+import { slippageLimitPrice } from "./slippage-limit.js";
+
+const MANAGER_KEY = "MARGIN_MANAGER_1";
+
+export type PrepareClosePositionParams = {
+  sender: string;
+  marginManagerId: string;
+  poolKey: string;
+  /** If true, withdraw the quote left after repay and transfer it to sender. */
+  withdrawRemainder?: boolean;
+  clientOrderId?: number;
+  payWithDeep?: boolean;
+  /** Bound the swap to this many bps from the book / oracle price (IOC limit instead of market). */
+  maxSlippageBps?: number;
+  /** Build with the server gas sponsor as gas owner (user needs no SUI); see gas-sponsor.ts. */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+};
+
+export type PrepareClosePositionResult = {
+  intentMessageHashHex: string;
+  txBytesBase64: string;
+  /** "long" = quote debt repaid by selling base; "short" = base debt repaid by buying base. */
+  side: "long" | "short";
+  /** Reduce-only market order size in base (human units); 0 when no swap was needed. */
+  swapQuantity: number;
+  /**
+   * Estimated quote withdrawn to sender (human units); 0 when withdrawRemainder is false or below minimum.
+   * The transaction withdraws the actual post-repay balance, which can differ slightly from this estimate.
+   */
+  withdrawQuoteAmount: number;
+  /**
+   * Estimated quote still in the manager after the close (human units): 0 when it was withdrawn, otherwise
+   * the whole remainder. The app shows it so the user knows to withdraw it later.
+   */
+  quoteLeftInManager: number;
+  /** Debt repaid (human units of the borrowed asset), including accrued interest. */
+  debtRepaid: number;
+  /** Interest part of debtRepaid; null when the borrow history is unknown. */
+  interestRepaid: number | null;
+  /** Limit price of the protected swap; null when maxSlippageBps was not set or no swap was needed. */
+  slippageLimitPrice: number | null;
+};
+
+function nextId(): number {
+  return Math.floor(Date.now() % 2147483647);
+}
+
+/** Round to lot size; tolerate float noise so 1.0000000001 lots doesn't become 2. */
+function roundToLot(quantity: number, lotSize: number, mode: "up" | "down"): number {
+  const lots = quantity / lotSize;
+  const rounded = mode === "up" ? Math.ceil(lots - 1e-9) : Math.floor(lots + 1e-9);
+  return Number((rounded * lotSize).toFixed(9));
+}
+
+export async function prepareClosePosition(
+  params: PrepareClosePositionParams
+): Promise<PrepareClosePositionResult> {
+  const {
+    sender,
+    marginManagerId,
+    poolKey,
+    withdrawRemainder = false,
+    clientOrderId = nextId(),
+    payWithDeep = false,
+    maxSlippageBps,
+    sponsored = false,
+    network = "mainnet",
+  } = params;
+
+  const client = getSuiClient(network);
+
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+  const marginPools = network === "mainnet" ? mainnetMarginPools : testnetMarginPools;
+  const { MARGIN_PACKAGE_ID, MARGIN_REGISTRY_ID } =
+    network === "mainnet" ? mainnetPackageIds : testnetPackageIds;
+
+  if (!(poolKey in pools)) {
+    throw new Error(
+      `Unknown pool key: ${poolKey}. Valid keys include: ${Object.keys(pools)
+        .slice(0, 10)
+        .join(", ")}`
+    );
+  }
+
+  const chain = await fetchMarginBorrowedShares({
+    marginManagerId,
+    poolKey,
+    network,
+  });
+
+  const pool = pools[poolKey as keyof typeof pools];
+  const baseCoin = coins[pool.baseCoin as keyof typeof coins];
+  const quoteCoin = coins[pool.quoteCoin as keyof typeof coins];
+  const baseScalar = baseCoin.scalar;
+  const quoteScalar = quoteCoin.scalar;
+
+  // Exact debt (shares × borrow index); shares alone understate it once interest accrues.
+  const baseDebt =
+    chain.debts?.base?.amount ??
+    Number(chain.calculateDebts?.base_debt ?? 0) / baseScalar;
+  const quoteDebt =
+    chain.debts?.quote?.amount ??
+    Number(chain.calculateDebts?.quote_debt ?? 0) / quoteScalar;
+  const baseAsset = Number(chain.calculateAssets?.base_asset ?? 0) / baseScalar;
+  const quoteAsset = Number(chain.calculateAssets?.quote_asset ?? 0) / quoteScalar;
+
+  const isShort = chain.hasBaseDebt && baseDebt > 0;
+  if (!isShort && quoteDebt <= 0) {
+    throw new Error("No debt to repay on this margin manager. Nothing to close.");
+  }
+
+  const extended = client.$extend(
+    deepbook({
+      address: sender,
+      pools,
+      coins,
+      marginManagers: {
+        [MANAGER_KEY]: { address: marginManagerId, poolKey },
+      },
+    })
+  );
+  const { marginManager, poolProxy } = extended.deepbook;
+  const { lotSize, minSize } = await extended.deepbook.poolBookParams(poolKey);
+
+  let swapQuantity = 0;
+  let estimatedQuoteLeft = quoteAsset;
+  if (isShort) {
+    // Buy back the base shortfall (debt minus base already held), rounded up to lot size.
+    const shortfall = baseDebt - baseAsset;
+    if (shortfall > 0) {
+      swapQuantity = Math.max(roundToLot(shortfall, lotSize, "up"), minSize);
+      // With payWithDeep false this already includes the taker fee charged in the input (quote) coin.
+      const { quoteIn } = await extended.deepbook.getQuoteQuantityIn(
+        poolKey,
+        swapQuantity,
+        payWithDeep
+      );
+      estimatedQuoteLeft = quoteAsset - quoteIn;
+    }
+  } else {
+    // Sell all base to quote; the remaining dust below one lot stays in the manager.
+    swapQuantity = roundToLot(baseAsset, lotSize, "down");
+    if (swapQuantity < minSize) {
+      swapQuantity = 0;
+    } else {
+      // Fees come out of the sold base unless paid in DEEP; the plain quote would overstate proceeds.
+      const { quoteOut } = payWithDeep
+        ? await extended.deepbook.getQuoteQuantityOut(poolKey, swapQuantity)
+        : await extended.deepbook.getQuoteQuantityOutInputFee(poolKey, swapQuantity);
+      estimatedQuoteLeft = quoteAsset + quoteOut;
+    }
+    estimatedQuoteLeft -= quoteDebt;
+  }
+
+  const tx = new Transaction();
+  tx.setSender(sender);
+
+  let protectedPrice: number | null = null;
+  if (swapQuantity > 0 && maxSlippageBps != null) {
+    const { limitPrice } = await slippageLimitPrice({
+      db: extended.deepbook,
+      poolKey,
+      isBid: isShort,
+      maxSlippageBps,
+      marginManagerKey: MANAGER_KEY,
+    });
+    protectedPrice = limitPrice;
+    poolProxy.placeReduceOnlyLimitOrder({
+      poolKey,
+      marginManagerKey: MANAGER_KEY,
+      clientOrderId: String(clientOrderId),
+      price: limitPrice,
+      quantity: swapQuantity,
+      isBid: isShort,
+      payWithDeep,
+      orderType: OrderType.IMMEDIATE_OR_CANCEL,
+    })(tx);
+  } else if (swapQuantity > 0) {
+    poolProxy.placeReduceOnlyMarketOrder({
+      poolKey,
+      marginManagerKey: MANAGER_KEY,
+      clientOrderId: String(clientOrderId),
+      quantity: swapQuantity,
+      isBid: isShort,
+      payWithDeep,
+    })(tx);
+  }
+
+  // No amount = repay all outstanding debt; aborts (and reverts the swap) if balance is short.
+  if (isShort) {
+    marginManager.repayBase(MANAGER_KEY)(tx);
+  } else {
+    marginManager.repayQuote(MANAGER_KEY)(tx);
+  }
+
+  let withdrawQuoteAmount = 0;
+  if (withdrawRemainder) {
+    const amount = Math.floor(estimatedQuoteLeft * quoteScalar) / quoteScalar;
+    if (amount >= MIN_WITHDRAW_AMOUNT) {
+      // Same call as marginManager.withdrawQuote, but the amount is the post-repay balance read on chain.
+      const quoteLeft = marginManager.quoteBalance(poolKey, marginManagerId)(tx);
+      const withdrawnCoin = tx.moveCall({
+        target: `${MARGIN_PACKAGE_ID}::margin_manager::withdraw`,
+        arguments: [
+          tx.object(marginManagerId),
+          tx.object(MARGIN_REGISTRY_ID),
+          tx.object(marginPools[pool.baseCoin as keyof typeof marginPools].address),
+          tx.object(marginPools[pool.quoteCoin as keyof typeof marginPools].address),
+          tx.object(baseCoin.priceInfoObjectId!),
+          tx.object(quoteCoin.priceInfoObjectId!),
+          tx.object(pool.address),
+          quoteLeft,
+          tx.object.clock(),
+        ],
+        typeArguments: [baseCoin.type, quoteCoin.type, quoteCoin.type],
+      }) as TransactionObjectArgument;
+      tx.transferObjects([withdrawnCoin], tx.pure.address(sender));
+      withdrawQuoteAmount = amount;
+    }
+  }
+
+  const txBytes = sponsored
+    ? await buildSponsoredTransaction(tx, client, network)
+    : await tx.build({ client });
+  const intentMessage = messageWithIntent("TransactionData", txBytes);
+  const intentHash = blake2b(intentMessage, { dkLen: 32 });
+  const intentMessageHashHex = "0x" + Buffer.from(intentHash).toString("hex");
+  const txBytesBase64 = Buffer.from(txBytes).toString("base64");
+
+  return {
+    intentMessageHashHex,
+    txBytesBase64,
+    side: isShort ? "short" : "long",
+    swapQuantity,
+    withdrawQuoteAmount,
+    quoteLeftInManager: Math.max(0, estimatedQuoteLeft - withdrawQuoteAmount),
+    debtRepaid: isShort ? baseDebt : quoteDebt,
+    interestRepaid:
+      (isShort ? chain.debts?.base?.accruedInterest : chain.debts?.quote?.accruedInterest) ?? null,
+    slippageLimitPrice: protectedPrice,
+  };
+}
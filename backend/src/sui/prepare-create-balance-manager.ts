@@ -0,0 +1,62 @@
+/**
+ * Build a Sui transaction to create, register and share a new DeepBook balance manager (spot account).
+ * Registering adds it to the DeepBook registry under the sender, so getBalanceManagerIds(owner) finds it
+ * again on another device. Returns intent message hash and tx bytes for the client to sign.
+ * @see https://docs.sui.io/standards/deepbookv3-sdk/balance-manager
+ */
+
+import { mainnetPackageIds, testnetPackageIds } from "@mysten/deepbook-v3";
+import { messageWithIntent } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { blake2b } from "@noble/hashes/blake2.js";
+import { Buffer } from "buffer";
+import { buildSponsoredTransaction } from "./gas-sponsor.js";
+import { getSuiClient } from "./rpc-provider.js";
+
+export type PrepareCreateBalanceManagerParams = {
+  sender: string;
+  /** Build with the server gas sponsor as gas owner (user needs no SUI); see gas-sponsor.ts. */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+};
+
+export type PrepareCreateBalanceManagerResult = {
+  intentMessageHashHex: string;
+  txBytesBase64: string;
+};
+
+export async function prepareCreateBalanceManager(
+  params: PrepareCreateBalanceManagerParams
+): Promise<PrepareCreateBalanceManagerResult> {
+  const { sender, sponsored = false, network = "mainnet" } = params;
+
+  const client = getSuiClient(network);
+  const { DEEPBOOK_PACKAGE_ID, REGISTRY_ID } =
+    network === "mainnet" ? mainnetPackageIds : testnetPackageIds;
+
+  const tx = new Transaction();
+  tx.setSender(sender);
+  // Same as balanceManager.createAndShareBalanceManager, with registration before sharing.
+  const manager = tx.moveCall({
+    target: `${DEEPBOOK_PACKAGE_ID}::balance_manager::new`,
+  });
+  tx.moveCall({
+    target: `${DEEPBOOK_PACKAGE_ID}::balance_manager::register_balance_manager`,
+    arguments: [manager, tx.object(REGISTRY_ID)],
+  });
+  tx.moveCall({
+    target: "0x2::transfer::public_share_object",
+    arguments: [manager],
+    typeArguments: [`${DEEPBOOK_PACKAGE_ID}::balance_manager::BalanceManager`],
+  });
+
+  const txBytes = sponsored
+    ? await buildSponsoredTransaction(tx, client, network)
+    : await tx.build({ client });
+  const intentMessage = messageWithIntent("TransactionData", txBytes);
+  const intentHash = blake2b(intentMessage, { dkLen: 32 });
+  const intentMessageHashHex = "0x" + Buffer.from(intentHash).toString("hex");
+  const txBytesBase64 = Buffer.from(txBytes).toString("base64");
+
+  return { intentMessageHashHex, txBytesBase64 };
+}
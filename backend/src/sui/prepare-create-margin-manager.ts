@@ -11,14 +11,17 @@ import {
   testnetPools,
 } from "@mysten/deepbook-v3";
 import { messageWithIntent } from "@mysten/sui/cryptography";
-import { getJsonRpcFullnodeUrl, SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
 import { Transaction } from "@mysten/sui/transactions";
 import { blake2b } from "@noble/hashes/blake2.js";
 import { Buffer } from "buffer";
+import { buildSponsoredTransaction } from "./gas-sponsor.js";
+import { getSuiClient } from "./rpc-provider.js";
 
 export type PrepareCreateMarginManagerParams = {
   sender: string;
   poolKey: string; // e.g. "SUI_USDC", "SUI_DBUSDC"
+  /** Build with the server gas sponsor as gas owner (user needs no SUI); see gas-sponsor.ts. */
+  sponsored?: boolean;
   network?: "mainnet" | "testnet";
 };
 
@@ -30,10 +33,14 @@ export type PrepareCreateMarginManagerResult = {
 export async function prepareCreateMarginManager(
   params: PrepareCreateMarginManagerParams
 ): Promise<PrepareCreateMarginManagerResult> {
-  const { sender, poolKey, network = "mainnet" } = params;
+  const {
+    sender,
+    poolKey,
+    sponsored = false,
+    network = "mainnet",
+  } = params;
 
-  const url = getJsonRpcFullnodeUrl(network);
-  const client = new SuiJsonRpcClient({ url, network });
+  const client = getSuiClient(network);
 
   const pools = network === "mainnet" ? mainnetPools : testnetPools;
   const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
@@ -58,7 +65,9 @@ export async function prepareCreateMarginManager(
   tx.setSender(sender);
   extended.deepbook.marginManager.newMarginManager(poolKey)(tx);
 
-  const txBytes = await tx.build({ client });
+  const txBytes = sponsored
+    ? await buildSponsoredTransaction(tx, client, network)
+    : await tx.build({ client });
   const intentMessage = messageWithIntent("TransactionData", txBytes);
   const intentHash = blake2b(intentMessage, { dkLen: 32 });
   const intentMessageHashHex = "0x" + Buffer.from(intentHash).toString("hex");
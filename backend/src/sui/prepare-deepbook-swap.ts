@@ -0,0 +1,189 @@
+/**
+ * Direct Sui-to-Sui swaps on DeepBook (no balance manager, no bridge aggregator): the input coin goes
+ * straight into the pool via swapExactBaseForQuote / swapExactQuoteForBase and the output comes back to
+ * the sender in the same transaction.
+ * - Only pairs with a direct pool (from / to are the pool's base and quote, either way round).
+ * - Fees are paid in the input coin (deepAmount 0), so the user needs no DEEP; quotes use the matching
+ *   *InputFee reads.
+ * - minOut is enforced on chain: the swap aborts when the fill would return less.
+ * - Swaps walk the book like market orders, so they are refused while the oracle price check blocks.
+ * @see https://docs.sui.io/standards/deepbookv3-sdk/swaps
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetPools,
+  testnetCoins,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import { messageWithIntent } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeStructTag, normalizeSuiAddress } from "@mysten/sui/utils";
+import { blake2b } from "@noble/hashes/blake2.js";
+import { Buffer } from "buffer";
+import { buildSponsoredTransaction } from "./gas-sponsor.js";
+import { assertMarketOrderPriceIntegrity } from "./price-integrity.js";
+import { getSuiClient, type SuiNetwork } from "./rpc-provider.js";
+
+/** base_for_quote: sell the pool's base coin; quote_for_base: buy it. */
+export type DeepbookSwapDirection = "base_for_quote" | "quote_for_base";
+
+export type DeepbookSwapRoute = {
+  poolKey: string;
+  direction: DeepbookSwapDirection;
+  fromCoinKey: string;
+  toCoinKey: string;
+};
+
+export type DeepbookSwapQuote = DeepbookSwapRoute & {
+  /** Human amounts. */
+  amountIn: number;
+  amountOut: number;
+  /** Input left over after rounding to the pool's lot size; returned to the sender. */
+  amountUnfilled: number;
+};
+
+export type PrepareDeepbookSwapParams = {
+  sender: string;
+  fromCoinType: string;
+  toCoinType: string;
+  amount: number; // human amount of fromCoinType
+  /** Human amount of toCoinType; the swap aborts when it would return less. */
+  minOut: number;
+  /** Build with the server gas sponsor as gas owner (user needs no SUI); see gas-sponsor.ts. */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+};
+
+export type PrepareDeepbookSwapResult = {
+  intentMessageHashHex: string;
+  txBytesBase64: string;
+  poolKey: string;
+};
+
+function sameCoinType(a: string, b: string): boolean {
+  try {
+    return normalizeStructTag(a) === normalizeStructTag(b);
+  } catch {
+    return false;
+  }
+}
+
+/** The DeepBook pool that trades fromCoinType directly against toCoinType, or null. */
+export function findDeepbookSwapRoute(params: {
+  fromCoinType: string;
+  toCoinType: string;
+  network?: SuiNetwork;
+}): DeepbookSwapRoute | null {
+  const { fromCoinType, toCoinType, network = "mainnet" } = params;
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+  const typeOf = (coinKey: string) => coins[coinKey as keyof typeof coins]?.type;
+
+  for (const [poolKey, pool] of Object.entries(pools)) {
+    const baseType = typeOf(pool.baseCoin);
+    const quoteType = typeOf(pool.quoteCoin);
+    if (!baseType || !quoteType) continue;
+    if (sameCoinType(baseType, fromCoinType) && sameCoinType(quoteType, toCoinType)) {
+      return {
+        poolKey,
+        direction: "base_for_quote",
+        fromCoinKey: pool.baseCoin,
+        toCoinKey: pool.quoteCoin,
+      };
+    }
+    if (sameCoinType(quoteType, fromCoinType) && sameCoinType(baseType, toCoinType)) {
+      return {
+        poolKey,
+        direction: "quote_for_base",
+        fromCoinKey: pool.quoteCoin,
+        toCoinKey: pool.baseCoin,
+      };
+    }
+  }
+  return null;
+}
+
+/** Expected output for swapping amount (human) of fromCoinType; null when no pool trades the pair. */
+export async function quoteDeepbookSwap(params: {
+  fromCoinType: string;
+  toCoinType: string;
+  amount: number;
+  network?: SuiNetwork;
+}): Promise<DeepbookSwapQuote | null> {
+  const { fromCoinType, toCoinType, amount, network = "mainnet" } = params;
+  const route = findDeepbookSwapRoute({ fromCoinType, toCoinType, network });
+  if (!route) return null;
+
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+  const db = getSuiClient(network).$extend(
+    deepbook({ address: normalizeSuiAddress("0x0"), pools, coins })
+  ).deepbook;
+
+  if (route.direction === "base_for_quote") {
+    const out = await db.getQuoteQuantityOutInputFee(route.poolKey, amount);
+    return { ...route, amountIn: amount, amountOut: out.quoteOut, amountUnfilled: out.baseOut };
+  }
+  const out = await db.getBaseQuantityOutInputFee(route.poolKey, amount);
+  return { ...route, amountIn: amount, amountOut: out.baseOut, amountUnfilled: out.quoteOut };
+}
+
+export async function prepareDeepbookSwap(
+  params: PrepareDeepbookSwapParams
+): Promise<PrepareDeepbookSwapResult> {
+  const {
+    sender,
+    fromCoinType,
+    toCoinType,
+    amount,
+    minOut,
+    sponsored = false,
+    network = "mainnet",
+  } = params;
+
+  if (!(amount > 0)) {
+    throw new Error(`Amount must be positive (got ${amount})`);
+  }
+  if (!(minOut > 0)) {
+    throw new Error(`minOut must be positive (got ${minOut})`);
+  }
+  const route = findDeepbookSwapRoute({ fromCoinType, toCoinType, network });
+  if (!route) {
+    throw new Error(`No DeepBook pool trades ${fromCoinType} for ${toCoinType}`);
+  }
+
+  await assertMarketOrderPriceIntegrity({ poolKey: route.poolKey, network });
+
+  const client = getSuiClient(network);
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+  const extended = client.$extend(
+    deepbook({
+      address: sender,
+      pools,
+      coins,
+    })
+  );
+  const { deepBook } = extended.deepbook;
+
+  const tx = new Transaction();
+  tx.setSender(sender);
+  const swapParams = { poolKey: route.poolKey, amount, deepAmount: 0, minOut };
+  const [baseOut, quoteOut, deepOut] =
+    route.direction === "base_for_quote"
+      ? deepBook.swapExactBaseForQuote(swapParams)(tx)
+      : deepBook.swapExactQuoteForBase(swapParams)(tx);
+  tx.transferObjects([baseOut, quoteOut, deepOut], sender);
+
+  const txBytes = sponsored
+    ? await buildSponsoredTransaction(tx, client, network)
+    : await tx.build({ client });
+  const intentMessage = messageWithIntent("TransactionData", txBytes);
+  const intentHash = blake2b(intentMessage, { dkLen: 32 });
+  const intentMessageHashHex = "0x" + Buffer.from(intentHash).toString("hex");
+  const txBytesBase64 = Buffer.from(txBytes).toString("base64");
+
+  return { intentMessageHashHex, txBytesBase64, poolKey: route.poolKey };
+}
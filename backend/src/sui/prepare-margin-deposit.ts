@@ -11,10 +11,11 @@ import {
   testnetPools,
 } from "@mysten/deepbook-v3";
 import { messageWithIntent } from "@mysten/sui/cryptography";
-import { getJsonRpcFullnodeUrl, SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
 import { Transaction } from "@mysten/sui/transactions";
 import { blake2b } from "@noble/hashes/blake2.js";
 import { Buffer } from "buffer";
+import { buildSponsoredTransaction } from "./gas-sponsor.js";
+import { getSuiClient } from "./rpc-provider.js";
 
 const MANAGER_KEY = "MARGIN_MANAGER_1";
 
@@ -24,6 +25,8 @@ export type PrepareMarginDepositParams = {
   poolKey: string;
   asset: "base" | "quote" | "deep";
   amount: number; // human amount (e.g. 10 for 10 USDC)
+  /** Build with the server gas sponsor as gas owner (user needs no SUI); see gas-sponsor.ts. */
+  sponsored?: boolean;
   network?: "mainnet" | "testnet";
 };
 
@@ -44,6 +47,7 @@ export async function prepareMarginDeposit(
     poolKey,
     asset,
     amount,
+    sponsored = false,
     network = "mainnet",
   } = params;
 
@@ -53,8 +57,7 @@ export async function prepareMarginDeposit(
     );
   }
 
-  const url = getJsonRpcFullnodeUrl(network);
-  const client = new SuiJsonRpcClient({ url, network });
+  const client = getSuiClient(network);
 
   const pools = network === "mainnet" ? mainnetPools : testnetPools;
   const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
@@ -103,7 +106,9 @@ export async function prepareMarginDeposit(
     marginManager.depositDeep(depositParams)(tx);
   }
 
-  const txBytes = await tx.build({ client });
+  const txBytes = sponsored
+    ? await buildSponsoredTransaction(tx, client, network)
+    : await tx.build({ client });
   const intentMessage = messageWithIntent("TransactionData", txBytes);
   const intentHash = blake2b(intentMessage, { dkLen: 32 });
   const intentMessageHashHex = "0x" + Buffer.from(intentHash).toString("hex");
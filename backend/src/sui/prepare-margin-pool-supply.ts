@@ -0,0 +1,85 @@
+/**
+ * Build a Sui transaction to supply (lend) a coin to its DeepBook margin pool.
+ * Supply positions are tracked per SupplierCap; when the sender has none, one is minted in the same
+ * transaction and transferred to them. Later supplies reuse the first owned cap for every pool and never
+ * mint another (positions under any extra caps are still read and withdrawn).
+ * @see https://docs.sui.io/standards/deepbook-margin-sdk/margin-pool
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetPools,
+  testnetCoins,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import { messageWithIntent } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { blake2b } from "@noble/hashes/blake2.js";
+import { Buffer } from "buffer";
+import { findSupplierCapId, getLendingCoinKeys } from "./fetch-margin-pool-lending.js";
+import { buildSponsoredTransaction } from "./gas-sponsor.js";
+import { getSuiClient } from "./rpc-provider.js";
+
+export type PrepareMarginPoolSupplyParams = {
+  sender: string;
+  /** Margin pool coin key (e.g. USDC, SUI). */
+  coinKey: string;
+  amount: number; // human amount
+  /** Build with the server gas sponsor as gas owner (user needs no SUI); see gas-sponsor.ts. */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+};
+
+export type PrepareMarginPoolSupplyResult = {
+  intentMessageHashHex: string;
+  txBytesBase64: string;
+  /** Existing cap used, or null when this transaction mints one. */
+  supplierCapId: string | null;
+};
+
+/** Minimum supply in human units, same as margin deposits. */
+export const MIN_SUPPLY_AMOUNT = 0.01;
+
+export async function prepareMarginPoolSupply(
+  params: PrepareMarginPoolSupplyParams
+): Promise<PrepareMarginPoolSupplyResult> {
+  const { sender, coinKey, amount, sponsored = false, network = "mainnet" } = params;
+
+  if (!getLendingCoinKeys(network).includes(coinKey)) {
+    throw new Error(
+      `Unknown margin pool: ${coinKey}. Valid keys: ${getLendingCoinKeys(network).join(", ")}`
+    );
+  }
+  if (!(amount >= MIN_SUPPLY_AMOUNT)) {
+    throw new Error(`Amount must be at least ${MIN_SUPPLY_AMOUNT} (got ${amount})`);
+  }
+
+  const client = getSuiClient(network);
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+  const extended = client.$extend(deepbook({ address: sender, pools, coins }));
+  const marginPool = extended.deepbook.marginPool;
+
+  const supplierCapId = await findSupplierCapId(sender, network);
+
+  const tx = new Transaction();
+  tx.setSender(sender);
+  if (supplierCapId) {
+    marginPool.supplyToMarginPool(coinKey, tx.object(supplierCapId), amount)(tx);
+  } else {
+    const cap = marginPool.mintSupplierCap()(tx);
+    marginPool.supplyToMarginPool(coinKey, cap, amount)(tx);
+    tx.transferObjects([cap], sender);
+  }
+
+  const txBytes = sponsored
+    ? await buildSponsoredTransaction(tx, client, network)
+    : await tx.build({ client });
+  const intentMessage = messageWithIntent("TransactionData", txBytes);
+  const intentHash = blake2b(intentMessage, { dkLen: 32 });
+  const intentMessageHashHex = "0x" + Buffer.from(intentHash).toString("hex");
+  const txBytesBase64 = Buffer.from(txBytes).toString("base64");
+
+  return { intentMessageHashHex, txBytesBase64, supplierCapId };
+}
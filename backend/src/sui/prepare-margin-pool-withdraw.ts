@@ -0,0 +1,108 @@
+/**
+ * Build a Sui transaction to withdraw supplied funds (principal + interest) from a DeepBook margin pool
+ * and send them to the sender. Omit amount to withdraw the whole position. Withdrawals can fail while
+ * the pool's free liquidity (supply − borrow) is below the amount.
+ * When the sender owns several SupplierCaps the amount is taken from the caps with the largest positions
+ * first, all in one transaction.
+ * @see https://docs.sui.io/standards/deepbook-margin-sdk/margin-pool
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetPools,
+  testnetCoins,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import { messageWithIntent } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { blake2b } from "@noble/hashes/blake2.js";
+import { Buffer } from "buffer";
+import { findSupplierCapIds, getLendingCoinKeys } from "./fetch-margin-pool-lending.js";
+import { buildSponsoredTransaction } from "./gas-sponsor.js";
+import { getSuiClient } from "./rpc-provider.js";
+
+export type PrepareMarginPoolWithdrawParams = {
+  sender: string;
+  coinKey: string;
+  /** Human amount; omit to withdraw everything supplied to this pool. */
+  amount?: number;
+  /** Build with the server gas sponsor as gas owner (user needs no SUI); see gas-sponsor.ts. */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+};
+
+export type PrepareMarginPoolWithdrawResult = {
+  intentMessageHashHex: string;
+  txBytesBase64: string;
+};
+
+export async function prepareMarginPoolWithdraw(
+  params: PrepareMarginPoolWithdrawParams
+): Promise<PrepareMarginPoolWithdrawResult> {
+  const { sender, coinKey, amount, sponsored = false, network = "mainnet" } = params;
+
+  if (!getLendingCoinKeys(network).includes(coinKey)) {
+    throw new Error(
+      `Unknown margin pool: ${coinKey}. Valid keys: ${getLendingCoinKeys(network).join(", ")}`
+    );
+  }
+  if (amount !== undefined && !(amount > 0)) {
+    throw new Error(`Amount must be positive (got ${amount})`);
+  }
+
+  const supplierCapIds = await findSupplierCapIds(sender, network);
+  if (supplierCapIds.length === 0) {
+    throw new Error("No supplier position found for this address");
+  }
+
+  const client = getSuiClient(network);
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+  const extended = client.$extend(deepbook({ address: sender, pools, coins }));
+
+  // Current amount per cap in this pool, largest first; caps without a position are skipped.
+  const positions = (
+    await Promise.all(
+      supplierCapIds.map(async (capId) => ({
+        capId,
+        amount: Number(await extended.deepbook.getUserSupplyAmount(coinKey, capId)),
+      }))
+    )
+  )
+    .filter((p) => p.amount > 0)
+    .sort((a, b) => b.amount - a.amount);
+  if (positions.length === 0) {
+    throw new Error(`No ${coinKey} supply position found for this address`);
+  }
+  const available = positions.reduce((sum, p) => sum + p.amount, 0);
+  if (amount !== undefined && amount > available) {
+    throw new Error(`Amount ${amount} exceeds the supplied ${available} ${coinKey}`);
+  }
+
+  const tx = new Transaction();
+  tx.setSender(sender);
+  const withdrawn = [];
+  let remaining = amount;
+  for (const p of positions) {
+    if (remaining !== undefined && remaining <= 0) break;
+    // Whole position (None) when withdrawing everything or when this cap cannot cover the rest.
+    const partial = remaining !== undefined && remaining < p.amount ? remaining : undefined;
+    withdrawn.push(
+      extended.deepbook.marginPool.withdrawFromMarginPool(coinKey, tx.object(p.capId), partial)(tx)
+    );
+    if (remaining !== undefined) remaining -= p.amount;
+  }
+  if (withdrawn.length > 1) tx.mergeCoins(withdrawn[0], withdrawn.slice(1));
+  tx.transferObjects([withdrawn[0]], sender);
+
+  const txBytes = sponsored
+    ? await buildSponsoredTransaction(tx, client, network)
+    : await tx.build({ client });
+  const intentMessage = messageWithIntent("TransactionData", txBytes);
+  const intentHash = blake2b(intentMessage, { dkLen: 32 });
+  const intentMessageHashHex = "0x" + Buffer.from(intentHash).toString("hex");
+  const txBytesBase64 = Buffer.from(txBytes).toString("base64");
+
+  return { intentMessageHashHex, txBytesBase64 };
+}
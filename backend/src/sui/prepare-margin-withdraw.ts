@@ -11,13 +11,14 @@ import {
   testnetPools,
 } from "@mysten/deepbook-v3";
 import { messageWithIntent } from "@mysten/sui/cryptography";
-import { getJsonRpcFullnodeUrl, SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
 import {
   Transaction,
   type TransactionObjectArgument,
 } from "@mysten/sui/transactions";
 import { blake2b } from "@noble/hashes/blake2.js";
 import { Buffer } from "buffer";
+import { buildSponsoredTransaction } from "./gas-sponsor.js";
+import { getSuiClient } from "./rpc-provider.js";
 
 const MANAGER_KEY = "MARGIN_MANAGER_1";
 
@@ -27,6 +28,8 @@ export type PrepareMarginWithdrawParams = {
   poolKey: string;
   asset: "base" | "quote" | "deep";
   amount: number; // human amount
+  /** Build with the server gas sponsor as gas owner (user needs no SUI); see gas-sponsor.ts. */
+  sponsored?: boolean;
   network?: "mainnet" | "testnet";
 };
 
@@ -47,6 +50,7 @@ export async function prepareMarginWithdraw(
     poolKey,
     asset,
     amount,
+    sponsored = false,
     network = "mainnet",
   } = params;
 
@@ -56,8 +60,7 @@ export async function prepareMarginWithdraw(
     );
   }
 
-  const url = getJsonRpcFullnodeUrl(network);
-  const client = new SuiJsonRpcClient({ url, network });
+  const client = getSuiClient(network);
 
   const pools = network === "mainnet" ? mainnetPools : testnetPools;
   const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
@@ -116,7 +119,9 @@ export async function prepareMarginWithdraw(
   }
   tx.transferObjects([withdrawnCoin], tx.pure.address(sender));
 
-  const txBytes = await tx.build({ client });
+  const txBytes = sponsored
+    ? await buildSponsoredTransaction(tx, client, network)
+    : await tx.build({ client });
   const intentMessage = messageWithIntent("TransactionData", txBytes);
   const intentHash = blake2b(intentMessage, { dkLen: 32 });
   const intentMessageHashHex = "0x" + Buffer.from(intentHash).toString("hex");
@@ -0,0 +1,180 @@
+/**
+ * Build a Sui transaction to amend a resting margin limit order.
+ * - Same price, smaller size: poolProxy.modifyOrder (reduces quantity in place, keeps queue priority).
+ * - New price (or larger size): cancelOrder + placeLimitOrder in one PTB, reusing the original
+ *   clientOrderId, expiration and fee mode (DEEP or input coin) so the replacement keeps the order's lineage.
+ *   The chain does not record an order's restriction or self-matching option, so the replacement is
+ *   post-only unless the caller passes timeInForce "gtc": editing a maker order never makes it a taker.
+ * The original order is read from chain (getOrderNormalized) for side, size, fill and clientOrderId.
+ * @see https://docs.sui.io/standards/deepbook-margin-sdk/orders
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetPools,
+  testnetCoins,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import { messageWithIntent } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { blake2b } from "@noble/hashes/blake2.js";
+import { Buffer } from "buffer";
+import { buildSponsoredTransaction } from "./gas-sponsor.js";
+import {
+  ORDER_RESTRICTION,
+  SELF_MATCHING_OPTION,
+  type SelfMatching,
+} from "./prepare-place-order.js";
+import { getSuiClient } from "./rpc-provider.js";
+
+const MANAGER_KEY = "MARGIN_MANAGER_1";
+
+export const MODIFY_TIME_IN_FORCE_VALUES = ["gtc", "post_only"] as const;
+export type ModifyTimeInForce = (typeof MODIFY_TIME_IN_FORCE_VALUES)[number];
+
+export type PrepareModifyOrderParams = {
+  sender: string;
+  marginManagerId: string;
+  poolKey: string;
+  orderId: string;
+  /** New open (unfilled) quantity in base, human units. Omit to keep the current remaining size. */
+  quantity?: number;
+  /** New limit price. Omit (or same as current) to amend size in place. */
+  price?: number;
+  /** Fee mode of the replacement. Default: the original order's. */
+  payWithDeep?: boolean;
+  /** Restriction of the replacement; resting orders are only ever GTC or post-only. Default "post_only". */
+  timeInForce?: ModifyTimeInForce;
+  /** Self-matching option of the replacement (not readable from chain). Default "allow". */
+  selfMatching?: SelfMatching;
+  /** Build with the server gas sponsor as gas owner (user needs no SUI); see gas-sponsor.ts. */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+};
+
+export type PrepareModifyOrderResult = {
+  intentMessageHashHex: string;
+  txBytesBase64: string;
+  /** "reduce" = modifyOrder in place; "replace" = cancel + place at new price/size. */
+  mode: "reduce" | "replace";
+  /** clientOrderId carried over from the original order. */
+  clientOrderId: string;
+};
+
+export async function prepareModifyOrder(
+  params: PrepareModifyOrderParams
+): Promise<PrepareModifyOrderResult> {
+  const {
+    sender,
+    marginManagerId,
+    poolKey,
+    orderId,
+    quantity,
+    price,
+    payWithDeep,
+    timeInForce = "post_only",
+    selfMatching = "allow",
+    sponsored = false,
+    network = "mainnet",
+  } = params;
+
+  if (quantity == null && price == null) {
+    throw new Error("At least one of quantity or price is required");
+  }
+  if (quantity != null && (Number.isNaN(quantity) || quantity <= 0)) {
+    throw new Error("Quantity must be positive");
+  }
+  if (price != null && (Number.isNaN(price) || price <= 0)) {
+    throw new Error("Price must be positive");
+  }
+  if (!MODIFY_TIME_IN_FORCE_VALUES.includes(timeInForce)) {
+    throw new Error(`timeInForce must be one of: ${MODIFY_TIME_IN_FORCE_VALUES.join(", ")}`);
+  }
+
+  const client = getSuiClient(network);
+
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+
+  if (!(poolKey in pools)) {
+    throw new Error(
+      `Unknown pool key: ${poolKey}. Valid keys include: ${Object.keys(pools)
+        .slice(0, 10)
+        .join(", ")}`
+    );
+  }
+
+  const extended = client.$extend(
+    deepbook({
+      address: sender,
+      pools,
+      coins,
+      marginManagers: {
+        [MANAGER_KEY]: { address: marginManagerId, poolKey },
+      },
+    })
+  );
+
+  const order = await extended.deepbook.getOrderNormalized(poolKey, orderId);
+  if (!order) {
+    throw new Error(`Order ${orderId} not found in ${poolKey} (already filled or cancelled?)`);
+  }
+  const { tickSize } = await extended.deepbook.poolBookParams(poolKey);
+
+  const originalQuantity = Number(order.quantity);
+  const filledQuantity = Number(order.filled_quantity);
+  const remaining = originalQuantity - filledQuantity;
+  const currentPrice = Number(order.normalized_price);
+  const newRemaining = quantity ?? remaining;
+  const priceChanged =
+    price != null && Math.abs(price - currentPrice) >= tickSize / 2;
+
+  const tx = new Transaction();
+  tx.setSender(sender);
+
+  const { poolProxy } = extended.deepbook;
+  let mode: PrepareModifyOrderResult["mode"];
+
+  if (!priceChanged && newRemaining < remaining) {
+    // modify_order takes the new total quantity (filled + open), which must stay above filled.
+    mode = "reduce";
+    poolProxy.modifyOrder(
+      MANAGER_KEY,
+      orderId,
+      Number((filledQuantity + newRemaining).toFixed(9))
+    )(tx);
+  } else if (!priceChanged && newRemaining === remaining) {
+    throw new Error("Nothing to change: price and quantity match the resting order");
+  } else {
+    mode = "replace";
+    poolProxy.cancelOrder(MANAGER_KEY, orderId)(tx);
+    poolProxy.placeLimitOrder({
+      poolKey,
+      marginManagerKey: MANAGER_KEY,
+      clientOrderId: order.client_order_id,
+      price: price ?? currentPrice,
+      quantity: newRemaining,
+      isBid: order.isBid,
+      expiration: BigInt(order.expire_timestamp),
+      orderType: ORDER_RESTRICTION[timeInForce],
+      selfMatchingOption: SELF_MATCHING_OPTION[selfMatching],
+      payWithDeep: payWithDeep ?? order.fee_is_deep,
+    })(tx);
+  }
+
+  const txBytes = sponsored
+    ? await buildSponsoredTransaction(tx, client, network)
+    : await tx.build({ client });
+  const intentMessage = messageWithIntent("TransactionData", txBytes);
+  const intentHash = blake2b(intentMessage, { dkLen: 32 });
+  const intentMessageHashHex = "0x" + Buffer.from(intentHash).toString("hex");
+  const txBytesBase64 = Buffer.from(txBytes).toString("base64");
+
+  return {
+    intentMessageHashHex,
+    txBytesBase64,
+    mode,
+    clientOrderId: order.client_order_id,
+  };
+}
@@ -2,6 +2,10 @@
  * Build a Sui transaction to place a margin limit or market order.
  * Optionally borrows first (borrowBase/borrowQuote) so the margin account has
  * enough balance for the order; then places the order via poolProxy.
+ * Limit orders take a time in force (GTC / IOC / FOK / post-only) and an optional expiration; both order
+ * types take a self-matching option. With maxSlippageBps a market order becomes an IOC limit order at
+ * the slippage bound (see slippage-limit.ts). Opening market orders are refused while the book is too far
+ * from the oracle (price-integrity.ts); reduce-only orders are not, so positions can always be closed.
  * @see https://docs.sui.io/standards/deepbook-margin-sdk/orders
  * @see https://docs.sui.io/standards/deepbook-margin-sdk/margin-manager#borrowbase-borrowquote
  */
@@ -10,17 +14,42 @@ import {
   deepbook,
   mainnetCoins,
   mainnetPools,
+  OrderType,
+  SelfMatchingOptions,
   testnetCoins,
   testnetPools,
 } from "@mysten/deepbook-v3";
 import { messageWithIntent } from "@mysten/sui/cryptography";
-import { getJsonRpcFullnodeUrl, SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
 import { Transaction } from "@mysten/sui/transactions";
 import { blake2b } from "@noble/hashes/blake2.js";
 import { Buffer } from "buffer";
+import { buildSponsoredTransaction } from "./gas-sponsor.js";
+import { assertMarketOrderPriceIntegrity } from "./price-integrity.js";
+import { getSuiClient } from "./rpc-provider.js";
+import { slippageLimitPrice } from "./slippage-limit.js";
 
 const MANAGER_KEY = "MARGIN_MANAGER_1";
 
+export const TIME_IN_FORCE_VALUES = ["gtc", "ioc", "fok", "post_only"] as const;
+export type TimeInForce = (typeof TIME_IN_FORCE_VALUES)[number];
+
+export const SELF_MATCHING_VALUES = ["allow", "cancel_taker", "cancel_maker"] as const;
+export type SelfMatching = (typeof SELF_MATCHING_VALUES)[number];
+
+/** DeepBook order restriction per time in force; GTC is a plain resting limit order. */
+export const ORDER_RESTRICTION: Record<TimeInForce, OrderType> = {
+  gtc: OrderType.NO_RESTRICTION,
+  ioc: OrderType.IMMEDIATE_OR_CANCEL,
+  fok: OrderType.FILL_OR_KILL,
+  post_only: OrderType.POST_ONLY,
+};
+
+export const SELF_MATCHING_OPTION: Record<SelfMatching, SelfMatchingOptions> = {
+  allow: SelfMatchingOptions.SELF_MATCHING_ALLOWED,
+  cancel_taker: SelfMatchingOptions.CANCEL_TAKER,
+  cancel_maker: SelfMatchingOptions.CANCEL_MAKER,
+};
+
 export type PreparePlaceOrderParams = {
   sender: string;
   marginManagerId: string;
@@ -31,6 +60,8 @@ export type PreparePlaceOrderParams = {
   price?: number; // required for limit
   clientOrderId: number; // u64 for SDK
   payWithDeep?: boolean;
+  /** Build with the server gas sponsor as gas owner (user needs no SUI); see gas-sponsor.ts. */
+  sponsored?: boolean;
   network?: "mainnet" | "testnet";
   /** If true, use placeReduceOnlyMarketOrder (for closing positions). */
   reduceOnly?: boolean;
@@ -38,11 +69,21 @@ export type PreparePlaceOrderParams = {
   borrowBaseAmount?: number;
   /** Borrow quote (e.g. USDC) before placing order; used for long. Human units. */
   borrowQuoteAmount?: number;
+  /** Limit orders only. Default "gtc". */
+  timeInForce?: TimeInForce;
+  /** What happens when the order would match the same account's resting order. Default "allow". */
+  selfMatching?: SelfMatching;
+  /** Limit orders only: ms timestamp after which the order is cancelled. Default: never. */
+  expiration?: number;
+  /** Market orders only: cancel whatever would fill worse than this many bps from the book / oracle price. */
+  maxSlippageBps?: number;
 };
 
 export type PreparePlaceOrderResult = {
   intentMessageHashHex: string;
   txBytesBase64: string;
+  /** Set when maxSlippageBps turned a market order into an IOC limit order at this price. */
+  slippageLimitPrice?: number;
 };
 
 export async function preparePlaceOrder(
@@ -58,10 +99,15 @@ export async function preparePlaceOrder(
     price,
     clientOrderId,
     payWithDeep = true,
+    sponsored = false,
     network = "mainnet",
     reduceOnly = false,
     borrowBaseAmount,
     borrowQuoteAmount,
+    timeInForce = "gtc",
+    selfMatching = "allow",
+    expiration,
+    maxSlippageBps,
   } = params;
 
   if (orderType === "limit" && (price == null || Number.isNaN(price))) {
@@ -70,9 +116,21 @@ export async function preparePlaceOrder(
   if (!quantity || quantity <= 0) {
     throw new Error("Quantity must be positive");
   }
+  if (orderType === "market" && (timeInForce !== "gtc" || expiration != null)) {
+    throw new Error("Time in force and expiration apply to limit orders only");
+  }
+  if (orderType === "limit" && maxSlippageBps != null) {
+    throw new Error("maxSlippageBps applies to market orders only");
+  }
+  if (expiration != null && (!Number.isInteger(expiration) || expiration <= Date.now())) {
+    throw new Error("Expiration must be a future timestamp in milliseconds");
+  }
+
+  if (orderType === "market" && !reduceOnly) {
+    await assertMarketOrderPriceIntegrity({ poolKey, network });
+  }
 
-  const url = getJsonRpcFullnodeUrl(network);
-  const client = new SuiJsonRpcClient({ url, network });
+  const client = getSuiClient(network);
 
   const pools = network === "mainnet" ? mainnetPools : testnetPools;
   const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
@@ -109,7 +167,31 @@ export async function preparePlaceOrder(
   }
 
   const clientOrderIdStr = String(clientOrderId);
-  if (orderType === "limit") {
+  let protectedPrice: number | undefined;
+  if (orderType === "market" && maxSlippageBps != null) {
+    const { limitPrice } = await slippageLimitPrice({
+      db: extended.deepbook,
+      poolKey,
+      isBid,
+      maxSlippageBps,
+      marginManagerKey: MANAGER_KEY,
+    });
+    protectedPrice = limitPrice;
+    const placeProtected = reduceOnly
+      ? poolProxy.placeReduceOnlyLimitOrder
+      : poolProxy.placeLimitOrder;
+    placeProtected({
+      poolKey,
+      marginManagerKey: MANAGER_KEY,
+      clientOrderId: clientOrderIdStr,
+      price: limitPrice,
+      quantity,
+      isBid,
+      payWithDeep,
+      orderType: OrderType.IMMEDIATE_OR_CANCEL,
+      selfMatchingOption: SELF_MATCHING_OPTION[selfMatching],
+    })(tx);
+  } else if (orderType === "limit") {
     poolProxy.placeLimitOrder({
       poolKey,
       marginManagerKey: MANAGER_KEY,
@@ -118,6 +200,9 @@ export async function preparePlaceOrder(
       quantity,
       isBid,
       payWithDeep,
+      orderType: ORDER_RESTRICTION[timeInForce],
+      selfMatchingOption: SELF_MATCHING_OPTION[selfMatching],
+      ...(expiration != null ? { expiration } : {}),
     })(tx);
   } else if (reduceOnly) {
     poolProxy.placeReduceOnlyMarketOrder({
@@ -127,6 +212,7 @@ export async function preparePlaceOrder(
       quantity,
       isBid,
       payWithDeep,
+      selfMatchingOption: SELF_MATCHING_OPTION[selfMatching],
     })(tx);
   } else {
     poolProxy.placeMarketOrder({
@@ -136,14 +222,21 @@ export async function preparePlaceOrder(
       quantity,
       isBid,
       payWithDeep,
+      selfMatchingOption: SELF_MATCHING_OPTION[selfMatching],
     })(tx);
   }
 
-  const txBytes = await tx.build({ client });
+  const txBytes = sponsored
+    ? await buildSponsoredTransaction(tx, client, network)
+    : await tx.build({ client });
   const intentMessage = messageWithIntent("TransactionData", txBytes);
   const intentHash = blake2b(intentMessage, { dkLen: 32 });
   const intentMessageHashHex = "0x" + Buffer.from(intentHash).toString("hex");
   const txBytesBase64 = Buffer.from(txBytes).toString("base64");
 
-  return { intentMessageHashHex, txBytesBase64 };
+  return {
+    intentMessageHashHex,
+    txBytesBase64,
+    ...(protectedPrice != null ? { slippageLimitPrice: protectedPrice } : {}),
+  };
 }
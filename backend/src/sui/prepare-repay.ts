@@ -12,10 +12,11 @@ import {
   testnetPools,
 } from "@mysten/deepbook-v3";
 import { messageWithIntent } from "@mysten/sui/cryptography";
-import { getJsonRpcFullnodeUrl, SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
 import { Transaction } from "@mysten/sui/transactions";
 import { blake2b } from "@noble/hashes/blake2.js";
 import { Buffer } from "buffer";
+import { buildSponsoredTransaction } from "./gas-sponsor.js";
+import { getSuiClient } from "./rpc-provider.js";
 
 const MANAGER_KEY = "MARGIN_MANAGER_1";
 
@@ -27,6 +28,8 @@ export type PrepareRepayParams = {
   baseAmount?: number;
   /** Quote debt to repay (e.g. USDC). Human units. Omit or 0 to skip. */
   quoteAmount?: number;
+  /** Build with the server gas sponsor as gas owner (user needs no SUI); see gas-sponsor.ts. */
+  sponsored?: boolean;
   network?: "mainnet" | "testnet";
 };
 
@@ -44,6 +47,7 @@ export async function prepareRepay(
     poolKey,
     baseAmount = 0,
     quoteAmount = 0,
+    sponsored = false,
     network = "mainnet",
   } = params;
 
@@ -55,8 +59,7 @@ export async function prepareRepay(
     );
   }
 
-  const url = getJsonRpcFullnodeUrl(network);
-  const client = new SuiJsonRpcClient({ url, network });
+  const client = getSuiClient(network);
 
   const pools = network === "mainnet" ? mainnetPools : testnetPools;
   const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
@@ -108,7 +111,9 @@ export async function prepareRepay(
     marginManager.repayQuote(MANAGER_KEY, quoteAmount)(tx);
   }
 
-  const txBytes = await tx.build({ client });
+  const txBytes = sponsored
+    ? await buildSponsoredTransaction(tx, client, network)
+    : await tx.build({ client });
   const intentMessage = messageWithIntent("TransactionData", txBytes);
   const intentHash = blake2b(intentMessage, { dkLen: 32 });
   const intentMessageHashHex = "0x" + Buffer.from(intentHash).toString("hex");
@@ -0,0 +1,101 @@
+/**
+ * Build a Sui transaction to cancel one or more resting spot orders of a balance manager.
+ * Single id uses deepBook.cancelOrder; a list uses deepBook.cancelOrders (one moveCall).
+ * @see https://docs.sui.io/standards/deepbookv3-sdk/orders
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetPools,
+  testnetCoins,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import { messageWithIntent } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { blake2b } from "@noble/hashes/blake2.js";
+import { Buffer } from "buffer";
+import { buildSponsoredTransaction } from "./gas-sponsor.js";
+import { getSuiClient } from "./rpc-provider.js";
+
+const MANAGER_KEY = "BALANCE_MANAGER_1";
+
+export type PrepareSpotCancelOrderParams = {
+  sender: string;
+  balanceManagerId: string;
+  poolKey: string;
+  /** Order id (u128 as decimal string) or a list of ids. */
+  orderIds: string | string[];
+  /** Build with the server gas sponsor as gas owner (user needs no SUI); see gas-sponsor.ts. */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+};
+
+export type PrepareSpotCancelOrderResult = {
+  intentMessageHashHex: string;
+  txBytesBase64: string;
+};
+
+export async function prepareSpotCancelOrder(
+  params: PrepareSpotCancelOrderParams
+): Promise<PrepareSpotCancelOrderResult> {
+  const {
+    sender,
+    balanceManagerId,
+    poolKey,
+    orderIds,
+    sponsored = false,
+    network = "mainnet",
+  } = params;
+
+  const ids = (Array.isArray(orderIds) ? orderIds : [orderIds])
+    .map((id) => String(id).trim())
+    .filter((id) => id !== "");
+  if (ids.length === 0) {
+    throw new Error("At least one order id is required");
+  }
+
+  const client = getSuiClient(network);
+
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+
+  if (!(poolKey in pools)) {
+    throw new Error(
+      `Unknown pool key: ${poolKey}. Valid keys include: ${Object.keys(pools)
+        .slice(0, 10)
+        .join(", ")}`
+    );
+  }
+
+  const extended = client.$extend(
+    deepbook({
+      address: sender,
+      pools,
+      coins,
+      balanceManagers: {
+        [MANAGER_KEY]: { address: balanceManagerId },
+      },
+    })
+  );
+
+  const tx = new Transaction();
+  tx.setSender(sender);
+
+  const { deepBook } = extended.deepbook;
+  if (ids.length === 1) {
+    deepBook.cancelOrder(poolKey, MANAGER_KEY, ids[0])(tx);
+  } else {
+    deepBook.cancelOrders(poolKey, MANAGER_KEY, ids)(tx);
+  }
+
+  const txBytes = sponsored
+    ? await buildSponsoredTransaction(tx, client, network)
+    : await tx.build({ client });
+  const intentMessage = messageWithIntent("TransactionData", txBytes);
+  const intentHash = blake2b(intentMessage, { dkLen: 32 });
+  const intentMessageHashHex = "0x" + Buffer.from(intentHash).toString("hex");
+  const txBytesBase64 = Buffer.from(txBytes).toString("base64");
+
+  return { intentMessageHashHex, txBytesBase64 };
+}
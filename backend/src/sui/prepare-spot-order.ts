@@ -0,0 +1,193 @@
+/**
+ * Build a Sui transaction to place a spot limit or market order from a balance manager (no margin, no
+ * borrowing): the order trades the manager's own base / quote via deepBook.placeLimitOrder / placeMarketOrder.
+ * Same order options as prepare-place-order.ts: time in force, expiration and self-matching; with
+ * maxSlippageBps a market order becomes an IOC limit order at the book price ± bps (slippage-limit.ts).
+ * Market orders are refused while the book is too far from the oracle (price-integrity.ts).
+ * @see https://docs.sui.io/standards/deepbookv3-sdk/orders
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetPools,
+  OrderType,
+  testnetCoins,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import { messageWithIntent } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { blake2b } from "@noble/hashes/blake2.js";
+import { Buffer } from "buffer";
+import { buildSponsoredTransaction } from "./gas-sponsor.js";
+import {
+  ORDER_RESTRICTION,
+  SELF_MATCHING_OPTION,
+  type SelfMatching,
+  type TimeInForce,
+} from "./prepare-place-order.js";
+import { assertMarketOrderPriceIntegrity } from "./price-integrity.js";
+import { getSuiClient } from "./rpc-provider.js";
+import { slippageLimitPrice } from "./slippage-limit.js";
+
+const MANAGER_KEY = "BALANCE_MANAGER_1";
+
+export type PrepareSpotOrderParams = {
+  sender: string;
+  balanceManagerId: string;
+  poolKey: string;
+  orderType: "limit" | "market";
+  isBid: boolean;
+  quantity: number;
+  price?: number; // required for limit
+  clientOrderId: number; // u64 for SDK
+  payWithDeep?: boolean;
+  /** Build with the server gas sponsor as gas owner (user needs no SUI); see gas-sponsor.ts. */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+  /** Limit orders only. Default "gtc". */
+  timeInForce?: TimeInForce;
+  /** What happens when the order would match the same account's resting order. Default "allow". */
+  selfMatching?: SelfMatching;
+  /** Limit orders only: ms timestamp after which the order is cancelled. Default: never. */
+  expiration?: number;
+  /** Market orders only: cancel whatever would fill worse than this many bps from the book price. */
+  maxSlippageBps?: number;
+};
+
+export type PrepareSpotOrderResult = {
+  intentMessageHashHex: string;
+  txBytesBase64: string;
+  /** Set when maxSlippageBps turned a market order into an IOC limit order at this price. */
+  slippageLimitPrice?: number;
+};
+
+export async function prepareSpotOrder(
+  params: PrepareSpotOrderParams
+): Promise<PrepareSpotOrderResult> {
+  const {
+    sender,
+    balanceManagerId,
+    poolKey,
+    orderType,
+    isBid,
+    quantity,
+    price,
+    clientOrderId,
+    payWithDeep = true,
+    sponsored = false,
+    network = "mainnet",
+    timeInForce = "gtc",
+    selfMatching = "allow",
+    expiration,
+    maxSlippageBps,
+  } = params;
+
+  if (orderType === "limit" && (price == null || Number.isNaN(price))) {
+    throw new Error("Price is required for limit orders");
+  }
+  if (!quantity || quantity <= 0) {
+    throw new Error("Quantity must be positive");
+  }
+  if (orderType === "market" && (timeInForce !== "gtc" || expiration != null)) {
+    throw new Error("Time in force and expiration apply to limit orders only");
+  }
+  if (orderType === "limit" && maxSlippageBps != null) {
+    throw new Error("maxSlippageBps applies to market orders only");
+  }
+  if (expiration != null && (!Number.isInteger(expiration) || expiration <= Date.now())) {
+    throw new Error("Expiration must be a future timestamp in milliseconds");
+  }
+
+  if (orderType === "market") {
+    await assertMarketOrderPriceIntegrity({ poolKey, network });
+  }
+
+  const client = getSuiClient(network);
+
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+
+  if (!(poolKey in pools)) {
+    throw new Error(
+      `Unknown pool key: ${poolKey}. Valid keys include: ${Object.keys(pools)
+        .slice(0, 10)
+        .join(", ")}`
+    );
+  }
+
+  const extended = client.$extend(
+    deepbook({
+      address: sender,
+      pools,
+      coins,
+      balanceManagers: {
+        [MANAGER_KEY]: { address: balanceManagerId },
+      },
+    })
+  );
+
+  const tx = new Transaction();
+  tx.setSender(sender);
+
+  const { deepBook } = extended.deepbook;
+  const clientOrderIdStr = String(clientOrderId);
+  let protectedPrice: number | undefined;
+  if (orderType === "market" && maxSlippageBps != null) {
+    const { limitPrice } = await slippageLimitPrice({
+      db: extended.deepbook,
+      poolKey,
+      isBid,
+      maxSlippageBps,
+    });
+    protectedPrice = limitPrice;
+    deepBook.placeLimitOrder({
+      poolKey,
+      balanceManagerKey: MANAGER_KEY,
+      clientOrderId: clientOrderIdStr,
+      price: limitPrice,
+      quantity,
+      isBid,
+      payWithDeep,
+      orderType: OrderType.IMMEDIATE_OR_CANCEL,
+      selfMatchingOption: SELF_MATCHING_OPTION[selfMatching],
+    })(tx);
+  } else if (orderType === "limit") {
+    deepBook.placeLimitOrder({
+      poolKey,
+      balanceManagerKey: MANAGER_KEY,
+      clientOrderId: clientOrderIdStr,
+      price: price!,
+      quantity,
+      isBid,
+      payWithDeep,
+      orderType: ORDER_RESTRICTION[timeInForce],
+      selfMatchingOption: SELF_MATCHING_OPTION[selfMatching],
+      ...(expiration != null ? { expiration } : {}),
+    })(tx);
+  } else {
+    deepBook.placeMarketOrder({
+      poolKey,
+      balanceManagerKey: MANAGER_KEY,
+      clientOrderId: clientOrderIdStr,
+      quantity,
+      isBid,
+      payWithDeep,
+      selfMatchingOption: SELF_MATCHING_OPTION[selfMatching],
+    })(tx);
+  }
+
+  const txBytes = sponsored
+    ? await buildSponsoredTransaction(tx, client, network)
+    : await tx.build({ client });
+  const intentMessage = messageWithIntent("TransactionData", txBytes);
+  const intentHash = blake2b(intentMessage, { dkLen: 32 });
+  const intentMessageHashHex = "0x" + Buffer.from(intentHash).toString("hex");
+  const txBytesBase64 = Buffer.from(txBytes).toString("base64");
+
+  return {
+    intentMessageHashHex,
+    txBytesBase64,
+    ...(protectedPrice != null ? { slippageLimitPrice: protectedPrice } : {}),
+  };
+}
@@ -5,10 +5,10 @@
  */
 
 import { messageWithIntent } from "@mysten/sui/cryptography";
-import { getJsonRpcFullnodeUrl, SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
 import { Transaction } from "@mysten/sui/transactions";
 import { blake2b } from "@noble/hashes/blake2.js";
 import { Buffer } from "buffer";
+import { getSuiClient } from "./rpc-provider.js";
 
 const SUI_COIN_TYPE = "0x2::sui::SUI";
 
@@ -46,8 +46,7 @@ export async function prepareTransfer(
     throw new Error("Amount must be greater than 0");
   }
 
-  const url = getJsonRpcFullnodeUrl(network);
-  const client = new SuiJsonRpcClient({ url, network });
+  const client = getSuiClient(network);
 
   const tx = new Transaction();
   tx.setSender(sender);
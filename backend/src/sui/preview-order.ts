@@ -0,0 +1,398 @@
+/**
+ * Pre-trade preview for a margin order (read-only, nothing is signed):
+ * - Walks the on-chain order book (getLevel2Range) from the mid price to estimate the taker fill:
+ *   average price, worst price, slippage vs mid and any quantity the book cannot fill (market) or
+ *   that will rest on the book (limit).
+ * - Compares taker fees paid in DEEP against fees paid in the input token using the pool's own
+ *   quote functions (getQuoteQuantityIn / getQuoteQuantityOut and their input-fee variants).
+ * - Projects the margin manager after the optional borrow and a full fill: assets, debt,
+ *   risk_ratio, leverage and the base price at which risk_ratio reaches the liquidation threshold.
+ *   Valuation uses the manager's Pyth prices, as the protocol does.
+ * - Market orders get the oracle vs book check (price-integrity.ts) and a warning when it would block them.
+ * @see https://docs.sui.io/standards/deepbook-margin-sdk/orders
+ * @see https://docs.sui.io/standards/deepbookv3-sdk/pools
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetPools,
+  testnetCoins,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import type { TimeInForce } from "./prepare-place-order.js";
+import { checkPriceIntegrity, type PriceIntegrity } from "./price-integrity.js";
+import { getSuiClient } from "./rpc-provider.js";
+
+const MANAGER_KEY = "MARGIN_MANAGER_1";
+
+/** Market orders walk at most this far from mid (fraction); deeper liquidity is ignored. */
+const MAX_WALK_FROM_MID = 0.25;
+
+export type PreviewOrderParams = {
+  /** Margin manager to project risk for; omit for a fill / fee estimate only. */
+  marginManagerId?: string;
+  poolKey: string;
+  orderType: "limit" | "market";
+  isBid: boolean;
+  /** Base quantity (human units). */
+  quantity: number;
+  /** Required for limit orders. */
+  price?: number;
+  /** Limit orders only; IOC / FOK leave nothing resting, post-only must not cross. Default "gtc". */
+  timeInForce?: TimeInForce;
+  /** Fee mode the order will use; the projection deducts fees accordingly. Default true. */
+  payWithDeep?: boolean;
+  borrowBaseAmount?: number;
+  borrowQuoteAmount?: number;
+  network?: "mainnet" | "testnet";
+};
+
+type FeeQuote = {
+  /** Fee amount in the fee coin (human units). */
+  amount: number;
+  coin: string;
+  /** Fee value in quote units, for comparing the two modes. */
+  quoteValue: number;
+};
+
+type PositionSnapshot = {
+  baseAsset: number;
+  quoteAsset: number;
+  baseDebt: number;
+  quoteDebt: number;
+  /** null when there is no debt (risk ratio unbounded). */
+  riskRatio: number | null;
+  /** Asset value / equity; null when equity <= 0. */
+  leverage: number | null;
+  /** Base price (in quote) at which riskRatio hits the liquidation threshold; null when not reachable. */
+  liquidationPrice: number | null;
+};
+
+export type OrderPreview = {
+  poolKey: string;
+  baseSymbol: string;
+  quoteSymbol: string;
+  side: "buy" | "sell";
+  orderType: "limit" | "market";
+  quantity: number;
+  midPrice: number;
+  fill: {
+    /** Quantity that crosses the book now (taker). */
+    takerQuantity: number;
+    /** Limit orders: quantity left resting on the book at the limit price. */
+    restingQuantity: number;
+    /** Market orders: quantity the book cannot fill within MAX_WALK_FROM_MID. */
+    unfilledQuantity: number;
+    /** Average taker price; null when nothing crosses. */
+    averagePrice: number | null;
+    worstPrice: number | null;
+    /** Signed cost vs mid in percent (positive = worse than mid for this side). */
+    slippagePct: number | null;
+    /** Quote value of the taker fill. */
+    takerNotional: number;
+    levelsConsumed: number;
+  };
+  fees: {
+    takerFeeRate: number;
+    makerFeeRate: number;
+    deep: FeeQuote | null;
+    inputToken: FeeQuote | null;
+    cheaper: "deep" | "input" | null;
+  };
+  risk: {
+    liquidationRiskRatio: number;
+    minBorrowRiskRatio: number;
+    current: PositionSnapshot;
+    projected: PositionSnapshot;
+  } | null;
+  /** Oracle vs book check; null when it could not be read. */
+  priceIntegrity: PriceIntegrity | null;
+  warnings: string[];
+};
+
+/** Value-weighted risk ratio, leverage and liquidation price; prices are base in quote units. */
+function snapshot(
+  position: { baseAsset: number; quoteAsset: number; baseDebt: number; quoteDebt: number },
+  basePriceInQuote: number,
+  liquidationRiskRatio: number
+): PositionSnapshot {
+  const { baseAsset, quoteAsset, baseDebt, quoteDebt } = position;
+  const assets = baseAsset * basePriceInQuote + quoteAsset;
+  const debts = baseDebt * basePriceInQuote + quoteDebt;
+  const equity = assets - debts;
+  // B·p + Q = L·(Db·p + Dq)  →  p = (L·Dq − Q) / (B − L·Db)
+  const denominator = baseAsset - liquidationRiskRatio * baseDebt;
+  const liquidationPrice =
+    debts > 0 && Math.abs(denominator) > 1e-12
+      ? (liquidationRiskRatio * quoteDebt - quoteAsset) / denominator
+      : null;
+  return {
+    ...position,
+    riskRatio: debts > 0 ? assets / debts : null,
+    leverage: equity > 0 ? assets / equity : null,
+    liquidationPrice:
+      liquidationPrice != null && liquidationPrice > 0 ? liquidationPrice : null,
+  };
+}
+
+export async function previewOrder(params: PreviewOrderParams): Promise<OrderPreview> {
+  const {
+    marginManagerId,
+    poolKey,
+    orderType,
+    isBid,
+    quantity,
+    price,
+    timeInForce = "gtc",
+    payWithDeep = true,
+    borrowBaseAmount = 0,
+    borrowQuoteAmount = 0,
+    network = "mainnet",
+  } = params;
+
+  if (orderType === "limit" && (price == null || !Number.isFinite(price) || price <= 0)) {
+    throw new Error("Price is required for limit orders");
+  }
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    throw new Error("Quantity must be positive");
+  }
+
+  const client = getSuiClient(network);
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+
+  if (!(poolKey in pools)) {
+    throw new Error(
+      `Unknown pool key: ${poolKey}. Valid keys include: ${Object.keys(pools)
+        .slice(0, 10)
+        .join(", ")}`
+    );
+  }
+  const pool = pools[poolKey as keyof typeof pools];
+
+  const extended = client.$extend(
+    deepbook({
+      address: marginManagerId ?? normalizeSuiAddress("0x0"),
+      pools,
+      coins,
+      marginManagers: marginManagerId
+        ? { [MANAGER_KEY]: { address: marginManagerId, poolKey } }
+        : {},
+    })
+  );
+  const db = extended.deepbook;
+  const warnings: string[] = [];
+
+  const [midPrice, tradeParams, priceIntegrity] = await Promise.all([
+    db.midPrice(poolKey),
+    db.poolTradeParams(poolKey),
+    checkPriceIntegrity({ poolKey, network }).catch((err) => {
+      console.warn("[preview-order] price integrity check failed", err);
+      return null;
+    }),
+  ]);
+  if (orderType === "market" && priceIntegrity == null) {
+    warnings.push(
+      "Could not check the book against the oracle price; this order may fill far from fair value."
+    );
+  } else if (orderType === "market" && priceIntegrity?.status === "block") {
+    warnings.push(`${priceIntegrity.warning} Market orders on this pool are paused.`);
+  } else if (orderType === "market" && priceIntegrity?.status === "warn") {
+    warnings.push(`${priceIntegrity.warning} This order may fill far from fair value.`);
+  }
+
+  // Walk the opposite side from mid: asks upwards for a buy, bids downwards for a sell.
+  const limit = orderType === "limit" ? price! : null;
+  const [low, high] = isBid
+    ? [midPrice * (1 - MAX_WALK_FROM_MID), limit ?? midPrice * (1 + MAX_WALK_FROM_MID)]
+    : [limit ?? midPrice * (1 - MAX_WALK_FROM_MID), midPrice * (1 + MAX_WALK_FROM_MID)];
+  const levels =
+    high > low
+      ? await db.getLevel2Range(poolKey, low, high, !isBid)
+      : { prices: [], quantities: [] };
+  const book = levels.prices
+    .map((p, i) => ({ price: p, quantity: levels.quantities[i] ?? 0 }))
+    .filter((l) => l.quantity > 0)
+    .sort((a, b) => (isBid ? a.price - b.price : b.price - a.price));
+
+  let remaining = quantity;
+  let takerNotional = 0;
+  let worstPrice: number | null = null;
+  let levelsConsumed = 0;
+  for (const level of book) {
+    if (remaining <= 0) break;
+    const take = Math.min(remaining, level.quantity);
+    takerNotional += take * level.price;
+    remaining -= take;
+    worstPrice = level.price;
+    levelsConsumed += 1;
+  }
+  remaining = Math.max(0, Number(remaining.toFixed(9)));
+  const takerQuantity = quantity - remaining;
+  const averagePrice = takerQuantity > 0 ? takerNotional / takerQuantity : null;
+  const slippagePct =
+    averagePrice != null && midPrice > 0
+      ? ((isBid ? averagePrice - midPrice : midPrice - averagePrice) / midPrice) * 100
+      : null;
+  const rests = orderType === "limit" && (timeInForce === "gtc" || timeInForce === "post_only");
+  const restingQuantity = rests ? remaining : 0;
+  const unfilledQuantity = rests ? 0 : remaining;
+  if (orderType === "limit" && timeInForce === "post_only" && takerQuantity > 0) {
+    warnings.push("Post-only order crosses the book at this price and will be rejected.");
+  } else if (orderType === "limit" && timeInForce === "fok" && remaining > 0) {
+    warnings.push(
+      `Only ${takerQuantity} ${pool.baseCoin} is available at this price; the fill-or-kill order will be rejected.`
+    );
+  } else if (orderType === "limit" && timeInForce === "ioc" && remaining > 0) {
+    warnings.push(
+      `Only ${takerQuantity} ${pool.baseCoin} fills immediately; the rest is cancelled.`
+    );
+  } else if (orderType === "market" && unfilledQuantity > 0) {
+    warnings.push(
+      `Only ${takerQuantity} ${pool.baseCoin} can fill within ${MAX_WALK_FROM_MID * 100}% of mid; the rest will not execute.`
+    );
+  }
+
+  // Fee comparison on the taker part, priced by the pool itself.
+  let deepFee: FeeQuote | null = null;
+  let inputFee: FeeQuote | null = null;
+  if (takerQuantity > 0) {
+    try {
+      const deepPrice = await db.getPoolDeepPrice(poolKey);
+      const deepToQuote = (deep: number) =>
+        deepPrice.asset_is_base
+          ? (deep / deepPrice.deep_per_base) * (averagePrice ?? midPrice)
+          : deep / deepPrice.deep_per_quote;
+      if (isBid) {
+        const [withDeep, withInput] = await Promise.all([
+          db.getQuoteQuantityIn(poolKey, takerQuantity, true),
+          db.getQuoteQuantityIn(poolKey, takerQuantity, false),
+        ]);
+        deepFee = {
+          amount: withDeep.deepRequired,
+          coin: "DEEP",
+          quoteValue: deepToQuote(withDeep.deepRequired),
+        };
+        const feeQuote = Math.max(0, withInput.quoteIn - withDeep.quoteIn);
+        inputFee = { amount: feeQuote, coin: pool.quoteCoin, quoteValue: feeQuote };
+      } else {
+        const [withDeep, withInput] = await Promise.all([
+          db.getQuoteQuantityOut(poolKey, takerQuantity),
+          db.getQuoteQuantityOutInputFee(poolKey, takerQuantity),
+        ]);
+        deepFee = {
+          amount: withDeep.deepRequired,
+          coin: "DEEP",
+          quoteValue: deepToQuote(withDeep.deepRequired),
+        };
+        const feeQuote = Math.max(0, withDeep.quoteOut - withInput.quoteOut);
+        inputFee = {
+          amount: feeQuote / (averagePrice ?? midPrice),
+          coin: pool.baseCoin,
+          quoteValue: feeQuote,
+        };
+      }
+    } catch (err) {
+      console.warn("[preview-order] fee quote failed", err);
+      warnings.push("Could not quote taker fees for this size.");
+    }
+  }
+  const cheaper =
+    deepFee && inputFee
+      ? deepFee.quoteValue <= inputFee.quoteValue
+        ? "deep"
+        : "input"
+      : null;
+
+  let risk: OrderPreview["risk"] = null;
+  if (marginManagerId) {
+    try {
+      const [state, liquidationRiskRatio, minBorrowRiskRatio] = await Promise.all([
+        db.getMarginManagerState(MANAGER_KEY, 9),
+        db.getLiquidationRiskRatio(poolKey),
+        db.getMinBorrowRiskRatio(poolKey),
+      ]);
+      const basePriceUsd = Number(state.basePythPrice) / 10 ** state.basePythDecimals;
+      const quotePriceUsd = Number(state.quotePythPrice) / 10 ** state.quotePythDecimals;
+      const oraclePrice = quotePriceUsd > 0 ? basePriceUsd / quotePriceUsd : midPrice;
+
+      const current = {
+        baseAsset: Number(state.baseAsset),
+        quoteAsset: Number(state.quoteAsset),
+        baseDebt: Number(state.baseDebt),
+        quoteDebt: Number(state.quoteDebt),
+      };
+      // Full fill: taker part at the walked average, resting part at the limit price.
+      const filledQuantity = takerQuantity + restingQuantity;
+      const filledNotional = takerNotional + restingQuantity * (limit ?? 0);
+      const inputFeePaid = payWithDeep ? 0 : (inputFee?.amount ?? 0);
+      const next = {
+        baseAsset: current.baseAsset + borrowBaseAmount,
+        quoteAsset: current.quoteAsset + borrowQuoteAmount,
+        baseDebt: current.baseDebt + borrowBaseAmount,
+        quoteDebt: current.quoteDebt + borrowQuoteAmount,
+      };
+      if (isBid) {
+        next.baseAsset += filledQuantity;
+        next.quoteAsset -= filledNotional + inputFeePaid;
+      } else {
+        next.baseAsset -= filledQuantity + inputFeePaid;
+        next.quoteAsset += filledNotional;
+      }
+      if (next.baseAsset < 0 || next.quoteAsset < 0) {
+        warnings.push("The margin account does not hold enough balance for this order.");
+      }
+
+      const currentSnapshot = snapshot(current, oraclePrice, liquidationRiskRatio);
+      const projected = snapshot(next, oraclePrice, liquidationRiskRatio);
+      // The snapshot reads live balances; prefer the protocol's own ratio for "current".
+      if (currentSnapshot.riskRatio != null && state.riskRatio > 0) {
+        currentSnapshot.riskRatio = state.riskRatio;
+      }
+      const borrows = borrowBaseAmount > 0 || borrowQuoteAmount > 0;
+      if (borrows && projected.riskRatio != null && projected.riskRatio < minBorrowRiskRatio) {
+        warnings.push(
+          `Risk ratio after borrowing (${projected.riskRatio.toFixed(2)}) is below the minimum to borrow (${minBorrowRiskRatio}); the order will fail. Lower leverage or add collateral.`
+        );
+      } else if (projected.riskRatio != null && projected.riskRatio < liquidationRiskRatio * 1.1) {
+        warnings.push("Projected risk ratio is close to the liquidation threshold.");
+      }
+      risk = { liquidationRiskRatio, minBorrowRiskRatio, current: currentSnapshot, projected };
+    } catch (err) {
+      console.warn("[preview-order] margin state failed", err);
+      warnings.push("Could not read margin state; risk projection unavailable.");
+    }
+  }
+
+  return {
+    poolKey,
+    baseSymbol: pool.baseCoin,
+    quoteSymbol: pool.quoteCoin,
+    side: isBid ? "buy" : "sell",
+    orderType,
+    quantity,
+    midPrice,
+    fill: {
+      takerQuantity,
+      restingQuantity,
+      unfilledQuantity,
+      averagePrice,
+      worstPrice,
+      slippagePct,
+      takerNotional,
+      levelsConsumed,
+    },
+    fees: {
+      takerFeeRate: tradeParams.takerFee,
+      makerFeeRate: tradeParams.makerFee,
+      deep: deepFee,
+      inputToken: inputFee,
+      cheaper,
+    },
+    risk,
+    priceIntegrity,
+    warnings,
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Log of oracle vs book price deviations (price-integrity.ts) in a local SQLite file, kept for later review:
+ * every warn / block check and every market order refused because of it.
+ * - Same storage as margin-rates-history.ts (sqlite-store.ts); on runtimes without node:sqlite recording
+ *   is a no-op (logged at startup).
+ * - PRICE_DEVIATIONS_DB_PATH sets the file (default data/price-deviations.db under the backend working
+ *   directory). Repeated checks of one pool at the same status are recorded at most once per
+ *   RECORD_THROTTLE_MS; refused orders are always recorded.
+ */
+
+import type { PriceIntegrity } from "./price-integrity.js";
+import type { SuiNetwork } from "./rpc-provider.js";
+import { sqliteStore } from "./sqlite-store.js";
+
+const DEFAULT_DB_PATH = "data/price-deviations.db";
+const RECORD_THROTTLE_MS = 60_000;
+const MAX_EVENTS = 500;
+
+/** "check" = seen while reading prices; "order_blocked" = a market order was refused. */
+export type PriceDeviationAction = "check" | "order_blocked";
+
+export type PriceDeviationEvent = {
+  network: SuiNetwork;
+  poolKey: string;
+  timestamp: number;
+  status: PriceIntegrity["status"];
+  action: PriceDeviationAction;
+  oraclePrice: number | null;
+  bookMid: number | null;
+  lastTradePrice: number | null;
+  bookDeviationBps: number | null;
+  lastTradeDeviationBps: number | null;
+};
+
+/** Last recorded check per network / pool / status, for throttling. */
+const lastRecorded = new Map<string, number>();
+
+const openDb = sqliteStore({
+  label: "price-deviations",
+  pathEnv: "PRICE_DEVIATIONS_DB_PATH",
+  defaultPath: DEFAULT_DB_PATH,
+  schema: `
+    CREATE TABLE IF NOT EXISTS price_deviation_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      network TEXT NOT NULL,
+      pool_key TEXT NOT NULL,
+      timestamp INTEGER NOT NULL,
+      status TEXT NOT NULL,
+      action TEXT NOT NULL,
+      oracle_price REAL,
+      book_mid REAL,
+      last_trade_price REAL,
+      book_deviation_bps REAL,
+      last_trade_deviation_bps REAL
+    );
+    CREATE INDEX IF NOT EXISTS price_deviation_events_pool
+      ON price_deviation_events (network, pool_key, timestamp);
+  `,
+});
+
+export async function recordPriceDeviation(
+  network: SuiNetwork,
+  integrity: PriceIntegrity,
+  action: PriceDeviationAction = "check"
+): Promise<void> {
+  // Only measured deviations; a check that could not run is not a deviation.
+  if (integrity.bookDeviationBps == null) return;
+  if (integrity.status !== "warn" && integrity.status !== "block") return;
+  if (action === "check") {
+    const key = `${network}:${integrity.poolKey}:${integrity.status}`;
+    const last = lastRecorded.get(key) ?? 0;
+    if (integrity.checkedAt - last < RECORD_THROTTLE_MS) return;
+    lastRecorded.set(key, integrity.checkedAt);
+  }
+  const db = await openDb();
+  if (!db) return;
+  db.prepare(
+    `INSERT INTO price_deviation_events
+       (network, pool_key, timestamp, status, action, oracle_price, book_mid, last_trade_price,
+        book_deviation_bps, last_trade_deviation_bps)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    network,
+    integrity.poolKey,
+    integrity.checkedAt,
+    integrity.status,
+    action,
+    integrity.oraclePrice,
+    integrity.bookMid,
+    integrity.lastTradePrice,
+    integrity.bookDeviationBps,
+    integrity.lastTradeDeviationBps
+  );
+}
+
+/** Recorded events in [from, to] (ms), newest first; all pools when poolKey is omitted. */
+export async function getPriceDeviationEvents(params: {
+  network: SuiNetwork;
+  poolKey?: string;
+  from: number;
+  to: number;
+}): Promise<PriceDeviationEvent[]> {
+  const db = await openDb();
+  if (!db) return [];
+  const { network, poolKey, from, to } = params;
+  const rows = db
+    .prepare(
+      `SELECT * FROM price_deviation_events
+       WHERE network = ? AND (? IS NULL OR pool_key = ?) AND timestamp BETWEEN ? AND ?
+       ORDER BY timestamp DESC LIMIT ${MAX_EVENTS}`
+    )
+    .all(network, poolKey ?? null, poolKey ?? null, from, to) as Array<{
+    network: SuiNetwork;
+    pool_key: string;
+    timestamp: number;
+    status: PriceIntegrity["status"];
+    action: PriceDeviationAction;
+    oracle_price: number | null;
+    book_mid: number | null;
+    last_trade_price: number | null;
+    book_deviation_bps: number | null;
+    last_trade_deviation_bps: number | null;
+  }>;
+  return rows.map((r) => ({
+    network: r.network,
+    poolKey: r.pool_key,
+    timestamp: Number(r.timestamp),
+    status: r.status,
+    action: r.action,
+    oraclePrice: r.oracle_price,
+    bookMid: r.book_mid,
+    lastTradePrice: r.last_trade_price,
+    bookDeviationBps: r.book_deviation_bps,
+    lastTradeDeviationBps: r.last_trade_deviation_bps,
+  }));
+}
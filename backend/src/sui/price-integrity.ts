@@ -0,0 +1,240 @@
+/**
+ * Oracle vs order-book price check for a pool. Margin risk is valued with Pyth prices while orders fill
+ * against the book, so a wide gap between the two means a market order fills at a price the protocol does
+ * not believe (thin or manipulated book, or a lagging oracle).
+ * - Oracle price: base / quote from the pools' on-chain Pyth PriceInfoObjects (the objects the margin
+ *   protocol reads). Feeds older than ORACLE_MAX_AGE_MS are not compared against: the objects only move
+ *   when someone pushes a Pyth update, and a stale price says nothing about the book.
+ * - Book mid from midPrice; last trade from the indexer (GET /trades/:pool_name).
+ * - status: "block" when the book mid is at least blockBps from the oracle, "warn" from warnBps (or when
+ *   the last trade is), and also "warn" when the check cannot run (oracle stale or missing, no book mid),
+ *   with the reason in `warning`. Thresholds are per pool.
+ * The guard is best-effort: only a measured deviation blocks. With a lagging oracle nothing is measured,
+ * so market orders stay allowed and the preview carries the warning instead.
+ * Measured deviations are logged via price-deviation-events.ts.
+ */
+
+import {
+  deepbook,
+  mainnetCoins,
+  mainnetPools,
+  testnetCoins,
+  testnetPools,
+} from "@mysten/deepbook-v3";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { fetchIndexer } from "./deepbook-indexer.js";
+import { recordPriceDeviation } from "./price-deviation-events.js";
+import { getSuiClient, type SuiNetwork } from "./rpc-provider.js";
+
+/** Checks are reused this long, so previews and order prepares do not hit RPC on every call. */
+const CHECK_TTL_MS = 10_000;
+const ORACLE_MAX_AGE_MS = 2 * 60_000;
+
+export type PriceDeviationThresholds = {
+  warnBps: number;
+  blockBps: number;
+};
+
+const DEFAULT_THRESHOLDS: PriceDeviationThresholds = { warnBps: 100, blockBps: 300 };
+/** Pools whose books are thinner or more volatile than the default allows for. */
+const POOL_THRESHOLDS: Record<string, PriceDeviationThresholds> = {
+  SUI_USDC: { warnBps: 75, blockBps: 250 },
+  DEEP_USDC: { warnBps: 150, blockBps: 500 },
+  WAL_USDC: { warnBps: 150, blockBps: 500 },
+};
+
+export type PriceIntegrity = {
+  poolKey: string;
+  /** Quote per base from Pyth; null when a feed is missing. */
+  oraclePrice: number | null;
+  /** Publish time of the older of the two feeds (ms). */
+  oraclePublishTime: number | null;
+  /** Older than ORACLE_MAX_AGE_MS; deviations are not computed against a stale price. */
+  oracleStale: boolean;
+  bookMid: number | null;
+  lastTradePrice: number | null;
+  lastTradeTime: number | null;
+  /** |price − oracle| / oracle in basis points. */
+  bookDeviationBps: number | null;
+  lastTradeDeviationBps: number | null;
+  thresholds: PriceDeviationThresholds;
+  status: "ok" | "warn" | "block";
+  /** Why status is warn / block (deviation, or why the check could not run); null when ok. */
+  warning: string | null;
+  checkedAt: number;
+};
+
+const cache = new Map<string, { value: PriceIntegrity; expiresAt: number }>();
+
+export function priceDeviationThresholds(poolKey: string): PriceDeviationThresholds {
+  return POOL_THRESHOLDS[poolKey] ?? DEFAULT_THRESHOLDS;
+}
+
+export function deviationBps(price: number | null, reference: number | null): number | null {
+  if (price == null || reference == null || !(reference > 0)) return null;
+  return (Math.abs(price - reference) / reference) * 10_000;
+}
+
+/** Pyth I64 in Move object content: { negative, magnitude } (possibly under .fields). */
+function readI64(value: unknown): number | null {
+  const v = value as { fields?: Record<string, unknown> } & Record<string, unknown>;
+  const fields = v?.fields ?? v;
+  if (!fields || fields.magnitude == null) return null;
+  const magnitude = Number(fields.magnitude);
+  return Number.isFinite(magnitude) ? (fields.negative ? -magnitude : magnitude) : null;
+}
+
+/** Latest USD price and publish time (ms) of a coin's Pyth PriceInfoObject. */
+async function readPythPrice(
+  network: SuiNetwork,
+  priceInfoObjectId: string
+): Promise<{ price: number; publishTime: number } | null> {
+  const obj = await getSuiClient(network).getObject({
+    id: priceInfoObjectId,
+    options: { showContent: true },
+  });
+  const content = obj.data?.content as { fields?: Record<string, unknown> } | undefined;
+  const info = (content?.fields?.price_info as { fields?: Record<string, unknown> })?.fields;
+  const feed = (info?.price_feed as { fields?: Record<string, unknown> })?.fields;
+  const price = (feed?.price as { fields?: Record<string, unknown> })?.fields;
+  if (!price) return null;
+  const mantissa = readI64(price.price);
+  const expo = readI64(price.expo);
+  const timestamp = Number(price.timestamp);
+  if (mantissa == null || expo == null || !Number.isFinite(timestamp)) return null;
+  return { price: mantissa * 10 ** expo, publishTime: timestamp * 1000 };
+}
+
+async function loadPriceIntegrity(poolKey: string, network: SuiNetwork): Promise<PriceIntegrity> {
+  const pools = network === "mainnet" ? mainnetPools : testnetPools;
+  const coins = network === "mainnet" ? mainnetCoins : testnetCoins;
+  if (!(poolKey in pools)) {
+    throw new Error(`Unknown pool key: ${poolKey}`);
+  }
+  const pool = pools[poolKey as keyof typeof pools];
+  const baseCoin = coins[pool.baseCoin as keyof typeof coins];
+  const quoteCoin = coins[pool.quoteCoin as keyof typeof coins];
+  const db = getSuiClient(network).$extend(
+    deepbook({ address: normalizeSuiAddress("0x0"), pools, coins })
+  ).deepbook;
+
+  const readFeed = (id: string | undefined) =>
+    id
+      ? readPythPrice(network, id).catch((err) => {
+          console.warn(`[price-integrity] Pyth read failed (${id})`, err);
+          return null;
+        })
+      : Promise.resolve(null);
+  const [base, quote, bookMid, lastTrade] = await Promise.all([
+    readFeed(baseCoin.priceInfoObjectId),
+    readFeed(quoteCoin.priceInfoObjectId),
+    db
+      .midPrice(poolKey)
+      .then((mid) => (Number.isFinite(mid) && mid > 0 ? mid : null))
+      .catch(() => null),
+    fetchIndexer<Array<{ price: number; timestamp: number }>>(
+      network,
+      `/trades/${encodeURIComponent(poolKey)}`,
+      { limit: 1 }
+    )
+      .then((trades) => (Array.isArray(trades) ? trades[0] ?? null : null))
+      .catch(() => null),
+  ]);
+
+  const checkedAt = Date.now();
+  const oraclePublishTime =
+    base && quote ? Math.min(base.publishTime, quote.publishTime) : null;
+  const oracleStale =
+    oraclePublishTime == null || checkedAt - oraclePublishTime > ORACLE_MAX_AGE_MS;
+  const oraclePrice =
+    base && quote && base.price > 0 && quote.price > 0 ? base.price / quote.price : null;
+  const reference = oracleStale ? null : oraclePrice;
+  const lastTradePrice = lastTrade ? Number(lastTrade.price) : null;
+  const bookDeviationBps = deviationBps(bookMid, reference);
+  const lastTradeDeviationBps = deviationBps(lastTradePrice, reference);
+  const thresholds = priceDeviationThresholds(poolKey);
+
+  let status: PriceIntegrity["status"];
+  let warning: string | null = null;
+  if (bookDeviationBps == null) {
+    status = "warn";
+    warning =
+      oraclePrice == null
+        ? "Oracle price unavailable; the book could not be checked against it."
+        : oracleStale
+          ? `Oracle price is ${Math.round((checkedAt - oraclePublishTime!) / 60_000)} min old; the book could not be checked against it.`
+          : "Book mid unavailable; the book could not be checked against the oracle.";
+  } else if (bookDeviationBps >= thresholds.blockBps) {
+    status = "block";
+    warning = `The book is ${(bookDeviationBps / 100).toFixed(2)}% from the oracle price.`;
+  } else if (
+    bookDeviationBps >= thresholds.warnBps ||
+    (lastTradeDeviationBps ?? 0) >= thresholds.warnBps
+  ) {
+    status = "warn";
+    warning = `Book or last trade is ${(
+      Math.max(bookDeviationBps, lastTradeDeviationBps ?? 0) / 100
+    ).toFixed(2)}% from the oracle price.`;
+  } else {
+    status = "ok";
+  }
+
+  return {
+    poolKey,
+    oraclePrice,
+    oraclePublishTime,
+    oracleStale,
+    bookMid,
+    lastTradePrice,
+    lastTradeTime: lastTrade ? Number(lastTrade.timestamp) : null,
+    bookDeviationBps,
+    lastTradeDeviationBps,
+    thresholds,
+    status,
+    warning,
+    checkedAt,
+  };
+}
+
+export async function checkPriceIntegrity(params: {
+  poolKey: string;
+  network?: SuiNetwork;
+}): Promise<PriceIntegrity> {
+  const { poolKey, network = "mainnet" } = params;
+  const key = `${network}:${poolKey}`;
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.value;
+  const value = await loadPriceIntegrity(poolKey, network);
+  cache.set(key, { value, expiresAt: value.checkedAt + CHECK_TTL_MS });
+  recordPriceDeviation(network, value).catch((err) =>
+    console.warn("[price-integrity] record failed", err)
+  );
+  return value;
+}
+
+/**
+ * Refuse a market order while the book is measurably too far from the oracle. Best-effort: a failed
+ * check or a stale oracle does not block (the guard protects against bad prices, not against RPC outages
+ * or missing Pyth updates); previews surface those as warnings instead.
+ */
+export async function assertMarketOrderPriceIntegrity(params: {
+  poolKey: string;
+  network?: SuiNetwork;
+}): Promise<void> {
+  const { poolKey, network = "mainnet" } = params;
+  let integrity: PriceIntegrity;
+  try {
+    integrity = await checkPriceIntegrity({ poolKey, network });
+  } catch (err) {
+    console.warn("[price-integrity] check failed; not blocking", err);
+    return;
+  }
+  if (integrity.status !== "block") return;
+  await recordPriceDeviation(network, integrity, "order_blocked").catch((err) =>
+    console.warn("[price-integrity] record failed", err)
+  );
+  throw new Error(
+    `Oracle price deviates ${((integrity.bookDeviationBps ?? 0) / 100).toFixed(2)}% from the order book ` +
+      `(limit ${(integrity.thresholds.blockBps / 100).toFixed(2)}%); market orders on ${poolKey} are paused`
+  );
+}
@@ -0,0 +1,285 @@
+/**
+ * Sui JSON-RPC endpoints with health checks and failover, shared by every backend Sui module.
+ * - Endpoints: SUI_RPC_URL (mainnet) / SUI_TESTNET_RPC_URL, comma-separated in priority order. The public
+ *   fullnode (getJsonRpcFullnodeUrl) is always appended as the last resort.
+ * - getSuiClient(network) returns a client whose transport tries endpoints in order and moves on after a 429,
+ *   5xx or network error; the failing endpoint sits out a cooldown (Retry-After for 429 when given).
+ * - startRpcHealthChecks pings every endpoint (sui_getLatestCheckpointSequenceNumber) so recovered endpoints
+ *   are used again and dead ones are skipped before a user request hits them.
+ * - Endpoints are reported by host only (URLs may embed API keys): trackRpcEndpoints / servedRpcEndpoints
+ *   collect the hosts that served the current API request, getRpcStatus shows health per network.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  getJsonRpcFullnodeUrl,
+  JsonRpcHTTPTransport,
+  SuiJsonRpcClient,
+} from "@mysten/sui/jsonRpc";
+
+export type SuiNetwork = "mainnet" | "testnet";
+
+/** Skip an endpoint for this long after a 5xx / network error. */
+const FAILURE_COOLDOWN_MS = 15_000;
+/** Skip an endpoint for this long after a 429 without Retry-After. */
+const RATE_LIMIT_COOLDOWN_MS = 30_000;
+const HEALTH_CHECK_TIMEOUT_MS = 5_000;
+const DEFAULT_HEALTH_CHECK_INTERVAL_MS = 60_000;
+
+export type RpcEndpointStatus = {
+  /** Host of the endpoint (no path / query, so API keys are not exposed). */
+  endpoint: string;
+  healthy: boolean;
+  /** Epoch ms until which the endpoint is skipped; null when not cooling down. */
+  cooldownUntil: number | null;
+  lastError: string | null;
+  lastLatencyMs: number | null;
+  lastCheckpoint: string | null;
+  lastCheckedAt: number | null;
+  servedCount: number;
+  failureCount: number;
+};
+
+type EndpointState = Omit<RpcEndpointStatus, "endpoint" | "cooldownUntil"> & {
+  url: string;
+  cooldownUntil: number;
+};
+
+const endpointsByNetwork = new Map<SuiNetwork, EndpointState[]>();
+const clientsByNetwork = new Map<SuiNetwork, SuiJsonRpcClient>();
+const lastServedByNetwork = new Map<SuiNetwork, string>();
+const requestTracking = new AsyncLocalStorage<Set<string>>();
+
+/** Host label for an endpoint URL; never includes path or query (may hold an API key). */
+function endpointLabel(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "invalid-url";
+  }
+}
+
+/** Configured endpoints for the network in priority order, public fullnode last. */
+export function getRpcEndpointUrls(network: SuiNetwork): string[] {
+  const raw =
+    network === "mainnet"
+      ? process.env.SUI_RPC_URL
+      : process.env.SUI_TESTNET_RPC_URL;
+  const configured = (raw ?? "")
+    .split(",")
+    .map((u) => u.trim().replace(/\/$/, ""))
+    .filter(Boolean);
+  return [...new Set([...configured, getJsonRpcFullnodeUrl(network)])];
+}
+
+function endpointStates(network: SuiNetwork): EndpointState[] {
+  let states = endpointsByNetwork.get(network);
+  if (!states) {
+    states = getRpcEndpointUrls(network).map((url) => ({
+      url,
+      healthy: true,
+      cooldownUntil: 0,
+      lastError: null,
+      lastLatencyMs: null,
+      lastCheckpoint: null,
+      lastCheckedAt: null,
+      servedCount: 0,
+      failureCount: 0,
+    }));
+    endpointsByNetwork.set(network, states);
+  }
+  return states;
+}
+
+/** Endpoints to try: ready ones in priority order, then cooling ones (soonest first) rather than failing outright. */
+function candidates(network: SuiNetwork): EndpointState[] {
+  const now = Date.now();
+  const states = endpointStates(network);
+  const ready = states.filter((s) => s.cooldownUntil <= now);
+  const cooling = states
+    .filter((s) => s.cooldownUntil > now)
+    .sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+  return [...ready, ...cooling];
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/** Cooldown for a failed response: Retry-After (seconds) for 429 when present, else the defaults. */
+function cooldownMs(status: number | null, retryAfter: string | null): number {
+  if (status === 429) {
+    const seconds = Number(retryAfter);
+    return Number.isFinite(seconds) && seconds > 0
+      ? seconds * 1000
+      : RATE_LIMIT_COOLDOWN_MS;
+  }
+  return FAILURE_COOLDOWN_MS;
+}
+
+function markFailure(
+  state: EndpointState,
+  reason: string,
+  status: number | null = null,
+  retryAfter: string | null = null
+): void {
+  state.healthy = false;
+  state.cooldownUntil = Date.now() + cooldownMs(status, retryAfter);
+  state.lastError = reason;
+  state.failureCount += 1;
+}
+
+function markSuccess(state: EndpointState, latencyMs: number): void {
+  state.healthy = true;
+  state.cooldownUntil = 0;
+  state.lastError = null;
+  state.lastLatencyMs = latencyMs;
+}
+
+function recordServed(network: SuiNetwork, state: EndpointState): void {
+  const label = endpointLabel(state.url);
+  state.servedCount += 1;
+  lastServedByNetwork.set(network, label);
+  requestTracking.getStore()?.add(label);
+}
+
+/**
+ * fetch for JsonRpcHTTPTransport: ignores the transport's URL and walks the endpoint list, failing over on
+ * 429 / 5xx / network errors. JSON-RPC errors (HTTP 200) are returned as-is; they are not endpoint faults.
+ */
+function failoverFetch(network: SuiNetwork): typeof fetch {
+  return async (_input, init) => {
+    const failures: string[] = [];
+    for (const state of candidates(network)) {
+      const label = endpointLabel(state.url);
+      const started = Date.now();
+      try {
+        const res = await fetch(state.url, init);
+        if (isRetryableStatus(res.status)) {
+          markFailure(
+            state,
+            `HTTP ${res.status}`,
+            res.status,
+            res.headers.get("retry-after")
+          );
+          failures.push(`${label}: HTTP ${res.status}`);
+          continue;
+        }
+        markSuccess(state, Date.now() - started);
+        recordServed(network, state);
+        return res;
+      } catch (err) {
+        if (init?.signal?.aborted) throw err;
+        const message = err instanceof Error ? err.message : String(err);
+        markFailure(state, message);
+        failures.push(`${label}: ${message}`);
+      }
+    }
+    throw new Error(`All Sui RPC endpoints failed (${failures.join("; ")})`);
+  };
+}
+
+/** Shared client for the network; requests fail over across the configured endpoints. */
+export function getSuiClient(network: SuiNetwork = "mainnet"): SuiJsonRpcClient {
+  let client = clientsByNetwork.get(network);
+  if (!client) {
+    const [primary] = getRpcEndpointUrls(network);
+    client = new SuiJsonRpcClient({
+      network,
+      transport: new JsonRpcHTTPTransport({
+        url: primary,
+        fetch: failoverFetch(network),
+      }),
+    });
+    clientsByNetwork.set(network, client);
+  }
+  return client;
+}
+
+/** Ping one endpoint directly (no failover) and update its health. */
+async function checkEndpoint(state: EndpointState): Promise<void> {
+  const started = Date.now();
+  state.lastCheckedAt = started;
+  try {
+    const res = await fetch(state.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "sui_getLatestCheckpointSequenceNumber",
+        params: [],
+      }),
+      signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      markFailure(
+        state,
+        `HTTP ${res.status}`,
+        res.status,
+        res.headers.get("retry-after")
+      );
+      return;
+    }
+    const json = (await res.json()) as {
+      result?: string;
+      error?: { message?: string };
+    };
+    if (json.error || json.result == null) {
+      markFailure(state, json.error?.message ?? "No checkpoint in response");
+      return;
+    }
+    markSuccess(state, Date.now() - started);
+    state.lastCheckpoint = String(json.result);
+  } catch (err) {
+    markFailure(state, err instanceof Error ? err.message : String(err));
+  }
+}
+
+/** Health-check every endpoint of the network (in parallel). */
+export async function checkRpcHealth(network: SuiNetwork): Promise<void> {
+  await Promise.all(endpointStates(network).map(checkEndpoint));
+}
+
+/** Check mainnet plus any network already in use now and every SUI_RPC_HEALTH_INTERVAL_MS (default 60s). */
+export function startRpcHealthChecks(): void {
+  const raw = Number(process.env.SUI_RPC_HEALTH_INTERVAL_MS);
+  const intervalMs =
+    Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_HEALTH_CHECK_INTERVAL_MS;
+  const run = () => {
+    const networks = new Set<SuiNetwork>(["mainnet", ...endpointsByNetwork.keys()]);
+    for (const network of networks) {
+      checkRpcHealth(network).catch((err) =>
+        console.error(`Sui RPC health check (${network}) failed:`, err)
+      );
+    }
+  };
+  run();
+  setInterval(run, intervalMs);
+}
+
+export function getRpcStatus(network: SuiNetwork): {
+  network: SuiNetwork;
+  lastServedBy: string | null;
+  endpoints: RpcEndpointStatus[];
+} {
+  const now = Date.now();
+  return {
+    network,
+    lastServedBy: lastServedByNetwork.get(network) ?? null,
+    endpoints: endpointStates(network).map(({ url, cooldownUntil, ...rest }) => ({
+      ...rest,
+      endpoint: endpointLabel(url),
+      cooldownUntil: cooldownUntil > now ? cooldownUntil : null,
+    })),
+  };
+}
+
+/** Run `fn` with per-request endpoint tracking; servedRpcEndpoints() inside it lists the hosts used so far. */
+export function trackRpcEndpoints<T>(fn: () => T): T {
+  return requestTracking.run(new Set(), fn);
+}
+
+export function servedRpcEndpoints(): string[] {
+  return [...(requestTracking.getStore() ?? [])];
+}
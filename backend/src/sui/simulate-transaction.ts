@@ -0,0 +1,110 @@
+/**
+ * Dry-run built transaction bytes (dryRunTransactionBlock) so the app can show a preview before signing:
+ * gas cost, balance changes per coin type, created / deleted objects and a decoded Move abort if it would fail.
+ * @see https://docs.sui.io/sui-api-ref#sui_dryruntransactionblock
+ */
+
+import {
+  describeMoveAbort,
+  lookupMoveAbort,
+  parseMoveAbort,
+  type MoveAbortInfo,
+} from "./move-abort.js";
+import { getSuiClient } from "./rpc-provider.js";
+
+const MIST_PER_SUI = 1_000_000_000;
+
+export type SimulateTransactionParams = {
+  txBytesBase64: string;
+  network?: "mainnet" | "testnet";
+};
+
+export type SimulateTransactionResult = {
+  status: "success" | "failure";
+  /** Raw execution error from the node when status is "failure". */
+  error: string | null;
+  /** Decoded Move abort (module, function, code), readable reason and API error code, if the error was an abort. */
+  abort: (MoveAbortInfo & { reason: string; errorCode: string }) | null;
+  gas: {
+    computationCost: string;
+    storageCost: string;
+    storageRebate: string;
+    nonRefundableStorageFee: string;
+    /** computation + storage - rebate, in MIST. */
+    totalMist: string;
+    /** totalMist in SUI (human units). */
+    totalSui: number;
+  };
+  /** Balance changes per owner and coin type (raw amounts; negative = spent). */
+  balanceChanges: { owner: string; coinType: string; amount: string }[];
+  created: { objectId: string; objectType: string }[];
+  deleted: { objectId: string; objectType: string | null }[];
+};
+
+function ownerLabel(owner: unknown): string {
+  if (owner && typeof owner === "object") {
+    if ("AddressOwner" in owner) return String((owner as { AddressOwner: string }).AddressOwner);
+    if ("ObjectOwner" in owner) return String((owner as { ObjectOwner: string }).ObjectOwner);
+    if ("Shared" in owner) return "shared";
+  }
+  return String(owner ?? "unknown");
+}
+
+export async function simulateTransaction(
+  params: SimulateTransactionParams
+): Promise<SimulateTransactionResult> {
+  const { txBytesBase64, network = "mainnet" } = params;
+
+  const client = getSuiClient(network);
+
+  const dryRun = await client.dryRunTransactionBlock({
+    transactionBlock: txBytesBase64,
+  });
+
+  const status = dryRun.effects.status;
+  const error = status.status === "failure" ? status.error ?? "Transaction failed" : null;
+  const abortInfo = error ? parseMoveAbort(error) : null;
+
+  const gasUsed = dryRun.effects.gasUsed;
+  const totalMist =
+    BigInt(gasUsed.computationCost) +
+    BigInt(gasUsed.storageCost) -
+    BigInt(gasUsed.storageRebate);
+
+  const created: SimulateTransactionResult["created"] = [];
+  const deleted: SimulateTransactionResult["deleted"] = [];
+  for (const change of dryRun.objectChanges ?? []) {
+    if (change.type === "created") {
+      created.push({ objectId: change.objectId, objectType: change.objectType });
+    } else if (change.type === "deleted" || change.type === "wrapped") {
+      deleted.push({ objectId: change.objectId, objectType: change.objectType ?? null });
+    }
+  }
+
+  return {
+    status: status.status,
+    error,
+    abort: abortInfo
+      ? {
+          ...abortInfo,
+          reason: describeMoveAbort(abortInfo),
+          errorCode: lookupMoveAbort(abortInfo)?.code ?? "MOVE_ABORT",
+        }
+      : null,
+    gas: {
+      computationCost: gasUsed.computationCost,
+      storageCost: gasUsed.storageCost,
+      storageRebate: gasUsed.storageRebate,
+      nonRefundableStorageFee: gasUsed.nonRefundableStorageFee,
+      totalMist: totalMist.toString(),
+      totalSui: Number(totalMist) / MIST_PER_SUI,
+    },
+    balanceChanges: (dryRun.balanceChanges ?? []).map((b) => ({
+      owner: ownerLabel(b.owner),
+      coinType: b.coinType,
+      amount: b.amount,
+    })),
+    created,
+    deleted,
+  };
+}
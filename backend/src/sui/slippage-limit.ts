@@ -0,0 +1,66 @@
+/**
+ * Price bound for slippage-protected market orders. A plain DeepBook market order has no price limit and
+ * walks the book as far as it must; with maxSlippageBps the order is placed as an IOC limit order at
+ * reference × (1 ± bps), so anything beyond the bound is cancelled instead of filled.
+ * - Reference: the book mid (midPrice). When one side of the book is empty, the margin manager's Pyth
+ *   oracle price (base USD / quote USD) is used instead.
+ * - The bound is rounded to the pool tick on the safe side: down for buys, up for sells.
+ */
+
+import type { DeepBookClient } from "@mysten/deepbook-v3";
+
+/** 50% — anything wider is not a meaningful protection. */
+export const MAX_SLIPPAGE_BPS = 5_000;
+
+export type SlippageLimit = {
+  /** Limit price for the IOC order (quote per base, on the tick grid). */
+  limitPrice: number;
+  referencePrice: number;
+  referenceSource: "book" | "oracle";
+};
+
+async function oraclePrice(db: DeepBookClient, marginManagerKey: string): Promise<number | null> {
+  try {
+    const state = await db.getMarginManagerState(marginManagerKey, 9);
+    const baseUsd = Number(state.basePythPrice) / 10 ** state.basePythDecimals;
+    const quoteUsd = Number(state.quotePythPrice) / 10 ** state.quotePythDecimals;
+    return baseUsd > 0 && quoteUsd > 0 ? baseUsd / quoteUsd : null;
+  } catch (err) {
+    console.warn("[slippage-limit] oracle price failed", err);
+    return null;
+  }
+}
+
+export async function slippageLimitPrice(params: {
+  db: DeepBookClient;
+  poolKey: string;
+  isBid: boolean;
+  maxSlippageBps: number;
+  /** Margin manager key registered on db; enables the oracle fallback. */
+  marginManagerKey?: string;
+}): Promise<SlippageLimit> {
+  const { db, poolKey, isBid, maxSlippageBps, marginManagerKey } = params;
+  if (!Number.isFinite(maxSlippageBps) || maxSlippageBps <= 0 || maxSlippageBps > MAX_SLIPPAGE_BPS) {
+    throw new Error(`maxSlippageBps must be between 1 and ${MAX_SLIPPAGE_BPS}`);
+  }
+
+  const [mid, { tickSize }] = await Promise.all([
+    db.midPrice(poolKey).catch(() => Number.NaN),
+    db.poolBookParams(poolKey),
+  ]);
+  let referencePrice = mid;
+  let referenceSource: SlippageLimit["referenceSource"] = "book";
+  if (!(Number.isFinite(mid) && mid > 0)) {
+    const oracle = marginManagerKey ? await oraclePrice(db, marginManagerKey) : null;
+    if (oracle == null) {
+      throw new Error("No book or oracle price to bound slippage against");
+    }
+    referencePrice = oracle;
+    referenceSource = "oracle";
+  }
+
+  const bound = referencePrice * (1 + ((isBid ? 1 : -1) * maxSlippageBps) / 10_000);
+  const ticks = isBid ? Math.floor(bound / tickSize + 1e-9) : Math.ceil(bound / tickSize - 1e-9);
+  const limitPrice = Number((Math.max(1, ticks) * tickSize).toFixed(12));
+  return { limitPrice, referencePrice, referenceSource };
+}
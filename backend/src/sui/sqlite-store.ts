@@ -0,0 +1,59 @@
+/**
+ * Local SQLite files for the backend's own history (margin-rates-history.ts, price-deviation-events.ts).
+ * - Uses Node's built-in node:sqlite (Node >= 22.13, see "engines" in package.json). It is loaded lazily,
+ *   so on an older runtime the server still starts; the stores are then disabled and
+ *   logSqliteSupport (called once at startup) says so.
+ * - Each store opens its file once, on first use, creating the directory and running its schema.
+ */
+
+import { mkdirSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import type { DatabaseSync } from "node:sqlite";
+
+type SqliteModule = typeof import("node:sqlite");
+
+let sqlitePromise: Promise<SqliteModule | null> | null = null;
+
+function loadSqlite(): Promise<SqliteModule | null> {
+  sqlitePromise ??= import("node:sqlite").catch(() => null);
+  return sqlitePromise;
+}
+
+/** Log once at startup when node:sqlite is missing, so disabled history is not a silent surprise. */
+export async function logSqliteSupport(): Promise<void> {
+  if (await loadSqlite()) return;
+  console.warn(
+    `[sqlite] node:sqlite is unavailable on Node ${process.versions.node} (needs >= 22.13); ` +
+      "margin rate history and the price deviation log are disabled"
+  );
+}
+
+/**
+ * Lazy opener for one SQLite file: path from the pathEnv variable, else defaultPath (relative to the
+ * backend working directory). Resolves null when SQLite is unavailable or the file cannot be opened.
+ */
+export function sqliteStore(options: {
+  /** Log prefix, e.g. "margin-rates". */
+  label: string;
+  pathEnv: string;
+  defaultPath: string;
+  schema: string;
+}): () => Promise<DatabaseSync | null> {
+  let dbPromise: Promise<DatabaseSync | null> | null = null;
+  return () => {
+    dbPromise ??= loadSqlite().then((sqlite) => {
+      if (!sqlite) return null;
+      try {
+        const path = resolve(process.env[options.pathEnv]?.trim() || options.defaultPath);
+        mkdirSync(dirname(path), { recursive: true });
+        const db = new sqlite.DatabaseSync(path);
+        db.exec(options.schema);
+        return db;
+      } catch (err) {
+        console.warn(`[${options.label}] Could not open SQLite file; store disabled`, err);
+        return null;
+      }
+    });
+    return dbPromise;
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Translate thrown errors into the structured API error body { code, message, details }.
+ * Move aborts are decoded (module, function, abort code) and mapped to readable messages;
+ * common node errors (gas, coin balance) get their own codes. The raw string stays in details.raw.
+ */
+
+import { lookupMoveAbort, parseMoveAbort } from "./move-abort.js";
+
+export type ApiErrorBody = {
+  /** Stable code (e.g. MARGIN_WITHDRAW_RISK_RATIO, MOVE_ABORT, INVALID_REQUEST). */
+  code: string;
+  /** Readable message for the user. */
+  message: string;
+  details: Record<string, unknown> | null;
+};
+
+export function apiError(
+  code: string,
+  message: string,
+  details: Record<string, unknown> | null = null
+): ApiErrorBody {
+  return { code, message, details };
+}
+
+/** Body for request validation failures (missing / invalid params). */
+export function invalidRequest(message: string): ApiErrorBody {
+  return apiError("INVALID_REQUEST", message);
+}
+
+export function translateError(err: unknown, fallbackMessage: string): ApiErrorBody {
+  const raw = err instanceof Error ? err.message : typeof err === "string" ? err : "";
+  if (!raw) {
+    return { code: "REQUEST_FAILED", message: fallbackMessage, details: null };
+  }
+
+  const abort = parseMoveAbort(raw);
+  if (abort) {
+    const known = lookupMoveAbort(abort);
+    const where = abort.functionName
+      ? `${abort.module}::${abort.functionName}`
+      : abort.module;
+    return {
+      code: known?.code ?? "MOVE_ABORT",
+      message: known?.message ?? `Transaction aborted in ${where} (code ${abort.code})`,
+      details: {
+        module: abort.module,
+        functionName: abort.functionName,
+        abortCode: abort.code,
+        command: abort.command,
+        packageId: abort.packageId,
+        raw,
+      },
+    };
+  }
+
+  if (/All Sui RPC endpoints failed/.test(raw)) {
+    return {
+      code: "RPC_UNAVAILABLE",
+      message: "Sui network is busy; please try again in a moment",
+      details: { raw },
+    };
+  }
+  if (/^Oracle price deviates/.test(raw)) {
+    return { code: "PRICE_DEVIATION", message: raw, details: null };
+  }
+  if (/gas sponsorship|sponsored transactions|not this server's sponsor/i.test(raw)) {
+    return { code: "SPONSORSHIP_REJECTED", message: raw, details: null };
+  }
+  if (/InsufficientGas|GasBalanceTooLow|could not automatically determine a budget/i.test(raw)) {
+    return {
+      code: "INSUFFICIENT_GAS",
+      message: "Not enough SUI to pay for gas",
+      details: { raw },
+    };
+  }
+  if (/InsufficientCoinBalance|Insufficient balance/i.test(raw)) {
+    return {
+      code: "INSUFFICIENT_BALANCE",
+      message: "Insufficient balance for this transaction",
+      details: { raw },
+    };
+  }
+
+  return { code: "REQUEST_FAILED", message: raw, details: null };
+}
@@ -0,0 +1,139 @@
+/**
+ * Global "in-flight transfers" strip above the tab bar (see lib/transfer-tracker.ts). Shows while a
+ * tracked bridge / cross-chain transfer is pending or a landed bridge still has a follow-up to run;
+ * tap to expand. Follow-ups run on their screen (e.g. "deposit & open" on the pool's trading screen),
+ * so Open navigates there and Retry puts a failed one back in line.
+ */
+import { Text } from "@/components/Themed";
+import { router } from "expo-router";
+import { useState } from "react";
+import { ActivityIndicator, Linking, Pressable, StyleSheet, View } from "react-native";
+
+import { useColorScheme } from "@/components/useColorScheme";
+import Colors from "@/constants/Colors";
+import {
+  dismissTransfer,
+  isTransferInFlight,
+  retryTransferFollowUp,
+  transferNeedsFollowUp,
+  useTrackedTransfers,
+  type TrackedTransfer,
+} from "@/lib/transfer-tracker";
+
+const FOLLOW_UP_LABELS = { deposit_and_open: "Deposit & open position" } as const;
+
+function describeTransfer(t: TrackedTransfer): string {
+  if (isTransferInFlight(t)) {
+    if (!t.status || t.status.status === "NOT_FOUND") return "Waiting for LI.FI to pick up the tx…";
+    return t.status.substatusMessage ?? "Bridging…";
+  }
+  if (t.followUp && t.status?.status === "DONE") {
+    const step = FOLLOW_UP_LABELS[t.followUp.type];
+    switch (t.followUpState) {
+      case "running":
+        return `Landed · ${step} in progress…`;
+      case "failed":
+        return `Landed · ${step} failed${t.followUpError ? `: ${t.followUpError}` : ""}`;
+      default:
+        return `Landed · open ${t.followUp.poolName} to ${step.toLowerCase()}`;
+    }
+  }
+  return t.status?.status === "FAILED" ? "Failed" : "Completed";
+}
+
+function openFollowUpScreen(t: TrackedTransfer) {
+  if (!t.followUp) return;
+  router.push(`/(app)/trading/${encodeURIComponent(t.followUp.poolName)}` as never);
+}
+
+export function InFlightTransfersIndicator() {
+  const colors = Colors[useColorScheme() ?? "light"];
+  const transfers = useTrackedTransfers();
+  const [expanded, setExpanded] = useState(false);
+
+  const visible = transfers.filter((t) => isTransferInFlight(t) || transferNeedsFollowUp(t));
+  if (visible.length === 0) return null;
+
+  const pendingCount = visible.filter(isTransferInFlight).length;
+  const followUpCount = visible.length - pendingCount;
+  const summary = [
+    pendingCount > 0 ? `${pendingCount} transfer${pendingCount === 1 ? "" : "s"} in flight` : null,
+    followUpCount > 0 ? `${followUpCount} to finish` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: colors.background, borderTopColor: colors.tabIconDefault + "60" },
+      ]}
+    >
+      <Pressable
+        onPress={() => setExpanded((v) => !v)}
+        style={styles.summaryRow}
+        accessibilityRole="button"
+        accessibilityState={{ expanded }}
+      >
+        {pendingCount > 0 && <ActivityIndicator size="small" color={colors.tint} />}
+        <Text style={styles.summary}>{summary}</Text>
+        <Text style={styles.muted}>{expanded ? "Hide" : "Show"}</Text>
+      </Pressable>
+      {expanded &&
+        visible.map((t) => (
+          <View key={t.txHash} style={styles.transferRow}>
+            <Text style={styles.label} numberOfLines={1}>
+              {t.label}
+            </Text>
+            <Text style={styles.muted} numberOfLines={2}>
+              {describeTransfer(t)}
+            </Text>
+            <View style={styles.actions}>
+              {t.status?.lifiExplorerLink ? (
+                <Pressable onPress={() => Linking.openURL(t.status!.lifiExplorerLink!)}>
+                  <Text style={[styles.action, { color: colors.tint }]}>LI.FI Explorer</Text>
+                </Pressable>
+              ) : null}
+              {transferNeedsFollowUp(t) && t.followUpState !== "running" ? (
+                <Pressable
+                  onPress={() => {
+                    if (t.followUpState === "failed") retryTransferFollowUp(t.txHash);
+                    openFollowUpScreen(t);
+                  }}
+                >
+                  <Text style={[styles.action, { color: colors.tint }]}>
+                    {t.followUpState === "failed" ? "Retry" : "Open"}
+                  </Text>
+                </Pressable>
+              ) : null}
+              {transferNeedsFollowUp(t) && t.followUpState !== "running" ? (
+                <Pressable onPress={() => dismissTransfer(t.txHash)}>
+                  <Text style={styles.action}>Dismiss</Text>
+                </Pressable>
+              ) : null}
+            </View>
+          </View>
+        ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  summary: { flex: 1, fontSize: 13, fontWeight: "600" },
+  transferRow: { marginTop: 8 },
+  label: { fontSize: 13, fontWeight: "600" },
+  muted: { fontSize: 12, opacity: 0.7 },
+  actions: { flexDirection: "row", gap: 16, marginTop: 4 },
+  action: { fontSize: 12, fontWeight: "600" },
+});
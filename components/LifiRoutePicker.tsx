@@ -0,0 +1,172 @@
+/**
+ * Route picker for LI.FI transfers (swap and LST screens): candidate routes ranked by output, fees, gas or
+ * ETA, each with the bridges / DEXes it uses, costs, price impact and duration. Tapping a row selects it;
+ * the screen sends the selected route's step.
+ */
+import { Text } from "@/components/Themed";
+import { ActivityIndicator, Pressable, StyleSheet, View } from "react-native";
+
+import { useColorScheme } from "@/components/useColorScheme";
+import Colors from "@/constants/Colors";
+import {
+  formatLifiAmount,
+  type LifiRouteRanking,
+  type LifiRouteSummary,
+} from "@/lib/lifi-routes";
+
+export type LifiRoutePickerProps = {
+  /** Already ranked, best first. */
+  routes: LifiRouteSummary[];
+  selectedRouteId: string | null;
+  onSelect: (routeId: string) => void;
+  ranking: LifiRouteRanking;
+  onRankingChange: (ranking: LifiRouteRanking) => void;
+  toSymbol: string;
+  toDecimals: number;
+  loading?: boolean;
+};
+
+const RANKINGS: { value: LifiRouteRanking; label: string }[] = [
+  { value: "output", label: "Best output" },
+  { value: "fees", label: "Lowest fees" },
+  { value: "gas", label: "Lowest gas" },
+  { value: "eta", label: "Fastest" },
+];
+
+function formatUsd(value: number): string {
+  return value < 0.01 && value > 0 ? "<$0.01" : `$${value.toFixed(2)}`;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds <= 0) return "—";
+  if (seconds < 60) return `~${Math.round(seconds)}s`;
+  if (seconds < 3600) return `~${Math.round(seconds / 60)} min`;
+  return `~${(seconds / 3600).toFixed(1)} h`;
+}
+
+export function LifiRoutePicker({
+  routes,
+  selectedRouteId,
+  onSelect,
+  ranking,
+  onRankingChange,
+  toSymbol,
+  toDecimals,
+  loading = false,
+}: LifiRoutePickerProps) {
+  const colors = Colors[useColorScheme() ?? "light"];
+
+  if (routes.length === 0) {
+    return loading ? <ActivityIndicator size="small" color={colors.tint} /> : null;
+  }
+
+  const cheapestId = routes.reduce((best, r) =>
+    r.feesUSD + r.gasUSD < best.feesUSD + best.gasUSD ? r : best
+  ).id;
+  const timed = routes.filter((r) => r.durationSeconds > 0);
+  const fastestId =
+    timed.length > 1
+      ? timed.reduce((best, r) => (r.durationSeconds < best.durationSeconds ? r : best)).id
+      : null;
+
+  return (
+    <View>
+      <View style={styles.chipRow}>
+        {RANKINGS.map(({ value, label }) => (
+          <Pressable
+            key={value}
+            onPress={() => onRankingChange(value)}
+            style={[
+              styles.chip,
+              {
+                borderColor: colors.tabIconDefault,
+                backgroundColor: ranking === value ? colors.tint : "transparent",
+              },
+            ]}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                { color: ranking === value ? colors.background : colors.text },
+              ]}
+            >
+              {label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+      {routes.map((r) => {
+        const selected = r.id === selectedRouteId;
+        const badges = [
+          routes.length > 1 && r.id === cheapestId ? "Cheapest" : null,
+          r.id === fastestId ? "Fastest" : null,
+        ].filter(Boolean);
+        return (
+          <Pressable
+            key={r.id}
+            onPress={() => onSelect(r.id)}
+            style={({ pressed }) => [
+              styles.routeRow,
+              {
+                borderColor: selected ? colors.tint : colors.tabIconDefault + "60",
+                opacity: pressed ? 0.8 : 1,
+              },
+            ]}
+            accessibilityRole="button"
+            accessibilityState={{ selected }}
+          >
+            <View style={styles.routeHeader}>
+              <Text style={styles.amount}>
+                {`${formatLifiAmount(r.toAmount, toDecimals)} ${toSymbol}`}
+              </Text>
+              {badges.length > 0 && (
+                <Text style={[styles.badge, { color: colors.tint }]}>{badges.join(" · ")}</Text>
+              )}
+            </View>
+            <Text style={styles.muted} numberOfLines={2}>
+              {r.bridges.length > 0
+                ? `Bridge: ${r.bridges.join(", ")} · via ${r.tools.join(" → ")}`
+                : `via ${r.tools.join(" → ")}`}
+            </Text>
+            <Text style={styles.muted}>
+              {`Fees ${formatUsd(r.feesUSD)} · Gas ${formatUsd(r.gasUSD)} · ` +
+                `Impact ${r.priceImpact != null ? `${(r.priceImpact * 100).toFixed(2)}%` : "—"} · ` +
+                formatDuration(r.durationSeconds)}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  chipText: { fontSize: 12, fontWeight: "600" },
+  routeRow: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 6,
+  },
+  routeHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 2,
+  },
+  amount: { fontSize: 14, fontWeight: "600" },
+  badge: { fontSize: 12, fontWeight: "600" },
+  muted: { fontSize: 12, opacity: 0.7, marginTop: 2 },
+});
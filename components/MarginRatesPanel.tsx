@@ -0,0 +1,186 @@
+/**
+ * Borrow cost next to the leverage selector: current borrow / supply APR and utilization of the margin pool
+ * the order would borrow from, the yearly interest as a share of margin for each leverage up to the pool's
+ * max, and a 7-day borrow APR chart. Data comes from useMarginPoolRates (GET /api/margin-pools/:id/rates).
+ */
+import { Text } from "@/components/Themed";
+import { useMemo, useState } from "react";
+import { ActivityIndicator, StyleSheet, View } from "react-native";
+import Svg, { Path } from "react-native-svg";
+
+import { useColorScheme } from "@/components/useColorScheme";
+import Colors from "@/constants/Colors";
+import type {
+  MarginPoolRateSnapshot,
+  MarginPoolRatesResponse,
+} from "@/lib/margin-pool-rates-via-backend";
+
+const CHART_HEIGHT = 60;
+const DANGER_COLOR = "#ef4444";
+
+function formatPct(fraction: number, digits = 2): string {
+  return `${(fraction * 100).toFixed(digits)}%`;
+}
+
+/** Line path of borrow APR over time, scaled to the chart box. */
+function aprPath(points: MarginPoolRateSnapshot[], width: number): string {
+  const first = points[0].timestamp;
+  const span = Math.max(1, points[points.length - 1].timestamp - first);
+  const values = points.map((p) => p.borrowApr);
+  const lo = Math.min(...values);
+  const hi = Math.max(...values);
+  const range = hi - lo || 1;
+  return points
+    .map((p, i) => {
+      const x = ((p.timestamp - first) / span) * width;
+      const y = CHART_HEIGHT - 2 - ((p.borrowApr - lo) / range) * (CHART_HEIGHT - 4);
+      return `${i === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+}
+
+interface MarginRatesPanelProps {
+  rates: MarginPoolRatesResponse | null;
+  loading?: boolean;
+  error?: string | null;
+  /** Selected leverage; its cost row is highlighted. */
+  leverage: number;
+  /** Pool max leverage (getMaxLeverageForPool); cost rows go up to it. */
+  maxLeverage: number;
+}
+
+export function MarginRatesPanel({
+  rates,
+  loading = false,
+  error = null,
+  leverage,
+  maxLeverage,
+}: MarginRatesPanelProps) {
+  const colors = Colors[useColorScheme() ?? "light"];
+  const [chartWidth, setChartWidth] = useState(0);
+
+  const history = rates?.history ?? [];
+  const path = useMemo(
+    () => (chartWidth > 0 && history.length >= 2 ? aprPath(history, chartWidth) : null),
+    [history, chartWidth]
+  );
+
+  if (!rates) {
+    if (!loading && !error) return null;
+    return (
+      <View style={[styles.container, { borderColor: colors.tabIconDefault }]}>
+        {loading ? (
+          <ActivityIndicator size="small" color={colors.tint} />
+        ) : (
+          <Text style={styles.errorText}>{error}</Text>
+        )}
+      </View>
+    );
+  }
+
+  const { current, coinKey } = rates;
+  const leverageSteps = Array.from(
+    { length: Math.max(0, maxLeverage - 1) },
+    (_, i) => i + 2
+  );
+  const aprs = history.map((p) => p.borrowApr);
+
+  return (
+    <View style={[styles.container, { borderColor: colors.tabIconDefault }]}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>Borrow cost · {coinKey} pool</Text>
+        {loading && <ActivityIndicator size="small" color={colors.tint} />}
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.label}>Borrow APR</Text>
+        <Text style={styles.value}>{formatPct(current.borrowApr)}</Text>
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.label}>Utilization</Text>
+        <Text style={styles.value}>
+          {formatPct(current.utilization, 1)}
+          {current.model
+            ? ` (rates jump above ${formatPct(current.model.optimalUtilization, 0)})`
+            : ""}
+        </Text>
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.label}>Lenders earn</Text>
+        <Text style={styles.value}>{formatPct(current.supplyApr)}</Text>
+      </View>
+
+      {leverageSteps.length > 0 && (
+        <>
+          <Text style={styles.section}>Interest per year, as share of margin</Text>
+          <View style={styles.leverageRow}>
+            {leverageSteps.map((x) => (
+              <Text
+                key={x}
+                style={[
+                  styles.leverageCost,
+                  x === leverage
+                    ? { color: colors.tint, fontWeight: "600", opacity: 1 }
+                    : null,
+                ]}
+              >
+                {`${x}× ${formatPct((x - 1) * current.borrowApr)}`}
+              </Text>
+            ))}
+          </View>
+        </>
+      )}
+
+      <Text style={styles.section}>Borrow APR, 7 days</Text>
+      {history.length >= 2 ? (
+        <>
+          <View
+            style={styles.chart}
+            onLayout={(e) => setChartWidth(e.nativeEvent.layout.width)}
+          >
+            {path && (
+              <Svg width={chartWidth} height={CHART_HEIGHT}>
+                <Path d={path} fill="none" stroke={colors.tint} strokeWidth={1.5} />
+              </Svg>
+            )}
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.label}>{`Low ${formatPct(Math.min(...aprs))}`}</Text>
+            <Text style={styles.label}>{`High ${formatPct(Math.max(...aprs))}`}</Text>
+          </View>
+        </>
+      ) : (
+        <Text style={styles.label}>
+          {rates.historyAvailable
+            ? "Not enough snapshots yet; history fills in over time."
+            : "Rate history is not recorded by this backend."}
+        </Text>
+      )}
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+    gap: 4,
+  },
+  headerRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 2,
+  },
+  title: { fontSize: 13, fontWeight: "600" },
+  section: { fontSize: 12, fontWeight: "600", opacity: 0.8, marginTop: 6 },
+  row: { flexDirection: "row", justifyContent: "space-between", gap: 8 },
+  label: { fontSize: 12, opacity: 0.7 },
+  value: { fontSize: 12, fontWeight: "500", flexShrink: 1, textAlign: "right" },
+  leverageRow: { flexDirection: "row", flexWrap: "wrap", gap: 10 },
+  leverageCost: { fontSize: 12, opacity: 0.7 },
+  chart: { height: CHART_HEIGHT, marginTop: 4 },
+  errorText: { color: DANGER_COLOR, fontSize: 12 },
+});
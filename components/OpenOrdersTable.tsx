@@ -0,0 +1,472 @@
+/**
+ * Open (resting) orders for a margin manager. Swipe a row left to reveal Edit and Cancel;
+ * swiping past the threshold asks for confirmation and calls onCancel.
+ * Edit opens a sheet to amend price and/or size (onEdit).
+ * Built on PanResponder + Animated so it needs no gesture-handler dependency.
+ */
+import { Text } from "@/components/Themed";
+import { useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Animated,
+  Modal,
+  PanResponder,
+  Pressable,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+
+import { useColorScheme } from "@/components/useColorScheme";
+import Colors from "@/constants/Colors";
+import { errorMessageWithCode } from "@/lib/api-error";
+import type { DeepBookOrder } from "@/lib/deepbook-indexer";
+import { isTxCancelled } from "@/lib/simulate-via-backend";
+
+/** Width of each revealed action (Edit, Cancel). */
+const ACTION_WIDTH = 80;
+/** Row offset when actions are revealed. */
+const OPEN_OFFSET = ACTION_WIDTH * 2;
+/** Swipe further than this (px) and release to trigger cancel. */
+const SWIPE_TRIGGER = OPEN_OFFSET + ACTION_WIDTH * 0.6;
+
+function formatTs(ms: number): string {
+  const d = new Date(ms);
+  return d.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+type SwipeableOrderRowProps = {
+  order: DeepBookOrder;
+  baseSymbol: string;
+  quoteSymbol: string;
+  cancelling: boolean;
+  onRequestCancel: (order: DeepBookOrder) => void;
+  onRequestEdit: (order: DeepBookOrder) => void;
+};
+
+function SwipeableOrderRow({
+  order,
+  baseSymbol,
+  quoteSymbol,
+  cancelling,
+  onRequestCancel,
+  onRequestEdit,
+}: SwipeableOrderRowProps) {
+  const colors = Colors[useColorScheme() ?? "light"];
+  const translateX = useRef(new Animated.Value(0)).current;
+  const openRef = useRef(false);
+  // PanResponder is created once; read latest props through a ref.
+  const latestRef = useRef({ order, onRequestCancel });
+  latestRef.current = { order, onRequestCancel };
+
+  const snapTo = (toValue: number) => {
+    openRef.current = toValue !== 0;
+    Animated.spring(translateX, {
+      toValue,
+      useNativeDriver: true,
+      bounciness: 0,
+    }).start();
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      // Only claim clearly horizontal drags so the parent ScrollView keeps vertical scrolling.
+      onMoveShouldSetPanResponder: (_e, g) =>
+        Math.abs(g.dx) > 8 && Math.abs(g.dx) > Math.abs(g.dy) * 1.5,
+      onPanResponderMove: (_e, g) => {
+        const start = openRef.current ? -OPEN_OFFSET : 0;
+        translateX.setValue(Math.min(0, start + g.dx));
+      },
+      onPanResponderRelease: (_e, g) => {
+        const start = openRef.current ? -OPEN_OFFSET : 0;
+        const x = start + g.dx;
+        if (x <= -SWIPE_TRIGGER) {
+          snapTo(-OPEN_OFFSET);
+          latestRef.current.onRequestCancel(latestRef.current.order);
+        } else if (x <= -ACTION_WIDTH) {
+          snapTo(-OPEN_OFFSET);
+        } else {
+          snapTo(0);
+        }
+      },
+      onPanResponderTerminate: () => snapTo(openRef.current ? -OPEN_OFFSET : 0),
+    })
+  ).current;
+
+  const isBuy = order.type?.toLowerCase() === "buy";
+  const filledPct =
+    order.original_quantity > 0
+      ? (order.filled_quantity / order.original_quantity) * 100
+      : 0;
+
+  return (
+    <View style={styles.rowContainer}>
+      <Pressable
+        onPress={() => {
+          snapTo(0);
+          onRequestEdit(order);
+        }}
+        disabled={cancelling}
+        style={({ pressed }) => [
+          styles.editAction,
+          { backgroundColor: colors.tint, opacity: pressed ? 0.8 : 1 },
+        ]}
+        accessibilityRole="button"
+        accessibilityLabel={`Edit order ${order.order_id}`}
+      >
+        <Text style={[styles.cancelActionText, { color: colors.background }]}>Edit</Text>
+      </Pressable>
+      <Pressable
+        onPress={() => onRequestCancel(order)}
+        disabled={cancelling}
+        style={({ pressed }) => [
+          styles.cancelAction,
+          { opacity: pressed ? 0.8 : 1 },
+        ]}
+        accessibilityRole="button"
+        accessibilityLabel={`Cancel order ${order.order_id}`}
+      >
+        {cancelling ? (
+          <ActivityIndicator size="small" color="#fff" />
+        ) : (
+          <Text style={styles.cancelActionText}>Cancel</Text>
+        )}
+      </Pressable>
+      <Animated.View
+        {...panResponder.panHandlers}
+        style={[
+          styles.row,
+          {
+            backgroundColor: colors.background,
+            borderTopColor: colors.tabIconDefault,
+            transform: [{ translateX }],
+            opacity: cancelling ? 0.5 : 1,
+          },
+        ]}
+      >
+        <Text style={[styles.cell, styles.sideCell, isBuy ? styles.buy : styles.sell]}>
+          {isBuy ? "Buy" : "Sell"}
+        </Text>
+        <Text style={styles.cell}>
+          {Number(order.price).toLocaleString(undefined, {
+            maximumFractionDigits: 6,
+          })}{" "}
+          {quoteSymbol}
+        </Text>
+        <Text style={styles.cell}>
+          {Number(order.remaining_quantity).toLocaleString(undefined, {
+            maximumFractionDigits: 4,
+          })}{" "}
+          {baseSymbol}
+          {filledPct > 0 ? ` (${filledPct.toFixed(0)}% filled)` : ""}
+        </Text>
+        <Text style={[styles.cell, styles.muted]}>{formatTs(order.placed_at)}</Text>
+      </Animated.View>
+    </View>
+  );
+}
+
+export type OpenOrdersTableProps = {
+  orders: DeepBookOrder[];
+  loading: boolean;
+  error: string | null;
+  baseSymbol: string;
+  quoteSymbol: string;
+  /** Order ids currently being cancelled (row shows a spinner). */
+  cancellingIds: string[];
+  cancelAllLoading: boolean;
+  onCancel: (orderId: string) => void;
+  onCancelAll: () => void;
+  /** Amend a resting order; resolves when the transaction lands, rejects on failure. */
+  onEdit: (
+    orderId: string,
+    changes: { price?: number; quantity?: number }
+  ) => Promise<void>;
+};
+
+export function OpenOrdersTable({
+  orders,
+  loading,
+  error,
+  baseSymbol,
+  quoteSymbol,
+  cancellingIds,
+  cancelAllLoading,
+  onCancel,
+  onCancelAll,
+  onEdit,
+}: OpenOrdersTableProps) {
+  const colors = Colors[useColorScheme() ?? "light"];
+  const [editingOrder, setEditingOrder] = useState<DeepBookOrder | null>(null);
+  const [editPrice, setEditPrice] = useState("");
+  const [editQuantity, setEditQuantity] = useState("");
+  const [editLoading, setEditLoading] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+
+  const onRequestEdit = (order: DeepBookOrder) => {
+    setEditingOrder(order);
+    setEditPrice(String(order.price));
+    setEditQuantity(String(order.remaining_quantity));
+    setEditError(null);
+  };
+
+  const onSubmitEdit = async () => {
+    if (!editingOrder) return;
+    const price = parseFloat(editPrice);
+    const quantity = parseFloat(editQuantity);
+    if (!(price > 0) || !(quantity > 0)) {
+      setEditError("Enter a positive price and quantity.");
+      return;
+    }
+    const priceChanged = price !== Number(editingOrder.price);
+    const quantityChanged = quantity !== Number(editingOrder.remaining_quantity);
+    if (!priceChanged && !quantityChanged) {
+      setEditingOrder(null);
+      return;
+    }
+    setEditLoading(true);
+    setEditError(null);
+    try {
+      await onEdit(editingOrder.order_id, {
+        price: priceChanged ? price : undefined,
+        quantity: quantityChanged ? quantity : undefined,
+      });
+      setEditingOrder(null);
+    } catch (err) {
+      // Declined in the confirm sheet: keep the edit form open without an error.
+      if (isTxCancelled(err)) return;
+      setEditError(errorMessageWithCode(err, "Modify order failed"));
+    } finally {
+      setEditLoading(false);
+    }
+  };
+
+  const onRequestCancel = (order: DeepBookOrder) => {
+    if (cancellingIds.includes(order.order_id)) return;
+    Alert.alert(
+      "Cancel order",
+      `Cancel ${order.type?.toLowerCase() === "buy" ? "buy" : "sell"} ${order.remaining_quantity} ${baseSymbol} @ ${order.price} ${quoteSymbol}?`,
+      [
+        { text: "Keep", style: "cancel" },
+        {
+          text: "Cancel order",
+          style: "destructive",
+          onPress: () => onCancel(order.order_id),
+        },
+      ]
+    );
+  };
+
+  const onRequestCancelAll = () => {
+    Alert.alert(
+      "Cancel all orders",
+      `Cancel all ${orders.length} open order${orders.length === 1 ? "" : "s"} in this pool?`,
+      [
+        { text: "Keep", style: "cancel" },
+        { text: "Cancel all", style: "destructive", onPress: onCancelAll },
+      ]
+    );
+  };
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <Text style={[styles.muted, { flex: 1 }]}>
+          Swipe an order left to edit or cancel.
+        </Text>
+        {orders.length > 1 && (
+          <Pressable
+            onPress={onRequestCancelAll}
+            disabled={cancelAllLoading}
+            style={({ pressed }) => ({
+              paddingVertical: 4,
+              paddingHorizontal: 8,
+              opacity: cancelAllLoading ? 0.6 : pressed ? 0.8 : 1,
+            })}
+            accessibilityRole="button"
+            accessibilityLabel="Cancel all orders"
+          >
+            {cancelAllLoading ? (
+              <ActivityIndicator size="small" color={colors.tint} />
+            ) : (
+              <Text style={[styles.sell, { fontWeight: "600" }]}>Cancel all</Text>
+            )}
+          </Pressable>
+        )}
+      </View>
+      {loading && orders.length === 0 && (
+        <ActivityIndicator size="small" color={colors.tint} />
+      )}
+      {error && <Text style={styles.errorText}>{error}</Text>}
+      {orders.map((order) => (
+        <SwipeableOrderRow
+          key={order.order_id}
+          order={order}
+          baseSymbol={baseSymbol}
+          quoteSymbol={quoteSymbol}
+          cancelling={cancelAllLoading || cancellingIds.includes(order.order_id)}
+          onRequestCancel={onRequestCancel}
+          onRequestEdit={onRequestEdit}
+        />
+      ))}
+      {!loading && orders.length === 0 && !error && (
+        <Text style={styles.muted}>No open orders.</Text>
+      )}
+
+      <Modal
+        visible={editingOrder != null}
+        transparent
+        animationType="slide"
+        onRequestClose={() => !editLoading && setEditingOrder(null)}
+      >
+        <Pressable
+          style={styles.modalOverlay}
+          onPress={() => !editLoading && setEditingOrder(null)}
+        >
+          <Pressable
+            style={[styles.modalContent, { backgroundColor: colors.background }]}
+            onPress={(e) => e.stopPropagation()}
+          >
+            <Text style={styles.modalTitle}>
+              Edit {editingOrder?.type?.toLowerCase() === "buy" ? "buy" : "sell"} order
+            </Text>
+            <Text style={[styles.muted, { marginBottom: 16 }]}>
+              Lowering size at the same price amends in place and keeps queue
+              priority. A new price cancels and re-places in one transaction.
+            </Text>
+            <Text style={styles.inputLabel}>Price ({quoteSymbol})</Text>
+            <TextInput
+              style={[
+                styles.input,
+                { color: colors.text, borderColor: colors.tabIconDefault },
+              ]}
+              value={editPrice}
+              onChangeText={setEditPrice}
+              keyboardType="decimal-pad"
+              editable={!editLoading}
+            />
+            <Text style={styles.inputLabel}>Quantity ({baseSymbol})</Text>
+            <TextInput
+              style={[
+                styles.input,
+                { color: colors.text, borderColor: colors.tabIconDefault },
+              ]}
+              value={editQuantity}
+              onChangeText={setEditQuantity}
+              keyboardType="decimal-pad"
+              editable={!editLoading}
+            />
+            {editError && <Text style={styles.errorText}>{editError}</Text>}
+            <Pressable
+              onPress={onSubmitEdit}
+              disabled={editLoading}
+              style={({ pressed }) => [
+                styles.primaryButton,
+                {
+                  backgroundColor: colors.tint,
+                  opacity: editLoading ? 0.6 : pressed ? 0.8 : 1,
+                },
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel="Update order"
+            >
+              {editLoading ? (
+                <ActivityIndicator size="small" color={colors.background} />
+              ) : (
+                <Text style={[styles.primaryButtonText, { color: colors.background }]}>
+                  Update order
+                </Text>
+              )}
+            </Pressable>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  rowContainer: {
+    overflow: "hidden",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  cell: {
+    flex: 1,
+    fontSize: 13,
+  },
+  sideCell: {
+    flex: 0.6,
+    fontWeight: "600",
+  },
+  cancelAction: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    right: 0,
+    width: ACTION_WIDTH,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "#ef4444",
+  },
+  editAction: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    right: ACTION_WIDTH,
+    width: ACTION_WIDTH,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  cancelActionText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  buy: { color: "#22c55e" },
+  sell: { color: "#ef4444" },
+  muted: { fontSize: 12, opacity: 0.7 },
+  errorText: { color: "#ef4444", fontSize: 13, marginBottom: 8 },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  modalContent: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 40,
+  },
+  modalTitle: { fontSize: 18, fontWeight: "600", marginBottom: 8 },
+  inputLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginBottom: 6,
+    opacity: 0.8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  primaryButton: { paddingVertical: 14, borderRadius: 8, alignItems: "center" },
+  primaryButtonText: { fontSize: 16, fontWeight: "600" },
+});
@@ -0,0 +1,317 @@
+/**
+ * Order book for a pool: bid/ask ladder with cumulative size bars and a cumulative depth chart.
+ * Asks are listed above the spread (best ask nearest to it), bids below. Tapping a level calls
+ * onSelectPrice so the screen can pre-fill the limit price. Levels come from useOrderbook.
+ */
+import { Text } from "@/components/Themed";
+import { useMemo, useState } from "react";
+import { ActivityIndicator, Pressable, StyleSheet, View } from "react-native";
+import Svg, { Path } from "react-native-svg";
+
+import { useColorScheme } from "@/components/useColorScheme";
+import Colors from "@/constants/Colors";
+import type { OrderbookLevel } from "@/lib/deepbook-indexer";
+
+const BID_COLOR = "#22c55e";
+const ASK_COLOR = "#ef4444";
+const DEPTH_CHART_HEIGHT = 120;
+
+/** Price steps to offer for grouping: 0 (raw levels) plus three powers of ten below the price. */
+export function orderbookAggregationSteps(price: number | null): number[] {
+  if (price == null || !(price > 0)) return [0];
+  const magnitude = Math.floor(Math.log10(price));
+  return [0, 10 ** (magnitude - 3), 10 ** (magnitude - 2), 10 ** (magnitude - 1)].map(
+    (step) => Number(step.toPrecision(1))
+  );
+}
+
+function decimalsForStep(step: number): number {
+  if (!(step > 0)) return 0;
+  return Math.max(0, -Math.floor(Math.log10(step) + 1e-9));
+}
+
+function formatPrice(price: number, step: number): string {
+  const decimals =
+    step > 0
+      ? decimalsForStep(step)
+      : price >= 1000
+        ? 2
+        : price >= 1
+          ? 4
+          : 6;
+  return price.toLocaleString(undefined, {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  });
+}
+
+function formatSize(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(2)}M`;
+  if (value >= 10_000) return `${(value / 1_000).toFixed(1)}K`;
+  return value.toLocaleString(undefined, { maximumFractionDigits: value >= 100 ? 1 : 4 });
+}
+
+type LadderRow = OrderbookLevel & { total: number };
+
+function withTotals(levels: OrderbookLevel[]): LadderRow[] {
+  let total = 0;
+  return levels.map((l) => {
+    total += l.quantity;
+    return { ...l, total };
+  });
+}
+
+/** Step path of cumulative size from the mid outwards: bids leftwards, asks rightwards. */
+function depthPath(
+  rows: LadderRow[],
+  x: (price: number) => number,
+  y: (total: number) => number
+): string {
+  if (rows.length === 0) return "";
+  let d = `M${x(rows[0].price)},${y(0)}`;
+  let prevTotal = 0;
+  for (const r of rows) {
+    d += ` L${x(r.price)},${y(prevTotal)} L${x(r.price)},${y(r.total)}`;
+    prevTotal = r.total;
+  }
+  const last = rows[rows.length - 1];
+  return `${d} L${x(last.price)},${y(0)} Z`;
+}
+
+interface OrderBookProps {
+  bids: OrderbookLevel[];
+  asks: OrderbookLevel[];
+  loading?: boolean;
+  error?: string | null;
+  baseSymbol: string;
+  quoteSymbol: string;
+  /** Current grouping step (0 = raw levels). */
+  aggregation: number;
+  aggregationOptions: number[];
+  onAggregationChange: (step: number) => void;
+  /** Called with the level price when a row is tapped. */
+  onSelectPrice?: (price: number) => void;
+}
+
+export function OrderBook({
+  bids,
+  asks,
+  loading = false,
+  error = null,
+  baseSymbol,
+  quoteSymbol,
+  aggregation,
+  aggregationOptions,
+  onAggregationChange,
+  onSelectPrice,
+}: OrderBookProps) {
+  const colors = Colors[useColorScheme() ?? "light"];
+  const [chartWidth, setChartWidth] = useState(0);
+
+  const bidRows = useMemo(() => withTotals(bids), [bids]);
+  const askRows = useMemo(() => withTotals(asks), [asks]);
+  const maxTotal = Math.max(
+    bidRows[bidRows.length - 1]?.total ?? 0,
+    askRows[askRows.length - 1]?.total ?? 0
+  );
+  const bestBid = bids[0]?.price ?? null;
+  const bestAsk = asks[0]?.price ?? null;
+  const spread = bestBid != null && bestAsk != null ? bestAsk - bestBid : null;
+  const spreadPct =
+    spread != null && bestBid != null && bestAsk != null
+      ? (spread / ((bestBid + bestAsk) / 2)) * 100
+      : null;
+
+  const chartPaths = useMemo(() => {
+    if (chartWidth <= 0 || maxTotal <= 0) return null;
+    const lowest = bidRows[bidRows.length - 1]?.price ?? askRows[0]?.price;
+    const highest = askRows[askRows.length - 1]?.price ?? bidRows[0]?.price;
+    if (lowest == null || highest == null || highest <= lowest) return null;
+    const x = (price: number) => ((price - lowest) / (highest - lowest)) * chartWidth;
+    const y = (total: number) =>
+      DEPTH_CHART_HEIGHT - (total / maxTotal) * (DEPTH_CHART_HEIGHT - 4);
+    return { bids: depthPath(bidRows, x, y), asks: depthPath(askRows, x, y) };
+  }, [bidRows, askRows, maxTotal, chartWidth]);
+
+  const renderRow = (row: LadderRow, side: "bid" | "ask") => {
+    const color = side === "bid" ? BID_COLOR : ASK_COLOR;
+    const fillPct = maxTotal > 0 ? (row.total / maxTotal) * 100 : 0;
+    return (
+      <Pressable
+        key={`${side}-${row.price}`}
+        onPress={() => onSelectPrice?.(row.price)}
+        disabled={!onSelectPrice}
+        style={({ pressed }) => [styles.row, { opacity: pressed ? 0.6 : 1 }]}
+        accessibilityRole="button"
+        accessibilityLabel={`${side === "bid" ? "Bid" : "Ask"} ${formatPrice(row.price, aggregation)}, use as limit price`}
+      >
+        <View
+          style={[
+            styles.depthBar,
+            { width: `${fillPct}%`, backgroundColor: color },
+          ]}
+        />
+        <Text style={[styles.cell, styles.priceCell, { color }]}>
+          {formatPrice(row.price, aggregation)}
+        </Text>
+        <Text style={[styles.cell, styles.numCell]}>{formatSize(row.quantity)}</Text>
+        <Text style={[styles.cell, styles.numCell, styles.muted]}>
+          {formatSize(row.total)}
+        </Text>
+      </Pressable>
+    );
+  };
+
+  const empty = bids.length === 0 && asks.length === 0;
+
+  return (
+    <View>
+      <View style={styles.stepRow}>
+        <Text style={[styles.muted, styles.stepLabel]}>Group</Text>
+        {aggregationOptions.map((step) => {
+          const selected = step === aggregation;
+          return (
+            <Pressable
+              key={step}
+              onPress={() => onAggregationChange(step)}
+              style={[
+                styles.stepChip,
+                { borderColor: colors.tabIconDefault },
+                selected && { backgroundColor: colors.tint, borderColor: colors.tint },
+              ]}
+            >
+              <Text
+                style={[
+                  styles.stepChipText,
+                  selected && { color: colors.background, fontWeight: "600" },
+                ]}
+              >
+                {step > 0 ? formatPrice(step, step) : "None"}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {loading && empty ? (
+        <ActivityIndicator size="small" color={colors.tint} style={styles.loading} />
+      ) : error && empty ? (
+        <Text style={styles.errorText}>{error}</Text>
+      ) : empty ? (
+        <Text style={styles.muted}>No resting orders</Text>
+      ) : (
+        <>
+          <View style={styles.headerRow}>
+            <Text style={[styles.cell, styles.priceCell, styles.headerText]}>
+              Price ({quoteSymbol})
+            </Text>
+            <Text style={[styles.cell, styles.numCell, styles.headerText]}>
+              Size ({baseSymbol})
+            </Text>
+            <Text style={[styles.cell, styles.numCell, styles.headerText]}>
+              Total
+            </Text>
+          </View>
+          {[...askRows].reverse().map((row) => renderRow(row, "ask"))}
+          <View style={[styles.spreadRow, { borderColor: colors.tabIconDefault }]}>
+            <Text style={styles.muted}>
+              Spread{" "}
+              {spread != null
+                ? `${formatPrice(spread, aggregation)} (${spreadPct?.toFixed(3)}%)`
+                : "—"}
+            </Text>
+          </View>
+          {bidRows.map((row) => renderRow(row, "bid"))}
+
+          <Text style={[styles.muted, styles.chartLabel]}>Depth</Text>
+          <View
+            style={styles.chart}
+            onLayout={(e) => setChartWidth(e.nativeEvent.layout.width)}
+          >
+            {chartPaths && (
+              <Svg width={chartWidth} height={DEPTH_CHART_HEIGHT}>
+                <Path
+                  d={chartPaths.bids}
+                  fill={BID_COLOR}
+                  fillOpacity={0.2}
+                  stroke={BID_COLOR}
+                  strokeWidth={1.5}
+                />
+                <Path
+                  d={chartPaths.asks}
+                  fill={ASK_COLOR}
+                  fillOpacity={0.2}
+                  stroke={ASK_COLOR}
+                  strokeWidth={1.5}
+                />
+              </Svg>
+            )}
+          </View>
+          <View style={styles.chartAxis}>
+            <Text style={styles.muted}>
+              {bidRows.length > 0
+                ? formatPrice(bidRows[bidRows.length - 1].price, aggregation)
+                : ""}
+            </Text>
+            <Text style={styles.muted}>
+              {askRows.length > 0
+                ? formatPrice(askRows[askRows.length - 1].price, aggregation)
+                : ""}
+            </Text>
+          </View>
+          {error && <Text style={[styles.errorText, { marginTop: 8 }]}>{error}</Text>}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  stepRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+    gap: 6,
+    marginBottom: 10,
+  },
+  stepLabel: { marginRight: 2 },
+  stepChip: {
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  stepChipText: { fontSize: 12 },
+  headerRow: { flexDirection: "row", paddingBottom: 4 },
+  headerText: { fontSize: 11, opacity: 0.7 },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 3,
+    position: "relative",
+  },
+  depthBar: {
+    position: "absolute",
+    right: 0,
+    top: 1,
+    bottom: 1,
+    opacity: 0.12,
+    borderRadius: 2,
+  },
+  cell: { fontSize: 12 },
+  priceCell: { flex: 1.2, fontWeight: "500" },
+  numCell: { flex: 1, textAlign: "right" },
+  spreadRow: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    paddingVertical: 4,
+    marginVertical: 2,
+    alignItems: "center",
+  },
+  chartLabel: { marginTop: 12, marginBottom: 4 },
+  chart: { height: DEPTH_CHART_HEIGHT, width: "100%" },
+  chartAxis: { flexDirection: "row", justifyContent: "space-between", marginTop: 2 },
+  muted: { fontSize: 12, opacity: 0.7 },
+  loading: { marginVertical: 12 },
+  errorText: { color: "#ef4444", fontSize: 13 },
+});
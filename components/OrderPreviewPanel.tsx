@@ -0,0 +1,225 @@
+/**
+ * Pre-trade summary under the order form: estimated fill from the book, taker fee in DEEP vs the
+ * input token, and risk ratio / debt / liquidation price before → after the order. Data comes from
+ * useOrderPreview (POST /api/preview-order).
+ */
+import { Text } from "@/components/Themed";
+import { ActivityIndicator, StyleSheet, View } from "react-native";
+
+import { useColorScheme } from "@/components/useColorScheme";
+import Colors from "@/constants/Colors";
+import type { OrderPreview, OrderPreviewPosition } from "@/lib/preview-order-via-backend";
+
+const WARNING_COLOR = "#f59e0b";
+const DANGER_COLOR = "#ef4444";
+const GOOD_COLOR = "#22c55e";
+
+function formatNumber(value: number | null | undefined, maxDigits = 4): string {
+  if (value == null || !Number.isFinite(value)) return "—";
+  return value.toLocaleString(undefined, {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: Math.abs(value) >= 1000 ? 2 : maxDigits,
+  });
+}
+
+function formatRatio(value: number | null): string {
+  return value == null ? "∞" : value.toFixed(2);
+}
+
+function debtLabel(p: OrderPreviewPosition, baseSymbol: string, quoteSymbol: string): string {
+  const parts: string[] = [];
+  if (p.baseDebt > 0) parts.push(`${formatNumber(p.baseDebt)} ${baseSymbol}`);
+  if (p.quoteDebt > 0) parts.push(`${formatNumber(p.quoteDebt)} ${quoteSymbol}`);
+  return parts.length > 0 ? parts.join(" + ") : "None";
+}
+
+function Row({
+  label,
+  value,
+  valueColor,
+}: {
+  label: string;
+  value: string;
+  valueColor?: string;
+}) {
+  return (
+    <View style={styles.row}>
+      <Text style={styles.label}>{label}</Text>
+      <Text style={[styles.value, valueColor ? { color: valueColor } : null]}>{value}</Text>
+    </View>
+  );
+}
+
+interface OrderPreviewPanelProps {
+  preview: OrderPreview | null;
+  loading?: boolean;
+  error?: string | null;
+}
+
+export function OrderPreviewPanel({
+  preview,
+  loading = false,
+  error = null,
+}: OrderPreviewPanelProps) {
+  const colors = Colors[useColorScheme() ?? "light"];
+
+  if (!preview) {
+    if (!loading && !error) return null;
+    return (
+      <View style={[styles.container, { borderColor: colors.tabIconDefault }]}>
+        {loading ? (
+          <ActivityIndicator size="small" color={colors.tint} />
+        ) : (
+          <Text style={styles.errorText}>{error}</Text>
+        )}
+      </View>
+    );
+  }
+
+  const { fill, fees, risk, baseSymbol, quoteSymbol } = preview;
+  const slippageColor =
+    fill.slippagePct == null
+      ? undefined
+      : fill.slippagePct > 1
+        ? DANGER_COLOR
+        : fill.slippagePct > 0.25
+          ? WARNING_COLOR
+          : undefined;
+  const projectedRr = risk?.projected.riskRatio ?? null;
+  const rrColor =
+    risk == null || projectedRr == null
+      ? undefined
+      : projectedRr < risk.liquidationRiskRatio * 1.1
+        ? DANGER_COLOR
+        : projectedRr < risk.minBorrowRiskRatio
+          ? WARNING_COLOR
+          : undefined;
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { borderColor: colors.tabIconDefault, opacity: loading ? 0.6 : 1 },
+      ]}
+    >
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>Order preview</Text>
+        {loading && <ActivityIndicator size="small" color={colors.tint} />}
+      </View>
+
+      {fill.takerQuantity > 0 && (
+        <>
+          <Row
+            label="Est. fill price"
+            value={`${formatNumber(fill.averagePrice, 6)} ${quoteSymbol}`}
+          />
+          <Row
+            label="Slippage vs mid"
+            value={fill.slippagePct != null ? `${fill.slippagePct.toFixed(3)}%` : "—"}
+            valueColor={slippageColor}
+          />
+          <Row
+            label="Fills now"
+            value={`${formatNumber(fill.takerQuantity)} ${baseSymbol} · ${fill.levelsConsumed} level${fill.levelsConsumed === 1 ? "" : "s"}`}
+          />
+        </>
+      )}
+      {fill.restingQuantity > 0 && (
+        <Row
+          label="Rests on book"
+          value={`${formatNumber(fill.restingQuantity)} ${baseSymbol}`}
+        />
+      )}
+      {fill.unfilledQuantity > 0 && (
+        <Row
+          label="Unfillable"
+          value={`${formatNumber(fill.unfilledQuantity)} ${baseSymbol}`}
+          valueColor={DANGER_COLOR}
+        />
+      )}
+
+      {(fees.deep || fees.inputToken) && (
+        <>
+          <Text style={styles.section}>
+            Taker fee ({(fees.takerFeeRate * 100).toFixed(3)}%)
+          </Text>
+          {fees.deep && (
+            <Row
+              label={`Pay in DEEP${fees.cheaper === "deep" ? " · cheaper" : ""}`}
+              value={`${formatNumber(fees.deep.amount)} DEEP ≈ ${formatNumber(fees.deep.quoteValue)} ${quoteSymbol}`}
+              valueColor={fees.cheaper === "deep" ? GOOD_COLOR : undefined}
+            />
+          )}
+          {fees.inputToken && (
+            <Row
+              label={`Pay in ${fees.inputToken.coin}${fees.cheaper === "input" ? " · cheaper" : ""}`}
+              value={`${formatNumber(fees.inputToken.amount, 6)} ${fees.inputToken.coin} ≈ ${formatNumber(fees.inputToken.quoteValue)} ${quoteSymbol}`}
+              valueColor={fees.cheaper === "input" ? GOOD_COLOR : undefined}
+            />
+          )}
+        </>
+      )}
+
+      {risk && (
+        <>
+          <Text style={styles.section}>After order</Text>
+          <Row
+            label="Risk ratio"
+            value={`${formatRatio(risk.current.riskRatio)} → ${formatRatio(projectedRr)}`}
+            valueColor={rrColor}
+          />
+          <Row
+            label="Debt"
+            value={`${debtLabel(risk.current, baseSymbol, quoteSymbol)} → ${debtLabel(risk.projected, baseSymbol, quoteSymbol)}`}
+          />
+          <Row
+            label="Liquidation price"
+            value={
+              risk.projected.liquidationPrice != null
+                ? `${formatNumber(risk.projected.liquidationPrice, 6)} ${quoteSymbol}`
+                : "—"
+            }
+          />
+          <Row
+            label="Leverage"
+            value={
+              risk.projected.leverage != null
+                ? `${risk.projected.leverage.toFixed(2)}×`
+                : "—"
+            }
+          />
+        </>
+      )}
+
+      {preview.warnings.map((w) => (
+        <Text key={w} style={styles.warningText}>
+          {w}
+        </Text>
+      ))}
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 12,
+    gap: 4,
+  },
+  headerRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 2,
+  },
+  title: { fontSize: 13, fontWeight: "600" },
+  section: { fontSize: 12, fontWeight: "600", opacity: 0.8, marginTop: 6 },
+  row: { flexDirection: "row", justifyContent: "space-between", gap: 8 },
+  label: { fontSize: 12, opacity: 0.7 },
+  value: { fontSize: 12, fontWeight: "500", flexShrink: 1, textAlign: "right" },
+  warningText: { color: WARNING_COLOR, fontSize: 12, marginTop: 4 },
+  errorText: { color: DANGER_COLOR, fontSize: 12 },
+});
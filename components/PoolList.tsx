@@ -1,6 +1,8 @@
 /**
  * Single pool list: tap tab → list, tap item → open pool.
- * Used by both Base (Deepbook tab) and Sui (Margin tab). Network doesn't matter until you're in the pool.
+ * Used by both Base (Deepbook tab) and Sui (Margin tab). Lists the margin pools of the selected Sui network
+ * (Base uses mainnet pools): pool keys come from chain via usePools, with constants as the fallback while
+ * loading. The header links to the Lend screen (supply to margin pools).
  */
 import { Text } from "@/components/Themed";
 import { useRouter } from "expo-router";
@@ -16,8 +18,9 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 
 import { useColorScheme } from "@/components/useColorScheme";
 import Colors from "@/constants/Colors";
-import { MARGIN_POOL_KEYS_SET } from "@/constants/deepbook-margin-mainnet";
-import { useTicker } from "@/hooks/useDeepBookMargin";
+import { getMarginConstants } from "@/constants/deepbook-margin";
+import { usePools, useTicker } from "@/hooks/useDeepBookMargin";
+import { getSuiNetwork, useNetwork } from "@/lib/network";
 
 const PRICE_POLL_MS = 5000;
 
@@ -36,22 +39,29 @@ export function PoolList({ backTo, title, subtitle }: PoolListProps) {
   const colors = Colors[useColorScheme() ?? "light"];
   const insets = useSafeAreaInsets();
   const router = useRouter();
-  const { ticker, loading, error } = useTicker(PRICE_POLL_MS);
+  const { currentNetwork } = useNetwork();
+  const suiNetwork = getSuiNetwork(currentNetwork);
+  const { ticker, loading, error } = useTicker(PRICE_POLL_MS, suiNetwork);
+  const { pools: chainPools } = usePools(undefined, suiNetwork);
   const prevPricesRef = useRef<Record<string, number>>({});
   const lastDirectionRef = useRef<Record<string, "up" | "down">>({});
 
   const pairs = useMemo(() => {
+    const poolKeys =
+      chainPools.length > 0
+        ? new Set(chainPools.map((p) => p.poolKey))
+        : getMarginConstants(suiNetwork).poolKeys;
     const entries = Object.entries(ticker).filter(([, v]) => v?.isFrozen === 0);
     return entries
       .map(([name, data]) => ({ poolName: name, lastPrice: data.last_price }))
       .filter(
         (p) =>
-          MARGIN_POOL_KEYS_SET.has(p.poolName) &&
+          poolKeys.has(p.poolName) &&
           typeof p.lastPrice === "number" &&
           p.lastPrice > 0
       )
       .sort((a, b) => a.poolName.localeCompare(b.poolName));
-  }, [ticker]);
+  }, [ticker, suiNetwork, chainPools]);
 
   const onPressPool = (poolName: string) => {
     const path = `/(app)/trading/${encodeURIComponent(poolName)}`;
@@ -83,6 +93,17 @@ export function PoolList({ backTo, title, subtitle }: PoolListProps) {
           {subtitle}
         </Text>
       )}
+      <Pressable
+        onPress={() => router.push("/(app)/trading/lend" as never)}
+        style={({ pressed }) => [
+          styles.lendLink,
+          { borderColor: colors.tint, opacity: pressed ? 0.7 : 1 },
+        ]}
+      >
+        <Text style={[styles.lendLinkText, { color: colors.tint }]}>
+          Lend to margin pools and earn interest →
+        </Text>
+      </Pressable>
     </View>
   );
 
@@ -181,6 +202,15 @@ const styles = StyleSheet.create({
   header: { paddingHorizontal: 8, marginBottom: 24 },
   title: { fontSize: 28, fontWeight: "bold" },
   subtitle: { fontSize: 15, opacity: 0.8, marginTop: 8 },
+  lendLink: {
+    alignSelf: "flex-start",
+    marginTop: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  lendLinkText: { fontSize: 14, fontWeight: "600" },
   centered: {
     flex: 1,
     alignItems: "center",
@@ -0,0 +1,60 @@
+/**
+ * Fee / gas / price-impact breakdown of a LI.FI quote (see lib/lifi-quote-analysis.ts), with a warning
+ * from PRICE_IMPACT_WARN. confirmQuoteAnalysis asks before sending once the impact reaches
+ * PRICE_IMPACT_CONFIRM; below that it resolves true without prompting.
+ */
+import { Text } from "@/components/Themed";
+import { Alert, StyleSheet, View } from "react-native";
+
+import {
+  describeQuoteAnalysis,
+  PRICE_IMPACT_WARN,
+  type LifiQuoteAnalysis,
+} from "@/lib/lifi-quote-analysis";
+
+const LEVEL_COLORS = { warn: "#eab308", confirm: "#ef4444" } as const;
+
+export function QuoteAnalysisNotice({ analysis }: { analysis: LifiQuoteAnalysis }) {
+  const warning =
+    analysis.level === "warn" || analysis.level === "confirm" ? analysis.level : null;
+  return (
+    <View style={styles.container}>
+      {warning && (
+        <Text style={[styles.warning, { color: LEVEL_COLORS[warning] }]}>
+          {warning === "confirm"
+            ? "High price impact: you will be asked to confirm before sending."
+            : `Price impact is ${PRICE_IMPACT_WARN * 100}% or more.`}
+        </Text>
+      )}
+      {describeQuoteAnalysis(analysis).map((line) => (
+        <Text key={line} style={styles.line}>
+          {line}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+export function confirmQuoteAnalysis(
+  analysis: LifiQuoteAnalysis,
+  actionLabel: string
+): Promise<boolean> {
+  if (analysis.level !== "confirm") return Promise.resolve(true);
+  return new Promise<boolean>((resolve) => {
+    Alert.alert(
+      "High price impact",
+      `${describeQuoteAnalysis(analysis).join("\n")}\n\nYou would receive noticeably less than you send. Continue?`,
+      [
+        { text: "Cancel", style: "cancel", onPress: () => resolve(false) },
+        { text: actionLabel, style: "destructive", onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+}
+
+const styles = StyleSheet.create({
+  container: { marginTop: 6 },
+  warning: { fontSize: 12, fontWeight: "600", marginBottom: 2 },
+  line: { fontSize: 12, opacity: 0.7 },
+});
@@ -0,0 +1,307 @@
+/**
+ * Spot account (DeepBook balance manager) for the trading screen's spot mode: create the account,
+ * move base / quote / DEEP in and out, and see balances and resting spot orders with a cancel per row.
+ * Spot orders trade only what is deposited here; there is no borrowing.
+ */
+import { Text } from "@/components/Themed";
+import { useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+
+import { useColorScheme } from "@/components/useColorScheme";
+import Colors from "@/constants/Colors";
+import type {
+  BalanceManagerAsset,
+  BalanceManagerBalance,
+  SpotOpenOrder,
+} from "@/lib/balance-manager-via-backend";
+
+export type SpotAccountPanelProps = {
+  balanceManagerId: string | null;
+  balances: Record<BalanceManagerAsset, BalanceManagerBalance> | null;
+  openOrders: SpotOpenOrder[];
+  loading: boolean;
+  error: string | null;
+  baseSymbol: string;
+  quoteSymbol: string;
+  createLoading: boolean;
+  onCreate: () => void;
+  /** Deposit or withdraw in flight. */
+  transferLoading: boolean;
+  onDeposit: (asset: BalanceManagerAsset, amount: number) => void;
+  /** amount undefined = withdraw everything of that asset. */
+  onWithdraw: (asset: BalanceManagerAsset, amount: number | undefined) => void;
+  /** Order ids currently being cancelled. */
+  cancellingIds: string[];
+  onCancelOrder: (orderId: string) => void;
+};
+
+const ASSETS: BalanceManagerAsset[] = ["base", "quote", "deep"];
+
+function formatAmount(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 6 });
+}
+
+export function SpotAccountPanel({
+  balanceManagerId,
+  balances,
+  openOrders,
+  loading,
+  error,
+  baseSymbol,
+  quoteSymbol,
+  createLoading,
+  onCreate,
+  transferLoading,
+  onDeposit,
+  onWithdraw,
+  cancellingIds,
+  onCancelOrder,
+}: SpotAccountPanelProps) {
+  const colors = Colors[useColorScheme() ?? "light"];
+  const [asset, setAsset] = useState<BalanceManagerAsset>("quote");
+  const [amount, setAmount] = useState("");
+
+  const symbol = (a: BalanceManagerAsset) =>
+    a === "base" ? baseSymbol : a === "quote" ? quoteSymbol : "DEEP";
+  const parsedAmount = parseFloat(amount.trim());
+  const amountValid = Number.isFinite(parsedAmount) && parsedAmount > 0;
+
+  if (!balanceManagerId) {
+    return (
+      <View>
+        {loading ? (
+          <ActivityIndicator size="small" color={colors.tint} />
+        ) : (
+          <>
+            {error && <Text style={styles.errorText}>{error}</Text>}
+            <Text style={styles.muted}>
+              Spot orders trade from a DeepBook balance manager: deposit {quoteSymbol} to buy or{" "}
+              {baseSymbol} to sell, no margin account or borrowing involved.
+            </Text>
+            <Pressable
+              onPress={onCreate}
+              disabled={createLoading}
+              style={({ pressed }) => [
+                styles.button,
+                {
+                  backgroundColor: colors.tint,
+                  opacity: createLoading ? 0.7 : pressed ? 0.8 : 1,
+                },
+              ]}
+            >
+              {createLoading ? (
+                <ActivityIndicator size="small" color={colors.background} />
+              ) : (
+                <Text style={[styles.buttonText, { color: colors.background }]}>
+                  Create spot account
+                </Text>
+              )}
+            </Pressable>
+          </>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+      {ASSETS.map((a) => {
+        const b = balances?.[a];
+        return (
+          <View key={a} style={styles.balanceRow}>
+            <Text style={styles.muted}>{symbol(a)}</Text>
+            <Text style={styles.value}>
+              {b ? formatAmount(b.available) : loading ? "…" : "—"}
+              {b && b.locked > 0 ? (
+                <Text style={styles.muted}>{`  · ${formatAmount(b.locked)} in orders`}</Text>
+              ) : null}
+              {b && b.settled > 0 ? (
+                <Text style={styles.muted}>{`  · ${formatAmount(b.settled)} settled`}</Text>
+              ) : null}
+            </Text>
+          </View>
+        );
+      })}
+
+      <View style={styles.chipRow}>
+        {ASSETS.map((a) => (
+          <Pressable
+            key={a}
+            onPress={() => setAsset(a)}
+            style={[
+              styles.chip,
+              {
+                borderColor: colors.tabIconDefault,
+                backgroundColor: asset === a ? colors.tint : "transparent",
+              },
+            ]}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                { color: asset === a ? colors.background : colors.text },
+              ]}
+            >
+              {symbol(a)}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+      <TextInput
+        style={[styles.input, { color: colors.text, borderColor: colors.tabIconDefault }]}
+        placeholder={`Amount (${symbol(asset)})`}
+        placeholderTextColor={colors.tabIconDefault}
+        value={amount}
+        onChangeText={setAmount}
+        keyboardType="decimal-pad"
+      />
+      <View style={styles.chipRow}>
+        <Pressable
+          onPress={() => onDeposit(asset, parsedAmount)}
+          disabled={transferLoading || !amountValid}
+          style={({ pressed }) => [
+            styles.actionButton,
+            {
+              backgroundColor: colors.tint,
+              opacity: transferLoading || !amountValid ? 0.5 : pressed ? 0.8 : 1,
+            },
+          ]}
+        >
+          <Text style={[styles.buttonText, { color: colors.background }]}>Deposit</Text>
+        </Pressable>
+        <Pressable
+          onPress={() => onWithdraw(asset, amountValid ? parsedAmount : undefined)}
+          disabled={transferLoading}
+          style={({ pressed }) => [
+            styles.actionButton,
+            {
+              borderWidth: 1,
+              borderColor: colors.tint,
+              opacity: transferLoading ? 0.5 : pressed ? 0.8 : 1,
+            },
+          ]}
+        >
+          <Text style={[styles.buttonText, { color: colors.tint }]}>
+            {amountValid ? "Withdraw" : "Withdraw all"}
+          </Text>
+        </Pressable>
+        {transferLoading && <ActivityIndicator size="small" color={colors.tint} />}
+      </View>
+
+      <Text style={[styles.inputLabel, { color: colors.text }]}>Open spot orders</Text>
+      {loading && openOrders.length === 0 && (
+        <ActivityIndicator size="small" color={colors.tint} />
+      )}
+      {openOrders.map((o) => {
+        const cancelling = cancellingIds.includes(o.orderId);
+        return (
+          <View
+            key={o.orderId}
+            style={[styles.orderRow, { borderTopColor: colors.tabIconDefault }]}
+          >
+            <Text style={[styles.side, o.isBid ? styles.buy : styles.sell]}>
+              {o.isBid ? "Buy" : "Sell"}
+            </Text>
+            <Text style={styles.detail}>
+              {`${formatAmount(o.quantity - o.filledQuantity)} / ${formatAmount(o.quantity)} ${baseSymbol} @ ${formatAmount(o.price)} ${quoteSymbol}`}
+            </Text>
+            <Pressable
+              onPress={() => onCancelOrder(o.orderId)}
+              disabled={cancelling}
+              style={({ pressed }) => [
+                styles.cancelButton,
+                {
+                  borderColor: colors.tabIconDefault,
+                  opacity: cancelling ? 0.6 : pressed ? 0.8 : 1,
+                },
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel="Cancel spot order"
+            >
+              {cancelling ? (
+                <ActivityIndicator size="small" color={colors.text} />
+              ) : (
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              )}
+            </Pressable>
+          </View>
+        );
+      })}
+      {!loading && openOrders.length === 0 && (
+        <Text style={styles.muted}>No open spot orders.</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  balanceRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 4,
+  },
+  value: { fontSize: 14, fontWeight: "600" },
+  chipRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 12,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  chipText: { fontSize: 13, fontWeight: "600" },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginTop: 8,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: "center",
+  },
+  button: {
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: "center",
+    marginTop: 12,
+  },
+  buttonText: { fontSize: 14, fontWeight: "600" },
+  inputLabel: { fontSize: 13, fontWeight: "600", marginTop: 16, marginBottom: 4 },
+  orderRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  side: { width: 36, fontWeight: "700" },
+  detail: { flex: 1, fontSize: 13, marginRight: 8 },
+  cancelButton: {
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    minWidth: 64,
+    alignItems: "center",
+  },
+  cancelButtonText: { fontSize: 13, fontWeight: "600" },
+  buy: { color: "#22c55e" },
+  sell: { color: "#ef4444" },
+  muted: { fontSize: 12, opacity: 0.7 },
+  errorText: { color: "#ef4444", fontSize: 13, marginBottom: 8 },
+});
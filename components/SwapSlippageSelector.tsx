@@ -0,0 +1,95 @@
+/**
+ * Slippage presets plus a custom % field for LI.FI and DeepBook swaps. Reads and writes the shared
+ * swap-settings store, so every flow (swap, LST, send-to-name) uses the same value.
+ */
+import { Text } from "@/components/Themed";
+import { useState } from "react";
+import { Alert, Pressable, StyleSheet, TextInput, View } from "react-native";
+
+import { useColorScheme } from "@/components/useColorScheme";
+import Colors from "@/constants/Colors";
+import { SWAP_SLIPPAGE_PRESETS_BPS, useSwapSlippageBps } from "@/lib/swap-settings";
+import { formatSlippageBps } from "@/lib/trade-settings";
+
+export function SwapSlippageSelector() {
+  const colors = Colors[useColorScheme() ?? "light"];
+  const { slippageBps, setSlippageBps } = useSwapSlippageBps();
+  const [custom, setCustom] = useState("");
+  const isPreset = SWAP_SLIPPAGE_PRESETS_BPS.includes(slippageBps);
+
+  const save = (bps: number) =>
+    setSlippageBps(bps).catch((err) =>
+      Alert.alert("Slippage", err instanceof Error ? err.message : "Invalid slippage")
+    );
+
+  return (
+    <View>
+      <Text style={[styles.label, { color: colors.tabIconDefault }]}>Max slippage</Text>
+      <View style={styles.chipRow}>
+        {SWAP_SLIPPAGE_PRESETS_BPS.map((bps) => (
+          <Pressable
+            key={bps}
+            onPress={() => {
+              setCustom("");
+              save(bps);
+            }}
+            style={[
+              styles.chip,
+              {
+                borderColor: colors.tabIconDefault,
+                backgroundColor: slippageBps === bps ? colors.tint : "transparent",
+              },
+            ]}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                { color: slippageBps === bps ? colors.background : colors.text },
+              ]}
+            >
+              {formatSlippageBps(bps)}
+            </Text>
+          </Pressable>
+        ))}
+        <TextInput
+          style={[
+            styles.chip,
+            styles.chipText,
+            {
+              minWidth: 72,
+              color: colors.text,
+              borderColor: isPreset ? colors.tabIconDefault : colors.tint,
+            },
+          ]}
+          placeholder={isPreset ? "Custom %" : formatSlippageBps(slippageBps)}
+          placeholderTextColor={colors.tabIconDefault}
+          value={custom}
+          onChangeText={setCustom}
+          onEndEditing={() => {
+            const pct = parseFloat(custom.trim());
+            if (!Number.isFinite(pct)) return;
+            save(Math.round(pct * 100));
+          }}
+          keyboardType="decimal-pad"
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: { fontSize: 12, fontWeight: "600", marginBottom: 6 },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  chipText: { fontSize: 12, fontWeight: "600" },
+});
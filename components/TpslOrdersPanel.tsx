@@ -0,0 +1,167 @@
+/**
+ * Live TP/SL conditional orders on a margin manager: trigger price, direction and the size
+ * of the order that fires. Each row can be cancelled; "Cancel all" clears them in one transaction.
+ */
+import { Text } from "@/components/Themed";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  StyleSheet,
+  View,
+} from "react-native";
+
+import { useColorScheme } from "@/components/useColorScheme";
+import Colors from "@/constants/Colors";
+import type { ConditionalOrder } from "@/lib/conditional-orders-via-backend";
+
+export type TpslOrdersPanelProps = {
+  orders: ConditionalOrder[];
+  loading: boolean;
+  error: string | null;
+  baseSymbol: string;
+  quoteSymbol: string;
+  /** Conditional order ids currently being cancelled. */
+  cancellingIds: string[];
+  cancelAllLoading: boolean;
+  onCancel: (conditionalOrderId: string) => void;
+  onCancelAll: () => void;
+};
+
+function describeOrder(
+  o: ConditionalOrder,
+  baseSymbol: string,
+  quoteSymbol: string
+): string {
+  const side = o.order.is_bid ? "Buy" : "Sell";
+  const qty = o.order.quantity.toLocaleString(undefined, { maximumFractionDigits: 4 });
+  const how =
+    o.order.is_limit_order && o.order.price != null
+      ? `limit @ ${o.order.price.toLocaleString(undefined, { maximumFractionDigits: 6 })}`
+      : "market";
+  return `${side} ${qty} ${baseSymbol} (${how}) when price ${o.direction === "below" ? "≤" : "≥"} ${o.trigger_price.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${quoteSymbol}`;
+}
+
+export function TpslOrdersPanel({
+  orders,
+  loading,
+  error,
+  baseSymbol,
+  quoteSymbol,
+  cancellingIds,
+  cancelAllLoading,
+  onCancel,
+  onCancelAll,
+}: TpslOrdersPanelProps) {
+  const colors = Colors[useColorScheme() ?? "light"];
+
+  const onRequestCancelAll = () => {
+    Alert.alert(
+      "Cancel all TP/SL",
+      `Remove all ${orders.length} take profit / stop loss orders?`,
+      [
+        { text: "Keep", style: "cancel" },
+        { text: "Cancel all", style: "destructive", onPress: onCancelAll },
+      ]
+    );
+  };
+
+  return (
+    <View>
+      {orders.length > 1 && (
+        <View style={styles.header}>
+          <Pressable
+            onPress={onRequestCancelAll}
+            disabled={cancelAllLoading}
+            style={({ pressed }) => ({
+              paddingVertical: 4,
+              paddingHorizontal: 8,
+              opacity: cancelAllLoading ? 0.6 : pressed ? 0.8 : 1,
+            })}
+            accessibilityRole="button"
+            accessibilityLabel="Cancel all TP/SL orders"
+          >
+            {cancelAllLoading ? (
+              <ActivityIndicator size="small" color={colors.tint} />
+            ) : (
+              <Text style={[styles.sell, { fontWeight: "600" }]}>Cancel all</Text>
+            )}
+          </Pressable>
+        </View>
+      )}
+      {loading && orders.length === 0 && (
+        <ActivityIndicator size="small" color={colors.tint} />
+      )}
+      {error && <Text style={styles.errorText}>{error}</Text>}
+      {orders.map((o) => {
+        const cancelling =
+          cancelAllLoading || cancellingIds.includes(o.conditional_order_id);
+        const isTp = o.kind === "take_profit";
+        return (
+          <View
+            key={o.conditional_order_id}
+            style={[styles.row, { borderTopColor: colors.tabIconDefault }]}
+          >
+            <Text style={[styles.kind, isTp ? styles.buy : styles.sell]}>
+              {isTp ? "TP" : "SL"}
+            </Text>
+            <Text style={styles.detail}>
+              {describeOrder(o, baseSymbol, quoteSymbol)}
+            </Text>
+            <Pressable
+              onPress={() => onCancel(o.conditional_order_id)}
+              disabled={cancelling}
+              style={({ pressed }) => [
+                styles.cancelButton,
+                {
+                  borderColor: colors.tabIconDefault,
+                  opacity: cancelling ? 0.6 : pressed ? 0.8 : 1,
+                },
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel={`Cancel ${isTp ? "take profit" : "stop loss"}`}
+            >
+              {cancelling ? (
+                <ActivityIndicator size="small" color={colors.text} />
+              ) : (
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              )}
+            </Pressable>
+          </View>
+        );
+      })}
+      {!loading && orders.length === 0 && !error && (
+        <Text style={styles.muted}>No take profit or stop loss set.</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  kind: { width: 32, fontWeight: "700" },
+  detail: { flex: 1, fontSize: 13, marginRight: 8 },
+  cancelButton: {
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    minWidth: 64,
+    alignItems: "center",
+  },
+  cancelButtonText: { fontSize: 13, fontWeight: "600" },
+  buy: { color: "#22c55e" },
+  sell: { color: "#ef4444" },
+  muted: { fontSize: 12, opacity: 0.7 },
+  errorText: { color: "#ef4444", fontSize: 13, marginBottom: 8 },
+});
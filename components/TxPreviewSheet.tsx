@@ -0,0 +1,286 @@
+/**
+ * Pre-sign confirm sheet: dry-runs the prepared transaction via POST /api/simulate and shows
+ * gas, balance changes, created / deleted objects and the abort reason if it would fail.
+ * useTxPreviewSheet returns confirmTx (pass as confirmBeforeSign to *-via-backend helpers)
+ * and the sheet element to render once in the screen.
+ */
+import { Text } from "@/components/Themed";
+import { useCallback, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
+
+import { useColorScheme } from "@/components/useColorScheme";
+import Colors from "@/constants/Colors";
+import {
+  simulateTxViaBackend,
+  type TxPreview,
+} from "@/lib/simulate-via-backend";
+
+/** Decimals for coins commonly touched by app flows; others are shown in raw units. */
+const KNOWN_DECIMALS: Record<string, number> = {
+  SUI: 9,
+  USDC: 6,
+  USDT: 6,
+  DEEP: 6,
+  WAL: 9,
+};
+
+function coinSymbol(coinType: string): string {
+  const parts = coinType.split("::");
+  return parts[parts.length - 1] ?? coinType;
+}
+
+function formatAmount(raw: string, coinType: string): string {
+  const symbol = coinSymbol(coinType);
+  const decimals = KNOWN_DECIMALS[symbol];
+  if (decimals == null) return `${raw} ${symbol} (raw)`;
+  const value = Number(raw) / 10 ** decimals;
+  const sign = value > 0 ? "+" : "";
+  return `${sign}${value.toLocaleString(undefined, { maximumFractionDigits: decimals })} ${symbol}`;
+}
+
+function shortId(id: string): string {
+  return id.length > 14 ? `${id.slice(0, 8)}…${id.slice(-4)}` : id;
+}
+
+function shortType(objectType: string | null): string {
+  if (!objectType) return "object";
+  const generic = objectType.indexOf("<");
+  const head = generic >= 0 ? objectType.slice(0, generic) : objectType;
+  const parts = head.split("::");
+  return parts.slice(-2).join("::");
+}
+
+type PendingConfirm = {
+  txBytesBase64: string;
+  resolve: (ok: boolean) => void;
+};
+
+export function useTxPreviewSheet(
+  apiUrl: string,
+  network: "mainnet" | "testnet" = "mainnet"
+) {
+  const colors = Colors[useColorScheme() ?? "light"];
+  const [pending, setPending] = useState<PendingConfirm | null>(null);
+  const [preview, setPreview] = useState<TxPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const pendingRef = useRef<PendingConfirm | null>(null);
+
+  const close = useCallback((ok: boolean) => {
+    pendingRef.current?.resolve(ok);
+    pendingRef.current = null;
+    setPending(null);
+    setPreview(null);
+    setError(null);
+  }, []);
+
+  const confirmTx = useCallback(
+    (txBytesBase64: string) =>
+      new Promise<boolean>((resolve) => {
+        pendingRef.current?.resolve(false);
+        const next = { txBytesBase64, resolve };
+        pendingRef.current = next;
+        setPending(next);
+        setPreview(null);
+        setError(null);
+        setLoading(true);
+        simulateTxViaBackend({ apiUrl, txBytesBase64, network })
+          .then((p) => {
+            if (pendingRef.current === next) setPreview(p);
+          })
+          .catch((err) => {
+            if (pendingRef.current === next) {
+              setError(err instanceof Error ? err.message : "Simulation failed");
+            }
+          })
+          .finally(() => {
+            if (pendingRef.current === next) setLoading(false);
+          });
+      }),
+    [apiUrl, network]
+  );
+
+  const willFail = preview?.status === "failure";
+
+  const sheet = (
+    <Modal
+      visible={pending != null}
+      transparent
+      animationType="slide"
+      onRequestClose={() => close(false)}
+    >
+      <Pressable style={styles.overlay} onPress={() => close(false)}>
+        <Pressable
+          style={[styles.content, { backgroundColor: colors.background }]}
+          onPress={(e) => e.stopPropagation()}
+        >
+          <Text style={styles.title}>Review transaction</Text>
+          {loading && (
+            <View style={styles.loadingRow}>
+              <ActivityIndicator size="small" color={colors.tint} />
+              <Text style={[styles.muted, { marginLeft: 8 }]}>Simulating…</Text>
+            </View>
+          )}
+          {error && (
+            <Text style={styles.errorText}>
+              Could not simulate: {error}. You can still sign, but the outcome is not previewed.
+            </Text>
+          )}
+          {preview && (
+            <ScrollView style={styles.body}>
+              {willFail && (
+                <View style={styles.failBox}>
+                  <Text style={styles.failTitle}>This transaction would fail</Text>
+                  <Text style={styles.failText}>
+                    {preview.abort?.reason ?? preview.error ?? "Execution failed"}
+                  </Text>
+                  {preview.abort && (
+                    <Text style={[styles.muted, { marginTop: 4 }]}>
+                      Error code: {preview.abort.errorCode}
+                    </Text>
+                  )}
+                </View>
+              )}
+              <Text style={styles.sectionLabel}>Network fee</Text>
+              <Text style={styles.value}>
+                {preview.gas.totalSui.toLocaleString(undefined, { maximumFractionDigits: 6 })} SUI
+              </Text>
+
+              <Text style={styles.sectionLabel}>Balance changes</Text>
+              {preview.balanceChanges.length === 0 ? (
+                <Text style={styles.muted}>None</Text>
+              ) : (
+                preview.balanceChanges.map((b, i) => (
+                  <View key={`${b.owner}-${b.coinType}-${i}`} style={styles.row}>
+                    <Text
+                      style={[
+                        styles.value,
+                        Number(b.amount) < 0 ? styles.negative : styles.positive,
+                      ]}
+                    >
+                      {formatAmount(b.amount, b.coinType)}
+                    </Text>
+                    <Text style={styles.muted}>{shortId(b.owner)}</Text>
+                  </View>
+                ))
+              )}
+
+              {preview.created.length > 0 && (
+                <>
+                  <Text style={styles.sectionLabel}>Created</Text>
+                  {preview.created.map((o) => (
+                    <Text key={o.objectId} style={styles.muted}>
+                      {shortType(o.objectType)} {shortId(o.objectId)}
+                    </Text>
+                  ))}
+                </>
+              )}
+              {preview.deleted.length > 0 && (
+                <>
+                  <Text style={styles.sectionLabel}>Deleted</Text>
+                  {preview.deleted.map((o) => (
+                    <Text key={o.objectId} style={styles.muted}>
+                      {shortType(o.objectType)} {shortId(o.objectId)}
+                    </Text>
+                  ))}
+                </>
+              )}
+            </ScrollView>
+          )}
+          <View style={styles.buttons}>
+            <Pressable
+              onPress={() => close(false)}
+              style={({ pressed }) => [
+                styles.button,
+                { borderColor: colors.tabIconDefault, opacity: pressed ? 0.8 : 1 },
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel="Cancel transaction"
+            >
+              <Text style={styles.buttonText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => close(true)}
+              disabled={loading || willFail}
+              style={({ pressed }) => [
+                styles.button,
+                {
+                  backgroundColor: colors.tint,
+                  borderColor: colors.tint,
+                  opacity: loading || willFail ? 0.5 : pressed ? 0.8 : 1,
+                },
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel="Confirm and sign"
+            >
+              <Text style={[styles.buttonText, { color: colors.background }]}>
+                Confirm
+              </Text>
+            </Pressable>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+
+  return { confirmTx, sheet };
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "flex-end",
+  },
+  content: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 40,
+    maxHeight: "80%",
+  },
+  title: { fontSize: 18, fontWeight: "600", marginBottom: 12 },
+  body: { marginBottom: 16 },
+  loadingRow: { flexDirection: "row", alignItems: "center", marginBottom: 16 },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    opacity: 0.8,
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  value: { fontSize: 15, fontWeight: "500" },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 2,
+  },
+  positive: { color: "#22c55e" },
+  negative: { color: "#ef4444" },
+  muted: { fontSize: 12, opacity: 0.7 },
+  errorText: { color: "#ef4444", fontSize: 13, marginBottom: 12 },
+  failBox: {
+    borderRadius: 8,
+    padding: 12,
+    backgroundColor: "rgba(239,68,68,0.12)",
+  },
+  failTitle: { color: "#ef4444", fontWeight: "600", marginBottom: 4 },
+  failText: { color: "#ef4444", fontSize: 13 },
+  buttons: { flexDirection: "row", gap: 12 },
+  button: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  buttonText: { fontSize: 16, fontWeight: "600" },
+});
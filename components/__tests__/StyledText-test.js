@@ -1,10 +1,14 @@
 import * as React from 'react';
-import renderer from 'react-test-renderer';
+import renderer, { act } from 'react-test-renderer';
 
 import { MonoText } from '../StyledText';
 
 it(`renders correctly`, () => {
-  const tree = renderer.create(<MonoText>Snapshot test!</MonoText>).toJSON();
+  let root;
+  // React 19 renders asynchronously; without act() toJSON() returns null.
+  act(() => {
+    root = renderer.create(<MonoText>Snapshot test!</MonoText>);
+  });
 
-  expect(tree).toMatchSnapshot();
+  expect(root.toJSON()).toMatchSnapshot();
 });
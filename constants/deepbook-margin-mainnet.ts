@@ -20,7 +20,7 @@ export const MARGIN_REGISTRY_ID_MAINNET =
 /**
  * Supported margin pairs on mainnet (from integration doc).
  * SUI_USDC: 5x leverage; WAL_USDC, DEEP_USDC: 3x leverage.
- * Single source of truth: both Base (Deepbook tab) and Sui (Margin tab) filter to only these pools.
+ * Fallback only: screens use the chain pool list from GET /api/pools (usePools) once it has loaded.
  */
 export const SUPPORTED_MARGIN_PAIRS_MAINNET = [
   "DEEP_USDC",
@@ -91,12 +91,31 @@ export const COIN_DECIMALS_MAINNET: Record<
   WAL: 9,
 };
 
-/** Get decimals for a full coin type string (e.g. from indexer asset_type). Returns 9 if unknown. */
+/** Lowercase, no 0x / leading zeros in the address, so "0x2::sui::SUI" and the long form match. */
+function coinTypeKey(coinType: string): string {
+  const [address = "", ...rest] = coinType.toLowerCase().trim().split("::");
+  return [address.replace(/^0x/, "").replace(/^0+/, ""), ...rest].join("::");
+}
+
+/** Decimals read from chain coin metadata (GET /api/pools); take precedence over the guesses below. */
+const chainCoinDecimals = new Map<string, number>();
+
+export function rememberCoinDecimals(coinType: string, decimals: number): void {
+  chainCoinDecimals.set(coinTypeKey(coinType), decimals);
+}
+
+/**
+ * Get decimals for a full coin type string (e.g. from indexer asset_type). Uses chain metadata once pools
+ * have loaded; otherwise guesses from the type name. Returns 9 if unknown.
+ */
 export function getDecimalsForCoinType(coinType: string): number {
+  const known = coinType ? chainCoinDecimals.get(coinTypeKey(coinType)) : undefined;
+  if (known != null) return known;
   const n = coinType?.toLowerCase().trim() ?? "";
   if (n.includes("usdc")) return 6;
   if (n.includes("::sui::")) return 9;
   if (n.includes("deep")) return 6;
   if (n.includes("wal")) return 9;
+  if (n.includes("::dbtc::")) return 8; // testnet DBTC
   return 9;
 }
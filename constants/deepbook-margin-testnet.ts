@@ -0,0 +1,59 @@
+/**
+ * DeepBook Margin testnet reference (for rehearsing strategies without mainnet funds).
+ * Package / registry ids, pools and coin types mirror testnetPackageIds, testnetPools and
+ * testnetMarginPools in @mysten/deepbook-v3. Testnet quotes in DBUSDC (DeepBook test USDC), not native USDC.
+ *
+ * Official docs: https://docs.sui.io/standards/deepbook-margin
+ */
+
+/** Testnet margin package (VERSION 1). */
+export const MARGIN_PACKAGE_ID_TESTNET =
+  "0xd6a42f4df4db73d68cbeb52be66698d2fe6a9464f45ad113ca52b0c6ebd918b6";
+
+/** Testnet margin registry. */
+export const MARGIN_REGISTRY_ID_TESTNET =
+  "0x48d7640dfae2c6e9ceeada197a7a1643984b5a24c55a0c6c023dac77e0339f75";
+
+/** Margin pairs on testnet: DeepBook pools whose base and quote both have a testnet margin pool. */
+export const SUPPORTED_MARGIN_PAIRS_TESTNET = [
+  "DBTC_DBUSDC",
+  "DEEP_DBUSDC",
+  "SUI_DBUSDC",
+] as const;
+
+export type SupportedMarginPairTestnet =
+  (typeof SUPPORTED_MARGIN_PAIRS_TESTNET)[number];
+
+/** Set of testnet margin pool keys for fast lookup. */
+export const MARGIN_POOL_KEYS_SET_TESTNET = new Set<string>(
+  SUPPORTED_MARGIN_PAIRS_TESTNET as unknown as string[]
+);
+
+/** Max leverage per testnet pool; same tiers as mainnet (SUI 5x, others 3x). */
+export const MAX_LEVERAGE_BY_POOL_TESTNET: Record<
+  SupportedMarginPairTestnet,
+  number
+> = {
+  SUI_DBUSDC: 5,
+  DEEP_DBUSDC: 3,
+  DBTC_DBUSDC: 3,
+};
+
+/** Coin types on testnet (DBUSDC stands in for USDC). */
+export const COIN_TYPES_TESTNET = {
+  SUI: "0x0000000000000000000000000000000000000000000000000000000000000002::sui::SUI",
+  USDC: "0xf7152c05930480cd740d7311b5b8b45c6f488e3a53a11c3f74a6fac36a52e0d7::DBUSDC::DBUSDC",
+  DEEP: "0x36dbef866a1d62bf7328989a10fb2f07d769f4ee587c0de4a0a256e57e0a58a8::deep::DEEP",
+  DBTC: "0x6502dae813dbe5e42643c119a6450a518481f03063febc7e20238e43b6ea9e86::dbtc::DBTC",
+} as const;
+
+/** Decimals per testnet coin. */
+export const COIN_DECIMALS_TESTNET: Record<
+  keyof typeof COIN_TYPES_TESTNET,
+  number
+> = {
+  SUI: 9,
+  USDC: 6,
+  DEEP: 6,
+  DBTC: 8,
+};
@@ -0,0 +1,57 @@
+/**
+ * Margin constants for the selected Sui network. Screens that work on both mainnet and testnet
+ * read pools, leverage and coin types from here instead of the per-network files.
+ */
+import {
+  COIN_TYPES_MAINNET,
+  MARGIN_PACKAGE_ID_MAINNET,
+  MARGIN_POOL_KEYS_SET,
+  MARGIN_REGISTRY_ID_MAINNET,
+  MAX_LEVERAGE_BY_POOL_MAINNET,
+} from "@/constants/deepbook-margin-mainnet";
+import {
+  COIN_TYPES_TESTNET,
+  MARGIN_PACKAGE_ID_TESTNET,
+  MARGIN_POOL_KEYS_SET_TESTNET,
+  MARGIN_REGISTRY_ID_TESTNET,
+  MAX_LEVERAGE_BY_POOL_TESTNET,
+} from "@/constants/deepbook-margin-testnet";
+import type { SuiNetwork } from "@/lib/network";
+
+export type MarginNetworkConstants = {
+  marginPackageId: string;
+  marginRegistryId: string;
+  /** Pool keys (e.g. SUI_USDC) with margin trading on this network. */
+  poolKeys: ReadonlySet<string>;
+  maxLeverageByPool: Readonly<Record<string, number>>;
+  coinTypes: { SUI: string; USDC: string; DEEP: string };
+};
+
+export const MARGIN_CONSTANTS: Record<SuiNetwork, MarginNetworkConstants> = {
+  mainnet: {
+    marginPackageId: MARGIN_PACKAGE_ID_MAINNET,
+    marginRegistryId: MARGIN_REGISTRY_ID_MAINNET,
+    poolKeys: MARGIN_POOL_KEYS_SET,
+    maxLeverageByPool: MAX_LEVERAGE_BY_POOL_MAINNET,
+    coinTypes: COIN_TYPES_MAINNET,
+  },
+  testnet: {
+    marginPackageId: MARGIN_PACKAGE_ID_TESTNET,
+    marginRegistryId: MARGIN_REGISTRY_ID_TESTNET,
+    poolKeys: MARGIN_POOL_KEYS_SET_TESTNET,
+    maxLeverageByPool: MAX_LEVERAGE_BY_POOL_TESTNET,
+    coinTypes: COIN_TYPES_TESTNET,
+  },
+};
+
+export function getMarginConstants(network: SuiNetwork): MarginNetworkConstants {
+  return MARGIN_CONSTANTS[network];
+}
+
+/** Max leverage for a pool key on the network. Returns 3 if unknown. */
+export function getMaxLeverageForPoolOnNetwork(
+  poolKey: string,
+  network: SuiNetwork
+): number {
+  return MARGIN_CONSTANTS[network].maxLeverageByPool[poolKey.toUpperCase()] ?? 3;
+}
@@ -7,10 +7,14 @@ import {
   fetchMarginManagerStates,
   fetchMarginManagersInfo,
   fetchOhlcv,
+  fetchOrderbook,
   fetchOrders,
   fetchTicker,
   fetchTrades,
+  aggregateOrderbookLevels,
+  applyOrderbookDelta,
   fromPythRaw,
+  orderbookFromIndexer,
   type CollateralEvent,
   type DeepBookOrder,
   type DeepBookTrade,
@@ -21,6 +25,8 @@ import {
   type MarginManagerState,
   type OhlcvCandle,
   type OhlcvInterval,
+  type Orderbook,
+  type OrderbookLevel,
   type TickerEntry,
 } from "@/lib/deepbook-indexer";
 import {
@@ -29,7 +35,54 @@ import {
   type StoredMarginManager,
 } from "@/lib/margin-manager-storage";
 import { fetchOwnedMarginManagers } from "@/lib/owned-margin-managers-api";
-import { useNetwork } from "@/lib/network";
+import { rememberCoinDecimals } from "@/constants/deepbook-margin-mainnet";
+import {
+  fetchMarginBorrowedSharesViaBackend,
+  type MarginBorrowedSharesResponse,
+} from "@/lib/fetch-margin-borrowed-shares-via-backend";
+import {
+  fetchBalanceManagerViaBackend,
+  type BalanceManagerState,
+} from "@/lib/balance-manager-via-backend";
+import {
+  fetchMarginPoolLendingViaBackend,
+  type MarginPoolLending,
+} from "@/lib/margin-pool-lending-via-backend";
+import {
+  fetchMarginPoolRatesViaBackend,
+  type MarginPoolRatesResponse,
+} from "@/lib/margin-pool-rates-via-backend";
+import {
+  fetchPoolsViaBackend,
+  type PoolMetadata,
+} from "@/lib/pools-via-backend";
+import {
+  fetchMarginRiskParamsViaBackend,
+  type MarginRiskParamsResponse,
+} from "@/lib/margin-risk-params-via-backend";
+import {
+  fetchConditionalOrdersViaBackend,
+  type ConditionalOrder,
+} from "@/lib/conditional-orders-via-backend";
+import {
+  fetchSponsorStatusViaBackend,
+  type SponsorStatus,
+} from "@/lib/gas-sponsor-via-backend";
+import {
+  previewOrderViaBackend,
+  type OrderPreview,
+  type PreviewOrderParams,
+} from "@/lib/preview-order-via-backend";
+import {
+  fetchPriceIntegrityViaBackend,
+  type PriceIntegrity,
+} from "@/lib/price-integrity-via-backend";
+import {
+  subscribeMarketStream,
+  type MarketStreamMessage,
+} from "@/lib/market-stream";
+import { fetchSuiBalance } from "@/lib/sui-balance-fetch";
+import { getSuiNetwork, useNetwork, type SuiNetwork } from "@/lib/network";
 import React, {
   createContext,
   useCallback,
@@ -46,6 +99,45 @@ const DEFAULT_API_URL =
     ? process.env.EXPO_PUBLIC_API_URL
     : "http://localhost:3001";
 
+/**
+ * Subscribe to a backend market stream topic (lib/market-stream.ts); null topic = no subscription.
+ * Returns whether the stream is live. Callers keep polling the indexer while it is not.
+ */
+function useMarketStream(
+  topic: string | null,
+  network: SuiNetwork,
+  onMessage: (message: MarketStreamMessage) => void
+): boolean {
+  const [connected, setConnected] = useState(false);
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+
+  useEffect(() => {
+    if (!topic) {
+      setConnected(false);
+      return;
+    }
+    return subscribeMarketStream({
+      apiUrl: DEFAULT_API_URL,
+      network,
+      topic,
+      onMessage: (message) => onMessageRef.current(message),
+      onStatus: setConnected,
+    });
+  }, [topic, network]);
+
+  return connected;
+}
+
+/** Ticker stream message → full map (snapshot) or changed pairs merged into the previous map. */
+function mergeTickerMessage(
+  prev: Record<string, TickerEntry>,
+  message: MarketStreamMessage
+): Record<string, TickerEntry> {
+  const data = (message.data ?? {}) as Record<string, TickerEntry>;
+  return message.type === "snapshot" ? data : { ...prev, ...data };
+}
+
 export type OwnedMarginManagerEntry = {
   margin_manager_id: string;
   deepbook_pool_id: string;
@@ -55,7 +147,7 @@ export type OwnedMarginManagerEntry = {
 export function useOwnedMarginManagers(
   suiAddress: string | null,
   apiUrl: string = DEFAULT_API_URL,
-  network: "mainnet" | "testnet" = "mainnet"
+  network: SuiNetwork = "mainnet"
 ) {
   const [managers, setManagers] = useState<OwnedMarginManagerEntry[]>([]);
   const [loading, setLoading] = useState(true);
@@ -93,7 +185,7 @@ export function useOwnedMarginManagers(
 
 const HISTORY_LIMIT = 20;
 
-export function useMarginManagersInfo() {
+export function useMarginManagersInfo(network: SuiNetwork = "mainnet") {
   const [data, setData] = useState<MarginManagerInfo[] | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -102,7 +194,7 @@ export function useMarginManagersInfo() {
     let cancelled = false;
     setLoading(true);
     setError(null);
-    fetchMarginManagersInfo()
+    fetchMarginManagersInfo(network)
       .then((list) => {
         if (!cancelled) setData(list ?? []);
       })
@@ -116,7 +208,7 @@ export function useMarginManagersInfo() {
     return () => {
       cancelled = true;
     };
-  }, []);
+  }, [network]);
 
   return { pools: data ?? [], loading, error };
 }
@@ -148,6 +240,7 @@ export function TickerProvider({
   // Run ticker on Sui (Margin tab) and when Pools tab is shown (Base mainnet).
   const tickerEnabled =
     currentNetwork.kind === "sui" || currentNetwork.capabilities.showPoolsTab;
+  const network = getSuiNetwork(currentNetwork);
 
   const refetch = useCallback(() => {
     if (!tickerEnabled) {
@@ -156,13 +249,23 @@ export function TickerProvider({
       setError(null);
       return;
     }
-    fetchTicker()
+    fetchTicker(network)
       .then(setTicker)
       .catch((e) =>
         setError(e instanceof Error ? e.message : "Failed to load prices")
       )
       .finally(() => setLoading(false));
-  }, [tickerEnabled]);
+  }, [tickerEnabled, network]);
+
+  const streamConnected = useMarketStream(
+    tickerEnabled ? "ticker" : null,
+    network,
+    (message) => {
+      setTicker((prev) => mergeTickerMessage(prev, message));
+      setLoading(false);
+      setError(null);
+    }
+  );
 
   useEffect(() => {
     if (!tickerEnabled) {
@@ -174,12 +277,16 @@ export function TickerProvider({
     setLoading(true);
     setError(null);
     refetch();
+  }, [refetch, tickerEnabled]);
+
+  useEffect(() => {
+    if (!tickerEnabled || streamConnected) return;
     if (__DEV__) {
       console.log(`[Ticker] polling prices every ${refreshIntervalMs / 1000}s`);
     }
     const id = setInterval(refetch, refreshIntervalMs);
     return () => clearInterval(id);
-  }, [refetch, refreshIntervalMs, tickerEnabled]);
+  }, [refetch, refreshIntervalMs, tickerEnabled, streamConnected]);
 
   const value = useMemo(
     () => ({ ticker, loading, error, refetch }),
@@ -216,7 +323,10 @@ function getOhlcvPollIntervalMs(interval: OhlcvInterval): number {
 }
 
 /** All pairs with last_price (DeepBookV3 /ticker). Uses shared TickerProvider when inside one (no flash of '-' on pair detail). */
-export function useTicker(_refreshIntervalMs: number = PRICE_POLL_MS) {
+export function useTicker(
+  _refreshIntervalMs: number = PRICE_POLL_MS,
+  network: SuiNetwork = "mainnet"
+) {
   const ctx = useContext(TickerContext);
   if (ctx) return ctx;
 
@@ -225,18 +335,28 @@ export function useTicker(_refreshIntervalMs: number = PRICE_POLL_MS) {
   const [error, setError] = useState<string | null>(null);
 
   const refetch = useCallback(() => {
-    fetchTicker()
+    fetchTicker(network)
       .then(setTicker)
       .catch((e) =>
         setError(e instanceof Error ? e.message : "Failed to load prices")
       )
       .finally(() => setLoading(false));
-  }, []);
+  }, [network]);
+
+  const streamConnected = useMarketStream("ticker", network, (message) => {
+    setTicker((prev) => mergeTickerMessage(prev, message));
+    setLoading(false);
+    setError(null);
+  });
 
   useEffect(() => {
     setLoading(true);
     setError(null);
     refetch();
+  }, [refetch]);
+
+  useEffect(() => {
+    if (streamConnected) return;
     if (__DEV__) {
       console.log(
         `[Ticker] polling prices every ${_refreshIntervalMs / 1000}s`
@@ -244,7 +364,7 @@ export function useTicker(_refreshIntervalMs: number = PRICE_POLL_MS) {
     }
     const id = setInterval(refetch, _refreshIntervalMs);
     return () => clearInterval(id);
-  }, [refetch, _refreshIntervalMs]);
+  }, [refetch, _refreshIntervalMs, streamConnected]);
 
   return { ticker, loading, error, refetch };
 }
@@ -252,9 +372,9 @@ export function useTicker(_refreshIntervalMs: number = PRICE_POLL_MS) {
 /** Fetch current price for a pool (no margin account needed). Polls for live updates. */
 export function usePoolPrice(
   deepbookPoolId: string | null,
-  options: { refreshIntervalMs?: number } = {}
+  options: { refreshIntervalMs?: number; network?: SuiNetwork } = {}
 ) {
-  const { refreshIntervalMs = PRICE_POLL_MS } = options;
+  const { refreshIntervalMs = PRICE_POLL_MS, network = "mainnet" } = options;
   const [price, setPrice] = useState<string | null>(null);
   const [symbols, setSymbols] = useState<{
     base: string;
@@ -266,7 +386,7 @@ export function usePoolPrice(
   const refetch = useCallback(() => {
     if (!deepbookPoolId) return;
     setLoading(true);
-    fetchMarginManagerStates({ deepbook_pool_id: deepbookPoolId })
+    fetchMarginManagerStates({ deepbook_pool_id: deepbookPoolId }, network)
       .then((list) => {
         const first = list?.[0] ?? null;
         if (first) {
@@ -284,7 +404,7 @@ export function usePoolPrice(
         setError(e instanceof Error ? e.message : "Failed to load price")
       )
       .finally(() => setLoading(false));
-  }, [deepbookPoolId]);
+  }, [deepbookPoolId, network]);
 
   useEffect(() => {
     if (!deepbookPoolId) {
@@ -304,6 +424,115 @@ export function usePoolPrice(
   return { price, symbols, loading, error, refetch };
 }
 
+const ORDERBOOK_POLL_MS = 3000;
+/** Raw levels fetched per displayed level when aggregating, so buckets are filled past the top of book. */
+const ORDERBOOK_AGGREGATION_FETCH_FACTOR = 10;
+const ORDERBOOK_MAX_FETCH_DEPTH = 200;
+
+/**
+ * Live order book for a DeepBookV3 pool (GET /orderbook), polled. `aggregation` is the price step
+ * to group levels by (0 = raw levels); `depth` is the number of levels shown per side after grouping.
+ */
+export function useOrderbook(
+  poolName: string | null,
+  params: {
+    depth?: number;
+    aggregation?: number;
+    refreshIntervalMs?: number;
+    network?: SuiNetwork;
+  } = {}
+) {
+  const {
+    depth = 12,
+    aggregation = 0,
+    refreshIntervalMs = ORDERBOOK_POLL_MS,
+    network = "mainnet",
+  } = params;
+  const [book, setBook] = useState<Orderbook | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+
+  const fetchDepth =
+    aggregation > 0
+      ? Math.min(depth * ORDERBOOK_AGGREGATION_FETCH_FACTOR, ORDERBOOK_MAX_FETCH_DEPTH)
+      : depth;
+
+  // Stream snapshots / deltas replace polling; bumping the request id drops in-flight REST responses.
+  const streamConnected = useMarketStream(
+    poolName ? `orderbook:${poolName}:${fetchDepth}` : null,
+    network,
+    (message) => {
+      requestIdRef.current += 1;
+      setBook((prev) =>
+        message.type === "snapshot" || !prev
+          ? orderbookFromIndexer(message.data)
+          : applyOrderbookDelta(prev, message.data)
+      );
+      setLoading(false);
+      setError(null);
+    }
+  );
+
+  const refetch = useCallback(() => {
+    if (!poolName) return;
+    const id = ++requestIdRef.current;
+    fetchOrderbook(poolName, { depth: fetchDepth }, network)
+      .then((res) => {
+        if (id !== requestIdRef.current) return;
+        setBook(res);
+        setError(null);
+      })
+      .catch((e) => {
+        if (id !== requestIdRef.current) return;
+        setError(e instanceof Error ? e.message : "Failed to load order book");
+      })
+      .finally(() => {
+        if (id !== requestIdRef.current) return;
+        setLoading(false);
+      });
+  }, [poolName, fetchDepth, network]);
+
+  useEffect(() => {
+    if (!poolName) {
+      setBook(null);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+    setBook(null);
+    setLoading(true);
+    setError(null);
+  }, [poolName, fetchDepth, network]);
+
+  useEffect(() => {
+    if (!poolName || streamConnected) return;
+    refetch();
+    const id = setInterval(refetch, refreshIntervalMs);
+    return () => clearInterval(id);
+  }, [poolName, refetch, refreshIntervalMs, streamConnected]);
+
+  const { bids, asks } = useMemo((): {
+    bids: OrderbookLevel[];
+    asks: OrderbookLevel[];
+  } => {
+    if (!book) return { bids: [], asks: [] };
+    return {
+      bids: aggregateOrderbookLevels(book.bids, aggregation, "bid").slice(0, depth),
+      asks: aggregateOrderbookLevels(book.asks, aggregation, "ask").slice(0, depth),
+    };
+  }, [book, aggregation, depth]);
+
+  return {
+    bids,
+    asks,
+    timestamp: book?.timestamp ?? null,
+    loading,
+    error,
+    refetch,
+  };
+}
+
 /** Normalize ts to seconds; API can return ms (>= 1e12) or seconds. */
 function tsToSeconds(ts: number): number {
   return ts >= 1e12 ? ts / 1000 : ts;
@@ -359,6 +588,7 @@ export function useOhlcv(
     /** How many to fetch on initial load and poll. Default 200 so we have buffer for swipes. */
     fetchLimit?: number;
     refreshIntervalMs?: number;
+    network?: SuiNetwork;
   } = {}
 ) {
   const {
@@ -366,6 +596,7 @@ export function useOhlcv(
     displayLimit = 100,
     fetchLimit = 200,
     refreshIntervalMs: refreshIntervalMsParam,
+    network = "mainnet",
   } = params;
   const refreshIntervalMs =
     refreshIntervalMsParam ?? getOhlcvPollIntervalMs(interval);
@@ -394,7 +625,7 @@ export function useOhlcv(
       if (!poolName) return;
       const id = ++requestIdRef.current;
       if (isInitial) setLoading(true);
-      fetchOhlcv(poolName, { interval, limit: fetchLimit })
+      fetchOhlcv(poolName, { interval, limit: fetchLimit }, network)
         .then((res) => {
           if (id !== requestIdRef.current) return;
           if (loadingOlderRef.current) return;
@@ -426,7 +657,32 @@ export function useOhlcv(
           setLoading(false);
         });
     },
-    [poolName, interval, fetchLimit, displayLimit]
+    [poolName, interval, fetchLimit, displayLimit, network]
+  );
+
+  /** Merge streamed latest candles; keeps the window pinned to the newest candle when it was there. */
+  const streamConnected = useMarketStream(
+    poolName ? `candles:${poolName}:${interval}` : null,
+    network,
+    (message) => {
+      const latest = Array.isArray(message.data)
+        ? (message.data as OhlcvCandle[])
+        : [];
+      const current = candlesRef.current;
+      if (loadingOlderRef.current || current.length === 0 || latest.length === 0)
+        return;
+      const byTs = new Map<number, OhlcvCandle>();
+      [...current, ...latest].forEach((c) => byTs.set(c[0], c));
+      const merged = Array.from(byTs.values()).sort((a, b) => a[0] - b[0]);
+      const added = merged.length - current.length;
+      candlesRef.current = merged;
+      setCandles(merged);
+      if (added > 0) {
+        setWindowStart((prev) =>
+          prev >= current.length - displayLimit ? prev + added : prev
+        );
+      }
+    }
   );
 
   const panToLatest = useCallback(() => {
@@ -443,11 +699,15 @@ export function useOhlcv(
     const sorted = [...current].sort((a, b) => a[0] - b[0]);
     const oldestTs = sorted[0][0];
     const endTime = candleTsForEndTime(oldestTs);
-    fetchOhlcv(poolName, {
-      interval,
-      limit: OHLCV_LOAD_OLDER_CHUNK,
-      end_time: endTime,
-    })
+    fetchOhlcv(
+      poolName,
+      {
+        interval,
+        limit: OHLCV_LOAD_OLDER_CHUNK,
+        end_time: endTime,
+      },
+      network
+    )
       .then((res) => {
         const older = res.candles ?? [];
         if (older.length === 0) {
@@ -465,7 +725,7 @@ export function useOhlcv(
         loadingOlderRef.current = false;
         setLoadingOlder(false);
       });
-  }, [poolName, interval]);
+  }, [poolName, interval, network]);
 
   useEffect(() => {
     if (!poolName) {
@@ -480,6 +740,10 @@ export function useOhlcv(
     setCandles([]);
     setWindowStart(0);
     refetch(true);
+  }, [poolName, refetch, interval]);
+
+  useEffect(() => {
+    if (!poolName || streamConnected) return;
     if (__DEV__) {
       console.log(
         `[OHLCV] polling ${poolName} (${interval}) every ${
@@ -489,7 +753,7 @@ export function useOhlcv(
     }
     const id = setInterval(() => refetch(false), refreshIntervalMs);
     return () => clearInterval(id);
-  }, [poolName, refetch, refreshIntervalMs, interval]);
+  }, [poolName, refetch, refreshIntervalMs, interval, streamConnected]);
 
   const setWindowStartClamped = useCallback(
     (absoluteIndex: number) => {
@@ -558,7 +822,8 @@ export function useStoredMarginManager(suiAddress: string | null) {
 
 export function useMarginManagerState(
   marginManagerId: string | null,
-  deepbookPoolId: string | null
+  deepbookPoolId: string | null,
+  network: SuiNetwork = "mainnet"
 ) {
   const [state, setState] = useState<MarginManagerState | null>(null);
   const [loading, setLoading] = useState(true);
@@ -574,9 +839,10 @@ export function useMarginManagerState(
     setLoading(true);
     setError(null);
     try {
-      const list = await fetchMarginManagerStates({
-        deepbook_pool_id: deepbookPoolId,
-      });
+      const list = await fetchMarginManagerStates(
+        { deepbook_pool_id: deepbookPoolId },
+        network
+      );
       const mine =
         list.find((s) => s.margin_manager_id === marginManagerId) ?? null;
       setState(mine);
@@ -590,7 +856,7 @@ export function useMarginManagerState(
     } finally {
       setLoading(false);
     }
-  }, [marginManagerId, deepbookPoolId]);
+  }, [marginManagerId, deepbookPoolId, network]);
 
   useEffect(() => {
     fetchState();
@@ -602,7 +868,8 @@ export function useMarginManagerState(
 export function useMarginHistory(
   marginManagerId: string | null,
   baseMarginPoolId: string | null,
-  quoteMarginPoolId: string | null
+  quoteMarginPoolId: string | null,
+  network: SuiNetwork = "mainnet"
 ) {
   const [collateral, setCollateral] = useState<CollateralEvent[]>([]);
   const [borrowed, setBorrowed] = useState<LoanBorrowedEvent[]>([]);
@@ -627,40 +894,61 @@ export function useMarginHistory(
     try {
       const [col, bBase, bQuote, rBase, rQuote, liqBase, liqQuote] =
         await Promise.all([
-          fetchAllCollateralEvents({
-            margin_manager_id: marginManagerId,
-            limit,
-          }),
-          fetchLoanBorrowed({
-            margin_manager_id: marginManagerId,
-            margin_pool_id: baseMarginPoolId,
-            limit,
-          }),
-          fetchLoanBorrowed({
-            margin_manager_id: marginManagerId,
-            margin_pool_id: quoteMarginPoolId,
-            limit,
-          }),
-          fetchLoanRepaid({
-            margin_manager_id: marginManagerId,
-            margin_pool_id: baseMarginPoolId,
-            limit,
-          }),
-          fetchLoanRepaid({
-            margin_manager_id: marginManagerId,
-            margin_pool_id: quoteMarginPoolId,
-            limit,
-          }),
-          fetchLiquidation({
-            margin_manager_id: marginManagerId,
-            margin_pool_id: baseMarginPoolId,
-            limit,
-          }),
-          fetchLiquidation({
-            margin_manager_id: marginManagerId,
-            margin_pool_id: quoteMarginPoolId,
-            limit,
-          }),
+          fetchAllCollateralEvents(
+            {
+              margin_manager_id: marginManagerId,
+              limit,
+            },
+            network
+          ),
+          fetchLoanBorrowed(
+            {
+              margin_manager_id: marginManagerId,
+              margin_pool_id: baseMarginPoolId,
+              limit,
+            },
+            network
+          ),
+          fetchLoanBorrowed(
+            {
+              margin_manager_id: marginManagerId,
+              margin_pool_id: quoteMarginPoolId,
+              limit,
+            },
+            network
+          ),
+          fetchLoanRepaid(
+            {
+              margin_manager_id: marginManagerId,
+              margin_pool_id: baseMarginPoolId,
+              limit,
+            },
+            network
+          ),
+          fetchLoanRepaid(
+            {
+              margin_manager_id: marginManagerId,
+              margin_pool_id: quoteMarginPoolId,
+              limit,
+            },
+            network
+          ),
+          fetchLiquidation(
+            {
+              margin_manager_id: marginManagerId,
+              margin_pool_id: baseMarginPoolId,
+              limit,
+            },
+            network
+          ),
+          fetchLiquidation(
+            {
+              margin_manager_id: marginManagerId,
+              margin_pool_id: quoteMarginPoolId,
+              limit,
+            },
+            network
+          ),
         ]);
       setCollateral(col ?? []);
       const allBorrowed = [...(bBase ?? []), ...(bQuote ?? [])].sort(
@@ -692,7 +980,7 @@ export function useMarginHistory(
     } finally {
       setLoading(false);
     }
-  }, [marginManagerId, baseMarginPoolId, quoteMarginPoolId]);
+  }, [marginManagerId, baseMarginPoolId, quoteMarginPoolId, network]);
 
   useEffect(() => {
     fetchHistory();
@@ -718,7 +1006,8 @@ const OPEN_ORDERS_LIMIT = 50;
  */
 export function useOpenOrders(
   marginManagerId: string | null,
-  poolName: string | null
+  poolName: string | null,
+  network: SuiNetwork = "mainnet"
 ) {
   const [orders, setOrders] = useState<DeepBookOrder[]>([]);
   const [loading, setLoading] = useState(true);
@@ -745,10 +1034,10 @@ export function useOpenOrders(
     setLoading(true);
     setError(null);
     try {
-      const created = await fetchMarginManagerCreated({
-        margin_manager_id: marginManagerId,
-        limit: 10,
-      });
+      const created = await fetchMarginManagerCreated(
+        { margin_manager_id: marginManagerId, limit: 10 },
+        network
+      );
       // Prefer balance_manager_id from creation event; fallback to margin manager id (same object in margin flow).
       let balanceManagerId =
         created.length > 0 ? created[0].balance_manager_id : null;
@@ -760,12 +1049,15 @@ export function useOpenOrders(
           );
         }
       }
-      const list = await fetchOrders({
-        pool_name: poolName,
-        balance_manager_id: balanceManagerId,
-        limit: OPEN_ORDERS_LIMIT,
-        status: "Placed",
-      });
+      const list = await fetchOrders(
+        {
+          pool_name: poolName,
+          balance_manager_id: balanceManagerId,
+          limit: OPEN_ORDERS_LIMIT,
+          status: "Placed",
+        },
+        network
+      );
       setOrders(list ?? []);
       if (__DEV__) {
         console.log("[OpenOrders] Fetched", list?.length ?? 0, "open orders", {
@@ -782,7 +1074,61 @@ export function useOpenOrders(
     } finally {
       setLoading(false);
     }
-  }, [marginManagerId, poolName]);
+  }, [marginManagerId, poolName, network]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { orders, loading, error, refresh };
+}
+
+/**
+ * Live TP/SL conditional orders for a margin manager, read from chain via backend
+ * (the indexer has no conditional order endpoint).
+ */
+export function useConditionalOrders(
+  marginManagerId: string | null,
+  poolName: string | null,
+  apiUrl: string = DEFAULT_API_URL,
+  network: SuiNetwork = "mainnet"
+) {
+  const [orders, setOrders] = useState<ConditionalOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!marginManagerId || !poolName || poolName.trim() === "") {
+      setOrders([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const { orders: list } = await fetchConditionalOrdersViaBackend({
+        apiUrl,
+        marginManagerId,
+        poolKey: poolName,
+        network,
+      });
+      setOrders(list ?? []);
+      if (__DEV__) {
+        console.log("[ConditionalOrders] Fetched", list?.length ?? 0, "TP/SL orders", {
+          poolName,
+        });
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load TP/SL orders");
+      setOrders([]);
+      if (__DEV__) {
+        console.warn("[ConditionalOrders] Error", e);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [marginManagerId, poolName, apiUrl, network]);
 
   useEffect(() => {
     refresh();
@@ -791,6 +1137,447 @@ export function useOpenOrders(
   return { orders, loading, error, refresh };
 }
 
+/**
+ * Margin pool lending: per-pool utilization, borrow / supply APR and the owner's supplied amount and
+ * earned interest (from chain via backend). Without an owner only pool figures are returned.
+ */
+export function useMarginPoolLending(
+  owner: string | null,
+  apiUrl: string = DEFAULT_API_URL,
+  network: SuiNetwork = "mainnet"
+) {
+  const [data, setData] = useState<MarginPoolLending | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setData(await fetchMarginPoolLendingViaBackend({ apiUrl, owner, network }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load margin pools");
+      if (__DEV__) console.warn("[MarginPoolLending] Error", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [owner, apiUrl, network]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    pools: data?.pools ?? [],
+    supplierCapId: data?.supplierCapId ?? null,
+    loading,
+    error,
+    refresh,
+  };
+}
+
+/**
+ * Spot account (DeepBook balance manager) of the owner for a pool: balances and open orders from chain.
+ * The manager is looked up in the DeepBook registry once per owner; balanceManagerId stays null until
+ * the user creates one.
+ */
+export function useBalanceManager(
+  owner: string | null,
+  poolKey: string | null,
+  apiUrl: string = DEFAULT_API_URL,
+  network: SuiNetwork = "mainnet"
+) {
+  const [data, setData] = useState<BalanceManagerState | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const knownIdRef = useRef<{ owner: string; id: string } | null>(null);
+
+  const refresh = useCallback(
+    async (balanceManagerId?: string) => {
+      if (!owner || !poolKey) {
+        setData(null);
+        return;
+      }
+      if (balanceManagerId) knownIdRef.current = { owner, id: balanceManagerId };
+      const known =
+        knownIdRef.current?.owner === owner ? knownIdRef.current.id : null;
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await fetchBalanceManagerViaBackend({
+          apiUrl,
+          poolKey,
+          balanceManagerId: known,
+          owner,
+          network,
+        });
+        if (result.balanceManagerId) {
+          knownIdRef.current = { owner, id: result.balanceManagerId };
+        }
+        setData(result);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Failed to load spot account");
+        if (__DEV__) console.warn("[BalanceManager] Error", e);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [owner, poolKey, apiUrl, network]
+  );
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    balanceManagerId: data?.balanceManagerId ?? null,
+    balances: data?.balances ?? null,
+    openOrders: data?.openOrders ?? [],
+    loading,
+    error,
+    /** Pass a just-created manager id so the next read does not depend on the registry lookup. */
+    refresh,
+  };
+}
+
+/**
+ * Exact debt of a margin manager from chain via backend: per side, borrowed shares × the margin pool's
+ * borrow index, with accrued interest and current borrow APR. Null sides have no margin pool.
+ */
+export function useMarginDebts(
+  marginManagerId: string | null,
+  poolName: string | null,
+  apiUrl: string = DEFAULT_API_URL,
+  network: SuiNetwork = "mainnet"
+) {
+  const [debts, setDebts] = useState<MarginBorrowedSharesResponse["debts"]>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!marginManagerId || !poolName) {
+      setDebts(null);
+      setError(null);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const chain = await fetchMarginBorrowedSharesViaBackend({
+        apiUrl,
+        marginManagerId,
+        poolKey: poolName,
+        network,
+      });
+      setDebts(chain.debts ?? null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load debt");
+      if (__DEV__) console.warn("[MarginDebts] Error", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [marginManagerId, poolName, apiUrl, network]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { debts, loading, error, refresh };
+}
+
+/** Below this wallet SUI balance (MIST) margin actions ask the backend to sponsor gas. */
+const SPONSOR_GAS_BELOW_MIST = 10_000_000n;
+
+/**
+ * Whether margin transactions should be gas-sponsored: the backend has a sponsor with budget left
+ * for this address and the wallet holds (almost) no SUI, e.g. right after bridging USDC from Base.
+ */
+export function useGasSponsorship(
+  suiAddress: string | null,
+  apiUrl: string = DEFAULT_API_URL,
+  network: SuiNetwork = "mainnet"
+) {
+  const [status, setStatus] = useState<SponsorStatus | null>(null);
+  const [sponsored, setSponsored] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!suiAddress) {
+      setStatus(null);
+      setSponsored(false);
+      return;
+    }
+    try {
+      const [sponsorStatus, { totalBalance }] = await Promise.all([
+        fetchSponsorStatusViaBackend({ apiUrl, address: suiAddress }),
+        fetchSuiBalance(suiAddress, undefined, network),
+      ]);
+      setStatus(sponsorStatus);
+      setSponsored(
+        sponsorStatus.enabled &&
+          BigInt(sponsorStatus.remainingMist) > 0n &&
+          BigInt(totalBalance) < SPONSOR_GAS_BELOW_MIST
+      );
+    } catch (e) {
+      if (__DEV__) console.warn("[GasSponsorship] Error", e);
+      setSponsored(false);
+    }
+  }, [suiAddress, apiUrl, network]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { sponsored, status, refresh };
+}
+
+/**
+ * Pool risk parameters (liquidation / min-withdraw / min-borrow ratios) from chain via backend,
+ * for lib/margin-math.ts. Null until loaded or when the pool has none.
+ */
+export function useMarginRiskParams(
+  poolName: string | null,
+  apiUrl: string = DEFAULT_API_URL,
+  network: SuiNetwork = "mainnet"
+) {
+  const [params, setParams] = useState<MarginRiskParamsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!poolName || poolName.trim() === "") {
+      setParams(null);
+      setError(null);
+      return;
+    }
+    let cancelled = false;
+    fetchMarginRiskParamsViaBackend({ apiUrl, poolKey: poolName, network })
+      .then((result) => {
+        if (cancelled) return;
+        setParams(result);
+        setError(null);
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        setParams(null);
+        setError(e instanceof Error ? e.message : "Failed to load risk params");
+        if (__DEV__) console.warn("[MarginRiskParams] Error", e);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [poolName, apiUrl, network]);
+
+  return { params, error };
+}
+
+/** Pool metadata changes only when pools are added or governance updates them. */
+const POOLS_TTL_MS = 10 * 60_000;
+/** Shared across screens so the pool list and trading screen read chain metadata once. */
+const poolsCache = new Map<string, { pools: PoolMetadata[]; expiresAt: number }>();
+
+/**
+ * Margin-enabled pools from chain via backend (GET /api/pools): tick / lot / min size, coin decimals and
+ * max leverage. Coin decimals are also fed to getDecimalsForCoinType. Empty until loaded; callers fall
+ * back to constants/deepbook-margin-*.ts.
+ */
+export function usePools(apiUrl: string = DEFAULT_API_URL, network: SuiNetwork = "mainnet") {
+  const cacheKey = `${apiUrl}|${network}`;
+  const [pools, setPools] = useState<PoolMetadata[]>(
+    () => poolsCache.get(cacheKey)?.pools ?? []
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(
+    async (force = false) => {
+      const cached = poolsCache.get(cacheKey);
+      if (!force && cached && cached.expiresAt > Date.now()) {
+        setPools(cached.pools);
+        return;
+      }
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await fetchPoolsViaBackend({ apiUrl, network });
+        for (const p of result.pools) {
+          rememberCoinDecimals(p.base.type, p.base.decimals);
+          rememberCoinDecimals(p.quote.type, p.quote.decimals);
+        }
+        poolsCache.set(cacheKey, { pools: result.pools, expiresAt: Date.now() + POOLS_TTL_MS });
+        setPools(result.pools);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Failed to load pools");
+        if (__DEV__) console.warn("[Pools] Error", e);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [cacheKey, apiUrl, network]
+  );
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const byKey = useMemo(
+    () => new Map(pools.map((p) => [p.poolKey, p] as const)),
+    [pools]
+  );
+
+  return { pools, byKey, loading, error, refresh };
+}
+
+/** Rates history window for the trading screen's rates panel. */
+const MARGIN_RATES_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Current borrow / supply APR and utilization of one margin pool, plus the last 7 days of snapshots
+ * (GET /api/margin-pools/:id/rates). Pass the coin key being borrowed (e.g. USDC for longs).
+ */
+export function useMarginPoolRates(
+  coinKey: string | null,
+  apiUrl: string = DEFAULT_API_URL,
+  network: SuiNetwork = "mainnet"
+) {
+  const [rates, setRates] = useState<MarginPoolRatesResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!coinKey) {
+      setRates(null);
+      setError(null);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    fetchMarginPoolRatesViaBackend({
+      apiUrl,
+      marginPool: coinKey,
+      from: Date.now() - MARGIN_RATES_RANGE_MS,
+      network,
+    })
+      .then((result) => {
+        if (cancelled) return;
+        setRates(result);
+        setError(null);
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        setRates(null);
+        setError(e instanceof Error ? e.message : "Failed to load rates");
+        if (__DEV__) console.warn("[MarginPoolRates] Error", e);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [coinKey, apiUrl, network]);
+
+  return { rates, loading, error };
+}
+
+const PRICE_INTEGRITY_POLL_MS = 15_000;
+
+/**
+ * Oracle vs book price check for a pool (GET /api/price-integrity), polled while mounted. The last result
+ * is kept while a refresh fails so a single RPC hiccup does not hide a deviation warning.
+ */
+export function usePriceIntegrity(
+  poolKey: string | null,
+  apiUrl: string = DEFAULT_API_URL,
+  network: SuiNetwork = "mainnet"
+) {
+  const [integrity, setIntegrity] = useState<PriceIntegrity | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIntegrity(null);
+    setError(null);
+    if (!poolKey) return;
+    let cancelled = false;
+    const refetch = () => {
+      fetchPriceIntegrityViaBackend({ apiUrl, poolKey, network })
+        .then((result) => {
+          if (cancelled) return;
+          setIntegrity(result);
+          setError(null);
+        })
+        .catch((e) => {
+          if (cancelled) return;
+          setError(e instanceof Error ? e.message : "Price check failed");
+          if (__DEV__) console.warn("[PriceIntegrity] Error", e);
+        });
+    };
+    refetch();
+    const id = setInterval(refetch, PRICE_INTEGRITY_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(id);
+    };
+  }, [poolKey, apiUrl, network]);
+
+  return { integrity, error };
+}
+
+/** Wait for the order form to settle before asking the backend for a new preview. */
+const ORDER_PREVIEW_DEBOUNCE_MS = 400;
+
+/**
+ * Live pre-trade preview (estimated fill, DEEP vs input-token fee, projected risk) for the order form.
+ * Pass null while the form is incomplete; the last preview is kept while a newer one loads.
+ */
+export function useOrderPreview(
+  params: PreviewOrderParams | null,
+  apiUrl: string = DEFAULT_API_URL,
+  network: SuiNetwork = "mainnet"
+) {
+  const [preview, setPreview] = useState<OrderPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+  // Params are usually a fresh object each render; key the effect on their content.
+  const paramsKey = params ? JSON.stringify(params) : null;
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+    if (!paramsKey) {
+      setPreview(null);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+    setLoading(true);
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const result = await previewOrderViaBackend({
+          ...(JSON.parse(paramsKey) as PreviewOrderParams),
+          apiUrl,
+          network,
+          signal: controller.signal,
+        });
+        if (requestId !== requestIdRef.current) return;
+        setPreview(result);
+        setError(null);
+      } catch (e) {
+        if (requestId !== requestIdRef.current) return;
+        setError(e instanceof Error ? e.message : "Order preview failed");
+        if (__DEV__) console.warn("[OrderPreview] Error", e);
+      } finally {
+        if (requestId === requestIdRef.current) setLoading(false);
+      }
+    }, ORDER_PREVIEW_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [paramsKey, apiUrl, network]);
+
+  return { preview, loading, error };
+}
+
 const ORDER_HISTORY_LIMIT = 20;
 
 /**
@@ -799,7 +1586,8 @@ const ORDER_HISTORY_LIMIT = 20;
  */
 export function useOrderHistory(
   marginManagerId: string | null,
-  poolName: string | null
+  poolName: string | null,
+  network: SuiNetwork = "mainnet"
 ) {
   const [orders, setOrders] = useState<DeepBookOrder[]>([]);
   const [loading, setLoading] = useState(true);
@@ -818,19 +1606,22 @@ export function useOrderHistory(
     setLoading(true);
     setError(null);
     try {
-      const created = await fetchMarginManagerCreated({
-        margin_manager_id: marginManagerId,
-        limit: 10,
-      });
+      const created = await fetchMarginManagerCreated(
+        { margin_manager_id: marginManagerId, limit: 10 },
+        network
+      );
       let balanceManagerId =
         created.length > 0 ? created[0].balance_manager_id : null;
       if (!balanceManagerId) balanceManagerId = marginManagerId;
-      const list = await fetchOrders({
-        pool_name: poolName,
-        balance_manager_id: balanceManagerId,
-        limit: ORDER_HISTORY_LIMIT,
-        status: "Filled,Canceled",
-      });
+      const list = await fetchOrders(
+        {
+          pool_name: poolName,
+          balance_manager_id: balanceManagerId,
+          limit: ORDER_HISTORY_LIMIT,
+          status: "Filled,Canceled",
+        },
+        network
+      );
       setOrders(list ?? []);
       if (__DEV__)
         console.log("[OrderHistory] Fetched", list?.length ?? 0, "orders");
@@ -840,7 +1631,7 @@ export function useOrderHistory(
     } finally {
       setLoading(false);
     }
-  }, [marginManagerId, poolName]);
+  }, [marginManagerId, poolName, network]);
 
   useEffect(() => {
     refresh();
@@ -862,11 +1653,13 @@ export type TradeWithOurSide = DeepBookTrade & { our_side: "buy" | "sell" };
  */
 export function useTrades(
   marginManagerId: string | null,
-  poolName: string | null
+  poolName: string | null,
+  network: SuiNetwork = "mainnet"
 ) {
   const [trades, setTrades] = useState<TradeWithOurSide[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const balanceManagerIdRef = useRef<string | null>(null);
 
   const refresh = useCallback(async () => {
     if (!marginManagerId || !poolName || poolName.trim() === "") {
@@ -888,12 +1681,13 @@ export function useTrades(
     setLoading(true);
     setError(null);
     try {
-      const created = await fetchMarginManagerCreated({
-        margin_manager_id: marginManagerId,
-        limit: 10,
-      });
+      const created = await fetchMarginManagerCreated(
+        { margin_manager_id: marginManagerId, limit: 10 },
+        network
+      );
       const balanceManagerId =
         created.length > 0 ? created[0].balance_manager_id : null;
+      balanceManagerIdRef.current = balanceManagerId;
       if (!balanceManagerId) {
         console.log(
           "[Trade history] No balance_manager_id (need it for /trades). margin_manager_created response:",
@@ -910,18 +1704,24 @@ export function useTrades(
         );
       const oneMonthAgoSeconds = Math.floor(Date.now() / 1000) - 30 * 24 * 60 * 60;
       const [asMaker, asTaker] = await Promise.all([
-        fetchTrades({
-          pool_name: poolName,
-          limit: TRADES_LIMIT,
-          start_time: oneMonthAgoSeconds,
-          maker_balance_manager_id: balanceManagerId,
-        }),
-        fetchTrades({
-          pool_name: poolName,
-          limit: TRADES_LIMIT,
-          start_time: oneMonthAgoSeconds,
-          taker_balance_manager_id: balanceManagerId,
-        }),
+        fetchTrades(
+          {
+            pool_name: poolName,
+            limit: TRADES_LIMIT,
+            start_time: oneMonthAgoSeconds,
+            maker_balance_manager_id: balanceManagerId,
+          },
+          network
+        ),
+        fetchTrades(
+          {
+            pool_name: poolName,
+            limit: TRADES_LIMIT,
+            start_time: oneMonthAgoSeconds,
+            taker_balance_manager_id: balanceManagerId,
+          },
+          network
+        ),
       ]);
       const byId = new Map<string, TradeWithOurSide>();
       for (const t of [...asMaker, ...asTaker]) {
@@ -944,12 +1744,29 @@ export function useTrades(
     } finally {
       setLoading(false);
     }
-  }, [marginManagerId, poolName]);
+  }, [marginManagerId, poolName, network]);
 
   useEffect(() => {
     refresh();
   }, [refresh]);
 
+  // Pool trades stream: refresh when a new fill involves our balance manager.
+  useMarketStream(
+    marginManagerId && poolName ? `trades:${poolName}` : null,
+    network,
+    (message) => {
+      const ours = balanceManagerIdRef.current;
+      if (message.type !== "update" || !ours || !Array.isArray(message.data))
+        return;
+      const involved = (message.data as DeepBookTrade[]).some(
+        (t) =>
+          t.maker_balance_manager_id === ours ||
+          t.taker_balance_manager_id === ours
+      );
+      if (involved) refresh();
+    }
+  );
+
   return { trades, loading, error, refresh };
 }
 
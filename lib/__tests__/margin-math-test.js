@@ -0,0 +1,144 @@
+import {
+  distanceToLiquidation,
+  liquidationPrice,
+  marginRiskSummary,
+  maxAdditionalBorrow,
+  maxWithdrawable,
+  positionFromState,
+  riskRatio,
+} from '../margin-math';
+
+// 10 SUI at $3 against 20 USDC of debt (long SUI).
+const LONG = {
+  baseAsset: 10,
+  quoteAsset: 0,
+  baseDebt: 0,
+  quoteDebt: 20,
+  basePriceUsd: 3,
+  quotePriceUsd: 1,
+};
+
+// 60 USDC against 10 SUI of debt at $3 (short SUI).
+const SHORT = {
+  baseAsset: 0,
+  quoteAsset: 60,
+  baseDebt: 10,
+  quoteDebt: 0,
+  basePriceUsd: 3,
+  quotePriceUsd: 1,
+};
+
+const NO_DEBT = {
+  baseAsset: 2,
+  quoteAsset: 10,
+  baseDebt: 0,
+  quoteDebt: 0,
+  basePriceUsd: 3,
+  quotePriceUsd: 1,
+};
+
+describe('riskRatio', () => {
+  it('divides asset value by debt value', () => {
+    expect(riskRatio(LONG)).toBeCloseTo(1.5);
+    expect(riskRatio(SHORT)).toBeCloseTo(2);
+  });
+
+  it('is null without debt', () => {
+    expect(riskRatio(NO_DEBT)).toBeNull();
+  });
+});
+
+describe('liquidationPrice', () => {
+  it('finds the price where a long hits the liquidation ratio', () => {
+    expect(liquidationPrice(LONG, 1.1)).toBeCloseTo(2.2);
+    const atLiq = { ...LONG, basePriceUsd: 2.2 };
+    expect(riskRatio(atLiq)).toBeCloseTo(1.1);
+  });
+
+  it('finds the price where a short hits the liquidation ratio', () => {
+    expect(liquidationPrice(SHORT, 1.1)).toBeCloseTo(60 / 11);
+  });
+
+  it('is null without debt or when the ratio cannot reach the threshold', () => {
+    expect(liquidationPrice(NO_DEBT, 1.1)).toBeNull();
+    // Debt fully covered by quote: no base price liquidates it.
+    expect(
+      liquidationPrice({ ...LONG, quoteAsset: 30 }, 1.1)
+    ).toBeNull();
+  });
+});
+
+describe('distanceToLiquidation', () => {
+  it('measures a falling price for longs', () => {
+    const d = distanceToLiquidation(LONG, 1.1);
+    expect(d.direction).toBe('down');
+    expect(d.percent).toBeCloseTo(((3 - 2.2) / 3) * 100);
+  });
+
+  it('measures a rising price for shorts', () => {
+    const d = distanceToLiquidation(SHORT, 1.1);
+    expect(d.direction).toBe('up');
+    expect(d.percent).toBeCloseTo(((60 / 11 - 3) / 3) * 100);
+  });
+
+  it('is zero once past the liquidation price', () => {
+    const d = distanceToLiquidation({ ...LONG, basePriceUsd: 2 }, 1.1);
+    expect(d.percent).toBe(0);
+  });
+});
+
+describe('maxWithdrawable', () => {
+  it('keeps the risk ratio at the minimum', () => {
+    // $30 assets, $20 debt, min 1.25 → $5 of headroom.
+    expect(maxWithdrawable(LONG, 'base', 1.25)).toBeCloseTo(5 / 3);
+    expect(maxWithdrawable(LONG, 'quote', 1.25)).toBe(0);
+  });
+
+  it('is zero below the minimum ratio', () => {
+    expect(maxWithdrawable(LONG, 'base', 2)).toBe(0);
+  });
+
+  it('is the full balance without debt', () => {
+    expect(maxWithdrawable(NO_DEBT, 'base', 2)).toBe(2);
+    expect(maxWithdrawable(NO_DEBT, 'quote', 2)).toBe(10);
+  });
+});
+
+describe('maxAdditionalBorrow', () => {
+  it('borrows until the ratio reaches the minimum', () => {
+    expect(maxAdditionalBorrow(LONG, 'quote', 1.25)).toBeCloseTo(20);
+    const after = { ...LONG, quoteAsset: 20, quoteDebt: 40 };
+    expect(riskRatio(after)).toBeCloseTo(1.25);
+    expect(maxAdditionalBorrow(LONG, 'base', 1.25)).toBeCloseTo(20 / 3);
+  });
+
+  it('is zero when the ratio is already below the minimum', () => {
+    expect(maxAdditionalBorrow(LONG, 'quote', 2)).toBe(0);
+  });
+});
+
+describe('marginRiskSummary', () => {
+  it('reads an indexer state', () => {
+    const state = {
+      base_asset: '10',
+      quote_asset: '0',
+      base_debt: '0',
+      quote_debt: '20',
+      base_pyth_price: 300000000,
+      base_pyth_decimals: 8,
+      quote_pyth_price: 100000000,
+      quote_pyth_decimals: 8,
+    };
+    expect(positionFromState(state)).toEqual(LONG);
+    const summary = marginRiskSummary(state, {
+      liquidationRiskRatio: 1.1,
+      minWithdrawRiskRatio: 1.25,
+      minBorrowRiskRatio: 1.25,
+    });
+    expect(summary.riskRatio).toBeCloseTo(1.5);
+    expect(summary.oraclePrice).toBeCloseTo(3);
+    expect(summary.liquidation.price).toBeCloseTo(2.2);
+    expect(summary.maxWithdraw.base).toBeCloseTo(5 / 3);
+    expect(summary.maxBorrow.quote).toBeCloseTo(20);
+  });
+});
@@ -3,6 +3,12 @@
  * @see https://docs.sui.io/standards/deepbook-margin-sdk/tpsl
  */
 
+import { apiErrorFromBody } from "@/lib/api-error";
+import {
+  TX_CANCELLED_MESSAGE,
+  type ConfirmBeforeSign,
+} from "@/lib/simulate-via-backend";
+
 const DEFAULT_NETWORK = "mainnet";
 
 export type AddTpslViaBackendParams = {
@@ -21,6 +27,10 @@ export type AddTpslViaBackendParams = {
     hash: `0x${string}`;
   }) => Promise<{ signature: string }>;
   publicKeyHex: string;
+  /** Optional pre-sign preview (e.g. dry-run confirm sheet); resolve false to cancel. */
+  confirmBeforeSign?: ConfirmBeforeSign;
+  /** Ask the backend to pay gas via its sponsor (see GET /api/sponsor-status). */
+  sponsored?: boolean;
   network?: "mainnet" | "testnet";
 };
 
@@ -46,7 +56,7 @@ async function executeSignedTx(
     }),
   });
   const json = await res.json();
-  if (!res.ok) throw new Error((json.error as string) ?? "Execute failed");
+  if (!res.ok) throw apiErrorFromBody(json, "Execute failed");
   return { digest: json.digest };
 }
 
@@ -65,6 +75,8 @@ export async function addTpslViaBackend(
     payWithDeep = true,
     signRawHash,
     publicKeyHex,
+    confirmBeforeSign,
+    sponsored = false,
     network = DEFAULT_NETWORK,
   } = params;
 
@@ -88,14 +100,13 @@ export async function addTpslViaBackend(
       tpPrice: tpPrice != null ? tpPrice : undefined,
       slPrice: slPrice != null ? slPrice : undefined,
       payWithDeep,
+      sponsored,
       network,
     }),
   });
   const prepareJson = await prepareRes.json();
   if (!prepareRes.ok) {
-    throw new Error(
-      (prepareJson.error as string) ?? "Prepare add TP/SL failed"
-    );
+    throw apiErrorFromBody(prepareJson, "Prepare add TP/SL failed");
   }
 
   const intentMessageHashHex =
@@ -111,6 +122,10 @@ export async function addTpslViaBackend(
     throw new Error("Invalid prepare response");
   }
 
+  if (confirmBeforeSign && !(await confirmBeforeSign(txBytesBase64))) {
+    throw new Error(TX_CANCELLED_MESSAGE);
+  }
+
   const { signature: signatureHex } = await signRawHash({
     address: sender,
     chainType: "sui",
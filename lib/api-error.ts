@@ -0,0 +1,56 @@
+/**
+ * Backend error bodies are { error: { code, message, details } } (see backend/src/sui/translate-error.ts).
+ * ApiError carries the code and details so screens can show the readable message and keep the code for support.
+ */
+
+export class ApiError extends Error {
+  code: string;
+  details: Record<string, unknown> | null;
+
+  constructor(
+    code: string,
+    message: string,
+    details: Record<string, unknown> | null = null
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/** Build an ApiError from a failed response body; accepts the legacy { error: string } shape too. */
+export function apiErrorFromBody(json: unknown, fallbackMessage: string): ApiError {
+  const error = (json as { error?: unknown } | null)?.error;
+  if (typeof error === "string" && error) {
+    return new ApiError("REQUEST_FAILED", error);
+  }
+  if (error && typeof error === "object") {
+    const { code, message, details } = error as {
+      code?: unknown;
+      message?: unknown;
+      details?: unknown;
+    };
+    return new ApiError(
+      typeof code === "string" ? code : "REQUEST_FAILED",
+      typeof message === "string" && message ? message : fallbackMessage,
+      details && typeof details === "object"
+        ? (details as Record<string, unknown>)
+        : null
+    );
+  }
+  return new ApiError("REQUEST_FAILED", fallbackMessage);
+}
+
+/** Codes that add nothing for support beyond the message itself. */
+const GENERIC_CODES = new Set(["REQUEST_FAILED", "INVALID_REQUEST"]);
+
+/** Message for Alert / error text: readable message plus the error code when there is a specific one. */
+export function errorMessageWithCode(err: unknown, fallbackMessage: string): string {
+  if (err instanceof ApiError) {
+    return GENERIC_CODES.has(err.code)
+      ? err.message
+      : `${err.message}\n\nError code: ${err.code}`;
+  }
+  return err instanceof Error ? err.message : fallbackMessage;
+}
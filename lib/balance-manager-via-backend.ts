@@ -0,0 +1,290 @@
+/**
+ * Spot trading via backend: a DeepBook balance manager (no margin account, no borrowing) holds the
+ * user's base / quote / DEEP and trades them directly. Read balances and open orders; create the manager,
+ * deposit, withdraw, place and cancel spot orders (prepare -> sign -> execute).
+ * @see https://docs.sui.io/standards/deepbookv3-sdk/balance-manager
+ */
+
+import { apiErrorFromBody } from "@/lib/api-error";
+import type { SelfMatching, TimeInForce } from "@/lib/place-order-via-backend";
+import {
+  TX_CANCELLED_MESSAGE,
+  type ConfirmBeforeSign,
+} from "@/lib/simulate-via-backend";
+
+const DEFAULT_NETWORK = "mainnet";
+
+export type BalanceManagerAsset = "base" | "quote" | "deep";
+
+export type BalanceManagerBalance = {
+  coinKey: string;
+  /** Free in the manager: withdrawable and usable for new orders. */
+  available: number;
+  /** Locked in this pool's open orders. */
+  locked: number;
+  /** Filled as maker, claimed on the next order or withdraw. */
+  settled: number;
+};
+
+export type SpotOpenOrder = {
+  orderId: string;
+  clientOrderId: string;
+  isBid: boolean;
+  price: number;
+  quantity: number;
+  filledQuantity: number;
+  expireTimestamp: number;
+};
+
+export type BalanceManagerState = {
+  /** Null when the owner has no balance manager yet. */
+  balanceManagerId: string | null;
+  poolKey: string;
+  balances: Record<BalanceManagerAsset, BalanceManagerBalance> | null;
+  openOrders: SpotOpenOrder[];
+};
+
+export type SpotActionViaBackendParams = {
+  apiUrl: string;
+  sender: string;
+  signRawHash: (params: {
+    address: string;
+    chainType: "sui";
+    hash: `0x${string}`;
+  }) => Promise<{ signature: string }>;
+  publicKeyHex: string;
+  /** Optional pre-sign preview (e.g. dry-run confirm sheet); resolve false to cancel. */
+  confirmBeforeSign?: ConfirmBeforeSign;
+  /** Ask the backend to pay gas via its sponsor (see GET /api/sponsor-status). */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+};
+
+export type BalanceManagerTransferParams = SpotActionViaBackendParams & {
+  balanceManagerId: string;
+  poolKey: string;
+  asset: BalanceManagerAsset;
+  /** Human amount. Withdraw: omit to withdraw everything. */
+  amount?: number;
+};
+
+export type PlaceSpotOrderViaBackendParams = SpotActionViaBackendParams & {
+  balanceManagerId: string;
+  poolKey: string;
+  orderType: "limit" | "market";
+  isBid: boolean;
+  quantity: number;
+  price?: number; // required for limit
+  payWithDeep?: boolean;
+  /** Limit orders only. Default "gtc". */
+  timeInForce?: TimeInForce;
+  selfMatching?: SelfMatching;
+  /** Limit orders only: ms timestamp after which the order is cancelled. */
+  expiration?: number;
+  /** Market orders only: placed as an IOC limit at the book price ± this many bps. */
+  maxSlippageBps?: number;
+};
+
+export async function fetchBalanceManagerViaBackend(params: {
+  apiUrl: string;
+  poolKey: string;
+  /** Known manager id; otherwise the owner's manager is looked up in the DeepBook registry. */
+  balanceManagerId?: string | null;
+  owner?: string | null;
+  network?: "mainnet" | "testnet";
+}): Promise<BalanceManagerState> {
+  const { apiUrl, poolKey, balanceManagerId, owner, network = DEFAULT_NETWORK } = params;
+  const base = apiUrl.replace(/\/$/, "");
+  const search = new URLSearchParams({ poolKey, network });
+  if (balanceManagerId) search.set("balanceManagerId", balanceManagerId);
+  if (owner) search.set("owner", owner);
+  const res = await fetch(`${base}/api/balance-manager?${search.toString()}`);
+  const json = await res.json();
+  if (!res.ok) {
+    throw apiErrorFromBody(json, "Failed to fetch spot account");
+  }
+  return json as BalanceManagerState;
+}
+
+/** Prepare, optionally confirm, sign and execute; returns the execute response body. */
+async function prepareSignExecute(
+  path: string,
+  body: Record<string, unknown>,
+  params: SpotActionViaBackendParams,
+  failureMessage: string,
+  executePath = "/api/execute-transfer"
+): Promise<Record<string, unknown>> {
+  const {
+    apiUrl,
+    sender,
+    signRawHash,
+    publicKeyHex,
+    confirmBeforeSign,
+    sponsored = false,
+    network = DEFAULT_NETWORK,
+  } = params;
+  const base = apiUrl.replace(/\/$/, "");
+
+  const prepareRes = await fetch(`${base}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...body, sender, sponsored, network }),
+  });
+  const prepareJson = await prepareRes.json();
+  if (!prepareRes.ok) {
+    throw apiErrorFromBody(prepareJson, failureMessage);
+  }
+  const { intentMessageHashHex, txBytesBase64 } = prepareJson;
+  if (
+    typeof intentMessageHashHex !== "string" ||
+    !intentMessageHashHex ||
+    typeof txBytesBase64 !== "string" ||
+    !txBytesBase64
+  ) {
+    throw new Error("Invalid prepare response");
+  }
+
+  if (confirmBeforeSign && !(await confirmBeforeSign(txBytesBase64))) {
+    throw new Error(TX_CANCELLED_MESSAGE);
+  }
+
+  const { signature: signatureHex } = await signRawHash({
+    address: sender,
+    chainType: "sui",
+    hash: intentMessageHashHex.startsWith("0x")
+      ? (intentMessageHashHex as `0x${string}`)
+      : (`0x${intentMessageHashHex}` as `0x${string}`),
+  });
+
+  const executeRes = await fetch(`${base}${executePath}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      txBytesBase64,
+      signatureHex,
+      publicKeyHex: publicKeyHex.startsWith("0x")
+        ? publicKeyHex
+        : "0x" + publicKeyHex,
+      network,
+    }),
+  });
+  const executeJson = await executeRes.json();
+  if (!executeRes.ok) {
+    throw apiErrorFromBody(executeJson, "Execute failed");
+  }
+  return executeJson;
+}
+
+export async function createBalanceManagerViaBackend(
+  params: SpotActionViaBackendParams
+): Promise<{ digest: string; balance_manager_id: string }> {
+  const json = await prepareSignExecute(
+    "/api/prepare-create-balance-manager",
+    {},
+    params,
+    "Prepare failed",
+    "/api/execute-create-balance-manager"
+  );
+  const balance_manager_id = json.balance_manager_id;
+  if (typeof balance_manager_id !== "string" || !balance_manager_id) {
+    throw new Error("Execute response missing balance_manager_id");
+  }
+  return { digest: String(json.digest), balance_manager_id };
+}
+
+export async function depositToBalanceManagerViaBackend(
+  params: BalanceManagerTransferParams
+): Promise<{ digest: string }> {
+  const { balanceManagerId, poolKey, asset, amount } = params;
+  if (amount == null || !(amount > 0)) {
+    throw new Error("Amount must be positive");
+  }
+  const json = await prepareSignExecute(
+    "/api/prepare-balance-manager-deposit",
+    { balanceManagerId, poolKey, asset, amount },
+    params,
+    "Prepare deposit failed"
+  );
+  return { digest: String(json.digest) };
+}
+
+export async function withdrawFromBalanceManagerViaBackend(
+  params: BalanceManagerTransferParams
+): Promise<{ digest: string }> {
+  const { balanceManagerId, poolKey, asset, amount } = params;
+  const json = await prepareSignExecute(
+    "/api/prepare-balance-manager-withdraw",
+    { balanceManagerId, poolKey, asset, amount },
+    params,
+    "Prepare withdraw failed"
+  );
+  return { digest: String(json.digest) };
+}
+
+/** Generate a numeric client order id (u64). */
+function nextClientOrderId(): number {
+  return Math.floor(Date.now() % 2147483647);
+}
+
+export async function placeSpotOrderViaBackend(
+  params: PlaceSpotOrderViaBackendParams
+): Promise<{ digest: string }> {
+  const {
+    balanceManagerId,
+    poolKey,
+    orderType,
+    isBid,
+    quantity,
+    price,
+    payWithDeep = true,
+    timeInForce,
+    selfMatching,
+    expiration,
+    maxSlippageBps,
+  } = params;
+
+  if (orderType === "limit" && (price == null || Number.isNaN(price))) {
+    throw new Error("Price is required for limit orders");
+  }
+  if (!quantity || quantity <= 0) {
+    throw new Error("Quantity must be positive");
+  }
+
+  const json = await prepareSignExecute(
+    "/api/prepare-spot-order",
+    {
+      balanceManagerId,
+      poolKey,
+      orderType,
+      isBid,
+      quantity,
+      price: orderType === "limit" ? price : undefined,
+      clientOrderId: nextClientOrderId(),
+      payWithDeep,
+      timeInForce: orderType === "limit" ? timeInForce : undefined,
+      selfMatching,
+      expiration: orderType === "limit" ? expiration : undefined,
+      maxSlippageBps: orderType === "market" ? maxSlippageBps : undefined,
+    },
+    params,
+    "Prepare spot order failed"
+  );
+  return { digest: String(json.digest) };
+}
+
+export async function cancelSpotOrderViaBackend(
+  params: SpotActionViaBackendParams & {
+    balanceManagerId: string;
+    poolKey: string;
+    orderIds: string[];
+  }
+): Promise<{ digest: string }> {
+  const { balanceManagerId, poolKey, orderIds } = params;
+  const json = await prepareSignExecute(
+    "/api/prepare-spot-cancel-order",
+    { balanceManagerId, poolKey, orderIds },
+    params,
+    "Prepare cancel order failed"
+  );
+  return { digest: String(json.digest) };
+}
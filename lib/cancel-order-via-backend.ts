@@ -0,0 +1,198 @@
+/**
+ * Cancel margin orders via backend: prepare-cancel-order / prepare-cancel-all-orders -> sign -> execute-transfer.
+ */
+
+import { apiErrorFromBody } from "@/lib/api-error";
+import {
+  TX_CANCELLED_MESSAGE,
+  type ConfirmBeforeSign,
+} from "@/lib/simulate-via-backend";
+
+const DEFAULT_NETWORK = "mainnet";
+
+export type CancelAllOrdersViaBackendParams = {
+  apiUrl: string;
+  sender: string;
+  marginManagerId: string;
+  poolKey: string;
+  signRawHash: (params: {
+    address: string;
+    chainType: "sui";
+    hash: `0x${string}`;
+  }) => Promise<{ signature: string }>;
+  publicKeyHex: string;
+  /** Optional pre-sign preview (e.g. dry-run confirm sheet); resolve false to cancel. */
+  confirmBeforeSign?: ConfirmBeforeSign;
+  /** Ask the backend to pay gas via its sponsor (see GET /api/sponsor-status). */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+};
+
+export type CancelOrderViaBackendParams = CancelAllOrdersViaBackendParams & {
+  /** One order id or several (cancelled in one transaction). */
+  orderIds: string | string[];
+};
+
+export type CancelOrderResult = { digest: string };
+
+async function executeSignedTx(
+  base: string,
+  txBytesBase64: string,
+  signatureHex: string,
+  publicKeyHex: string,
+  network: string
+): Promise<{ digest: string }> {
+  const executeRes = await fetch(`${base}/api/execute-transfer`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      txBytesBase64,
+      signatureHex,
+      publicKeyHex: publicKeyHex.startsWith("0x")
+        ? publicKeyHex
+        : "0x" + publicKeyHex,
+      network,
+    }),
+  });
+  const executeJson = await executeRes.json();
+  if (!executeRes.ok) {
+    throw apiErrorFromBody(executeJson, "Execute failed");
+  }
+  return { digest: executeJson.digest };
+}
+
+export async function cancelOrderViaBackend(
+  params: CancelOrderViaBackendParams
+): Promise<CancelOrderResult> {
+  const {
+    apiUrl,
+    sender,
+    marginManagerId,
+    poolKey,
+    orderIds,
+    signRawHash,
+    publicKeyHex,
+    confirmBeforeSign,
+    sponsored = false,
+    network = DEFAULT_NETWORK,
+  } = params;
+
+  const base = apiUrl.replace(/\/$/, "");
+
+  const prepareRes = await fetch(`${base}/api/prepare-cancel-order`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      sender,
+      marginManagerId,
+      poolKey,
+      orderIds: Array.isArray(orderIds) ? orderIds : [orderIds],
+      sponsored,
+      network,
+    }),
+  });
+  const prepareJson = await prepareRes.json();
+  if (!prepareRes.ok) {
+    throw apiErrorFromBody(prepareJson, "Prepare cancel order failed");
+  }
+
+  const intentMessageHashHex =
+    prepareJson.intentMessageHashHex ?? prepareJson.intent_message_hash_hex;
+  const txBytesBase64 =
+    prepareJson.txBytesBase64 ?? prepareJson.tx_bytes_base64;
+  if (
+    typeof intentMessageHashHex !== "string" ||
+    !intentMessageHashHex ||
+    typeof txBytesBase64 !== "string" ||
+    !txBytesBase64
+  ) {
+    throw new Error("Invalid prepare response");
+  }
+
+  if (confirmBeforeSign && !(await confirmBeforeSign(txBytesBase64))) {
+    throw new Error(TX_CANCELLED_MESSAGE);
+  }
+
+  const { signature: signatureHex } = await signRawHash({
+    address: sender,
+    chainType: "sui",
+    hash: intentMessageHashHex.startsWith("0x")
+      ? (intentMessageHashHex as `0x${string}`)
+      : (`0x${intentMessageHashHex}` as `0x${string}`),
+  });
+
+  return executeSignedTx(
+    base,
+    txBytesBase64,
+    signatureHex,
+    publicKeyHex,
+    network
+  );
+}
+
+export async function cancelAllOrdersViaBackend(
+  params: CancelAllOrdersViaBackendParams
+): Promise<CancelOrderResult> {
+  const {
+    apiUrl,
+    sender,
+    marginManagerId,
+    poolKey,
+    signRawHash,
+    publicKeyHex,
+    confirmBeforeSign,
+    sponsored = false,
+    network = DEFAULT_NETWORK,
+  } = params;
+
+  const base = apiUrl.replace(/\/$/, "");
+
+  const prepareRes = await fetch(`${base}/api/prepare-cancel-all-orders`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      sender,
+      marginManagerId,
+      poolKey,
+      sponsored,
+      network,
+    }),
+  });
+  const prepareJson = await prepareRes.json();
+  if (!prepareRes.ok) {
+    throw apiErrorFromBody(prepareJson, "Prepare cancel all orders failed");
+  }
+
+  const intentMessageHashHex =
+    prepareJson.intentMessageHashHex ?? prepareJson.intent_message_hash_hex;
+  const txBytesBase64 =
+    prepareJson.txBytesBase64 ?? prepareJson.tx_bytes_base64;
+  if (
+    typeof intentMessageHashHex !== "string" ||
+    !intentMessageHashHex ||
+    typeof txBytesBase64 !== "string" ||
+    !txBytesBase64
+  ) {
+    throw new Error("Invalid prepare response");
+  }
+
+  if (confirmBeforeSign && !(await confirmBeforeSign(txBytesBase64))) {
+    throw new Error(TX_CANCELLED_MESSAGE);
+  }
+
+  const { signature: signatureHex } = await signRawHash({
+    address: sender,
+    chainType: "sui",
+    hash: intentMessageHashHex.startsWith("0x")
+      ? (intentMessageHashHex as `0x${string}`)
+      : (`0x${intentMessageHashHex}` as `0x${string}`),
+  });
+
+  return executeSignedTx(
+    base,
+    txBytesBase64,
+    signatureHex,
+    publicKeyHex,
+    network
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * Close margin position via backend: prepare-close-position -> sign -> execute-transfer.
+ * One signature: reduce-only market order, repay all debt and optional quote withdraw run in one PTB.
+ */
+
+import { apiErrorFromBody } from "@/lib/api-error";
+import {
+  TX_CANCELLED_MESSAGE,
+  type ConfirmBeforeSign,
+} from "@/lib/simulate-via-backend";
+
+const DEFAULT_NETWORK = "mainnet";
+
+export type ClosePositionViaBackendParams = {
+  apiUrl: string;
+  sender: string;
+  marginManagerId: string;
+  poolKey: string;
+  /** If true, remaining quote after repay is withdrawn to sender in the same transaction. */
+  withdrawRemainder?: boolean;
+  payWithDeep?: boolean;
+  /** Bound the close swap to this many bps from the book / oracle price (see lib/trade-settings.ts). */
+  maxSlippageBps?: number;
+  signRawHash: (params: {
+    address: string;
+    chainType: "sui";
+    hash: `0x${string}`;
+  }) => Promise<{ signature: string }>;
+  publicKeyHex: string;
+  /** Optional pre-sign preview (e.g. dry-run confirm sheet); resolve false to cancel. */
+  confirmBeforeSign?: ConfirmBeforeSign;
+  /** Ask the backend to pay gas via its sponsor (see GET /api/sponsor-status). */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+};
+
+export type ClosePositionResult = {
+  digest: string;
+  side: "long" | "short";
+  /** Base quantity swapped (human units). */
+  swapQuantity: number;
+  /** Quote withdrawn to sender (human units); 0 if none. */
+  withdrawQuoteAmount: number;
+  /** Estimated quote left in the margin manager (0 when withdrawn, all of it when not withdrawing or below minimum). */
+  quoteLeftInManager: number;
+  /** Debt repaid in the borrowed asset (human units), including interest. */
+  debtRepaid: number;
+  /** Interest part of debtRepaid; null when unknown. */
+  interestRepaid: number | null;
+  /** Limit price the swap was bounded by; null without maxSlippageBps or when no swap was needed. */
+  slippageLimitPrice: number | null;
+};
+
+async function executeSignedTx(
+  base: string,
+  txBytesBase64: string,
+  signatureHex: string,
+  publicKeyHex: string,
+  network: string
+): Promise<{ digest: string }> {
+  const executeRes = await fetch(`${base}/api/execute-transfer`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      txBytesBase64,
+      signatureHex,
+      publicKeyHex: publicKeyHex.startsWith("0x")
+        ? publicKeyHex
+        : "0x" + publicKeyHex,
+      network,
+    }),
+  });
+  const executeJson = await executeRes.json();
+  if (!executeRes.ok) {
+    throw apiErrorFromBody(executeJson, "Execute failed");
+  }
+  return { digest: executeJson.digest };
+}
+
+export async function closePositionViaBackend(
+  params: ClosePositionViaBackendParams
+): Promise<ClosePositionResult> {
+  const {
+    apiUrl,
+    sender,
+    marginManagerId,
+    poolKey,
+    withdrawRemainder = false,
+    payWithDeep = false,
+    maxSlippageBps,
+    signRawHash,
+    publicKeyHex,
+    confirmBeforeSign,
+    sponsored = false,
+    network = DEFAULT_NETWORK,
+  } = params;
+
+  const base = apiUrl.replace(/\/$/, "");
+
+  const prepareRes = await fetch(`${base}/api/prepare-close-position`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      sender,
+      marginManagerId,
+      poolKey,
+      withdrawRemainder,
+      payWithDeep,
+      maxSlippageBps,
+      sponsored,
+      network,
+    }),
+  });
+  const prepareJson = await prepareRes.json();
+  if (!prepareRes.ok) {
+    throw apiErrorFromBody(prepareJson, "Prepare close position failed");
+  }
+
+  const intentMessageHashHex =
+    prepareJson.intentMessageHashHex ?? prepareJson.intent_message_hash_hex;
+  const txBytesBase64 =
+    prepareJson.txBytesBase64 ?? prepareJson.tx_bytes_base64;
+  if (
+    typeof intentMessageHashHex !== "string" ||
+    !intentMessageHashHex ||
+    typeof txBytesBase64 !== "string" ||
+    !txBytesBase64
+  ) {
+    throw new Error("Invalid prepare response");
+  }
+
+  if (confirmBeforeSign && !(await confirmBeforeSign(txBytesBase64))) {
+    throw new Error(TX_CANCELLED_MESSAGE);
+  }
+
+  const { signature: signatureHex } = await signRawHash({
+    address: sender,
+    chainType: "sui",
+    hash: intentMessageHashHex.startsWith("0x")
+      ? (intentMessageHashHex as `0x${string}`)
+      : (`0x${intentMessageHashHex}` as `0x${string}`),
+  });
+
+  const { digest } = await executeSignedTx(
+    base,
+    txBytesBase64,
+    signatureHex,
+    publicKeyHex,
+    network
+  );
+  return {
+    digest,
+    side: prepareJson.side === "short" ? "short" : "long",
+    swapQuantity: Number(prepareJson.swapQuantity ?? 0),
+    withdrawQuoteAmount: Number(prepareJson.withdrawQuoteAmount ?? 0),
+    quoteLeftInManager: Number(prepareJson.quoteLeftInManager ?? 0),
+    debtRepaid: Number(prepareJson.debtRepaid ?? 0),
+    interestRepaid:
+      prepareJson.interestRepaid != null ? Number(prepareJson.interestRepaid) : null,
+    slippageLimitPrice:
+      prepareJson.slippageLimitPrice != null ? Number(prepareJson.slippageLimitPrice) : null,
+  };
+}
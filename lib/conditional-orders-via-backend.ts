@@ -0,0 +1,177 @@
+/**
+ * TP/SL conditional orders via backend: read with GET /api/conditional-orders,
+ * cancel with prepare-cancel-conditional-orders -> sign -> execute-transfer.
+ * @see https://docs.sui.io/standards/deepbook-margin-sdk/tpsl
+ */
+
+import { apiErrorFromBody } from "@/lib/api-error";
+import {
+  TX_CANCELLED_MESSAGE,
+  type ConfirmBeforeSign,
+} from "@/lib/simulate-via-backend";
+
+const DEFAULT_NETWORK = "mainnet";
+
+export type ConditionalOrder = {
+  conditional_order_id: string;
+  kind: "take_profit" | "stop_loss";
+  /** "below" = fires when price drops to trigger_price; "above" = when it rises to it. */
+  direction: "below" | "above";
+  trigger_price: number;
+  order: {
+    client_order_id: string;
+    is_limit_order: boolean;
+    is_bid: boolean;
+    /** Base quantity (human units). */
+    quantity: number;
+    /** Limit price; null for market orders. */
+    price: number | null;
+    pay_with_deep: boolean;
+  };
+};
+
+export type ConditionalOrdersResponse = {
+  margin_manager_id: string;
+  pool_key: string;
+  orders: ConditionalOrder[];
+  source: "chain";
+};
+
+export async function fetchConditionalOrdersViaBackend(params: {
+  apiUrl: string;
+  marginManagerId: string;
+  poolKey: string;
+  network?: "mainnet" | "testnet";
+}): Promise<ConditionalOrdersResponse> {
+  const { apiUrl, marginManagerId, poolKey, network = DEFAULT_NETWORK } = params;
+  const base = apiUrl.replace(/\/$/, "");
+  const search = new URLSearchParams({
+    marginManagerId,
+    poolKey,
+    network,
+  });
+  const res = await fetch(`${base}/api/conditional-orders?${search.toString()}`);
+  const json = await res.json();
+  if (!res.ok) {
+    throw apiErrorFromBody(json, "Failed to fetch conditional orders");
+  }
+  return json as ConditionalOrdersResponse;
+}
+
+export type CancelConditionalOrdersViaBackendParams = {
+  apiUrl: string;
+  sender: string;
+  marginManagerId: string;
+  poolKey: string;
+  /** Ids to cancel; ignored when all is true. */
+  conditionalOrderIds?: string[];
+  all?: boolean;
+  signRawHash: (params: {
+    address: string;
+    chainType: "sui";
+    hash: `0x${string}`;
+  }) => Promise<{ signature: string }>;
+  publicKeyHex: string;
+  /** Optional pre-sign preview (e.g. dry-run confirm sheet); resolve false to cancel. */
+  confirmBeforeSign?: ConfirmBeforeSign;
+  /** Ask the backend to pay gas via its sponsor (see GET /api/sponsor-status). */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+};
+
+async function executeSignedTx(
+  base: string,
+  txBytesBase64: string,
+  signatureHex: string,
+  publicKeyHex: string,
+  network: string
+): Promise<{ digest: string }> {
+  const executeRes = await fetch(`${base}/api/execute-transfer`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      txBytesBase64,
+      signatureHex,
+      publicKeyHex: publicKeyHex.startsWith("0x")
+        ? publicKeyHex
+        : "0x" + publicKeyHex,
+      network,
+    }),
+  });
+  const executeJson = await executeRes.json();
+  if (!executeRes.ok) {
+    throw apiErrorFromBody(executeJson, "Execute failed");
+  }
+  return { digest: executeJson.digest };
+}
+
+export async function cancelConditionalOrdersViaBackend(
+  params: CancelConditionalOrdersViaBackendParams
+): Promise<{ digest: string }> {
+  const {
+    apiUrl,
+    sender,
+    marginManagerId,
+    poolKey,
+    conditionalOrderIds = [],
+    all = false,
+    signRawHash,
+    publicKeyHex,
+    confirmBeforeSign,
+    sponsored = false,
+    network = DEFAULT_NETWORK,
+  } = params;
+
+  const base = apiUrl.replace(/\/$/, "");
+
+  const prepareRes = await fetch(`${base}/api/prepare-cancel-conditional-orders`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      sender,
+      marginManagerId,
+      poolKey,
+      conditionalOrderIds,
+      all,
+      sponsored,
+      network,
+    }),
+  });
+  const prepareJson = await prepareRes.json();
+  if (!prepareRes.ok) {
+    throw apiErrorFromBody(prepareJson, "Prepare cancel TP/SL failed");
+  }
+
+  const intentMessageHashHex =
+    prepareJson.intentMessageHashHex ?? prepareJson.intent_message_hash_hex;
+  const txBytesBase64 =
+    prepareJson.txBytesBase64 ?? prepareJson.tx_bytes_base64;
+  if (
+    typeof intentMessageHashHex !== "string" ||
+    !intentMessageHashHex ||
+    typeof txBytesBase64 !== "string" ||
+    !txBytesBase64
+  ) {
+    throw new Error("Invalid prepare response");
+  }
+
+  if (confirmBeforeSign && !(await confirmBeforeSign(txBytesBase64))) {
+    throw new Error(TX_CANCELLED_MESSAGE);
+  }
+
+  const { signature: signatureHex } = await signRawHash({
+    address: sender,
+    chainType: "sui",
+    hash: intentMessageHashHex.startsWith("0x")
+      ? (intentMessageHashHex as `0x${string}`)
+      : (`0x${intentMessageHashHex}` as `0x${string}`),
+  });
+
+  return executeSignedTx(
+    base,
+    txBytesBase64,
+    signatureHex,
+    publicKeyHex,
+    network
+  );
+}
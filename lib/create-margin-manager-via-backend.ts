@@ -3,6 +3,8 @@
  * Returns the new margin_manager_id so the app can refetch owned managers.
  */
 
+import { apiErrorFromBody } from "@/lib/api-error";
+
 const DEFAULT_NETWORK = "mainnet";
 
 export type CreateMarginManagerViaBackendParams = {
@@ -15,6 +17,8 @@ export type CreateMarginManagerViaBackendParams = {
     hash: `0x${string}`;
   }) => Promise<{ signature: string }>;
   publicKeyHex: string;
+  /** Ask the backend to pay gas via its sponsor (see GET /api/sponsor-status). */
+  sponsored?: boolean;
   network?: "mainnet" | "testnet";
 };
 
@@ -32,6 +36,7 @@ export async function createMarginManagerViaBackend(
     poolKey,
     signRawHash,
     publicKeyHex,
+    sponsored = false,
     network = DEFAULT_NETWORK,
   } = params;
 
@@ -40,11 +45,11 @@ export async function createMarginManagerViaBackend(
   const prepareRes = await fetch(`${base}/api/prepare-create-margin-manager`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ sender, poolKey, network }),
+    body: JSON.stringify({ sender, poolKey, sponsored, network }),
   });
   const prepareJson = await prepareRes.json();
   if (!prepareRes.ok) {
-    throw new Error((prepareJson.error as string) ?? "Prepare failed");
+    throw apiErrorFromBody(prepareJson, "Prepare failed");
   }
 
   const intentMessageHashHex =
@@ -85,7 +90,7 @@ export async function createMarginManagerViaBackend(
   });
   const executeJson = await executeRes.json();
   if (!executeRes.ok) {
-    throw new Error((executeJson.error as string) ?? "Execute failed");
+    throw apiErrorFromBody(executeJson, "Execute failed");
   }
 
   const margin_manager_id =
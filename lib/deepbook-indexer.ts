@@ -1,6 +1,6 @@
 /**
- * DeepBook Margin + DeepBookV3 Indexer API (mainnet).
- * Same base URL for margin and V3 (OHLCV, ticker, etc.).
+ * DeepBook Margin + DeepBookV3 Indexer API (mainnet and testnet).
+ * Same base URL for margin and V3 (OHLCV, ticker, etc.); every fetch takes the Sui network last (default mainnet).
  * @see https://docs.sui.io/standards/deepbook-margin-indexer
  * @see https://docs.sui.io/standards/deepbookv3-indexer
  *
@@ -15,19 +15,28 @@
  *   GET /orders/:pool/:balance_id  → fetchOrders()       (open + recent orders)
  *   GET /trades/:pool_name         → fetchTrades()       (executed trades for trade history / PnL)
  *   GET /order_updates/:pool_name  (placed/canceled in time range; alternative to /orders)
- *   GET /orderbook/:pool_name      (bids/asks; could add live order book)
+ *   GET /orderbook/:pool_name      → fetchOrderbook()    (bids/asks for the depth ladder)
  *   GET /get_pools                 (pool list; we use margin_managers_info instead)
  *   GET /summary                   (pair summary; we use /ticker + margin state)
  */
 
-const INDEXER_BASE = "https://deepbook-indexer.mainnet.mystenlabs.com";
+import type { SuiNetwork } from "@/lib/network";
+
+const INDEXER_BASE_URLS: Record<SuiNetwork, string> = {
+  mainnet: "https://deepbook-indexer.mainnet.mystenlabs.com",
+  testnet: "https://deepbook-indexer.testnet.mystenlabs.com",
+};
 const INDEXER_TIMEOUT_MS = 25_000;
 const INDEXER_RETRY_DELAY_MS = 2_000;
 
 type Query = Record<string, string | number | boolean | undefined>;
 
-function buildUrl(path: string, params?: Query): string {
-  const url = new URL(path, INDEXER_BASE);
+function buildUrl(
+  path: string,
+  params?: Query,
+  network: SuiNetwork = "mainnet"
+): string {
+  const url = new URL(path, INDEXER_BASE_URLS[network]);
   if (params) {
     Object.entries(params).forEach(([k, v]) => {
       if (v !== undefined && v !== "") url.searchParams.set(k, String(v));
@@ -42,10 +51,11 @@ function isRetryableStatus(status: number): boolean {
 
 async function getOnce<T>(
   path: string,
-  params?: Query,
+  params: Query | undefined,
+  network: SuiNetwork,
   signal?: AbortSignal
 ): Promise<T> {
-  const url = buildUrl(path, params);
+  const url = buildUrl(path, params, network);
   const res = await fetch(url, { signal });
   if (!res.ok) {
     const msg =
@@ -57,10 +67,14 @@ async function getOnce<T>(
   return res.json() as Promise<T>;
 }
 
-async function get<T>(path: string, params?: Query): Promise<T> {
+async function get<T>(
+  path: string,
+  params?: Query,
+  network: SuiNetwork = "mainnet"
+): Promise<T> {
   const attempt = (abort: AbortController): Promise<T> => {
     const timeoutId = setTimeout(() => abort.abort(), INDEXER_TIMEOUT_MS);
-    return getOnce<T>(path, params, abort.signal).finally(() =>
+    return getOnce<T>(path, params, network, abort.signal).finally(() =>
       clearTimeout(timeoutId)
     );
   };
@@ -218,8 +232,14 @@ export interface DeepBookOrder {
  * endpoint in the Margin Indexer; this is the canonical source per docs.
  * @see https://docs.sui.io/standards/deepbook-margin-indexer (Get margin managers information)
  */
-export async function fetchMarginManagersInfo(): Promise<MarginManagerInfo[]> {
-  const raw = await get<MarginManagerInfo[] | unknown>("/margin_managers_info");
+export async function fetchMarginManagersInfo(
+  network: SuiNetwork = "mainnet"
+): Promise<MarginManagerInfo[]> {
+  const raw = await get<MarginManagerInfo[] | unknown>(
+    "/margin_managers_info",
+    undefined,
+    network
+  );
   return Array.isArray(raw) ? raw : [];
 }
 
@@ -228,32 +248,43 @@ export async function fetchMarginManagersInfo(): Promise<MarginManagerInfo[]> {
  * then client-side by margin_manager_id. Note: this view can lag behind
  * collateral_events (activity) by 1–2 min; activity updates first.
  */
-export async function fetchMarginManagerStates(params: {
-  deepbook_pool_id?: string;
-  max_risk_ratio?: number;
-}): Promise<MarginManagerState[]> {
+export async function fetchMarginManagerStates(
+  params: {
+    deepbook_pool_id?: string;
+    max_risk_ratio?: number;
+  },
+  network: SuiNetwork = "mainnet"
+): Promise<MarginManagerState[]> {
   const raw = await get<MarginManagerState[] | unknown>(
     "/margin_manager_states",
-    params
+    params,
+    network
   );
   return Array.isArray(raw) ? raw : [];
 }
 
-export async function fetchCollateralEvents(params: {
-  margin_manager_id: string;
-  type?: "Deposit" | "Withdraw";
-  is_base?: boolean;
-  limit?: number;
-  start_time?: number;
-  end_time?: number;
-}): Promise<CollateralEvent[]> {
+export async function fetchCollateralEvents(
+  params: {
+    margin_manager_id: string;
+    type?: "Deposit" | "Withdraw";
+    is_base?: boolean;
+    limit?: number;
+    start_time?: number;
+    end_time?: number;
+  },
+  network: SuiNetwork = "mainnet"
+): Promise<CollateralEvent[]> {
   const q: Query = { margin_manager_id: params.margin_manager_id };
   if (params.type) q.type = params.type;
   if (params.is_base !== undefined) q.is_base = params.is_base;
   if (params.limit != null) q.limit = params.limit;
   if (params.start_time != null) q.start_time = params.start_time;
   if (params.end_time != null) q.end_time = params.end_time;
-  const raw = await get<CollateralEvent[] | unknown>("/collateral_events", q);
+  const raw = await get<CollateralEvent[] | unknown>(
+    "/collateral_events",
+    q,
+    network
+  );
   return Array.isArray(raw) ? raw : [];
 }
 
@@ -264,12 +295,15 @@ export async function fetchCollateralEvents(params: {
  * base = DEEP and quote = USDC. Some indexer versions may only return DEEP
  * when is_base is omitted, so we fetch all three and merge.
  */
-export async function fetchAllCollateralEvents(params: {
-  margin_manager_id: string;
-  limit?: number;
-  start_time?: number;
-  end_time?: number;
-}): Promise<CollateralEvent[]> {
+export async function fetchAllCollateralEvents(
+  params: {
+    margin_manager_id: string;
+    limit?: number;
+    start_time?: number;
+    end_time?: number;
+  },
+  network: SuiNetwork = "mainnet"
+): Promise<CollateralEvent[]> {
   const limit = params.limit ?? 20;
   const common = {
     margin_manager_id: params.margin_manager_id,
@@ -278,9 +312,9 @@ export async function fetchAllCollateralEvents(params: {
     end_time: params.end_time,
   };
   const [baseEvents, quoteEvents, noFilterEvents] = await Promise.all([
-    fetchCollateralEvents({ ...common, is_base: true }),
-    fetchCollateralEvents({ ...common, is_base: false }),
-    fetchCollateralEvents(common),
+    fetchCollateralEvents({ ...common, is_base: true }, network),
+    fetchCollateralEvents({ ...common, is_base: false }, network),
+    fetchCollateralEvents(common, network),
   ]);
   const byDigest = new Map<string, CollateralEvent>();
   for (const e of [...baseEvents, ...quoteEvents, ...noFilterEvents]) {
@@ -295,39 +329,57 @@ export async function fetchAllCollateralEvents(params: {
   return merged.slice(0, limit);
 }
 
-export async function fetchLoanBorrowed(params: {
-  margin_manager_id: string;
-  margin_pool_id: string;
-  limit?: number;
-  start_time?: number;
-  end_time?: number;
-}): Promise<LoanBorrowedEvent[]> {
+export async function fetchLoanBorrowed(
+  params: {
+    margin_manager_id: string;
+    margin_pool_id: string;
+    limit?: number;
+    start_time?: number;
+    end_time?: number;
+  },
+  network: SuiNetwork = "mainnet"
+): Promise<LoanBorrowedEvent[]> {
   const raw = await get<LoanBorrowedEvent[] | unknown>(
     "/loan_borrowed",
-    params
+    params,
+    network
   );
   return Array.isArray(raw) ? raw : [];
 }
 
-export async function fetchLoanRepaid(params: {
-  margin_manager_id: string;
-  margin_pool_id: string;
-  limit?: number;
-  start_time?: number;
-  end_time?: number;
-}): Promise<LoanRepaidEvent[]> {
-  const raw = await get<LoanRepaidEvent[] | unknown>("/loan_repaid", params);
+export async function fetchLoanRepaid(
+  params: {
+    margin_manager_id: string;
+    margin_pool_id: string;
+    limit?: number;
+    start_time?: number;
+    end_time?: number;
+  },
+  network: SuiNetwork = "mainnet"
+): Promise<LoanRepaidEvent[]> {
+  const raw = await get<LoanRepaidEvent[] | unknown>(
+    "/loan_repaid",
+    params,
+    network
+  );
   return Array.isArray(raw) ? raw : [];
 }
 
-export async function fetchLiquidation(params: {
-  margin_manager_id: string;
-  margin_pool_id: string;
-  limit?: number;
-  start_time?: number;
-  end_time?: number;
-}): Promise<LiquidationEvent[]> {
-  const raw = await get<LiquidationEvent[] | unknown>("/liquidation", params);
+export async function fetchLiquidation(
+  params: {
+    margin_manager_id: string;
+    margin_pool_id: string;
+    limit?: number;
+    start_time?: number;
+    end_time?: number;
+  },
+  network: SuiNetwork = "mainnet"
+): Promise<LiquidationEvent[]> {
+  const raw = await get<LiquidationEvent[] | unknown>(
+    "/liquidation",
+    params,
+    network
+  );
   return Array.isArray(raw) ? raw : [];
 }
 
@@ -341,12 +393,15 @@ const ONE_MONTH_AGO_UNIX =
  * Uses start_time ~1 month ago so managers created more than 24h ago are found.
  * @see https://docs.sui.io/standards/deepbook-margin-indexer (Get margin manager creation events)
  */
-export async function fetchMarginManagerCreated(params: {
-  margin_manager_id: string;
-  limit?: number;
-  start_time?: number;
-  end_time?: number;
-}): Promise<MarginManagerCreatedEvent[]> {
+export async function fetchMarginManagerCreated(
+  params: {
+    margin_manager_id: string;
+    limit?: number;
+    start_time?: number;
+    end_time?: number;
+  },
+  network: SuiNetwork = "mainnet"
+): Promise<MarginManagerCreatedEvent[]> {
   const q: Query = {
     margin_manager_id: params.margin_manager_id,
     limit: params.limit ?? 10,
@@ -355,14 +410,15 @@ export async function fetchMarginManagerCreated(params: {
   if (params.end_time != null) q.end_time = params.end_time;
   const raw = await get<MarginManagerCreatedEvent[] | unknown>(
     "/margin_manager_created",
-    q
+    q,
+    network
   );
   const list = Array.isArray(raw) ? raw : [];
   if (__DEV__ && list.length === 0) {
     console.log("[fetchMarginManagerCreated] no events for margin_manager_id", {
       margin_manager_id: params.margin_manager_id.slice(0, 18) + "…",
       start_time: q.start_time,
-      url: buildUrl("/margin_manager_created", q),
+      url: buildUrl("/margin_manager_created", q, network),
     });
   } else if (__DEV__ && list.length > 0) {
     console.log("[fetchMarginManagerCreated] found", list.length, "event(s), balance_manager_id", list[0].balance_manager_id?.slice(0, 18) + "…");
@@ -375,19 +431,22 @@ export async function fetchMarginManagerCreated(params: {
  * fetchMarginManagerCreated first to get balance_manager_id from margin_manager_id.
  * @see https://docs.sui.io/standards/deepbookv3-indexer (Get orders by balance manager)
  */
-export async function fetchOrders(params: {
-  pool_name: string;
-  balance_manager_id: string;
-  limit?: number;
-  status?: string; // e.g. "Placed" or "Placed,Canceled,Filled"
-}): Promise<DeepBookOrder[]> {
+export async function fetchOrders(
+  params: {
+    pool_name: string;
+    balance_manager_id: string;
+    limit?: number;
+    status?: string; // e.g. "Placed" or "Placed,Canceled,Filled"
+  },
+  network: SuiNetwork = "mainnet"
+): Promise<DeepBookOrder[]> {
   const path = `/orders/${encodeURIComponent(
     params.pool_name
   )}/${encodeURIComponent(params.balance_manager_id)}`;
   const q: Query = {};
   if (params.limit != null) q.limit = params.limit;
   if (params.status != null && params.status !== "") q.status = params.status;
-  const raw = await get<DeepBookOrder[] | unknown>(path, q);
+  const raw = await get<DeepBookOrder[] | unknown>(path, q, network);
   return Array.isArray(raw) ? raw : [];
 }
 
@@ -417,14 +476,17 @@ export interface DeepBookTrade {
  * taker_balance_manager_id to filter by user (pass both to get all trades for that user).
  * @see https://docs.sui.io/standards/deepbookv3-indexer (Get trades)
  */
-export async function fetchTrades(params: {
-  pool_name: string;
-  limit?: number;
-  start_time?: number;
-  end_time?: number;
-  maker_balance_manager_id?: string;
-  taker_balance_manager_id?: string;
-}): Promise<DeepBookTrade[]> {
+export async function fetchTrades(
+  params: {
+    pool_name: string;
+    limit?: number;
+    start_time?: number;
+    end_time?: number;
+    maker_balance_manager_id?: string;
+    taker_balance_manager_id?: string;
+  },
+  network: SuiNetwork = "mainnet"
+): Promise<DeepBookTrade[]> {
   const path = `/trades/${encodeURIComponent(params.pool_name)}`;
   const q: Query = {};
   if (params.limit != null) q.limit = params.limit;
@@ -440,9 +502,9 @@ export async function fetchTrades(params: {
     params.taker_balance_manager_id !== ""
   )
     q.taker_balance_manager_id = params.taker_balance_manager_id;
-  const fullUrl = buildUrl(path, q);
+  const fullUrl = buildUrl(path, q, network);
   if (__DEV__) console.log("[fetchTrades] API call:", fullUrl);
-  const raw = await get<DeepBookTrade[] | unknown>(path, q);
+  const raw = await get<DeepBookTrade[] | unknown>(path, q, network);
   return Array.isArray(raw) ? raw : [];
 }
 
@@ -482,7 +544,8 @@ export async function fetchOhlcv(
     limit?: number;
     start_time?: number;
     end_time?: number;
-  } = {}
+  } = {},
+  network: SuiNetwork = "mainnet"
 ): Promise<OhlcvResponse> {
   const { interval = "1h", limit = 168, start_time, end_time } = params;
   const path = `/ohclv/${encodeURIComponent(poolName)}`;
@@ -490,9 +553,9 @@ export async function fetchOhlcv(
   if (start_time != null) q.start_time = start_time;
   if (end_time != null) q.end_time = end_time;
   if (typeof __DEV__ !== "undefined" && __DEV__) {
-    console.log("[OHLCV] fetchOhlcv exact URL", buildUrl(path, q));
+    console.log("[OHLCV] fetchOhlcv exact URL", buildUrl(path, q, network));
   }
-  const raw = await get<OhlcvResponse | unknown>(path, q);
+  const raw = await get<OhlcvResponse | unknown>(path, q, network);
   if (
     raw &&
     typeof raw === "object" &&
@@ -507,11 +570,12 @@ export async function fetchOhlcv(
 /** Dummy/debug call: fetch OHLCV with given params and log raw response (for debugging timeline). */
 export async function debugFetchOhlcv(
   poolName: string,
-  params: { interval?: OhlcvInterval; limit?: number } = {}
+  params: { interval?: OhlcvInterval; limit?: number } = {},
+  network: SuiNetwork = "mainnet"
 ): Promise<OhlcvResponse> {
   const { interval = "1m", limit = 10 } = params;
   const path = `/ohclv/${encodeURIComponent(poolName)}`;
-  const url = buildUrl(path, { interval, limit });
+  const url = buildUrl(path, { interval, limit }, network);
   console.log("[OHLCV debug] GET", url);
   const res = await fetch(url);
   const text = await res.text();
@@ -577,16 +641,136 @@ export interface TickerEntry {
 }
 
 /** GET /ticker – all trading pairs with last_price, volume. Good for list + polling. */
-export async function fetchTicker(): Promise<Record<string, TickerEntry>> {
+export async function fetchTicker(
+  network: SuiNetwork = "mainnet"
+): Promise<Record<string, TickerEntry>> {
   if (typeof __DEV__ !== "undefined" && __DEV__) {
-    console.log("[Ticker] fetchTicker", buildUrl("/ticker"));
+    console.log("[Ticker] fetchTicker", buildUrl("/ticker", undefined, network));
   }
-  const raw = await get<Record<string, TickerEntry> | unknown>("/ticker");
+  const raw = await get<Record<string, TickerEntry> | unknown>(
+    "/ticker",
+    undefined,
+    network
+  );
   if (raw && typeof raw === "object" && raw !== null)
     return raw as Record<string, TickerEntry>;
   return {};
 }
 
+// --- DeepBookV3: Order book (bids / asks by price level) ---
+
+export interface OrderbookLevel {
+  price: number;
+  quantity: number;
+}
+
+export interface Orderbook {
+  /** ms; 0 when the indexer omits it. */
+  timestamp: number;
+  /** Best (highest) bid first. */
+  bids: OrderbookLevel[];
+  /** Best (lowest) ask first. */
+  asks: OrderbookLevel[];
+}
+
+function parseOrderbookLevels(raw: unknown): OrderbookLevel[] {
+  if (!Array.isArray(raw)) return [];
+  const levels: OrderbookLevel[] = [];
+  for (const entry of raw) {
+    if (!Array.isArray(entry) || entry.length < 2) continue;
+    const price = Number(entry[0]);
+    const quantity = Number(entry[1]);
+    if (Number.isFinite(price) && Number.isFinite(quantity) && quantity > 0) {
+      levels.push({ price, quantity });
+    }
+  }
+  return levels;
+}
+
+/**
+ * GET /orderbook/:pool_name – bids and asks as [price, quantity] strings (human units).
+ * level 2 = price levels only (default); depth = levels per side, 0 for the full book.
+ * @see https://docs.sui.io/standards/deepbookv3-indexer#get-orderbook
+ */
+export async function fetchOrderbook(
+  poolName: string,
+  params: { level?: 1 | 2; depth?: number } = {},
+  network: SuiNetwork = "mainnet"
+): Promise<Orderbook> {
+  const { level = 2, depth = 20 } = params;
+  const raw = await get<unknown>(
+    `/orderbook/${encodeURIComponent(poolName)}`,
+    { level, depth },
+    network
+  );
+  return orderbookFromIndexer(raw);
+}
+
+/** Normalize an indexer order book body ({ timestamp, bids, asks } with [price, quantity] strings). */
+export function orderbookFromIndexer(raw: unknown): Orderbook {
+  const body =
+    raw && typeof raw === "object"
+      ? (raw as { timestamp?: string | number; bids?: unknown; asks?: unknown })
+      : {};
+  return {
+    timestamp: Number(body.timestamp ?? 0) || 0,
+    bids: parseOrderbookLevels(body.bids).sort((a, b) => b.price - a.price),
+    asks: parseOrderbookLevels(body.asks).sort((a, b) => a.price - b.price),
+  };
+}
+
+/** Apply a market stream order book delta ([price, quantity] per changed level; quantity 0 removes it). */
+export function applyOrderbookDelta(book: Orderbook, delta: unknown): Orderbook {
+  const body =
+    delta && typeof delta === "object"
+      ? (delta as { timestamp?: string | number; bids?: unknown; asks?: unknown })
+      : {};
+  const apply = (levels: OrderbookLevel[], changes: unknown) => {
+    const byPrice = new Map(levels.map((l) => [l.price, l.quantity]));
+    if (Array.isArray(changes)) {
+      for (const change of changes) {
+        if (!Array.isArray(change) || change.length < 2) continue;
+        const price = Number(change[0]);
+        const quantity = Number(change[1]);
+        if (!Number.isFinite(price)) continue;
+        if (quantity > 0) byPrice.set(price, quantity);
+        else byPrice.delete(price);
+      }
+    }
+    return Array.from(byPrice, ([price, quantity]) => ({ price, quantity }));
+  };
+  return {
+    timestamp: Number(body.timestamp ?? 0) || book.timestamp,
+    bids: apply(book.bids, body.bids).sort((a, b) => b.price - a.price),
+    asks: apply(book.asks, body.asks).sort((a, b) => a.price - b.price),
+  };
+}
+
+/**
+ * Group levels into buckets of `step` (quote per base). Bids round down and asks round up so a
+ * bucket never shows a better price than the orders in it. step <= 0 returns the levels unchanged.
+ */
+export function aggregateOrderbookLevels(
+  levels: OrderbookLevel[],
+  step: number,
+  side: "bid" | "ask"
+): OrderbookLevel[] {
+  if (!(step > 0)) return levels;
+  const buckets = new Map<number, number>();
+  for (const { price, quantity } of levels) {
+    // Round the bucket index first so float noise (e.g. 3.7 / 0.1) does not split buckets.
+    const ratio = Math.round((price / step) * 1e8) / 1e8;
+    const index = side === "bid" ? Math.floor(ratio) : Math.ceil(ratio);
+    buckets.set(index, (buckets.get(index) ?? 0) + quantity);
+  }
+  return Array.from(buckets.entries())
+    .map(([index, quantity]) => ({
+      price: Number((index * step).toPrecision(12)),
+      quantity,
+    }))
+    .sort((a, b) => (side === "bid" ? b.price - a.price : a.price - b.price));
+}
+
 // --- Helpers for display ---
 
 const PythDecimals = 8;
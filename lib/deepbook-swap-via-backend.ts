@@ -0,0 +1,160 @@
+/**
+ * Direct Sui-to-Sui swaps on DeepBook via backend: quote (GET /api/deepbook-swap-quote) and swap
+ * (prepare -> sign -> execute). Only pairs with a DeepBook pool; fees are paid in the input coin.
+ * The swap screen quotes this next to LI.FI and uses whichever returns more.
+ * @see https://docs.sui.io/standards/deepbookv3-sdk/swaps
+ */
+
+import { apiErrorFromBody } from "@/lib/api-error";
+import {
+  TX_CANCELLED_MESSAGE,
+  type ConfirmBeforeSign,
+} from "@/lib/simulate-via-backend";
+
+const DEFAULT_NETWORK = "mainnet";
+
+export type DeepbookSwapQuote = {
+  poolKey: string;
+  direction: "base_for_quote" | "quote_for_base";
+  fromCoinKey: string;
+  toCoinKey: string;
+  /** Human amounts. */
+  amountIn: number;
+  amountOut: number;
+  /** Input left over after rounding to the pool's lot size; stays with the sender. */
+  amountUnfilled: number;
+};
+
+export type DeepbookSwapViaBackendParams = {
+  apiUrl: string;
+  sender: string;
+  fromCoinType: string;
+  toCoinType: string;
+  /** Human amount of fromCoinType. */
+  amount: number;
+  /** Human amount of toCoinType; the swap aborts on chain when it would return less. */
+  minOut: number;
+  signRawHash: (params: {
+    address: string;
+    chainType: "sui";
+    hash: `0x${string}`;
+  }) => Promise<{ signature: string }>;
+  publicKeyHex: string;
+  /** Optional pre-sign preview (e.g. dry-run confirm sheet); resolve false to cancel. */
+  confirmBeforeSign?: ConfirmBeforeSign;
+  /** Ask the backend to pay gas via its sponsor (see GET /api/sponsor-status). */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+};
+
+/** Null when no DeepBook pool trades the pair directly. */
+export async function fetchDeepbookSwapQuoteViaBackend(params: {
+  apiUrl: string;
+  fromCoinType: string;
+  toCoinType: string;
+  amount: number;
+  network?: "mainnet" | "testnet";
+}): Promise<DeepbookSwapQuote | null> {
+  const { apiUrl, fromCoinType, toCoinType, amount, network = DEFAULT_NETWORK } = params;
+  const base = apiUrl.replace(/\/$/, "");
+  const search = new URLSearchParams({
+    fromCoinType,
+    toCoinType,
+    amount: String(amount),
+    network,
+  });
+  const res = await fetch(`${base}/api/deepbook-swap-quote?${search.toString()}`);
+  const json = await res.json();
+  if (!res.ok) {
+    throw apiErrorFromBody(json, "DeepBook quote failed");
+  }
+  return (json as { quote: DeepbookSwapQuote | null }).quote ?? null;
+}
+
+/**
+ * 1. POST /api/prepare-deepbook-swap -> intentMessageHashHex, txBytesBase64
+ * 2. Sign intentMessageHashHex with signRawHash
+ * 3. POST /api/execute-transfer -> digest
+ */
+export async function deepbookSwapViaBackend(
+  params: DeepbookSwapViaBackendParams
+): Promise<{ digest: string }> {
+  const {
+    apiUrl,
+    sender,
+    fromCoinType,
+    toCoinType,
+    amount,
+    minOut,
+    signRawHash,
+    publicKeyHex,
+    confirmBeforeSign,
+    sponsored = false,
+    network = DEFAULT_NETWORK,
+  } = params;
+
+  if (!(amount > 0)) {
+    throw new Error("Amount must be positive");
+  }
+  if (!(minOut > 0)) {
+    throw new Error("Minimum output must be positive");
+  }
+  const base = apiUrl.replace(/\/$/, "");
+
+  const prepareRes = await fetch(`${base}/api/prepare-deepbook-swap`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      sender,
+      fromCoinType,
+      toCoinType,
+      amount,
+      minOut,
+      sponsored,
+      network,
+    }),
+  });
+  const prepareJson = await prepareRes.json();
+  if (!prepareRes.ok) {
+    throw apiErrorFromBody(prepareJson, "Prepare DeepBook swap failed");
+  }
+  const { intentMessageHashHex, txBytesBase64 } = prepareJson;
+  if (
+    typeof intentMessageHashHex !== "string" ||
+    !intentMessageHashHex ||
+    typeof txBytesBase64 !== "string" ||
+    !txBytesBase64
+  ) {
+    throw new Error("Invalid prepare response");
+  }
+
+  if (confirmBeforeSign && !(await confirmBeforeSign(txBytesBase64))) {
+    throw new Error(TX_CANCELLED_MESSAGE);
+  }
+
+  const { signature: signatureHex } = await signRawHash({
+    address: sender,
+    chainType: "sui",
+    hash: intentMessageHashHex.startsWith("0x")
+      ? (intentMessageHashHex as `0x${string}`)
+      : (`0x${intentMessageHashHex}` as `0x${string}`),
+  });
+
+  const executeRes = await fetch(`${base}/api/execute-transfer`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      txBytesBase64,
+      signatureHex,
+      publicKeyHex: publicKeyHex.startsWith("0x")
+        ? publicKeyHex
+        : "0x" + publicKeyHex,
+      network,
+    }),
+  });
+  const executeJson = await executeRes.json();
+  if (!executeRes.ok) {
+    throw apiErrorFromBody(executeJson, "Execute failed");
+  }
+  return { digest: String(executeJson.digest) };
+}
@@ -2,8 +2,28 @@
  * Fetch margin manager state from chain via backend (getObject + optional devInspect).
  * @see https://docs.sui.io/standards/deepbook-margin-sdk/margin-manager#borrowedshares-borrowedbaseshares-borrowedquoteshares-hasbasedebt
  * @see https://docs.sui.io/standards/deepbook-margin-sdk/margin-manager#balancemanager-calculateassets-calculatedebts
+ * debts: exact per-side debt from the margin pool's borrow index, with accrued interest and borrow APR.
  */
 
+import { apiErrorFromBody } from "@/lib/api-error";
+
+/** Debt on one side of a margin manager. Human amounts unless suffixed Raw. */
+export type MarginDebt = {
+  coinKey: string;
+  marginPoolId: string;
+  /** Borrowed shares (raw u64). */
+  shares: string;
+  /** Debt per borrowed share. */
+  borrowIndex: number;
+  amountRaw: string;
+  amount: number;
+  /** Borrowed − repaid principal; null when the borrow history is unknown. */
+  principal: number | null;
+  accruedInterest: number | null;
+  /** Annual borrow rate (0.05 = 5%). */
+  borrowApr: number;
+};
+
 export type MarginBorrowedSharesResponse = {
   margin_manager_id: string;
   owner: string | null;
@@ -16,6 +36,7 @@ export type MarginBorrowedSharesResponse = {
   balanceManager: { id: string } | null;
   calculateAssets: { base_asset: string; quote_asset: string } | null;
   calculateDebts: { base_debt: string; quote_debt: string } | null;
+  debts: { base: MarginDebt | null; quote: MarginDebt | null } | null;
   source: "chain";
   _debug?: { resultCount: number };
 };
@@ -40,9 +61,7 @@ export async function fetchMarginBorrowedSharesViaBackend(params: {
   const res = await fetch(url);
   const json = await res.json();
   if (!res.ok) {
-    throw new Error(
-      (json.error as string) ?? "Failed to fetch margin borrowed shares"
-    );
+    throw apiErrorFromBody(json, "Failed to fetch margin borrowed shares");
   }
   return json as MarginBorrowedSharesResponse;
 }
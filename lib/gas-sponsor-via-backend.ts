@@ -0,0 +1,30 @@
+/**
+ * Gas sponsorship status from the backend (GET /api/sponsor-status).
+ * When enabled, prepare calls can pass `sponsored: true` so users without SUI can still transact.
+ */
+
+import { apiErrorFromBody } from "@/lib/api-error";
+
+export type SponsorStatus = {
+  enabled: boolean;
+  sponsorAddress: string | null;
+  dailyBudgetMist: string;
+  spentTodayMist: string;
+  remainingMist: string;
+};
+
+export async function fetchSponsorStatusViaBackend(params: {
+  apiUrl: string;
+  address: string;
+}): Promise<SponsorStatus> {
+  const { apiUrl, address } = params;
+  const base = apiUrl.replace(/\/$/, "");
+  const res = await fetch(
+    `${base}/api/sponsor-status?address=${encodeURIComponent(address)}`
+  );
+  const json = await res.json();
+  if (!res.ok) {
+    throw apiErrorFromBody(json, "Failed to fetch sponsor status");
+  }
+  return json as SponsorStatus;
+}
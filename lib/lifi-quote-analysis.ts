@@ -0,0 +1,105 @@
+/**
+ * Cost breakdown of a LI.FI quote: fee costs, gas costs and USD price impact from the quote's estimate.
+ * Works on a /v1/quote response, an advanced stepTransaction response or a single-step route's step
+ * (all share the step shape). Price impact is (fromUSD − toUSD) / fromUSD, so it includes fees that are
+ * taken out of the output; it is null when LI.FI has no USD price for either token.
+ * - warn: at least PRICE_IMPACT_WARN (shown next to the quote).
+ * - confirm: at least PRICE_IMPACT_CONFIRM; flows ask for explicit confirmation before sending.
+ */
+
+/** 1%. */
+export const PRICE_IMPACT_WARN = 0.01;
+/** 3%. */
+export const PRICE_IMPACT_CONFIRM = 0.03;
+
+export type QuoteCost = {
+  name: string;
+  amountUSD: number;
+  /** Already taken out of the output amount (vs paid on top, e.g. native fees). */
+  included: boolean;
+};
+
+export type QuoteAnalysisLevel = "ok" | "warn" | "confirm" | "unknown";
+
+export type LifiQuoteAnalysis = {
+  feeCosts: QuoteCost[];
+  feesUSD: number;
+  gasCosts: QuoteCost[];
+  gasUSD: number;
+  fromAmountUSD: number | null;
+  toAmountUSD: number | null;
+  priceImpact: number | null;
+  level: QuoteAnalysisLevel;
+};
+
+type RawCost = { name?: string; type?: string; amountUSD?: string; included?: boolean };
+
+type QuoteLike = {
+  fromAmountUSD?: string;
+  toAmountUSD?: string;
+  estimate?: {
+    fromAmountUSD?: string;
+    toAmountUSD?: string;
+    feeCosts?: RawCost[];
+    gasCosts?: RawCost[];
+  };
+};
+
+function usd(value: string | undefined): number | null {
+  const n = value != null ? Number(value) : NaN;
+  return Number.isFinite(n) ? n : null;
+}
+
+function readCosts(costs: RawCost[] | undefined, fallbackName: string): QuoteCost[] {
+  return (costs ?? []).map((c) => ({
+    name: c.name ?? c.type ?? fallbackName,
+    amountUSD: usd(c.amountUSD) ?? 0,
+    included: c.included === true,
+  }));
+}
+
+export function priceImpactLevel(priceImpact: number | null): QuoteAnalysisLevel {
+  if (priceImpact == null) return "unknown";
+  if (priceImpact >= PRICE_IMPACT_CONFIRM) return "confirm";
+  if (priceImpact >= PRICE_IMPACT_WARN) return "warn";
+  return "ok";
+}
+
+export function analyzeLifiQuote(quote: unknown): LifiQuoteAnalysis {
+  const q = (quote ?? {}) as QuoteLike;
+  const feeCosts = readCosts(q.estimate?.feeCosts, "Fee");
+  const gasCosts = readCosts(q.estimate?.gasCosts, "Gas");
+  const fromAmountUSD = usd(q.estimate?.fromAmountUSD ?? q.fromAmountUSD);
+  const toAmountUSD = usd(q.estimate?.toAmountUSD ?? q.toAmountUSD);
+  const priceImpact =
+    fromAmountUSD != null && fromAmountUSD > 0 && toAmountUSD != null
+      ? (fromAmountUSD - toAmountUSD) / fromAmountUSD
+      : null;
+  return {
+    feeCosts,
+    feesUSD: feeCosts.reduce((sum, c) => sum + c.amountUSD, 0),
+    gasCosts,
+    gasUSD: gasCosts.reduce((sum, c) => sum + c.amountUSD, 0),
+    fromAmountUSD,
+    toAmountUSD,
+    priceImpact,
+    level: priceImpactLevel(priceImpact),
+  };
+}
+
+/** One line per cost plus the impact, for warnings and confirmation prompts. */
+export function describeQuoteAnalysis(analysis: LifiQuoteAnalysis): string[] {
+  const money = (v: number) => (v > 0 && v < 0.01 ? "<$0.01" : `$${v.toFixed(2)}`);
+  return [
+    ...analysis.feeCosts.map(
+      (c) => `${c.name}: ${money(c.amountUSD)}${c.included ? "" : " (paid on top)"}`
+    ),
+    `Gas: ${money(analysis.gasUSD)}`,
+    analysis.priceImpact != null
+      ? `Price impact: ${(analysis.priceImpact * 100).toFixed(2)}%` +
+        (analysis.fromAmountUSD != null && analysis.toAmountUSD != null
+          ? ` (${money(analysis.fromAmountUSD)} → ${money(analysis.toAmountUSD)})`
+          : "")
+      : "Price impact: unknown (no USD price)",
+  ];
+}
@@ -2,9 +2,10 @@
  * LI.FI API: quote and status for cross-chain transfers.
  * - Quote: https://li.quest/v1/quote
  * - Status: https://li.quest/v1/status (track bridge and get destination tx)
+ * Multi-route comparison (advanced routes API) lives in lifi-routes.ts.
  */
 
-const LIFI_BASE = "https://li.quest/v1";
+export const LIFI_BASE = "https://li.quest/v1";
 const LIFI_QUOTE_URL = `${LIFI_BASE}/quote`;
 const LIFI_STATUS_URL = `${LIFI_BASE}/status`;
 
@@ -59,14 +60,14 @@ export type LifiStatusResponse = {
     txHash: string;
     txLink: string;
     amount: string;
-    token?: { symbol: string; decimals?: number; chainId?: number };
+    token?: { symbol: string; decimals?: number; chainId?: number; address?: string };
     chainId?: number;
   };
   receiving?: {
     txHash: string;
     txLink: string;
     amount: string;
-    token?: { symbol: string; decimals?: number; chainId?: number };
+    token?: { symbol: string; decimals?: number; chainId?: number; address?: string };
     chainId?: number;
   };
   lifiExplorerLink?: string;
@@ -0,0 +1,200 @@
+/**
+ * LI.FI advanced routes: several candidate routes per transfer instead of the single one /v1/quote picks.
+ * - Routes: POST https://li.quest/v1/advanced/routes
+ * - Step transaction: POST https://li.quest/v1/advanced/stepTransaction (fills in transactionRequest for
+ *   the chosen route's step; same shape as a /v1/quote response, so the send code is shared).
+ * Only single-step routes are kept: the app signs one source-chain transaction per transfer, and a second
+ * step would have to be signed on the destination chain after the bridge lands.
+ */
+
+import { LIFI_BASE, type LifiQuoteParams } from "@/lib/lifi-quote";
+
+const LIFI_ROUTES_URL = `${LIFI_BASE}/advanced/routes`;
+const LIFI_STEP_TRANSACTION_URL = `${LIFI_BASE}/advanced/stepTransaction`;
+
+type LifiToolDetails = { key: string; name: string; logoURI?: string };
+
+type LifiCost = { name?: string; amount?: string; amountUSD?: string; included?: boolean };
+
+export type LifiRouteStep = {
+  id: string;
+  /** "cross" = bridge, "swap" = same-chain swap, "lifi" = bundle of includedSteps. */
+  type: "lifi" | "swap" | "cross" | "protocol";
+  tool: string;
+  toolDetails?: LifiToolDetails;
+  action: { fromChainId: number; toChainId: number };
+  estimate: {
+    fromAmount: string;
+    toAmount: string;
+    toAmountMin: string;
+    approvalAddress?: string;
+    /** Seconds. */
+    executionDuration?: number;
+    feeCosts?: LifiCost[];
+    gasCosts?: LifiCost[];
+  };
+  includedSteps?: LifiRouteStep[];
+};
+
+export type LifiRoute = {
+  id: string;
+  fromChainId: number;
+  toChainId: number;
+  fromAmount: string;
+  fromAmountUSD?: string;
+  toAmount: string;
+  toAmountMin: string;
+  toAmountUSD?: string;
+  gasCostUSD?: string;
+  toToken: { symbol: string; decimals: number };
+  steps: LifiRouteStep[];
+  /** LI.FI's own labels, e.g. RECOMMENDED, CHEAPEST, FASTEST. */
+  tags?: string[];
+};
+
+/** What the picker shows per route; USD values are null when LI.FI has no price for a token. */
+export type LifiRouteSummary = {
+  id: string;
+  /** Raw units of the destination token. */
+  toAmount: string;
+  toAmountMin: string;
+  toAmountUSD: number | null;
+  feesUSD: number;
+  gasUSD: number;
+  /** Seconds, summed over steps. */
+  durationSeconds: number;
+  /** (fromUSD − toUSD) / fromUSD, fees included; null without USD prices. */
+  priceImpact: number | null;
+  /** Every tool the route goes through, in order (DEXes and bridges). */
+  tools: string[];
+  bridges: string[];
+};
+
+export type LifiRouteRanking = "output" | "fees" | "gas" | "eta";
+
+export type LifiRoutesParams = LifiQuoteParams & {
+  /** LI.FI's server-side preference; the app ranks again with rankLifiRoutes. */
+  order?: "RECOMMENDED" | "CHEAPEST" | "FASTEST";
+};
+
+function usd(value: string | undefined): number | null {
+  const n = value != null ? Number(value) : NaN;
+  return Number.isFinite(n) ? n : null;
+}
+
+function sumUsd(costs: LifiCost[] | undefined): number {
+  return (costs ?? []).reduce((sum, c) => sum + (usd(c.amountUSD) ?? 0), 0);
+}
+
+function toolName(step: LifiRouteStep): string {
+  return step.toolDetails?.name ?? step.tool;
+}
+
+/**
+ * Request candidate routes from LI.FI. fromAmount must be in the token's smallest unit.
+ * Returns single-step routes only (see file comment); throws on HTTP error.
+ */
+export async function fetchLifiRoutes(params: LifiRoutesParams): Promise<LifiRoute[]> {
+  const res = await fetch(LIFI_ROUTES_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      fromChainId: params.fromChainId,
+      toChainId: params.toChainId,
+      fromTokenAddress: params.fromTokenAddress,
+      toTokenAddress: params.toTokenAddress,
+      fromAmount: params.fromAmount,
+      fromAddress: params.fromAddress,
+      ...(params.toAddress ? { toAddress: params.toAddress } : {}),
+      options: {
+        ...(params.slippage != null ? { slippage: params.slippage } : {}),
+        order: params.order ?? "RECOMMENDED",
+        allowSwitchChain: false,
+      },
+    }),
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`LI.FI routes failed (${res.status}): ${text || res.statusText}`);
+  }
+  const json = (await res.json()) as { routes?: LifiRoute[] };
+  return (json.routes ?? []).filter((r) => r.steps?.length === 1);
+}
+
+/**
+ * Fill in transactionRequest for a route step. The result has the same shape as a /v1/quote response
+ * (transactionRequest, estimate.approvalAddress, action.fromChainId).
+ */
+export async function fetchLifiStepTransaction(step: LifiRouteStep): Promise<unknown> {
+  const res = await fetch(LIFI_STEP_TRANSACTION_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(step),
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`LI.FI step transaction failed (${res.status}): ${text || res.statusText}`);
+  }
+  return res.json();
+}
+
+export function summarizeLifiRoute(route: LifiRoute): LifiRouteSummary {
+  const fromUSD = usd(route.fromAmountUSD);
+  const toAmountUSD = usd(route.toAmountUSD);
+  const leaves = route.steps.flatMap((s) =>
+    s.includedSteps?.length ? s.includedSteps : [s]
+  );
+  const tools = [...new Set(leaves.map(toolName))];
+  const bridges = [...new Set(leaves.filter((s) => s.type === "cross").map(toolName))];
+  return {
+    id: route.id,
+    toAmount: route.toAmount,
+    toAmountMin: route.toAmountMin,
+    toAmountUSD,
+    feesUSD: route.steps.reduce((sum, s) => sum + sumUsd(s.estimate.feeCosts), 0),
+    gasUSD:
+      usd(route.gasCostUSD) ??
+      route.steps.reduce((sum, s) => sum + sumUsd(s.estimate.gasCosts), 0),
+    durationSeconds: route.steps.reduce(
+      (sum, s) => sum + (s.estimate.executionDuration ?? 0),
+      0
+    ),
+    priceImpact:
+      fromUSD != null && fromUSD > 0 && toAmountUSD != null
+        ? (fromUSD - toAmountUSD) / fromUSD
+        : null,
+    tools,
+    bridges,
+  };
+}
+
+function compareOutput(a: LifiRouteSummary, b: LifiRouteSummary): number {
+  const diff = BigInt(b.toAmount) - BigInt(a.toAmount);
+  return diff > BigInt(0) ? 1 : diff < BigInt(0) ? -1 : 0;
+}
+
+/** Best first. Ties fall back to output, so equal-cost routes still prefer the one that returns more. */
+export function rankLifiRoutes(
+  summaries: LifiRouteSummary[],
+  ranking: LifiRouteRanking
+): LifiRouteSummary[] {
+  const primary: Record<LifiRouteRanking, (a: LifiRouteSummary, b: LifiRouteSummary) => number> = {
+    output: () => 0,
+    fees: (a, b) => a.feesUSD - b.feesUSD,
+    gas: (a, b) => a.gasUSD - b.gasUSD,
+    eta: (a, b) => a.durationSeconds - b.durationSeconds,
+  };
+  return [...summaries].sort((a, b) => primary[ranking](a, b) || compareOutput(a, b));
+}
+
+/** Raw token units to a trimmed decimal string (e.g. "1500000", 6 -> "1.5"). */
+export function formatLifiAmount(raw: string, decimals: number): string {
+  const big = BigInt(raw || "0");
+  const divisor = BigInt(10) ** BigInt(decimals);
+  const whole = big / divisor;
+  const frac = big % divisor;
+  const fracStr = frac.toString().padStart(decimals, "0").slice(0, decimals);
+  return fracStr === "0".repeat(fracStr.length)
+    ? whole.toString()
+    : `${whole}.${fracStr.replace(/0+$/, "")}`;
+}
@@ -2,6 +2,12 @@
  * Margin deposit/withdraw via backend: prepare -> sign -> execute-transfer.
  */
 
+import { apiErrorFromBody } from "@/lib/api-error";
+import {
+  TX_CANCELLED_MESSAGE,
+  type ConfirmBeforeSign,
+} from "@/lib/simulate-via-backend";
+
 const DEFAULT_NETWORK = "mainnet";
 
 export type MarginDepositViaBackendParams = {
@@ -17,6 +23,10 @@ export type MarginDepositViaBackendParams = {
     hash: `0x${string}`;
   }) => Promise<{ signature: string }>;
   publicKeyHex: string;
+  /** Optional pre-sign preview (e.g. dry-run confirm sheet); resolve false to cancel. */
+  confirmBeforeSign?: ConfirmBeforeSign;
+  /** Ask the backend to pay gas via its sponsor (see GET /api/sponsor-status). */
+  sponsored?: boolean;
   network?: "mainnet" | "testnet";
 };
 
@@ -45,7 +55,7 @@ async function executeSignedTx(
   });
   const executeJson = await executeRes.json();
   if (!executeRes.ok) {
-    throw new Error((executeJson.error as string) ?? "Execute failed");
+    throw apiErrorFromBody(executeJson, "Execute failed");
   }
   return { digest: executeJson.digest };
 }
@@ -62,6 +72,8 @@ export async function depositMarginViaBackend(
     amount,
     signRawHash,
     publicKeyHex,
+    confirmBeforeSign,
+    sponsored = false,
     network = DEFAULT_NETWORK,
   } = params;
 
@@ -76,12 +88,13 @@ export async function depositMarginViaBackend(
       poolKey,
       asset,
       amount,
+      sponsored,
       network,
     }),
   });
   const prepareJson = await prepareRes.json();
   if (!prepareRes.ok) {
-    throw new Error((prepareJson.error as string) ?? "Prepare deposit failed");
+    throw apiErrorFromBody(prepareJson, "Prepare deposit failed");
   }
 
   const intentMessageHashHex =
@@ -97,6 +110,10 @@ export async function depositMarginViaBackend(
     throw new Error("Invalid prepare response");
   }
 
+  if (confirmBeforeSign && !(await confirmBeforeSign(txBytesBase64))) {
+    throw new Error(TX_CANCELLED_MESSAGE);
+  }
+
   const { signature: signatureHex } = await signRawHash({
     address: sender,
     chainType: "sui",
@@ -126,6 +143,8 @@ export async function withdrawMarginViaBackend(
     amount,
     signRawHash,
     publicKeyHex,
+    confirmBeforeSign,
+    sponsored = false,
     network = DEFAULT_NETWORK,
   } = params;
 
@@ -140,12 +159,13 @@ export async function withdrawMarginViaBackend(
       poolKey,
       asset,
       amount,
+      sponsored,
       network,
     }),
   });
   const prepareJson = await prepareRes.json();
   if (!prepareRes.ok) {
-    throw new Error((prepareJson.error as string) ?? "Prepare withdraw failed");
+    throw apiErrorFromBody(prepareJson, "Prepare withdraw failed");
   }
 
   const intentMessageHashHex =
@@ -161,6 +181,10 @@ export async function withdrawMarginViaBackend(
     throw new Error("Invalid prepare response");
   }
 
+  if (confirmBeforeSign && !(await confirmBeforeSign(txBytesBase64))) {
+    throw new Error(TX_CANCELLED_MESSAGE);
+  }
+
   const { signature: signatureHex } = await signRawHash({
     address: sender,
     chainType: "sui",
@@ -191,6 +215,10 @@ export type RepayViaBackendParams = {
     hash: `0x${string}`;
   }) => Promise<{ signature: string }>;
   publicKeyHex: string;
+  /** Optional pre-sign preview (e.g. dry-run confirm sheet); resolve false to cancel. */
+  confirmBeforeSign?: ConfirmBeforeSign;
+  /** Ask the backend to pay gas via its sponsor (see GET /api/sponsor-status). */
+  sponsored?: boolean;
   network?: "mainnet" | "testnet";
 };
 
@@ -206,6 +234,8 @@ export async function repayViaBackend(
     quoteAmount = 0,
     signRawHash,
     publicKeyHex,
+    confirmBeforeSign,
+    sponsored = false,
     network = DEFAULT_NETWORK,
   } = params;
 
@@ -224,12 +254,13 @@ export async function repayViaBackend(
       poolKey,
       baseAmount: baseAmount > 0 ? baseAmount : undefined,
       quoteAmount: quoteAmount > 0 ? quoteAmount : undefined,
+      sponsored,
       network,
     }),
   });
   const prepareJson = await prepareRes.json();
   if (!prepareRes.ok) {
-    throw new Error((prepareJson.error as string) ?? "Prepare repay failed");
+    throw apiErrorFromBody(prepareJson, "Prepare repay failed");
   }
 
   const intentMessageHashHex =
@@ -245,6 +276,10 @@ export async function repayViaBackend(
     throw new Error("Invalid prepare response");
   }
 
+  if (confirmBeforeSign && !(await confirmBeforeSign(txBytesBase64))) {
+    throw new Error(TX_CANCELLED_MESSAGE);
+  }
+
   const { signature: signatureHex } = await signRawHash({
     address: sender,
     chainType: "sui",
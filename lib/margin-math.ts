@@ -0,0 +1,158 @@
+/**
+ * Margin math for a DeepBook margin manager, in plain numbers (no I/O):
+ * risk ratio, liquidation price, distance to liquidation, max withdrawable collateral and max
+ * additional borrow. Mirrors the protocol's valuation: assets and debts are valued with the manager's
+ * Pyth prices, risk_ratio = asset value / debt value. Prices returned are base in quote units
+ * (e.g. USDC per SUI). Risk parameters come from GET /api/margin-risk-params
+ * (lib/margin-risk-params-via-backend.ts).
+ * @see https://docs.sui.io/standards/deepbook-margin
+ */
+
+import type { MarginManagerState } from "@/lib/deepbook-indexer";
+
+export type MarginRiskParams = {
+  liquidationRiskRatio: number;
+  minWithdrawRiskRatio: number;
+  minBorrowRiskRatio: number;
+};
+
+/** Balances and debts in human units, with USD prices from Pyth. */
+export type MarginPosition = {
+  baseAsset: number;
+  quoteAsset: number;
+  baseDebt: number;
+  quoteDebt: number;
+  basePriceUsd: number;
+  quotePriceUsd: number;
+};
+
+export type MarginAsset = "base" | "quote";
+
+export function positionFromState(state: MarginManagerState): MarginPosition {
+  return {
+    baseAsset: Number(state.base_asset) || 0,
+    quoteAsset: Number(state.quote_asset) || 0,
+    baseDebt: Number(state.base_debt) || 0,
+    quoteDebt: Number(state.quote_debt) || 0,
+    basePriceUsd: state.base_pyth_price / 10 ** state.base_pyth_decimals,
+    quotePriceUsd: state.quote_pyth_price / 10 ** state.quote_pyth_decimals,
+  };
+}
+
+/** Base price in quote units (oracle), or null when prices are missing. */
+export function oraclePrice(p: MarginPosition): number | null {
+  return p.basePriceUsd > 0 && p.quotePriceUsd > 0 ? p.basePriceUsd / p.quotePriceUsd : null;
+}
+
+function assetValueUsd(p: MarginPosition): number {
+  return p.baseAsset * p.basePriceUsd + p.quoteAsset * p.quotePriceUsd;
+}
+
+function debtValueUsd(p: MarginPosition): number {
+  return p.baseDebt * p.basePriceUsd + p.quoteDebt * p.quotePriceUsd;
+}
+
+export function hasDebt(p: MarginPosition): boolean {
+  return p.baseDebt > 0 || p.quoteDebt > 0;
+}
+
+/** Asset value / debt value; null when there is no debt (unbounded). */
+export function riskRatio(p: MarginPosition): number | null {
+  const debt = debtValueUsd(p);
+  return debt > 0 ? assetValueUsd(p) / debt : null;
+}
+
+/**
+ * Base price (quote units) at which the risk ratio falls to liquidationRiskRatio, holding the
+ * quote price fixed. Solves B·x + Q = L·(Db·x + Dq) for x. Null when there is no debt or the
+ * ratio never reaches the threshold at any positive price (e.g. fully hedged).
+ */
+export function liquidationPrice(p: MarginPosition, liquidationRiskRatio: number): number | null {
+  if (!hasDebt(p)) return null;
+  const L = liquidationRiskRatio;
+  const denominator = p.baseAsset - L * p.baseDebt;
+  if (Math.abs(denominator) < 1e-12) return null;
+  const price = (L * p.quoteDebt - p.quoteAsset) / denominator;
+  return price > 0 && Number.isFinite(price) ? price : null;
+}
+
+/**
+ * How far the oracle price can move before liquidation: "down" for positions hurt by a falling base
+ * price (long base / quote debt), "up" for positions hurt by a rising one (short, base debt).
+ * percent is the move from the current oracle price (always >= 0; 0 = liquidatable now).
+ */
+export function distanceToLiquidation(
+  p: MarginPosition,
+  liquidationRiskRatio: number
+): { price: number; percent: number; direction: "down" | "up" } | null {
+  const current = oraclePrice(p);
+  const price = liquidationPrice(p, liquidationRiskRatio);
+  if (current == null || price == null) return null;
+  // RR < L  ⇔  (B − L·Db)·x < L·Dq − Q: with a positive coefficient, prices below the threshold liquidate.
+  const direction = p.baseAsset - liquidationRiskRatio * p.baseDebt > 0 ? "down" : "up";
+  const move = direction === "down" ? current - price : price - current;
+  return { price, percent: Math.max(0, (move / current) * 100), direction };
+}
+
+/**
+ * Largest amount of one asset that can be withdrawn while keeping the risk ratio at or above
+ * minWithdrawRiskRatio: (A − R·D) / price, capped by the balance. Without debt, the whole balance.
+ */
+export function maxWithdrawable(
+  p: MarginPosition,
+  asset: MarginAsset,
+  minWithdrawRiskRatio: number
+): number {
+  const balance = asset === "base" ? p.baseAsset : p.quoteAsset;
+  if (!hasDebt(p)) return Math.max(0, balance);
+  const priceUsd = asset === "base" ? p.basePriceUsd : p.quotePriceUsd;
+  if (!(priceUsd > 0)) return 0;
+  const headroomUsd = assetValueUsd(p) - minWithdrawRiskRatio * debtValueUsd(p);
+  return Math.min(Math.max(0, balance), Math.max(0, headroomUsd / priceUsd));
+}
+
+/**
+ * Largest additional borrow of one asset keeping the risk ratio at or above minBorrowRiskRatio.
+ * Borrowed funds stay in the manager, so assets and debt both grow by x:
+ * (A + x) / (D + x) >= R  →  x <= (A − R·D) / (R − 1).
+ */
+export function maxAdditionalBorrow(
+  p: MarginPosition,
+  asset: MarginAsset,
+  minBorrowRiskRatio: number
+): number {
+  const priceUsd = asset === "base" ? p.basePriceUsd : p.quotePriceUsd;
+  if (!(priceUsd > 0) || !(minBorrowRiskRatio > 1)) return 0;
+  const headroomUsd =
+    (assetValueUsd(p) - minBorrowRiskRatio * debtValueUsd(p)) / (minBorrowRiskRatio - 1);
+  return Math.max(0, headroomUsd / priceUsd);
+}
+
+export type MarginRiskSummary = {
+  riskRatio: number | null;
+  oraclePrice: number | null;
+  liquidation: ReturnType<typeof distanceToLiquidation>;
+  maxWithdraw: Record<MarginAsset, number>;
+  maxBorrow: Record<MarginAsset, number>;
+};
+
+/** Everything the UI shows for a manager, from its indexer state and the pool's risk params. */
+export function marginRiskSummary(
+  state: MarginManagerState,
+  params: MarginRiskParams
+): MarginRiskSummary {
+  const p = positionFromState(state);
+  return {
+    riskRatio: riskRatio(p),
+    oraclePrice: oraclePrice(p),
+    liquidation: distanceToLiquidation(p, params.liquidationRiskRatio),
+    maxWithdraw: {
+      base: maxWithdrawable(p, "base", params.minWithdrawRiskRatio),
+      quote: maxWithdrawable(p, "quote", params.minWithdrawRiskRatio),
+    },
+    maxBorrow: {
+      base: maxAdditionalBorrow(p, "base", params.minBorrowRiskRatio),
+      quote: maxAdditionalBorrow(p, "quote", params.minBorrowRiskRatio),
+    },
+  };
+}
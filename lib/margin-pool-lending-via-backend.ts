@@ -0,0 +1,173 @@
+/**
+ * Margin pool lending via backend: read pool rates and the supplier position, and supply / withdraw
+ * (prepare -> sign -> execute-transfer). Supplied funds earn the supply APR from margin borrowers.
+ * @see https://docs.sui.io/standards/deepbook-margin-sdk/margin-pool
+ */
+
+import { apiErrorFromBody } from "@/lib/api-error";
+import {
+  TX_CANCELLED_MESSAGE,
+  type ConfirmBeforeSign,
+} from "@/lib/simulate-via-backend";
+
+const DEFAULT_NETWORK = "mainnet";
+
+export type MarginPoolLendingEntry = {
+  coinKey: string;
+  marginPoolId: string;
+  coinType: string;
+  totalSupply: number;
+  totalBorrow: number;
+  supplyCap: number;
+  /** totalBorrow / totalSupply (0–1). */
+  utilization: number;
+  maxUtilizationRate: number;
+  /** Annual rates as fractions (0.05 = 5%). */
+  borrowApr: number;
+  protocolSpread: number;
+  supplyApr: number;
+  position: {
+    shares: number;
+    amount: number;
+    principal: number | null;
+    interestEarned: number | null;
+  } | null;
+};
+
+export type MarginPoolLending = {
+  /** Cap new supplies go to (the first owned). */
+  supplierCapId: string | null;
+  /** Every SupplierCap owned; positions are summed over all of them. */
+  supplierCapIds: string[];
+  pools: MarginPoolLendingEntry[];
+};
+
+export type MarginPoolActionViaBackendParams = {
+  apiUrl: string;
+  sender: string;
+  /** Margin pool coin key (e.g. USDC). */
+  coinKey: string;
+  /** Human amount. Withdraw: omit to withdraw everything. */
+  amount?: number;
+  signRawHash: (params: {
+    address: string;
+    chainType: "sui";
+    hash: `0x${string}`;
+  }) => Promise<{ signature: string }>;
+  publicKeyHex: string;
+  /** Optional pre-sign preview (e.g. dry-run confirm sheet); resolve false to cancel. */
+  confirmBeforeSign?: ConfirmBeforeSign;
+  /** Ask the backend to pay gas via its sponsor (see GET /api/sponsor-status). */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+};
+
+export async function fetchMarginPoolLendingViaBackend(params: {
+  apiUrl: string;
+  owner?: string | null;
+  network?: "mainnet" | "testnet";
+}): Promise<MarginPoolLending> {
+  const { apiUrl, owner, network = DEFAULT_NETWORK } = params;
+  const base = apiUrl.replace(/\/$/, "");
+  const search = new URLSearchParams({ network });
+  if (owner) search.set("owner", owner);
+  const res = await fetch(`${base}/api/margin-pool-lending?${search.toString()}`);
+  const json = await res.json();
+  if (!res.ok) {
+    throw apiErrorFromBody(json, "Failed to fetch margin pools");
+  }
+  return json as MarginPoolLending;
+}
+
+async function prepareSignExecute(
+  path: string,
+  body: Record<string, unknown>,
+  params: MarginPoolActionViaBackendParams,
+  failureMessage: string
+): Promise<{ digest: string }> {
+  const {
+    apiUrl,
+    sender,
+    signRawHash,
+    publicKeyHex,
+    confirmBeforeSign,
+    network = DEFAULT_NETWORK,
+  } = params;
+  const base = apiUrl.replace(/\/$/, "");
+
+  const prepareRes = await fetch(`${base}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...body, sender, network }),
+  });
+  const prepareJson = await prepareRes.json();
+  if (!prepareRes.ok) {
+    throw apiErrorFromBody(prepareJson, failureMessage);
+  }
+  const { intentMessageHashHex, txBytesBase64 } = prepareJson;
+  if (
+    typeof intentMessageHashHex !== "string" ||
+    !intentMessageHashHex ||
+    typeof txBytesBase64 !== "string" ||
+    !txBytesBase64
+  ) {
+    throw new Error("Invalid prepare response");
+  }
+
+  if (confirmBeforeSign && !(await confirmBeforeSign(txBytesBase64))) {
+    throw new Error(TX_CANCELLED_MESSAGE);
+  }
+
+  const { signature: signatureHex } = await signRawHash({
+    address: sender,
+    chainType: "sui",
+    hash: intentMessageHashHex.startsWith("0x")
+      ? (intentMessageHashHex as `0x${string}`)
+      : (`0x${intentMessageHashHex}` as `0x${string}`),
+  });
+
+  const executeRes = await fetch(`${base}/api/execute-transfer`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      txBytesBase64,
+      signatureHex,
+      publicKeyHex: publicKeyHex.startsWith("0x")
+        ? publicKeyHex
+        : "0x" + publicKeyHex,
+      network,
+    }),
+  });
+  const executeJson = await executeRes.json();
+  if (!executeRes.ok) {
+    throw apiErrorFromBody(executeJson, "Execute failed");
+  }
+  return { digest: executeJson.digest };
+}
+
+export async function supplyToMarginPoolViaBackend(
+  params: MarginPoolActionViaBackendParams
+): Promise<{ digest: string }> {
+  const { coinKey, amount, sponsored = false } = params;
+  if (amount == null || !(amount > 0)) {
+    throw new Error("Amount must be positive");
+  }
+  return prepareSignExecute(
+    "/api/prepare-margin-pool-supply",
+    { coinKey, amount, sponsored },
+    params,
+    "Prepare supply failed"
+  );
+}
+
+export async function withdrawFromMarginPoolViaBackend(
+  params: MarginPoolActionViaBackendParams
+): Promise<{ digest: string }> {
+  const { coinKey, amount, sponsored = false } = params;
+  return prepareSignExecute(
+    "/api/prepare-margin-pool-withdraw",
+    { coinKey, amount, sponsored },
+    params,
+    "Prepare withdraw failed"
+  );
+}
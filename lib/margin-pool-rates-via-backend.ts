@@ -0,0 +1,70 @@
+/**
+ * Fetch a margin pool's current borrow / supply rates and their history (backend SQLite snapshots).
+ * Used by the trading screen's rates panel to show what leverage costs.
+ */
+
+import { apiErrorFromBody } from "@/lib/api-error";
+
+export type MarginPoolRateModel = {
+  baseRate: number;
+  baseSlope: number;
+  optimalUtilization: number;
+  excessSlope: number;
+};
+
+export type MarginPoolCurrentRates = {
+  coinKey: string;
+  marginPoolId: string;
+  /** totalBorrow / totalSupply (0–1). */
+  utilization: number;
+  /** Annual rates as fractions (0.05 = 5%). */
+  borrowApr: number;
+  supplyApr: number;
+  protocolSpread: number;
+  totalSupply: number;
+  totalBorrow: number;
+  /** Interest-rate model the rates were computed from; null when only the on-chain rate was readable. */
+  model: MarginPoolRateModel | null;
+  timestamp: number;
+};
+
+export type MarginPoolRateSnapshot = {
+  timestamp: number;
+  utilization: number;
+  borrowApr: number;
+  supplyApr: number;
+};
+
+export type MarginPoolRatesResponse = {
+  coinKey: string;
+  marginPoolId: string;
+  current: MarginPoolCurrentRates;
+  /** Oldest first. */
+  history: MarginPoolRateSnapshot[];
+  /** False when the backend has no rate store (history is then always empty). */
+  historyAvailable: boolean;
+};
+
+export async function fetchMarginPoolRatesViaBackend(params: {
+  apiUrl: string;
+  /** Margin pool coin key (e.g. USDC) or margin pool object id. */
+  marginPool: string;
+  /** ms timestamps; backend defaults to the last 7 days. */
+  from?: number;
+  to?: number;
+  network?: "mainnet" | "testnet";
+}): Promise<MarginPoolRatesResponse> {
+  const { apiUrl, marginPool, from, to, network = "mainnet" } = params;
+  const base = apiUrl.replace(/\/$/, "");
+  const search = new URLSearchParams({ network });
+  if (from != null) search.set("from", String(from));
+  if (to != null) search.set("to", String(to));
+  const res = await fetch(
+    `${base}/api/margin-pools/${encodeURIComponent(marginPool)}/rates?${search.toString()}`
+  );
+  const json = await res.json();
+  if (!res.ok) {
+    throw apiErrorFromBody(json, "Failed to fetch margin pool rates");
+  }
+  return json as MarginPoolRatesResponse;
+}
@@ -0,0 +1,32 @@
+/**
+ * Fetch a margin pool's risk parameters (liquidation / min-withdraw / min-borrow risk ratios) read
+ * from chain via backend. Used with lib/margin-math.ts.
+ */
+
+import { apiErrorFromBody } from "@/lib/api-error";
+import type { MarginRiskParams } from "@/lib/margin-math";
+
+export type MarginRiskParamsResponse = MarginRiskParams & {
+  pool_key: string;
+  targetLiquidationRiskRatio: number;
+  userLiquidationReward: number;
+  poolLiquidationReward: number;
+  source: "chain";
+};
+
+export async function fetchMarginRiskParamsViaBackend(params: {
+  apiUrl: string;
+  /** Pool key (e.g. SUI_USDC). */
+  poolKey: string;
+  network?: "mainnet" | "testnet";
+}): Promise<MarginRiskParamsResponse> {
+  const { apiUrl, poolKey, network = "mainnet" } = params;
+  const base = apiUrl.replace(/\/$/, "");
+  const search = new URLSearchParams({ poolKey, network });
+  const res = await fetch(`${base}/api/margin-risk-params?${search.toString()}`);
+  const json = await res.json();
+  if (!res.ok) {
+    throw apiErrorFromBody(json, "Failed to fetch margin risk params");
+  }
+  return json as MarginRiskParamsResponse;
+}
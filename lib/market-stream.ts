@@ -0,0 +1,199 @@
+/**
+ * Client for the backend market data stream (GET /api/stream, Server-Sent Events; see
+ * backend/src/sui/market-stream.ts). One connection per API URL + network carries every subscribed
+ * topic; when the topic set changes the stream is reopened with the new list (the backend keeps
+ * topic state warm, so snapshots arrive right away). Reads the body with expo/fetch streaming,
+ * since React Native has no EventSource.
+ * onStatus reports whether a topic is live: true once that topic's first snapshot has reached the
+ * subscriber, false whenever the stream drops. Hooks poll the indexer directly while it is not.
+ * Set EXPO_PUBLIC_MARKET_STREAM=off to always poll.
+ */
+
+import { fetch } from "expo/fetch";
+
+import type { SuiNetwork } from "@/lib/network";
+
+export type MarketStreamMessage = {
+  topic: string;
+  type: "snapshot" | "update";
+  data: unknown;
+};
+
+type Subscriber = {
+  onMessage: (message: MarketStreamMessage) => void;
+  onStatus: (connected: boolean) => void;
+  /** A snapshot for this subscriber's topic arrived on the current stream. */
+  live: boolean;
+};
+
+type Connection = {
+  url: string;
+  subscribers: Map<string, Set<Subscriber>>;
+  abort: AbortController | null;
+  connectTimer: ReturnType<typeof setTimeout> | null;
+  retryMs: number;
+};
+
+/** Batch topic changes from one render into a single reconnect. */
+const RESUBSCRIBE_DEBOUNCE_MS = 50;
+const RETRY_INITIAL_MS = 2_000;
+const RETRY_MAX_MS = 30_000;
+/** The backend sends a heartbeat every 15s; treat a longer silence as a dead stream. */
+const STALL_TIMEOUT_MS = 40_000;
+
+const connections = new Map<string, Connection>();
+
+function isStreamDisabled(): boolean {
+  return process.env.EXPO_PUBLIC_MARKET_STREAM === "off";
+}
+
+function getConnection(apiUrl: string, network: SuiNetwork): Connection {
+  const base = apiUrl.replace(/\/$/, "");
+  const key = `${base}|${network}`;
+  let conn = connections.get(key);
+  if (!conn) {
+    conn = {
+      url: `${base}/api/stream?network=${network}`,
+      subscribers: new Map(),
+      abort: null,
+      connectTimer: null,
+      retryMs: RETRY_INITIAL_MS,
+    };
+    connections.set(key, conn);
+  }
+  return conn;
+}
+
+function setLive(sub: Subscriber, live: boolean): void {
+  if (sub.live === live) return;
+  sub.live = live;
+  sub.onStatus(live);
+}
+
+function setAllDown(conn: Connection): void {
+  for (const subs of conn.subscribers.values()) {
+    for (const sub of subs) setLive(sub, false);
+  }
+}
+
+function scheduleConnect(conn: Connection, delayMs: number): void {
+  if (conn.connectTimer) clearTimeout(conn.connectTimer);
+  conn.connectTimer = setTimeout(() => {
+    conn.connectTimer = null;
+    openStream(conn);
+  }, delayMs);
+}
+
+function dispatch(conn: Connection, chunk: string): void {
+  const data = chunk
+    .split("\n")
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).trimStart())
+    .join("\n");
+  if (!data) return;
+  let message: MarketStreamMessage;
+  try {
+    message = JSON.parse(data) as MarketStreamMessage;
+  } catch {
+    return;
+  }
+  const subs = conn.subscribers.get(message.topic);
+  if (!subs) return;
+  for (const sub of subs) {
+    sub.onMessage(message);
+    if (message.type === "snapshot") setLive(sub, true);
+  }
+}
+
+async function openStream(conn: Connection): Promise<void> {
+  conn.abort?.abort();
+  conn.abort = null;
+  const topics = [...conn.subscribers.keys()].sort();
+  if (topics.length === 0) return;
+  const abort = new AbortController();
+  conn.abort = abort;
+  let stallTimer: ReturnType<typeof setTimeout> | null = null;
+  const resetStallTimer = () => {
+    if (stallTimer) clearTimeout(stallTimer);
+    stallTimer = setTimeout(() => abort.abort(), STALL_TIMEOUT_MS);
+  };
+  try {
+    resetStallTimer();
+    const res = await fetch(
+      `${conn.url}&topics=${encodeURIComponent(topics.join(","))}`,
+      { headers: { Accept: "text/event-stream" }, signal: abort.signal }
+    );
+    if (!res.ok || !res.body) throw new Error(`Stream ${res.status}`);
+    conn.retryMs = RETRY_INITIAL_MS;
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      resetStallTimer();
+      buffer += decoder.decode(value, { stream: true });
+      let end = buffer.indexOf("\n\n");
+      while (end >= 0) {
+        dispatch(conn, buffer.slice(0, end));
+        buffer = buffer.slice(end + 2);
+        end = buffer.indexOf("\n\n");
+      }
+    }
+  } catch (err) {
+    if (__DEV__ && conn.abort === abort && !abort.signal.aborted) {
+      console.log("[MarketStream] stream error", err);
+    }
+  } finally {
+    if (stallTimer) clearTimeout(stallTimer);
+  }
+  // Replaced by a newer stream (topic change): that one owns the status now.
+  if (conn.abort !== abort) return;
+  conn.abort = null;
+  setAllDown(conn);
+  if (conn.subscribers.size > 0) {
+    scheduleConnect(conn, conn.retryMs);
+    conn.retryMs = Math.min(conn.retryMs * 2, RETRY_MAX_MS);
+  }
+}
+
+/**
+ * Subscribe to a stream topic ("ticker", "trades:<pool>", "candles:<pool>:<interval>",
+ * "orderbook:<pool>:<depth>"). onStatus(false) is called now, onStatus(true) once the topic's snapshot
+ * has been delivered, and onStatus(false) again if the stream drops. Returns the unsubscribe function.
+ */
+export function subscribeMarketStream(params: {
+  apiUrl: string;
+  network: SuiNetwork;
+  topic: string;
+  onMessage: (message: MarketStreamMessage) => void;
+  onStatus: (connected: boolean) => void;
+}): () => void {
+  const { apiUrl, network, topic, onMessage, onStatus } = params;
+  if (isStreamDisabled()) {
+    onStatus(false);
+    return () => {};
+  }
+  const conn = getConnection(apiUrl, network);
+  const sub: Subscriber = { onMessage, onStatus, live: false };
+  let subs = conn.subscribers.get(topic);
+  // Reopen for a new topic, or for a topic whose snapshot was already sent, so this subscriber gets one
+  // too. A topic still waiting on its snapshot delivers it to every subscriber in the set.
+  const needsSnapshot = !subs || [...subs].some((s) => s.live);
+  if (!subs) {
+    subs = new Set();
+    conn.subscribers.set(topic, subs);
+  }
+  subs.add(sub);
+  onStatus(false);
+  if (needsSnapshot) scheduleConnect(conn, RESUBSCRIBE_DEBOUNCE_MS);
+
+  return () => {
+    const current = conn.subscribers.get(topic);
+    if (!current) return;
+    current.delete(sub);
+    if (current.size > 0) return;
+    conn.subscribers.delete(topic);
+    scheduleConnect(conn, RESUBSCRIBE_DEBOUNCE_MS);
+  };
+}
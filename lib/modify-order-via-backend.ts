@@ -0,0 +1,153 @@
+/**
+ * Modify a resting margin limit order via backend: prepare-modify-order -> sign -> execute-transfer.
+ * Backend picks in-place size reduction or atomic cancel + re-place (same clientOrderId and fee mode;
+ * post-only unless timeInForce is "gtc", since the chain does not record the original restriction).
+ */
+
+import { apiErrorFromBody } from "@/lib/api-error";
+import {
+  TX_CANCELLED_MESSAGE,
+  type ConfirmBeforeSign,
+} from "@/lib/simulate-via-backend";
+
+const DEFAULT_NETWORK = "mainnet";
+
+export type ModifyOrderViaBackendParams = {
+  apiUrl: string;
+  sender: string;
+  marginManagerId: string;
+  poolKey: string;
+  orderId: string;
+  /** New open quantity in base (human units). Omit to keep current remaining size. */
+  quantity?: number;
+  /** New limit price. Omit to keep current price. */
+  price?: number;
+  /** Fee mode of a re-placed order. Default: the original order's. */
+  payWithDeep?: boolean;
+  /** Restriction of a re-placed order. Default "post_only". */
+  timeInForce?: "gtc" | "post_only";
+  /** Self-matching option of a re-placed order. Default "allow". */
+  selfMatching?: "allow" | "cancel_taker" | "cancel_maker";
+  signRawHash: (params: {
+    address: string;
+    chainType: "sui";
+    hash: `0x${string}`;
+  }) => Promise<{ signature: string }>;
+  publicKeyHex: string;
+  /** Optional pre-sign preview (e.g. dry-run confirm sheet); resolve false to cancel. */
+  confirmBeforeSign?: ConfirmBeforeSign;
+  /** Ask the backend to pay gas via its sponsor (see GET /api/sponsor-status). */
+  sponsored?: boolean;
+  network?: "mainnet" | "testnet";
+};
+
+export type ModifyOrderResult = {
+  digest: string;
+  mode: "reduce" | "replace";
+};
+
+async function executeSignedTx(
+  base: string,
+  txBytesBase64: string,
+  signatureHex: string,
+  publicKeyHex: string,
+  network: string
+): Promise<{ digest: string }> {
+  const executeRes = await fetch(`${base}/api/execute-transfer`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      txBytesBase64,
+      signatureHex,
+      publicKeyHex: publicKeyHex.startsWith("0x")
+        ? publicKeyHex
+        : "0x" + publicKeyHex,
+      network,
+    }),
+  });
+  const executeJson = await executeRes.json();
+  if (!executeRes.ok) {
+    throw apiErrorFromBody(executeJson, "Execute failed");
+  }
+  return { digest: executeJson.digest };
+}
+
+export async function modifyOrderViaBackend(
+  params: ModifyOrderViaBackendParams
+): Promise<ModifyOrderResult> {
+  const {
+    apiUrl,
+    sender,
+    marginManagerId,
+    poolKey,
+    orderId,
+    quantity,
+    price,
+    payWithDeep,
+    timeInForce,
+    selfMatching,
+    signRawHash,
+    publicKeyHex,
+    confirmBeforeSign,
+    sponsored = false,
+    network = DEFAULT_NETWORK,
+  } = params;
+
+  const base = apiUrl.replace(/\/$/, "");
+
+  const prepareRes = await fetch(`${base}/api/prepare-modify-order`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      sender,
+      marginManagerId,
+      poolKey,
+      orderId,
+      quantity,
+      price,
+      payWithDeep,
+      timeInForce,
+      selfMatching,
+      sponsored,
+      network,
+    }),
+  });
+  const prepareJson = await prepareRes.json();
+  if (!prepareRes.ok) {
+    throw apiErrorFromBody(prepareJson, "Prepare modify order failed");
+  }
+
+  const intentMessageHashHex =
+    prepareJson.intentMessageHashHex ?? prepareJson.intent_message_hash_hex;
+  const txBytesBase64 =
+    prepareJson.txBytesBase64 ?? prepareJson.tx_bytes_base64;
+  if (
+    typeof intentMessageHashHex !== "string" ||
+    !intentMessageHashHex ||
+    typeof txBytesBase64 !== "string" ||
+    !txBytesBase64
+  ) {
+    throw new Error("Invalid prepare response");
+  }
+
+  if (confirmBeforeSign && !(await confirmBeforeSign(txBytesBase64))) {
+    throw new Error(TX_CANCELLED_MESSAGE);
+  }
+
+  const { signature: signatureHex } = await signRawHash({
+    address: sender,
+    chainType: "sui",
+    hash: intentMessageHashHex.startsWith("0x")
+      ? (intentMessageHashHex as `0x${string}`)
+      : (`0x${intentMessageHashHex}` as `0x${string}`),
+  });
+
+  const { digest } = await executeSignedTx(
+    base,
+    txBytesBase64,
+    signatureHex,
+    publicKeyHex,
+    network
+  );
+  return { digest, mode: prepareJson.mode === "reduce" ? "reduce" : "replace" };
+}
@@ -7,7 +7,14 @@ import React, {
   type ReactNode,
 } from "react";
 
-export type NetworkId = "sui-mainnet" | "base-sepolia" | "base-mainnet";
+export type NetworkId =
+  | "sui-mainnet"
+  | "sui-testnet"
+  | "base-sepolia"
+  | "base-mainnet";
+
+/** Sui network name used by the backend routes, the DeepBook indexer and Sui RPC. */
+export type SuiNetwork = "mainnet" | "testnet";
 
 export type NetworkCapabilities = {
   /** Whether the Margin tab and trading screens should be visible. */
@@ -35,6 +42,8 @@ export type NetworkConfig = {
   accentColor: string;
   /** EVM chainId (hex) when kind === "evm". Used for wallet_switchEthereumChain and tx params. */
   evmChainId?: string;
+  /** Sui network when kind === "sui". Passed to backend routes and selects indexer / margin constants. */
+  suiNetwork?: SuiNetwork;
   capabilities: NetworkCapabilities;
 };
 
@@ -46,6 +55,7 @@ export const NETWORKS: NetworkConfig[] = [
     description: "All margin trading and transfers run on Sui.",
     kind: "sui",
     accentColor: "#32D583",
+    suiNetwork: "mainnet",
     capabilities: {
       showMarginTab: true,
       showPoolsTab: false,
@@ -56,6 +66,24 @@ export const NETWORKS: NetworkConfig[] = [
       showBaseMainnetExclusiveFeature: false,
     },
   },
+  {
+    id: "sui-testnet",
+    label: "Sui Testnet",
+    shortLabel: "Sui Testnet",
+    description: "Rehearse margin strategies with testnet funds (DBUSDC pools).",
+    kind: "sui",
+    accentColor: "#F79009",
+    suiNetwork: "testnet",
+    capabilities: {
+      showMarginTab: true,
+      showPoolsTab: false,
+      showLstTab: false,
+      showSwapTab: false,
+      showSuiWallet: true,
+      showEvmWallet: false,
+      showBaseMainnetExclusiveFeature: false,
+    },
+  },
   {
     id: "base-sepolia",
     label: "Base Sepolia",
@@ -99,6 +127,11 @@ export function isBaseMainnet(networkId: NetworkId): networkId is "base-mainnet"
   return networkId === "base-mainnet";
 }
 
+/** Sui network for the given app network; non-Sui networks fall back to mainnet (e.g. Base → Sui bridge flows). */
+export function getSuiNetwork(network: NetworkConfig): SuiNetwork {
+  return network.suiNetwork ?? "mainnet";
+}
+
 type NetworkContextValue = {
   currentNetworkId: NetworkId;
   currentNetwork: NetworkConfig;
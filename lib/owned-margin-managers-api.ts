@@ -2,6 +2,8 @@
  * Fetch margin managers owned by an address from the backend (chain discovery, no DB).
  */
 
+import { apiErrorFromBody } from "@/lib/api-error";
+
 export type OwnedMarginManagerEntry = {
   margin_manager_id: string;
   deepbook_pool_id: string;
@@ -26,9 +28,7 @@ export async function fetchOwnedMarginManagers(params: {
   const res = await fetch(url);
   const json = await res.json();
   if (!res.ok) {
-    throw new Error(
-      (json.error as string) ?? "Failed to fetch owned margin managers"
-    );
+    throw apiErrorFromBody(json, "Failed to fetch owned margin managers");
   }
   const managers = Array.isArray(json.managers) ? json.managers : [];
   return { managers };
@@ -3,8 +3,19 @@
  * @see https://docs.sui.io/standards/deepbook-margin-sdk/orders
  */
 
+import { apiErrorFromBody } from "@/lib/api-error";
+import {
+  TX_CANCELLED_MESSAGE,
+  type ConfirmBeforeSign,
+} from "@/lib/simulate-via-backend";
+
 const DEFAULT_NETWORK = "mainnet";
 
+/** DeepBook order restriction: good-til-cancelled, immediate-or-cancel, fill-or-kill, post-only (maker only). */
+export type TimeInForce = "gtc" | "ioc" | "fok" | "post_only";
+/** What happens when the order would match one of the same account's resting orders. */
+export type SelfMatching = "allow" | "cancel_taker" | "cancel_maker";
+
 export type PlaceOrderViaBackendParams = {
   apiUrl: string;
   sender: string;
@@ -21,12 +32,23 @@ export type PlaceOrderViaBackendParams = {
   borrowBaseAmount?: number;
   /** Borrow quote (e.g. USDC) before order; for long. Human units. */
   borrowQuoteAmount?: number;
+  /** Limit orders only. Default "gtc". */
+  timeInForce?: TimeInForce;
+  selfMatching?: SelfMatching;
+  /** Limit orders only: ms timestamp after which the order is cancelled. */
+  expiration?: number;
+  /** Market orders only: placed as an IOC limit at the book / oracle price ± this many bps. */
+  maxSlippageBps?: number;
   signRawHash: (params: {
     address: string;
     chainType: "sui";
     hash: `0x${string}`;
   }) => Promise<{ signature: string }>;
   publicKeyHex: string;
+  /** Optional pre-sign preview (e.g. dry-run confirm sheet); resolve false to cancel. */
+  confirmBeforeSign?: ConfirmBeforeSign;
+  /** Ask the backend to pay gas via its sponsor (see GET /api/sponsor-status). */
+  sponsored?: boolean;
   network?: "mainnet" | "testnet";
 };
 
@@ -53,7 +75,7 @@ async function executeSignedTx(
   });
   const executeJson = await executeRes.json();
   if (!executeRes.ok) {
-    throw new Error((executeJson.error as string) ?? "Execute failed");
+    throw apiErrorFromBody(executeJson, "Execute failed");
   }
   return { digest: executeJson.digest };
 }
@@ -79,8 +101,14 @@ export async function placeOrderViaBackend(
     reduceOnly = false,
     borrowBaseAmount,
     borrowQuoteAmount,
+    timeInForce,
+    selfMatching,
+    expiration,
+    maxSlippageBps,
     signRawHash,
     publicKeyHex,
+    confirmBeforeSign,
+    sponsored = false,
     network = DEFAULT_NETWORK,
   } = params;
 
@@ -108,6 +136,7 @@ export async function placeOrderViaBackend(
       clientOrderId,
       payWithDeep,
       reduceOnly,
+      sponsored,
       network,
       borrowBaseAmount:
         borrowBaseAmount != null && borrowBaseAmount > 0
@@ -117,13 +146,15 @@ export async function placeOrderViaBackend(
         borrowQuoteAmount != null && borrowQuoteAmount > 0
           ? borrowQuoteAmount
           : undefined,
+      timeInForce: orderType === "limit" ? timeInForce : undefined,
+      selfMatching,
+      expiration: orderType === "limit" ? expiration : undefined,
+      maxSlippageBps: orderType === "market" ? maxSlippageBps : undefined,
     }),
   });
   const prepareJson = await prepareRes.json();
   if (!prepareRes.ok) {
-    throw new Error(
-      (prepareJson.error as string) ?? "Prepare place order failed"
-    );
+    throw apiErrorFromBody(prepareJson, "Prepare place order failed");
   }
 
   const intentMessageHashHex =
@@ -139,6 +170,10 @@ export async function placeOrderViaBackend(
     throw new Error("Invalid prepare response");
   }
 
+  if (confirmBeforeSign && !(await confirmBeforeSign(txBytesBase64))) {
+    throw new Error(TX_CANCELLED_MESSAGE);
+  }
+
   const { signature: signatureHex } = await signRawHash({
     address: sender,
     chainType: "sui",
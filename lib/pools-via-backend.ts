@@ -0,0 +1,69 @@
+/**
+ * Margin-enabled pools with tick / lot / min size, coin metadata and max leverage, read from chain via
+ * backend (GET /api/pools). Replaces the hardcoded pairs, leverage tiers and decimals in
+ * constants/deepbook-margin-*.ts, which stay as fallbacks until this loads.
+ */
+
+import { apiErrorFromBody } from "@/lib/api-error";
+
+export type PoolCoinMetadata = {
+  /** SDK coin key (e.g. USDC). */
+  key: string;
+  type: string;
+  symbol: string;
+  name: string | null;
+  decimals: number;
+  iconUrl: string | null;
+};
+
+export type PoolMetadata = {
+  poolKey: string;
+  poolId: string;
+  base: PoolCoinMetadata;
+  quote: PoolCoinMetadata;
+  /** Human units: price step in quote, quantity step and minimum order in base. */
+  tickSize: number;
+  lotSize: number;
+  minSize: number;
+  baseMarginPoolId: string;
+  quoteMarginPoolId: string;
+  maxLeverage: number;
+  liquidationRiskRatio: number;
+  minWithdrawRiskRatio: number;
+  minBorrowRiskRatio: number;
+};
+
+export type PoolsResponse = {
+  network: "mainnet" | "testnet";
+  pools: PoolMetadata[];
+  updatedAt: number;
+  source: "chain";
+};
+
+export async function fetchPoolsViaBackend(params: {
+  apiUrl: string;
+  network?: "mainnet" | "testnet";
+}): Promise<PoolsResponse> {
+  const { apiUrl, network = "mainnet" } = params;
+  const base = apiUrl.replace(/\/$/, "");
+  const search = new URLSearchParams({ network });
+  const res = await fetch(`${base}/api/pools?${search.toString()}`);
+  const json = await res.json();
+  if (!res.ok) {
+    throw apiErrorFromBody(json, "Failed to fetch pools");
+  }
+  return json as PoolsResponse;
+}
+
+/** Floor to a multiple of step; tolerates float noise so 0.30000000004 lots stays 0.3. */
+export function roundDownToStep(value: number, step: number): number {
+  if (!(step > 0)) return value;
+  const steps = Math.floor(value / step + 1e-9);
+  return Number((steps * step).toFixed(12));
+}
+
+/** Nearest multiple of step (e.g. a limit price on the tick grid). */
+export function roundToStep(value: number, step: number): number {
+  if (!(step > 0)) return value;
+  return Number((Math.round(value / step) * step).toFixed(12));
+}
@@ -0,0 +1,100 @@
+/**
+ * Pre-trade order preview via backend (POST /api/preview-order): estimated fill from the order book,
+ * taker fee in DEEP vs the input token, and the margin manager's projected risk after the order.
+ * Read-only; nothing is signed.
+ */
+
+import { apiErrorFromBody } from "@/lib/api-error";
+import type { TimeInForce } from "@/lib/place-order-via-backend";
+import type { PriceIntegrity } from "@/lib/price-integrity-via-backend";
+
+export type PreviewOrderParams = {
+  poolKey: string;
+  orderType: "limit" | "market";
+  isBid: boolean;
+  quantity: number;
+  price?: number; // required for limit
+  /** Limit orders only; the preview warns when IOC / FOK / post-only would not behave as intended. */
+  timeInForce?: TimeInForce;
+  /** Omit for a fill / fee estimate without risk projection. */
+  marginManagerId?: string;
+  payWithDeep?: boolean;
+  borrowBaseAmount?: number;
+  borrowQuoteAmount?: number;
+};
+
+export type OrderPreviewFee = {
+  amount: number;
+  coin: string;
+  /** Fee value in quote units. */
+  quoteValue: number;
+};
+
+export type OrderPreviewPosition = {
+  baseAsset: number;
+  quoteAsset: number;
+  baseDebt: number;
+  quoteDebt: number;
+  riskRatio: number | null;
+  leverage: number | null;
+  liquidationPrice: number | null;
+};
+
+export type OrderPreview = {
+  poolKey: string;
+  baseSymbol: string;
+  quoteSymbol: string;
+  side: "buy" | "sell";
+  orderType: "limit" | "market";
+  quantity: number;
+  midPrice: number;
+  fill: {
+    takerQuantity: number;
+    restingQuantity: number;
+    unfilledQuantity: number;
+    averagePrice: number | null;
+    worstPrice: number | null;
+    /** Percent worse than mid for this side (negative = better). */
+    slippagePct: number | null;
+    takerNotional: number;
+    levelsConsumed: number;
+  };
+  fees: {
+    takerFeeRate: number;
+    makerFeeRate: number;
+    deep: OrderPreviewFee | null;
+    inputToken: OrderPreviewFee | null;
+    cheaper: "deep" | "input" | null;
+  };
+  risk: {
+    liquidationRiskRatio: number;
+    minBorrowRiskRatio: number;
+    current: OrderPreviewPosition;
+    projected: OrderPreviewPosition;
+  } | null;
+  /** Oracle vs book check; null when the backend could not read it. */
+  priceIntegrity: PriceIntegrity | null;
+  warnings: string[];
+};
+
+export async function previewOrderViaBackend(
+  params: PreviewOrderParams & {
+    apiUrl: string;
+    network?: "mainnet" | "testnet";
+    signal?: AbortSignal;
+  }
+): Promise<OrderPreview> {
+  const { apiUrl, network = "mainnet", signal, ...body } = params;
+  const base = apiUrl.replace(/\/$/, "");
+  const res = await fetch(`${base}/api/preview-order`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...body, network }),
+    signal,
+  });
+  const json = await res.json();
+  if (!res.ok) {
+    throw apiErrorFromBody(json, "Order preview failed");
+  }
+  return json as OrderPreview;
+}
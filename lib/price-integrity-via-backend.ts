@@ -0,0 +1,46 @@
+/**
+ * Oracle vs order-book price check via backend (GET /api/price-integrity): Pyth oracle price against the
+ * book mid and last trade, with the pool's warn / block thresholds. The backend refuses market orders
+ * while status is "block"; the trading screen shows the oracle price and warns before that.
+ */
+
+import { apiErrorFromBody } from "@/lib/api-error";
+
+/** "warn" also covers checks that could not run (e.g. a stale oracle); see PriceIntegrity.warning. */
+export type PriceIntegrityStatus = "ok" | "warn" | "block";
+
+export type PriceIntegrity = {
+  poolKey: string;
+  /** Quote per base from Pyth; null when a feed is missing. */
+  oraclePrice: number | null;
+  oraclePublishTime: number | null;
+  /** Oracle too old to compare against; status is then "warn". */
+  oracleStale: boolean;
+  bookMid: number | null;
+  lastTradePrice: number | null;
+  lastTradeTime: number | null;
+  /** |price − oracle| / oracle in basis points. */
+  bookDeviationBps: number | null;
+  lastTradeDeviationBps: number | null;
+  thresholds: { warnBps: number; blockBps: number };
+  status: PriceIntegrityStatus;
+  /** Why status is warn / block; null when ok. */
+  warning: string | null;
+  checkedAt: number;
+};
+
+export async function fetchPriceIntegrityViaBackend(params: {
+  apiUrl: string;
+  poolKey: string;
+  network?: "mainnet" | "testnet";
+}): Promise<PriceIntegrity> {
+  const { apiUrl, poolKey, network = "mainnet" } = params;
+  const base = apiUrl.replace(/\/$/, "");
+  const search = new URLSearchParams({ poolKey, network });
+  const res = await fetch(`${base}/api/price-integrity?${search.toString()}`);
+  const json = await res.json();
+  if (!res.ok) {
+    throw apiErrorFromBody(json, "Failed to check price integrity");
+  }
+  return json as PriceIntegrity;
+}
@@ -0,0 +1,64 @@
+/**
+ * Dry-run prepared tx bytes via backend (POST /api/simulate) for a pre-sign preview:
+ * gas, balance changes per coin type, created / deleted objects and decoded Move abort.
+ */
+
+import { apiErrorFromBody } from "@/lib/api-error";
+
+export type TxPreview = {
+  status: "success" | "failure";
+  error: string | null;
+  abort: {
+    packageId: string | null;
+    module: string;
+    functionName: string | null;
+    code: number;
+    command: number | null;
+    reason: string;
+    /** Same code the API returns for this abort (e.g. MARGIN_WITHDRAW_RISK_RATIO). */
+    errorCode: string;
+  } | null;
+  gas: {
+    computationCost: string;
+    storageCost: string;
+    storageRebate: string;
+    nonRefundableStorageFee: string;
+    totalMist: string;
+    totalSui: number;
+  };
+  balanceChanges: { owner: string; coinType: string; amount: string }[];
+  created: { objectId: string; objectType: string }[];
+  deleted: { objectId: string; objectType: string | null }[];
+};
+
+/**
+ * Called with the prepared tx bytes before signRawHash. Resolve false to abort without signing
+ * (the via-backend helper then throws TX_CANCELLED_MESSAGE).
+ */
+export type ConfirmBeforeSign = (txBytesBase64: string) => Promise<boolean>;
+
+export const TX_CANCELLED_MESSAGE = "Transaction cancelled";
+
+export async function simulateTxViaBackend(params: {
+  apiUrl: string;
+  txBytesBase64: string;
+  network?: "mainnet" | "testnet";
+}): Promise<TxPreview> {
+  const { apiUrl, txBytesBase64, network = "mainnet" } = params;
+  const base = apiUrl.replace(/\/$/, "");
+  const res = await fetch(`${base}/api/simulate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ txBytesBase64, network }),
+  });
+  const json = await res.json();
+  if (!res.ok) {
+    throw apiErrorFromBody(json, "Simulate failed");
+  }
+  return json as TxPreview;
+}
+
+/** True when the user dismissed the confirm sheet (nothing was signed). */
+export function isTxCancelled(err: unknown): boolean {
+  return err instanceof Error && err.message === TX_CANCELLED_MESSAGE;
+}
@@ -1,9 +1,10 @@
 /**
  * Fetch SUI balance via JSON-RPC only. No @mysten/sui — safe to use on React Native
  * where @mysten/sui/jsonRpc can throw "Cannot read property 'prototype' of undefined".
+ * Requests go through sui-rpc.ts (configured endpoints with failover).
  */
 
-const MAINNET_RPC = "https://fullnode.mainnet.sui.io";
+import { suiRpcRequest, type SuiRpcNetwork } from "@/lib/sui-rpc";
 
 /** Parse response body as JSON; avoid "Unexpected character" when RPC returns HTML or plain text. */
 function parseJsonResponse(text: string, context: string): unknown {
@@ -21,9 +22,10 @@ function parseJsonResponse(text: string, context: string): unknown {
 
 export async function fetchSuiBalance(
   owner: string,
-  coinType: string = "0x2::sui::SUI"
+  coinType: string = "0x2::sui::SUI",
+  network: SuiRpcNetwork = "mainnet"
 ): Promise<{ totalBalance: string; coinType: string }> {
-  const res = await fetch(MAINNET_RPC, {
+  const { res } = await suiRpcRequest(network, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
@@ -78,6 +80,11 @@ const KNOWN_COINS_FALLBACK: Record<
     { symbol: "USDC", decimals: 6 },
   "0xdeeb7a4662eec9f2f3def03fb937a663dddaa2e215b8078a284d026b7946c270::deep::DEEP":
     { symbol: "DEEP", decimals: 6 },
+  // Testnet (DeepBook test coins)
+  "0xf7152c05930480cd740d7311b5b8b45c6f488e3a53a11c3f74a6fac36a52e0d7::DBUSDC::DBUSDC":
+    { symbol: "DBUSDC", decimals: 6 },
+  "0x36dbef866a1d62bf7328989a10fb2f07d769f4ee587c0de4a0a256e57e0a58a8::deep::DEEP":
+    { symbol: "DEEP", decimals: 6 },
 };
 
 function getSymbolAndDecimalsFallback(coinType: string): {
@@ -94,10 +101,11 @@ function getSymbolAndDecimalsFallback(coinType: string): {
 
 /** Fetch coin metadata (decimals, symbol) from chain via suix_getCoinMetadata. */
 async function fetchCoinMetadata(
-  coinType: string
+  coinType: string,
+  network: SuiRpcNetwork
 ): Promise<SuiCoinMetadata | null> {
   try {
-    const res = await fetch(MAINNET_RPC, {
+    const { res } = await suiRpcRequest(network, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
@@ -135,7 +143,10 @@ export function formatBalance(totalBalance: string, decimals: number): string {
  * otherwise falls back to known coins (e.g. DEEP = 6) or a safe default.
  * Returns array with totalBalance, coinType, symbol, formatted amount, and decimals.
  */
-export async function fetchAllSuiBalances(owner: string): Promise<
+export async function fetchAllSuiBalances(
+  owner: string,
+  network: SuiRpcNetwork = "mainnet"
+): Promise<
   Array<{
     coinType: string;
     totalBalance: string;
@@ -144,7 +155,7 @@ export async function fetchAllSuiBalances(owner: string): Promise<
     decimals: number;
   }>
 > {
-  const res = await fetch(MAINNET_RPC, {
+  const { res } = await suiRpcRequest(network, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
@@ -183,7 +194,7 @@ export async function fetchAllSuiBalances(owner: string): Promise<
   const list = Array.from(byCoinType.values());
   // Fetch metadata (decimals, symbol) from chain for each coin type in parallel
   const metadataList = await Promise.all(
-    list.map((item) => fetchCoinMetadata(item.coinType))
+    list.map((item) => fetchCoinMetadata(item.coinType, network))
   );
   const mapped = list.map((item, i) => {
     const meta = metadataList[i];
@@ -0,0 +1,97 @@
+/**
+ * Sui JSON-RPC endpoints for the app with failover (mirrors backend/src/sui/rpc-provider.ts).
+ * EXPO_PUBLIC_SUI_RPC_URL / EXPO_PUBLIC_SUI_TESTNET_RPC_URL: comma-separated, priority order; the public
+ * fullnode is always last. A 429 / 5xx / network error moves on to the next endpoint and benches the failing
+ * one for a cooldown. No @mysten/sui import — safe on React Native.
+ */
+
+export type SuiRpcNetwork = "mainnet" | "testnet";
+
+const PUBLIC_FULLNODES: Record<SuiRpcNetwork, string> = {
+  mainnet: "https://fullnode.mainnet.sui.io:443",
+  testnet: "https://fullnode.testnet.sui.io:443",
+};
+
+const FAILURE_COOLDOWN_MS = 15_000;
+const RATE_LIMIT_COOLDOWN_MS = 30_000;
+
+/** Epoch ms until which an endpoint URL is skipped. */
+const cooldownUntil = new Map<string, number>();
+const lastServedByNetwork = new Map<SuiRpcNetwork, string>();
+
+export function getSuiRpcEndpoints(network: SuiRpcNetwork = "mainnet"): string[] {
+  const raw =
+    network === "mainnet"
+      ? process.env.EXPO_PUBLIC_SUI_RPC_URL
+      : process.env.EXPO_PUBLIC_SUI_TESTNET_RPC_URL;
+  const configured = (raw ?? "")
+    .split(",")
+    .map((u) => u.trim().replace(/\/$/, ""))
+    .filter(Boolean);
+  return [...new Set([...configured, PUBLIC_FULLNODES[network]])];
+}
+
+/** Host of the endpoint that served the last successful request (no path / query; may hold an API key). */
+export function getLastSuiRpcEndpoint(network: SuiRpcNetwork = "mainnet"): string | null {
+  return lastServedByNetwork.get(network) ?? null;
+}
+
+function endpointHost(url: string): string {
+  const match = /^[a-z]+:\/\/([^/?#]+)/i.exec(url);
+  return match ? match[1] : url;
+}
+
+/** Ready endpoints in priority order, then cooling ones (soonest first) rather than failing outright. */
+function candidates(network: SuiRpcNetwork): string[] {
+  const now = Date.now();
+  const urls = getSuiRpcEndpoints(network);
+  const ready = urls.filter((u) => (cooldownUntil.get(u) ?? 0) <= now);
+  const cooling = urls
+    .filter((u) => (cooldownUntil.get(u) ?? 0) > now)
+    .sort((a, b) => (cooldownUntil.get(a) ?? 0) - (cooldownUntil.get(b) ?? 0));
+  return [...ready, ...cooling];
+}
+
+function bench(url: string, status: number | null, retryAfter: string | null) {
+  let ms = FAILURE_COOLDOWN_MS;
+  if (status === 429) {
+    const seconds = Number(retryAfter);
+    ms = Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : RATE_LIMIT_COOLDOWN_MS;
+  }
+  cooldownUntil.set(url, Date.now() + ms);
+}
+
+/**
+ * POST a JSON-RPC request, failing over across endpoints on 429 / 5xx / network errors.
+ * Returns the response plus the host that served it.
+ */
+export async function suiRpcRequest(
+  network: SuiRpcNetwork,
+  init: RequestInit
+): Promise<{ res: Response; endpoint: string }> {
+  const failures: string[] = [];
+  for (const url of candidates(network)) {
+    const host = endpointHost(url);
+    try {
+      const res = await fetch(url, init);
+      if (res.status === 429 || res.status >= 500) {
+        bench(url, res.status, res.headers.get("retry-after"));
+        failures.push(`${host}: HTTP ${res.status}`);
+        continue;
+      }
+      cooldownUntil.delete(url);
+      lastServedByNetwork.set(network, host);
+      return { res, endpoint: host };
+    } catch (err) {
+      if (init.signal?.aborted) throw err;
+      bench(url, null, null);
+      failures.push(`${host}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  throw new Error(`All Sui RPC endpoints failed (${failures.join("; ")})`);
+}
+
+/** fetch-compatible wrapper (ignores the URL) for @mysten/sui JsonRpcHTTPTransport on web. */
+export function suiRpcFetch(network: SuiRpcNetwork = "mainnet"): typeof fetch {
+  return async (_input, init) => (await suiRpcRequest(network, init ?? {})).res;
+}
@@ -4,6 +4,12 @@
  * Expo useSignRawHash only accepts { address, chainType, hash } (no bytes/params).
  */
 
+import { apiErrorFromBody } from "@/lib/api-error";
+import {
+  TX_CANCELLED_MESSAGE,
+  type ConfirmBeforeSign,
+} from "@/lib/simulate-via-backend";
+
 const DEFAULT_NETWORK = "mainnet";
 
 export type SendViaBackendParams = {
@@ -19,6 +25,8 @@ export type SendViaBackendParams = {
     hash: `0x${string}`;
   }) => Promise<{ signature: string }>;
   publicKeyHex: string; // 0x + 64 hex chars (32 bytes)
+  /** Optional pre-sign preview (e.g. dry-run confirm sheet); resolve false to cancel. */
+  confirmBeforeSign?: ConfirmBeforeSign;
   network?: "mainnet" | "testnet";
 };
 
@@ -42,6 +50,7 @@ export async function sendViaBackend(
     amountMist,
     signRawHash,
     publicKeyHex,
+    confirmBeforeSign,
     network = DEFAULT_NETWORK,
   } = params;
 
@@ -69,7 +78,7 @@ export async function sendViaBackend(
     );
   }
   if (!prepareRes.ok) {
-    throw new Error((prepareJson.error as string) ?? "Prepare failed");
+    throw apiErrorFromBody(prepareJson, "Prepare failed");
   }
   // Backend may return camelCase or snake_case
   const intentMessageHashHex =
@@ -88,6 +97,10 @@ export async function sendViaBackend(
     );
   }
 
+  if (confirmBeforeSign && !(await confirmBeforeSign(txBytesBase64))) {
+    throw new Error(TX_CANCELLED_MESSAGE);
+  }
+
   // Expo useSignRawHash only accepts { address, chainType, hash } (sends params.hash to API).
   const { signature: signatureHex } = await signRawHash({
     address: sender,
@@ -111,7 +124,7 @@ export async function sendViaBackend(
   });
   const executeJson = await executeRes.json();
   if (!executeRes.ok) {
-    throw new Error(executeJson.error ?? "Execute failed");
+    throw apiErrorFromBody(executeJson, "Execute failed");
   }
   return { digest: executeJson.digest };
 }
@@ -7,10 +7,12 @@ import {
   messageWithIntent,
   toSerializedSignature,
 } from "@mysten/sui/cryptography";
-import { getJsonRpcFullnodeUrl, SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { JsonRpcHTTPTransport, SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
 import { Transaction } from "@mysten/sui/transactions";
 import { publicKeyFromRawBytes } from "@mysten/sui/verify";
 
+import { getSuiRpcEndpoints, suiRpcFetch } from "@/lib/sui-rpc";
+
 const SUI_COIN_TYPE = "0x2::sui::SUI";
 const GAS_BUDGET_RESERVE_MIST = 100_000_000n; // 0.1 SUI reserved for gas
 
@@ -25,7 +27,13 @@ export type SuiClientNetwork = "mainnet" | "testnet";
 export function getSuiClient(
   network: SuiClientNetwork = "mainnet"
 ): SuiJsonRpcClient {
-  return new SuiJsonRpcClient({ url: getJsonRpcFullnodeUrl(network), network });
+  return new SuiJsonRpcClient({
+    network,
+    transport: new JsonRpcHTTPTransport({
+      url: getSuiRpcEndpoints(network)[0],
+      fetch: suiRpcFetch(network),
+    }),
+  });
 }
 
 /**
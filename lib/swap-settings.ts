@@ -0,0 +1,75 @@
+/**
+ * Swap / bridge preferences kept on device (SecureStore, like trade-settings.ts), shared by the swap, LST
+ * and send-to-name flows. Slippage is passed to LI.FI quotes and routes, and bounds DeepBook direct swaps
+ * (minOut = quote × (1 − slippage)).
+ * The value is cached in memory and pushed to every mounted useSwapSlippageBps, so a change on one screen
+ * shows up on the others without a reload.
+ */
+
+import * as SecureStore from "expo-secure-store";
+import { useCallback, useEffect, useState } from "react";
+import { formatSlippageBps } from "@/lib/trade-settings";
+
+const SWAP_SLIPPAGE_KEY = "ghostwater_swap_slippage_bps";
+
+/** 0.5%. */
+export const DEFAULT_SWAP_SLIPPAGE_BPS = 50;
+/** 10%: a wider tolerance leaves the swap effectively unprotected. */
+export const MAX_SWAP_SLIPPAGE_BPS = 1_000;
+export const SWAP_SLIPPAGE_PRESETS_BPS = [10, 50, 100, 300];
+
+let cachedBps: number | null = null;
+const listeners = new Set<(bps: number) => void>();
+
+function isValidSwapSlippageBps(bps: number): boolean {
+  return Number.isInteger(bps) && bps >= 1 && bps <= MAX_SWAP_SLIPPAGE_BPS;
+}
+
+/** Fraction as LI.FI expects it (50 bps -> 0.005). */
+export function slippageBpsToFraction(bps: number): number {
+  return bps / 10_000;
+}
+
+export async function getSwapSlippageBps(): Promise<number> {
+  if (cachedBps != null) return cachedBps;
+  try {
+    const raw = await SecureStore.getItemAsync(SWAP_SLIPPAGE_KEY);
+    const bps = raw != null ? Number(raw) : NaN;
+    cachedBps = isValidSwapSlippageBps(bps) ? bps : DEFAULT_SWAP_SLIPPAGE_BPS;
+  } catch {
+    cachedBps = DEFAULT_SWAP_SLIPPAGE_BPS;
+  }
+  return cachedBps;
+}
+
+export async function setSwapSlippageBps(bps: number): Promise<void> {
+  if (!isValidSwapSlippageBps(bps)) {
+    throw new Error(
+      `Slippage must be between 0.01% and ${formatSlippageBps(MAX_SWAP_SLIPPAGE_BPS)}`
+    );
+  }
+  await SecureStore.setItemAsync(SWAP_SLIPPAGE_KEY, String(bps));
+  cachedBps = bps;
+  listeners.forEach((listener) => listener(bps));
+}
+
+/** Saved swap slippage (bps) with a setter that persists; starts at the default until storage loads. */
+export function useSwapSlippageBps() {
+  const [slippageBps, setState] = useState(cachedBps ?? DEFAULT_SWAP_SLIPPAGE_BPS);
+
+  useEffect(() => {
+    let cancelled = false;
+    getSwapSlippageBps().then((bps) => {
+      if (!cancelled) setState(bps);
+    });
+    listeners.add(setState);
+    return () => {
+      cancelled = true;
+      listeners.delete(setState);
+    };
+  }, []);
+
+  const update = useCallback((bps: number) => setSwapSlippageBps(bps), []);
+
+  return { slippageBps, setSlippageBps: update };
+}
@@ -0,0 +1,64 @@
+/**
+ * Trading preferences kept on device (SecureStore, like margin-manager-storage.ts).
+ * Max slippage bounds market orders, position closes and "deposit & open position": the backend places
+ * them as IOC limit orders at the book / oracle price ± this many basis points.
+ */
+
+import * as SecureStore from "expo-secure-store";
+import { useCallback, useEffect, useState } from "react";
+
+const MAX_SLIPPAGE_KEY = "ghostwater_max_slippage_bps";
+
+/** 1%. */
+export const DEFAULT_MAX_SLIPPAGE_BPS = 100;
+/** Same cap as the backend (MAX_SLIPPAGE_BPS in slippage-limit.ts). */
+export const MAX_SLIPPAGE_BPS_LIMIT = 5_000;
+export const SLIPPAGE_PRESETS_BPS = [10, 50, 100, 300];
+
+function isValidSlippageBps(bps: number): boolean {
+  return Number.isInteger(bps) && bps >= 1 && bps <= MAX_SLIPPAGE_BPS_LIMIT;
+}
+
+/** "0.5%" for 50 bps. */
+export function formatSlippageBps(bps: number): string {
+  return `${Number((bps / 100).toFixed(2))}%`;
+}
+
+export async function getMaxSlippageBps(): Promise<number> {
+  try {
+    const raw = await SecureStore.getItemAsync(MAX_SLIPPAGE_KEY);
+    const bps = raw != null ? Number(raw) : NaN;
+    return isValidSlippageBps(bps) ? bps : DEFAULT_MAX_SLIPPAGE_BPS;
+  } catch {
+    return DEFAULT_MAX_SLIPPAGE_BPS;
+  }
+}
+
+export async function setMaxSlippageBps(bps: number): Promise<void> {
+  if (!isValidSlippageBps(bps)) {
+    throw new Error(`Slippage must be between 0.01% and ${formatSlippageBps(MAX_SLIPPAGE_BPS_LIMIT)}`);
+  }
+  await SecureStore.setItemAsync(MAX_SLIPPAGE_KEY, String(bps));
+}
+
+/** Saved max slippage (bps) with a setter that persists; starts at the default until storage loads. */
+export function useMaxSlippageBps() {
+  const [maxSlippageBps, setState] = useState(DEFAULT_MAX_SLIPPAGE_BPS);
+
+  useEffect(() => {
+    let cancelled = false;
+    getMaxSlippageBps().then((bps) => {
+      if (!cancelled) setState(bps);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const update = useCallback(async (bps: number) => {
+    await setMaxSlippageBps(bps);
+    setState(bps);
+  }, []);
+
+  return { maxSlippageBps, setMaxSlippageBps: update };
+}
@@ -0,0 +1,468 @@
+/**
+ * Persisted tracking for LI.FI transfers (bridges, cross-chain swaps / sends, LST stakes), keyed by the
+ * source-chain tx hash. Transfers are stored in SecureStore so that killing the app does not lose an
+ * in-flight bridge: startTransferTracker (mounted once in the app layout) reloads them and resumes
+ * fetchLifiStatus polling, and polls again whenever the app returns to the foreground. Each transfer
+ * has its own key (SecureStore values are limited to 2048 bytes) plus an index key listing the hashes.
+ *
+ * A transfer can carry a follow-up step (e.g. the margin deposit + order of "deposit & open position"),
+ * stored with everything needed to run it as the user asked. Screens that can run it register a handler
+ * for that transfer's hash with registerTransferFollowUp; when the bridge lands the tracker calls the
+ * handler once. If no handler is registered yet (the screen is not open), the follow-up waits until one is.
+ */
+
+import * as SecureStore from "expo-secure-store";
+import { useEffect, useState } from "react";
+import { AppState, type AppStateStatus } from "react-native";
+
+import { fetchLifiStatus, type LifiStatusResponse } from "@/lib/lifi-quote";
+
+const INDEX_KEY = "ghostwater_tracked_transfer_index";
+const KEY_PREFIX = "ghostwater_tracked_transfer";
+/** Under SecureStore's 2048-byte value limit (VALUE_BYTES_LIMIT), with some headroom. */
+const MAX_STORED_BYTES = 1800;
+/** Labels and follow-up errors are cut to this many characters when a transfer does not fit. */
+const MAX_TEXT_CHARS = 120;
+
+const POLL_MS = 6000;
+/** Consecutive NOT_FOUND answers before giving up (the tx was likely never indexed by LI.FI). */
+const MAX_NOT_FOUND = 10;
+/** Stop polling a transfer this long after it was sent; bridges normally land within minutes. */
+const TRACK_TIMEOUT_MS = 6 * 60 * 60 * 1000;
+/** Finished transfers are dropped on load after this long. */
+const KEEP_FINISHED_MS = 24 * 60 * 60 * 1000;
+/** Keeps the index key and the number of stored keys small; the oldest finished transfers go first. */
+const MAX_TRACKED = 10;
+
+export type TrackedTransferKind =
+  | "bridge_to_margin"
+  | "withdraw_bridge"
+  | "swap"
+  | "lst"
+  | "send";
+
+/** The order the user set up before bridging; "deposit & open position" places exactly this. */
+export type DepositAndOpenIntent = {
+  side: "long" | "short";
+  leverage: number;
+  /** Market order slippage limit in basis points. */
+  maxSlippageBps: number;
+  /** Smallest bridged amount the user accepted (raw units of the received token, from the quote). */
+  minReceivedRaw: string;
+};
+
+/** Step to run on the destination chain once the bridge lands. */
+export type TransferFollowUp = {
+  type: "deposit_and_open";
+  poolName: string;
+  intent: DepositAndOpenIntent;
+};
+
+export type TransferFollowUpState = "waiting" | "running" | "done" | "failed";
+
+export type TrackedTransfer = {
+  txHash: string;
+  /** LI.FI chain id of the source tx (speeds up status lookups). */
+  fromChainId?: number;
+  kind: TrackedTransferKind;
+  /** Short description for the in-flight indicator, e.g. "Base → Sui USDC". */
+  label: string;
+  /** ms since epoch. */
+  startedAt: number;
+  /** Latest LI.FI status; null until the first poll answers. */
+  status: LifiStatusResponse | null;
+  notFoundCount: number;
+  /** Polling stopped without DONE / FAILED (never found, or past TRACK_TIMEOUT_MS). */
+  expired: boolean;
+  followUp?: TransferFollowUp;
+  followUpState?: TransferFollowUpState;
+  followUpError?: string;
+};
+
+export type TrackTransferParams = {
+  txHash: string;
+  fromChainId?: number;
+  kind: TrackedTransferKind;
+  label: string;
+  followUp?: TransferFollowUp;
+};
+
+/** Resolve true when the step completed; false (or throw) leaves it failed for a manual retry. */
+export type TransferFollowUpHandler = (transfer: TrackedTransfer) => Promise<boolean>;
+
+let transfers: TrackedTransfer[] = [];
+let loadPromise: Promise<void> | null = null;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let pollInFlight = false;
+/** Hashes that currently have a stored key, so dropped transfers can be deleted. */
+let storedHashes = new Set<string>();
+let persistQueue: Promise<void> = Promise.resolve();
+const listeners = new Set<(list: TrackedTransfer[]) => void>();
+const followUpHandlers = new Map<string, TransferFollowUpHandler>();
+
+function isFinalStatus(status: LifiStatusResponse | null): boolean {
+  return status?.status === "DONE" || status?.status === "FAILED";
+}
+
+/** Still waiting on LI.FI: not DONE / FAILED and not given up on. */
+export function isTransferInFlight(transfer: TrackedTransfer): boolean {
+  return !transfer.expired && !isFinalStatus(transfer.status);
+}
+
+/** Landed, but its follow-up has not completed (waiting for a screen, running, or failed). */
+export function transferNeedsFollowUp(transfer: TrackedTransfer): boolean {
+  return (
+    transfer.status?.status === "DONE" &&
+    transfer.followUp != null &&
+    transfer.followUpState !== "done"
+  );
+}
+
+/** Keep only what the screens and indicator read, so the stored JSON stays small. */
+function trimStatus(status: LifiStatusResponse): LifiStatusResponse {
+  const side = (s: LifiStatusResponse["sending"]) =>
+    s
+      ? {
+          txHash: s.txHash,
+          txLink: s.txLink,
+          amount: s.amount,
+          token: s.token
+            ? {
+                symbol: s.token.symbol,
+                decimals: s.token.decimals,
+                chainId: s.token.chainId,
+                address: s.token.address,
+              }
+            : undefined,
+          chainId: s.chainId,
+        }
+      : undefined;
+  return {
+    status: status.status,
+    substatus: status.substatus,
+    substatusMessage: status.substatusMessage,
+    sending: side(status.sending),
+    receiving: side(status.receiving),
+    lifiExplorerLink: status.lifiExplorerLink,
+  };
+}
+
+/** SecureStore keys allow only [A-Za-z0-9._-]; EVM hashes and Sui digests already fit. */
+function storageKey(txHash: string): string {
+  return `${KEY_PREFIX}_${txHash.replace(/[^A-Za-z0-9._-]/g, "_")}`;
+}
+
+function byteLength(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
+
+function truncate(text: string | undefined): string | undefined {
+  return text != null && text.length > MAX_TEXT_CHARS ? `${text.slice(0, MAX_TEXT_CHARS - 1)}…` : text;
+}
+
+/**
+ * JSON for one transfer, shrunk until it fits MAX_STORED_BYTES: first without the LI.FI message and
+ * links, then with shortened texts. Null when even that is too big (the transfer is kept in memory only).
+ */
+function serializeTransfer(transfer: TrackedTransfer): string | null {
+  const withoutLinks = (side: LifiStatusResponse["sending"]) =>
+    side ? { ...side, txLink: "" } : undefined;
+  const compact: TrackedTransfer = {
+    ...transfer,
+    status: transfer.status
+      ? {
+          ...transfer.status,
+          substatusMessage: undefined,
+          lifiExplorerLink: undefined,
+          sending: withoutLinks(transfer.status.sending),
+          receiving: withoutLinks(transfer.status.receiving),
+        }
+      : null,
+  };
+  const candidates = [
+    transfer,
+    compact,
+    { ...compact, label: truncate(compact.label) ?? "", followUpError: truncate(compact.followUpError) },
+  ];
+  for (const candidate of candidates) {
+    const json = JSON.stringify(candidate);
+    if (byteLength(json) <= MAX_STORED_BYTES) return json;
+  }
+  return null;
+}
+
+async function writeStore(list: TrackedTransfer[]): Promise<void> {
+  const saved: string[] = [];
+  for (const transfer of list) {
+    const json = serializeTransfer(transfer);
+    if (json == null) {
+      if (__DEV__) console.warn("[TransferTracker] transfer too large to store", transfer.txHash);
+      continue;
+    }
+    await SecureStore.setItemAsync(storageKey(transfer.txHash), json);
+    saved.push(transfer.txHash);
+  }
+  await SecureStore.setItemAsync(INDEX_KEY, JSON.stringify(saved));
+  const keep = new Set(saved);
+  for (const txHash of storedHashes) {
+    if (!keep.has(txHash)) await SecureStore.deleteItemAsync(storageKey(txHash));
+  }
+  storedHashes = keep;
+}
+
+/** Writes run one after another so an older snapshot never lands after a newer one. */
+function persist(): Promise<void> {
+  const snapshot = transfers;
+  persistQueue = persistQueue
+    .then(() => writeStore(snapshot))
+    .catch((e) => {
+      if (__DEV__) console.warn("[TransferTracker] persist failed", e);
+    });
+  return persistQueue;
+}
+
+async function readStore(): Promise<TrackedTransfer[]> {
+  let hashes: string[] = [];
+  try {
+    const raw = await SecureStore.getItemAsync(INDEX_KEY);
+    if (raw) hashes = JSON.parse(raw) as string[];
+  } catch {
+    return [];
+  }
+  storedHashes = new Set(hashes);
+  const stored: TrackedTransfer[] = [];
+  for (const txHash of hashes) {
+    try {
+      const raw = await SecureStore.getItemAsync(storageKey(txHash));
+      if (raw) stored.push(JSON.parse(raw) as TrackedTransfer);
+    } catch {
+      // Unreadable entry: skip it; the next persist deletes its key.
+    }
+  }
+  return stored;
+}
+
+function commit(next: TrackedTransfer[], save = true): void {
+  transfers = next;
+  listeners.forEach((listener) => listener(transfers));
+  if (save) void persist();
+}
+
+function patchTransfer(txHash: string, patch: Partial<TrackedTransfer>, save = true): void {
+  commit(
+    transfers.map((t) => (t.txHash === txHash ? { ...t, ...patch } : t)),
+    save
+  );
+}
+
+/** Drop old finished transfers, then cap the list (oldest finished first, then oldest overall). */
+function prune(list: TrackedTransfer[], now: number): TrackedTransfer[] {
+  const kept = list.filter(
+    (t) =>
+      isTransferInFlight(t) ||
+      transferNeedsFollowUp(t) ||
+      now - t.startedAt < KEEP_FINISHED_MS
+  );
+  if (kept.length <= MAX_TRACKED) return kept;
+  const active = (t: TrackedTransfer) => isTransferInFlight(t) || transferNeedsFollowUp(t);
+  const byAge = [...kept].sort((a, b) => a.startedAt - b.startedAt);
+  const drop = new Set<string>();
+  for (const t of byAge.filter((t) => !active(t))) {
+    if (kept.length - drop.size <= MAX_TRACKED) break;
+    drop.add(t.txHash);
+  }
+  for (const t of byAge) {
+    if (kept.length - drop.size <= MAX_TRACKED) break;
+    drop.add(t.txHash);
+  }
+  return kept.filter((t) => !drop.has(t.txHash));
+}
+
+/** Load stored transfers once. A follow-up that was running when the app died is left for a manual retry. */
+export function loadTrackedTransfers(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      const stored = await readStore();
+      const restored = stored.map((t) =>
+        t.followUpState === "running"
+          ? { ...t, followUpState: "failed" as const, followUpError: "Interrupted before it finished." }
+          : t
+      );
+      commit(prune(restored, Date.now()));
+    })();
+  }
+  return loadPromise;
+}
+
+async function runFollowUp(txHash: string): Promise<void> {
+  const transfer = transfers.find((t) => t.txHash === txHash);
+  if (
+    !transfer?.followUp ||
+    transfer.status?.status !== "DONE" ||
+    transfer.followUpState !== "waiting"
+  ) {
+    return;
+  }
+  const handler = followUpHandlers.get(txHash);
+  if (!handler) return;
+  patchTransfer(txHash, { followUpState: "running", followUpError: undefined });
+  try {
+    const ok = await handler(transfer);
+    patchTransfer(txHash, ok ? { followUpState: "done" } : { followUpState: "failed" });
+  } catch (e) {
+    patchTransfer(txHash, {
+      followUpState: "failed",
+      followUpError: e instanceof Error ? e.message : String(e),
+    });
+  }
+}
+
+async function pollTransfer(transfer: TrackedTransfer): Promise<void> {
+  if (Date.now() - transfer.startedAt > TRACK_TIMEOUT_MS) {
+    patchTransfer(transfer.txHash, { expired: true });
+    return;
+  }
+  let status: LifiStatusResponse;
+  try {
+    status = trimStatus(await fetchLifiStatus(transfer.txHash, transfer.fromChainId));
+  } catch {
+    return; // keep polling on network error
+  }
+  const notFoundCount = status.status === "NOT_FOUND" ? transfer.notFoundCount + 1 : 0;
+  const changed =
+    status.status !== transfer.status?.status ||
+    status.substatus !== transfer.status?.substatus ||
+    notFoundCount !== transfer.notFoundCount;
+  patchTransfer(
+    transfer.txHash,
+    { status, notFoundCount, expired: notFoundCount >= MAX_NOT_FOUND },
+    changed
+  );
+  if (status.status === "DONE" && transfer.status?.status !== "DONE") {
+    void runFollowUp(transfer.txHash);
+  }
+}
+
+async function pollAll(): Promise<void> {
+  if (pollInFlight) return;
+  pollInFlight = true;
+  try {
+    for (const transfer of transfers.filter(isTransferInFlight)) {
+      await pollTransfer(transfer);
+    }
+  } finally {
+    pollInFlight = false;
+  }
+  if (!transfers.some(isTransferInFlight) && pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
+
+function ensurePolling(): void {
+  if (pollTimer || !transfers.some(isTransferInFlight)) return;
+  pollTimer = setInterval(() => void pollAll(), POLL_MS);
+}
+
+/**
+ * Load stored transfers, resume polling and poll again on return to the foreground.
+ * Call once from the app layout; returns the cleanup.
+ */
+export function startTransferTracker(): () => void {
+  let stopped = false;
+  loadTrackedTransfers().then(() => {
+    if (stopped) return;
+    void pollAll();
+    ensurePolling();
+    // Landed while the app was closed, or never finished: hand to a handler if one is registered.
+    transfers
+      .filter((t) => t.status?.status === "DONE" && t.followUpState === "waiting")
+      .forEach((t) => void runFollowUp(t.txHash));
+  });
+  const sub = AppState.addEventListener("change", (nextState: AppStateStatus) => {
+    if (nextState !== "active") return;
+    void pollAll();
+    ensurePolling();
+  });
+  return () => {
+    stopped = true;
+    sub.remove();
+    if (pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  };
+}
+
+/** Start tracking a transfer right after its source tx is sent. Tracking the same hash again is a no-op. */
+export async function trackTransfer(params: TrackTransferParams): Promise<void> {
+  await loadTrackedTransfers();
+  if (transfers.some((t) => t.txHash === params.txHash)) return;
+  const transfer: TrackedTransfer = {
+    txHash: params.txHash,
+    fromChainId: params.fromChainId,
+    kind: params.kind,
+    label: params.label,
+    startedAt: Date.now(),
+    status: null,
+    notFoundCount: 0,
+    expired: false,
+    ...(params.followUp ? { followUp: params.followUp, followUpState: "waiting" as const } : {}),
+  };
+  commit(prune([transfer, ...transfers], transfer.startedAt));
+  void pollTransfer(transfer);
+  ensurePolling();
+}
+
+export function dismissTransfer(txHash: string): void {
+  commit(transfers.filter((t) => t.txHash !== txHash));
+}
+
+/** The follow-up was completed outside the tracker (e.g. the screen's own button). */
+export function markTransferFollowUpDone(txHash: string): void {
+  if (!transfers.some((t) => t.txHash === txHash && t.followUp)) return;
+  patchTransfer(txHash, { followUpState: "done", followUpError: undefined });
+}
+
+/** Put a failed follow-up back in line; it runs now if a handler is registered, else when one is. */
+export function retryTransferFollowUp(txHash: string): void {
+  patchTransfer(txHash, { followUpState: "waiting", followUpError: undefined });
+  void runFollowUp(txHash);
+}
+
+/**
+ * Handle the follow-up of one transfer (by source tx hash) while registered; it runs immediately if the
+ * transfer has already landed. Returns the unregister function.
+ */
+export function registerTransferFollowUp(
+  txHash: string,
+  handler: TransferFollowUpHandler
+): () => void {
+  followUpHandlers.set(txHash, handler);
+  void runFollowUp(txHash);
+  return () => {
+    if (followUpHandlers.get(txHash) === handler) followUpHandlers.delete(txHash);
+  };
+}
+
+/** All tracked transfers, newest first; updates on every poll. */
+export function useTrackedTransfers(): TrackedTransfer[] {
+  const [list, setList] = useState(transfers);
+
+  useEffect(() => {
+    listeners.add(setList);
+    setList(transfers);
+    void loadTrackedTransfers();
+    return () => {
+      listeners.delete(setList);
+    };
+  }, []);
+
+  return list;
+}
+
+/** One transfer by source tx hash (null when not tracked). */
+export function useTrackedTransfer(txHash: string | null): TrackedTransfer | null {
+  const list = useTrackedTransfers();
+  return txHash ? list.find((t) => t.txHash === txHash) ?? null : null;
+}